@@ -11,6 +11,7 @@ import ChatLogs from "./pages/ChatLogs";
 import Analytics from "./pages/Analytics";
 import Playground from "./pages/Playground";
 import Settings from "./pages/Settings";
+import HandoffInbox from "./pages/HandoffInbox";
 import UiFlows from "./pages/UiFlows";
 import UiFlowCanvas from "./pages/UiFlowCanvas";
 import DashboardLayout from "./components/DashboardLayout";
@@ -28,6 +29,7 @@ function AuthenticatedRoutes() {
         <Route path="/agents/:id/playground" component={Playground} />
         <Route path="/ui-flows" component={UiFlows} />
         <Route path="/ui-flows/:id" component={UiFlowCanvas} />
+        <Route path="/handoffs" component={HandoffInbox} />
         <Route path="/settings" component={Settings} />
         <Route path="/404" component={NotFound} />
         <Route component={NotFound} />
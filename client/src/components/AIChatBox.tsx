@@ -32,6 +32,12 @@ export type AIChatBoxProps = {
    */
   isLoading?: boolean;
 
+  /**
+   * Text of the response received so far while it is streamed;
+   * shown in place of the loading indicator
+   */
+  streamingContent?: string;
+
   /**
    * Placeholder text for the input field
    */
@@ -66,7 +72,7 @@ export type AIChatBoxProps = {
  * - Matches server-side Message interface for seamless integration
  * - Markdown rendering with Streamdown
  * - Auto-scrolls to latest message
- * - Loading states
+ * - Loading states, with the partial response while it is streamed
  * - Uses global theme colors from index.css
  *
  * @example
@@ -114,6 +120,7 @@ export function AIChatBox({
   messages,
   onSendMessage,
   isLoading = false,
+  streamingContent,
   placeholder = "Type your message...",
   className,
   height = "600px",
@@ -292,8 +299,14 @@ export function AIChatBox({
                   <div className="size-8 shrink-0 mt-1 rounded-full bg-primary/10 flex items-center justify-center">
                     <Sparkles className="size-4 text-primary" />
                   </div>
-                  <div className="rounded-lg bg-muted px-4 py-2.5">
-                    <Loader2 className="size-4 animate-spin text-muted-foreground" />
+                  <div className="max-w-[80%] rounded-lg bg-muted px-4 py-2.5">
+                    {streamingContent ? (
+                      <div className="prose prose-sm dark:prose-invert max-w-none">
+                        <Streamdown>{streamingContent}</Streamdown>
+                      </div>
+                    ) : (
+                      <Loader2 className="size-4 animate-spin text-muted-foreground" />
+                    )}
                   </div>
                 </div>
               )}
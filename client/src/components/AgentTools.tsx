@@ -0,0 +1,334 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import type { AgentTool } from "@shared/types";
+import { Pencil, Plus, Trash2, Wrench } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+const EXAMPLE_PARAMETERS = `{
+  "type": "object",
+  "properties": {
+    "orderId": { "type": "string", "description": "Order number" }
+  },
+  "required": ["orderId"]
+}`;
+
+// Parse a JSON object typed into a form field; empty means not set
+function parseJsonObject(text: string, field: string): Record<string, unknown> | undefined {
+  if (!text.trim()) return undefined;
+  const value = JSON.parse(text);
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`${field} must be a JSON object`);
+  }
+  return value;
+}
+
+interface AgentToolDialogProps {
+  agentId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Tool being edited; omitted to add a new one */
+  tool?: AgentTool;
+}
+
+/**
+ * Add or edit a webhook or built-in tool
+ */
+function AgentToolDialog({ agentId, open, onOpenChange, tool }: AgentToolDialogProps) {
+  const [type, setType] = useState<"webhook" | "builtin">("webhook");
+  const [builtin, setBuiltin] = useState("");
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [url, setUrl] = useState("");
+  const [headers, setHeaders] = useState("");
+  const [parameters, setParameters] = useState("");
+  const [timeoutMs, setTimeoutMs] = useState("");
+  const utils = trpc.useUtils();
+
+  const { data: builtinTools } = trpc.agent.listBuiltinTools.useQuery();
+
+  useEffect(() => {
+    if (open) {
+      setType(tool?.type ?? "webhook");
+      setBuiltin(tool?.builtin ?? "");
+      setName(tool?.name ?? "");
+      setDescription(tool?.description ?? "");
+      setUrl(tool?.url ?? "");
+      setHeaders(tool?.headers ? JSON.stringify(tool.headers, null, 2) : "");
+      setParameters(tool?.parameters ? JSON.stringify(tool.parameters, null, 2) : "");
+      setTimeoutMs(tool?.timeoutMs ? String(tool.timeoutMs) : "");
+    }
+  }, [open, tool]);
+
+  const onSuccess = () => {
+    toast.success(tool ? "Tool updated" : "Tool added");
+    utils.agent.listTools.invalidate({ agentId });
+    onOpenChange(false);
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Failed to save tool");
+  };
+  const createMutation = trpc.agent.createTool.useMutation({ onSuccess, onError });
+  const updateMutation = trpc.agent.updateTool.useMutation({ onSuccess, onError });
+
+  const selectBuiltin = (value: string) => {
+    setBuiltin(value);
+    const selected = builtinTools?.find(t => t.name === value);
+    if (selected) {
+      setName(current => current || selected.name);
+      setDescription(current => current || selected.description);
+    }
+  };
+
+  const handleSave = () => {
+    let values;
+    try {
+      values = {
+        name: name.trim(),
+        description: description.trim() || undefined,
+        type,
+        ...(type === "builtin"
+          ? { builtin }
+          : {
+              url: url.trim(),
+              headers: (parseJsonObject(headers, "Headers") as Record<string, string> | undefined) ?? null,
+              parameters: parseJsonObject(parameters, "Parameters") ?? null,
+              timeoutMs: timeoutMs ? parseInt(timeoutMs) : null,
+            }),
+      };
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Invalid JSON");
+      return;
+    }
+
+    if (tool) {
+      updateMutation.mutate({ id: tool.id, ...values });
+    } else {
+      createMutation.mutate({ agentId, ...values });
+    }
+  };
+
+  const canSave = name.trim() && (type === "builtin" ? builtin : url.trim() && description.trim());
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{tool ? "Edit Tool" : "Add Tool"}</DialogTitle>
+          <DialogDescription>
+            The model decides when to call the tool from its name and description.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(v: "webhook" | "builtin") => setType(v)} disabled={!!tool}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="webhook">HTTP webhook</SelectItem>
+                <SelectItem value="builtin">Built-in</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {type === "builtin" && (
+            <div className="space-y-2">
+              <Label>Built-in Tool</Label>
+              <Select value={builtin} onValueChange={selectBuiltin}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a tool" />
+                </SelectTrigger>
+                <SelectContent>
+                  {builtinTools?.map((t) => (
+                    <SelectItem key={t.name} value={t.name}>{t.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="lookup_order" />
+          </div>
+          <div className="space-y-2">
+            <Label>Description</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              placeholder="Look up the status of an order by its number."
+            />
+          </div>
+          {type === "webhook" && (
+            <>
+              <div className="space-y-2">
+                <Label>URL</Label>
+                <Input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://api.example.com/tools/order" />
+                <p className="text-xs text-muted-foreground">
+                  Called with a POST of {"{ tool, arguments, agentId, sessionId }"}; the response body is given to the model
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Parameters (JSON schema)</Label>
+                <Textarea
+                  value={parameters}
+                  onChange={(e) => setParameters(e.target.value)}
+                  rows={6}
+                  className="font-mono text-xs"
+                  placeholder={EXAMPLE_PARAMETERS}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Headers (JSON)</Label>
+                <Textarea
+                  value={headers}
+                  onChange={(e) => setHeaders(e.target.value)}
+                  rows={2}
+                  className="font-mono text-xs"
+                  placeholder={'{ "Authorization": "Bearer ..." }'}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Timeout (ms)</Label>
+                <Input
+                  type="number"
+                  value={timeoutMs}
+                  onChange={(e) => setTimeoutMs(e.target.value)}
+                  placeholder="10000"
+                  min={1}
+                  max={30000}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || createMutation.isPending || updateMutation.isPending}>
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AgentToolsProps {
+  agentId: number;
+}
+
+/**
+ * Tools the agent's model can call while replying
+ */
+export function AgentTools({ agentId }: AgentToolsProps) {
+  const [editing, setEditing] = useState<{ tool?: AgentTool } | null>(null);
+
+  const { data: tools, refetch } = trpc.agent.listTools.useQuery({ agentId });
+
+  const updateMutation = trpc.agent.updateTool.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(error.message || "Failed to update tool");
+    },
+  });
+
+  const deleteMutation = trpc.agent.deleteTool.useMutation({
+    onSuccess: () => {
+      toast.success("Tool deleted");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete tool");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Tools</CardTitle>
+            <CardDescription>
+              Webhooks and built-in tools the agent can call while replying; each call is shown in the chat logs
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing({})}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Tool
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {tools && tools.length > 0 ? (
+          <div className="space-y-2">
+            {tools.map((tool) => (
+              <div key={tool.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-mono text-sm font-medium">{tool.name}</p>
+                    <Badge variant="outline">{tool.type === "builtin" ? "Built-in" : "Webhook"}</Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{tool.description}</p>
+                  {tool.url && <p className="text-xs text-muted-foreground truncate">{tool.url}</p>}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch
+                    checked={tool.enabled === 1}
+                    onCheckedChange={(enabled) => updateMutation.mutate({ id: tool.id, enabled })}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => setEditing({ tool })}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate({ id: tool.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-6 text-muted-foreground">
+            <Wrench className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No tools yet. Add a webhook or a built-in tool such as knowledge base search.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <AgentToolDialog
+        agentId={agentId}
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        tool={editing?.tool}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { trpc } from "@/lib/trpc";
+import { AlertCircle, CheckCircle, FileArchive, FolderOpen, Loader2, MinusCircle, PackageOpen } from "lucide-react";
+import { useRef, useState } from "react";
+import { toast } from "sonner";
+
+interface BulkImportProps {
+  agentId: number;
+  onImported: () => void;
+}
+
+type ImportReport = {
+  files: Array<{ path: string; status: "queued" | "skipped" | "failed"; updated?: boolean; reason?: string }>;
+  queued: number;
+  skipped: number;
+  failed: number;
+};
+
+// Matches the server's archive limit
+const MAX_BUNDLE_BYTES = 30 * 1024 * 1024;
+const SUPPORTED_EXTENSIONS = /\.(txt|md|markdown|csv|html?|pdf|docx|json|jsonl|ndjson)$/i;
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // Strip the "data:...;base64," prefix
+    reader.onload = () => resolve((reader.result as string).replace(/^data:[^,]*,/, ""));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Import of many training documents at once from a ZIP archive or a local
+ * folder, with a report of what happened to each file
+ */
+export function BulkImport({ agentId, onImported }: BulkImportProps) {
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<{ name: string; result: ImportReport } | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const mutationOptions = (name: string, extraSkipped: ImportReport["files"] = []) => ({
+    onSuccess: (result: ImportReport) => {
+      setReport({
+        name,
+        result: {
+          ...result,
+          files: [...result.files, ...extraSkipped],
+          skipped: result.skipped + extraSkipped.length,
+        },
+      });
+      onImported();
+    },
+    onError: (error: { message: string }) => {
+      toast.error(error.message || "Import failed");
+    },
+  });
+
+  const importArchiveMutation = trpc.rag.importArchive.useMutation();
+  const importFolderMutation = trpc.rag.importFolder.useMutation();
+  const busy = reading || importArchiveMutation.isPending || importFolderMutation.isPending;
+
+  const handleArchive = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_BUNDLE_BYTES) {
+      toast.error("Archive exceeds 30MB limit");
+      return;
+    }
+
+    setReading(true);
+    try {
+      const content = await readAsBase64(file);
+      importArchiveMutation.mutate({ agentId, fileName: file.name, content }, mutationOptions(file.name));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleFolder = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const all = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (all.length === 0) return;
+
+    const folderName = all[0].webkitRelativePath.split("/")[0] || "folder";
+    // Only supported files are sent; the rest are reported as skipped here
+    const supported = all.filter((file) => SUPPORTED_EXTENSIONS.test(file.name));
+    const unsupported = all
+      .filter((file) => !SUPPORTED_EXTENSIONS.test(file.name))
+      .map((file) => ({ path: file.webkitRelativePath, status: "skipped" as const, reason: "Unsupported file type" }));
+
+    if (supported.length === 0) {
+      toast.error("The folder has no .txt, .md, .csv, .pdf, .docx, .html, .json or .jsonl files");
+      return;
+    }
+    if (supported.reduce((sum, file) => sum + file.size, 0) > MAX_BUNDLE_BYTES) {
+      toast.error("Folder exceeds 30MB limit; import it in parts or as a ZIP archive");
+      return;
+    }
+
+    setReading(true);
+    try {
+      const files = await Promise.all(
+        supported.map(async (file) => ({
+          // Paths are relative to the chosen folder
+          path: file.webkitRelativePath.split("/").slice(1).join("/") || file.name,
+          content: await readAsBase64(file),
+        }))
+      );
+      importFolderMutation.mutate({ agentId, folderName, files }, mutationOptions(folderName, unsupported));
+    } finally {
+      setReading(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={busy}>
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <PackageOpen className="w-4 h-4 mr-2" />}
+            Bulk Import
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => archiveInputRef.current?.click()}>
+            <FileArchive className="w-4 h-4 mr-2" />
+            ZIP archive
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => folderInputRef.current?.click()}>
+            <FolderOpen className="w-4 h-4 mr-2" />
+            Folder
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input ref={archiveInputRef} type="file" accept=".zip" onChange={handleArchive} className="hidden" />
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        onChange={handleFolder}
+        className="hidden"
+        // Not in React's input attribute types
+        {...{ webkitdirectory: "" }}
+      />
+
+      <Dialog open={report !== null} onOpenChange={(open) => !open && setReport(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Imported {report?.name}</DialogTitle>
+            <DialogDescription>
+              {report?.result.queued} queued for processing, {report?.result.skipped} skipped,{" "}
+              {report?.result.failed} failed
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-1 max-h-96 overflow-y-auto">
+            {report?.result.files.map((file, index) => (
+              <div key={index} className="flex items-start gap-2 p-2 border rounded-md text-sm">
+                {file.status === "queued" ? (
+                  <CheckCircle className="w-4 h-4 text-green-500 shrink-0 mt-0.5" />
+                ) : file.status === "failed" ? (
+                  <AlertCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+                ) : (
+                  <MinusCircle className="w-4 h-4 text-muted-foreground shrink-0 mt-0.5" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="font-mono text-xs truncate">{file.path}</p>
+                  {file.reason && <p className="text-xs text-muted-foreground">{file.reason}</p>}
+                </div>
+                {file.updated && <Badge variant="outline">New version</Badge>}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
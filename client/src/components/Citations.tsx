@@ -0,0 +1,92 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import type { ChatCitation } from "@shared/types";
+import { FileText, Loader2 } from "lucide-react";
+import { useState } from "react";
+
+/**
+ * Citations stored in a chat message's metadata, if any
+ */
+export function getMessageCitations(metadata: unknown): ChatCitation[] {
+  const citations = (metadata as { citations?: unknown } | null | undefined)?.citations;
+  return Array.isArray(citations) ? (citations as ChatCitation[]) : [];
+}
+
+function formatScores(citation: ChatCitation): string {
+  const score = citation.score.toFixed(3);
+  return citation.rerankScore === undefined ? score : `${score}, rerank ${citation.rerankScore.toFixed(2)}`;
+}
+
+interface CitationsProps {
+  citations: ChatCitation[];
+}
+
+export function Citations({ citations }: CitationsProps) {
+  const [selected, setSelected] = useState<ChatCitation | null>(null);
+
+  // Older citations do not carry the text they quoted; look the chunk up
+  const { data: chunk, isLoading } = trpc.rag.getChunk.useQuery(
+    { documentId: selected?.documentId ?? 0, chunkIndex: selected?.chunkIndex ?? 0 },
+    { enabled: selected !== null && selected.content === undefined }
+  );
+
+  if (citations.length === 0) return null;
+
+  const content = selected?.content ?? chunk?.content;
+  const page = selected?.content !== undefined ? selected.page : chunk?.metadata?.page;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-1.5 mt-2 pt-2 border-t border-border/50">
+        {citations.map((citation) => (
+          <button
+            key={citation.label}
+            type="button"
+            onClick={() => setSelected(citation)}
+            title={`Score: ${formatScores(citation)}`}
+          >
+            <Badge variant="outline" className="cursor-pointer hover:bg-muted/50 font-normal">
+              <FileText className="w-3 h-3 mr-1" />
+              [{citation.label}] {citation.documentName} · chunk {citation.chunkIndex}
+            </Badge>
+          </button>
+        ))}
+      </div>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              [{selected?.label}] {selected?.documentName}
+            </DialogTitle>
+            <DialogDescription>
+              Chunk {selected?.chunkIndex}
+              {typeof page === "number" && ` · page ${page}`}
+              {selected && ` · score ${formatScores(selected)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {content !== undefined ? (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <p className="text-sm whitespace-pre-wrap">{content}</p>
+            </div>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground py-4">
+              This chunk is no longer available. The document may have been deleted or re-indexed.
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
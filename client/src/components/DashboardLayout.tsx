@@ -34,7 +34,8 @@ import {
   Bell,
   Zap,
   ChevronRight,
-  Layers
+  Layers,
+  Headphones
 } from "lucide-react";
 import { CSSProperties, useEffect, useRef, useState } from "react";
 import { useLocation, useParams } from "wouter";
@@ -47,6 +48,7 @@ const mainMenuItems = [
   { icon: LayoutDashboard, label: "Dashboard", path: "/" },
   { icon: Bot, label: "Agents", path: "/agents" },
   { icon: Layers, label: "UI Flows", path: "/ui-flows" },
+  { icon: Headphones, label: "Handoffs", path: "/handoffs" },
   { icon: Settings, label: "Settings", path: "/settings" },
 ];
 
@@ -0,0 +1,164 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { cn } from "@/lib/utils";
+import { format } from "date-fns";
+import { Loader2, RotateCcw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface DocumentVersionsProps {
+  document: { id: number; fileName: string } | null;
+  onClose: () => void;
+}
+
+const CHANGE_LABELS = {
+  created: "Created",
+  updated: "Updated",
+  restored: "Restored",
+  deleted: "Deleted",
+} as const;
+
+/**
+ * Version history of a training document with a diff of each version
+ * against the current one
+ */
+export function DocumentVersions({ document, onClose }: DocumentVersionsProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data: versions, isLoading } = trpc.rag.listDocumentVersions.useQuery(
+    { documentId: document?.id ?? 0 },
+    { enabled: document !== null }
+  );
+  const current = versions?.find((version) => version.change !== "deleted");
+
+  useEffect(() => {
+    setSelectedId(null);
+  }, [document?.id]);
+
+  const { data: diff, isFetching: diffLoading } = trpc.rag.diffDocumentVersions.useQuery(
+    { fromVersionId: selectedId ?? 0, toVersionId: current?.id ?? 0 },
+    { enabled: selectedId !== null && current !== undefined && selectedId !== current.id }
+  );
+
+  const restoreMutation = trpc.rag.restoreDocumentVersion.useMutation({
+    onSuccess: (result) => {
+      toast.success(result.needsProcessing ? "Version restored and queued for embedding" : "Version restored");
+      utils.rag.listDocuments.invalidate();
+      utils.rag.listDocumentVersions.invalidate();
+      setSelectedId(null);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to restore version");
+    },
+  });
+
+  return (
+    <Dialog open={document !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Version History</DialogTitle>
+          <DialogDescription>
+            Every embedded version of {document?.fileName}. Select a version to compare it with the current one.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin mx-auto" />
+        ) : !versions || versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No versions yet. A version is recorded each time the document is embedded with new content.
+          </p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[14rem_1fr]">
+            <div className="space-y-1 max-h-96 overflow-y-auto">
+              {versions.map((version) => (
+                <button
+                  key={version.id}
+                  type="button"
+                  onClick={() => setSelectedId(version.id)}
+                  disabled={version.change === "deleted"}
+                  className={cn(
+                    "w-full text-left p-2 rounded-md border text-sm",
+                    selectedId === version.id ? "bg-muted" : "hover:bg-muted/50",
+                    version.change === "deleted" && "opacity-60"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">v{version.version}</span>
+                    <Badge variant={version.id === current?.id ? "default" : "outline"}>
+                      {version.id === current?.id ? "Current" : CHANGE_LABELS[version.change]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(version.createdAt), "MMM d, yyyy HH:mm")}
+                    {version.change !== "deleted" && ` · ${version.chunkCount} chunks`}
+                    {version.restoredFromVersion !== null && ` · from v${version.restoredFromVersion}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3 min-w-0">
+              {selectedId === null ? (
+                <p className="text-sm text-muted-foreground">Select a version to see what changed since.</p>
+              ) : selectedId === current?.id ? (
+                <p className="text-sm text-muted-foreground">This is the current version.</p>
+              ) : diffLoading || !diff ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm">
+                      v{diff.fromVersion} → v{diff.toVersion}:{" "}
+                      <span className="text-green-500">+{diff.added}</span>{" "}
+                      <span className="text-red-500">−{diff.removed}</span> lines
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restoreMutation.mutate({ versionId: selectedId })}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore v{diff.fromVersion}
+                    </Button>
+                  </div>
+                  <pre className="text-xs font-mono border rounded-md max-h-80 overflow-auto">
+                    {diff.lines.map((line, index) =>
+                      line.type === "skipped" ? (
+                        <div key={index} className="px-2 py-0.5 text-muted-foreground bg-muted/50">
+                          ⋯ {line.count} unchanged line{line.count === 1 ? "" : "s"}
+                        </div>
+                      ) : (
+                        <div
+                          key={index}
+                          className={cn(
+                            "px-2 whitespace-pre-wrap break-words",
+                            line.type === "added" && "bg-green-500/10 text-green-600",
+                            line.type === "removed" && "bg-red-500/10 text-red-600"
+                          )}
+                        >
+                          {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                          {line.text}
+                        </div>
+                      )
+                    )}
+                  </pre>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
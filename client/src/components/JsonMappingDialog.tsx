@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useEffect, useMemo, useState } from "react";
+
+export interface JsonFieldMapping {
+  recordsPath?: string;
+  textFields?: string[];
+  titleField?: string;
+  metadataFields?: string[];
+}
+
+interface JsonMappingDialogProps {
+  file: { name: string; content: string } | null;
+  onCancel: () => void;
+  onConfirm: (mapping: JsonFieldMapping) => void;
+}
+
+const isJsonLines = (fileName: string) => /\.(jsonl|ndjson)$/i.test(fileName);
+
+function getPath(value: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .filter(Boolean)
+    .reduce<unknown>((current, key) => (current && typeof current === "object" ? (current as Record<string, unknown>)[key] : undefined), value);
+}
+
+/**
+ * Dot paths of the fields of a file's first record, as a hint
+ */
+function detectFields(file: { name: string; content: string }, recordsPath: string): string[] {
+  let record: unknown;
+  try {
+    if (isJsonLines(file.name)) {
+      const firstLine = file.content.split("\n").find((line) => line.trim());
+      record = firstLine ? JSON.parse(firstLine) : undefined;
+    } else {
+      const records = getPath(JSON.parse(file.content), recordsPath);
+      record = Array.isArray(records) ? records[0] : records;
+    }
+  } catch {
+    return [];
+  }
+
+  const paths: string[] = [];
+  const walk = (value: unknown, prefix: string) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      Object.entries(value).forEach(([key, child]) => walk(child, prefix ? `${prefix}.${key}` : key));
+    } else if (prefix) {
+      paths.push(prefix);
+    }
+  };
+  walk(record, "");
+  return paths.slice(0, 50);
+}
+
+const splitFields = (value: string) =>
+  value
+    .split(",")
+    .map((field) => field.trim())
+    .filter(Boolean);
+
+/**
+ * Choose which fields of a JSON or JSONL file's records make up their text
+ * and which are stored as metadata on their chunks
+ */
+export function JsonMappingDialog({ file, onCancel, onConfirm }: JsonMappingDialogProps) {
+  const [recordsPath, setRecordsPath] = useState("");
+  const [titleField, setTitleField] = useState("");
+  const [textFields, setTextFields] = useState("");
+  const [metadataFields, setMetadataFields] = useState("");
+
+  useEffect(() => {
+    setRecordsPath("");
+    setTitleField("");
+    setTextFields("");
+    setMetadataFields("");
+  }, [file]);
+
+  const detected = useMemo(() => (file ? detectFields(file, recordsPath) : []), [file, recordsPath]);
+
+  const confirm = () => {
+    onConfirm({
+      recordsPath: recordsPath.trim() || undefined,
+      titleField: titleField.trim() || undefined,
+      textFields: splitFields(textFields),
+      metadataFields: splitFields(metadataFields),
+    });
+  };
+
+  return (
+    <Dialog open={file !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>JSON Field Mapping</DialogTitle>
+          <DialogDescription>
+            Each record of {file?.name} becomes a section of the document. Leave the text fields empty to use every
+            field.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {file && !isJsonLines(file.name) && (
+            <div className="space-y-2">
+              <Label>Records path</Label>
+              <Input value={recordsPath} onChange={(e) => setRecordsPath(e.target.value)} placeholder="data.items" />
+              <p className="text-xs text-muted-foreground">Where the array of records is; empty for the top level.</p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Title field</Label>
+            <Input value={titleField} onChange={(e) => setTitleField(e.target.value)} placeholder="subject" />
+          </div>
+          <div className="space-y-2">
+            <Label>Text fields</Label>
+            <Input value={textFields} onChange={(e) => setTextFields(e.target.value)} placeholder="question, answer" />
+          </div>
+          <div className="space-y-2">
+            <Label>Metadata fields</Label>
+            <Input
+              value={metadataFields}
+              onChange={(e) => setMetadataFields(e.target.value)}
+              placeholder="id, customer.plan"
+            />
+            <p className="text-xs text-muted-foreground">Stored as metadata on the record's chunks.</p>
+          </div>
+          {detected.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Fields of the first record: <code>{detected.join(", ")}</code>
+            </p>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={confirm}>Upload</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { trpc } from "@/lib/trpc";
+import { format } from "date-fns";
+import { Camera, History, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+
+interface KnowledgeSnapshotsProps {
+  agentId: number;
+}
+
+/**
+ * Named snapshots of an agent's training documents and rollback to them
+ */
+export function KnowledgeSnapshots({ agentId }: KnowledgeSnapshotsProps) {
+  const [name, setName] = useState("");
+  const [rollbackTarget, setRollbackTarget] = useState<{ id: number; name: string } | null>(null);
+  const utils = trpc.useUtils();
+
+  const { data: snapshots, refetch } = trpc.rag.listSnapshots.useQuery({ agentId });
+
+  const createMutation = trpc.rag.createSnapshot.useMutation({
+    onSuccess: () => {
+      toast.success("Snapshot created");
+      setName("");
+      refetch();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create snapshot");
+    },
+  });
+
+  const deleteMutation = trpc.rag.deleteSnapshot.useMutation({
+    onSuccess: () => refetch(),
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete snapshot");
+    },
+  });
+
+  const rollbackMutation = trpc.rag.rollbackToSnapshot.useMutation({
+    onSuccess: (result) => {
+      toast.success(
+        `Rolled back: ${result.restored} restored, ${result.removed} removed, ${result.unchanged} unchanged` +
+          (result.reembedding > 0 ? ` (${result.reembedding} queued for embedding)` : "")
+      );
+      setRollbackTarget(null);
+      refetch();
+      utils.rag.listDocuments.invalidate();
+      utils.rag.getIngestionStatus.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to roll back");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Snapshots</CardTitle>
+        <CardDescription>
+          Save the current training documents and roll back to them later. Rolling back restores each document's
+          content and embeddings and removes documents added since; a backup snapshot is taken first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Snapshot name, e.g. Before pricing update"
+            className="flex-1"
+          />
+          <Button
+            onClick={() => createMutation.mutate({ agentId, name: name.trim() })}
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            <Camera className="w-4 h-4 mr-2" />
+            Snapshot
+          </Button>
+        </div>
+
+        {snapshots && snapshots.length > 0 ? (
+          <div className="space-y-2">
+            {snapshots.map((snapshot) => (
+              <div key={snapshot.id} className="flex items-center justify-between gap-3 p-3 border rounded-lg text-sm">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{snapshot.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(snapshot.createdAt), "MMM d, yyyy HH:mm")} · {snapshot.documentCount} documents
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRollbackTarget({ id: snapshot.id, name: snapshot.name })}
+                  >
+                    <History className="w-4 h-4 mr-2" />
+                    Roll back
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate({ snapshotId: snapshot.id })}
+                    disabled={deleteMutation.isPending}
+                    title="Delete snapshot"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No snapshots yet</p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={rollbackTarget !== null} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back to "{rollbackTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Documents changed or deleted since the snapshot are restored and documents added since are removed.
+              The current state is saved as a snapshot first.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => rollbackTarget && rollbackMutation.mutate({ snapshotId: rollbackTarget.id })}
+              disabled={rollbackMutation.isPending}
+            >
+              Roll back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
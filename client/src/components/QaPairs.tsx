@@ -0,0 +1,261 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Textarea } from "@/components/ui/textarea";
+import { trpc } from "@/lib/trpc";
+import { MessageSquareText, Pencil, Plus, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface QaPairDialogProps {
+  agentId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Pair being edited; omitted to create a new one */
+  pairId?: number;
+  initialQuestion?: string;
+  initialAnswer?: string;
+  /** Chat message the pair is created from */
+  sourceMessageId?: number;
+}
+
+/**
+ * Create or edit a curated Q&A pair
+ */
+export function QaPairDialog({
+  agentId,
+  open,
+  onOpenChange,
+  pairId,
+  initialQuestion = "",
+  initialAnswer = "",
+  sourceMessageId,
+}: QaPairDialogProps) {
+  const [question, setQuestion] = useState(initialQuestion);
+  const [answer, setAnswer] = useState(initialAnswer);
+  const utils = trpc.useUtils();
+
+  useEffect(() => {
+    if (open) {
+      setQuestion(initialQuestion);
+      setAnswer(initialAnswer);
+    }
+  }, [open, initialQuestion, initialAnswer]);
+
+  const onSuccess = () => {
+    toast.success(pairId ? "Q&A pair updated" : "Q&A pair saved");
+    utils.rag.listQaPairs.invalidate({ agentId });
+    onOpenChange(false);
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Failed to save Q&A pair");
+  };
+  const createMutation = trpc.rag.createQaPair.useMutation({ onSuccess, onError });
+  const updateMutation = trpc.rag.updateQaPair.useMutation({ onSuccess, onError });
+
+  const handleSave = () => {
+    if (pairId) {
+      updateMutation.mutate({ id: pairId, question: question.trim(), answer: answer.trim() });
+    } else {
+      createMutation.mutate({ agentId, question: question.trim(), answer: answer.trim(), sourceMessageId });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{pairId ? "Edit Q&A Pair" : "Save as Q&A Pair"}</DialogTitle>
+          <DialogDescription>
+            Messages similar to the question are answered with this curated answer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Question</Label>
+            <Input
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="What is your refund policy?"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Answer</Label>
+            <Textarea
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              rows={6}
+              placeholder="We refund any order within 30 days of delivery."
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!question.trim() || !answer.trim() || createMutation.isPending || updateMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface QaPairsProps {
+  agentId: number;
+}
+
+/**
+ * Curated Q&A pairs of an agent with their matching settings
+ */
+export function QaPairs({ agentId }: QaPairsProps) {
+  const [editing, setEditing] = useState<{ id?: number; question: string; answer: string } | null>(null);
+
+  const { data: config, refetch: refetchConfig } = trpc.rag.getConfig.useQuery({ agentId });
+  const { data: pairs, refetch: refetchPairs } = trpc.rag.listQaPairs.useQuery({ agentId });
+
+  const updateConfigMutation = trpc.rag.updateConfig.useMutation({
+    onSuccess: () => refetchConfig(),
+    onError: (error) => {
+      toast.error(error.message || "Failed to update configuration");
+    },
+  });
+
+  const deleteMutation = trpc.rag.deleteQaPair.useMutation({
+    onSuccess: () => {
+      toast.success("Q&A pair deleted");
+      refetchPairs();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete Q&A pair");
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Q&A Pairs</CardTitle>
+            <CardDescription>
+              Curated answers that override generated replies when a message matches the question
+            </CardDescription>
+          </div>
+          <Button onClick={() => setEditing({ question: "", answer: "" })}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Q&A
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {config && (
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Match Threshold: {config.qaThreshold ?? "0.90"}</Label>
+              <Slider
+                value={[parseFloat(config.qaThreshold || "0.9") * 100]}
+                onValueChange={([value]) =>
+                  updateConfigMutation.mutate({
+                    agentId,
+                    qaThreshold: (value / 100).toFixed(2),
+                  })
+                }
+                min={50}
+                max={100}
+                step={1}
+              />
+              <p className="text-xs text-muted-foreground">
+                Minimum similarity between a message and a question for the pair to apply
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>When Matched</Label>
+              <Select
+                value={config.qaAnswerMode}
+                onValueChange={(value) =>
+                  updateConfigMutation.mutate({
+                    agentId,
+                    qaAnswerMode: value as "direct" | "context",
+                  })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="direct">Reply with the answer as is</SelectItem>
+                  <SelectItem value="context">Give the answer to the model first</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        {pairs && pairs.length > 0 ? (
+          <div className="space-y-2 pt-4 border-t">
+            {pairs.map((pair) => (
+              <div key={pair.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">{pair.question}</p>
+                  <p className="text-sm text-muted-foreground line-clamp-2 whitespace-pre-wrap">{pair.answer}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setEditing({ id: pair.id, question: pair.question, answer: pair.answer })}
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate({ id: pair.id })}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-6 text-muted-foreground">
+            <MessageSquareText className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">No Q&A pairs yet. Add one here or save a reply from the chat logs.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <QaPairDialog
+        agentId={agentId}
+        open={editing !== null}
+        onOpenChange={(open) => !open && setEditing(null)}
+        pairId={editing?.id}
+        initialQuestion={editing?.question}
+        initialAnswer={editing?.answer}
+      />
+    </Card>
+  );
+}
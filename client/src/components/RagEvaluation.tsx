@@ -0,0 +1,376 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { trpc } from "@/lib/trpc";
+import { format } from "date-fns";
+import { FlaskConical, Loader2, Play, Plus, Trash2 } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import { toast } from "sonner";
+
+interface RagEvaluationProps {
+  agentId: number;
+}
+
+type QuestionResult = {
+  questionId: number;
+  question: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  retrieved: { documentId: number; chunkIndex: number }[];
+};
+
+const formatMetric = (value: string | null) => (value === null ? "–" : Number(value).toFixed(3));
+
+/**
+ * Golden question sets and retrieval quality runs for an agent
+ */
+export function RagEvaluation({ agentId }: RagEvaluationProps) {
+  const [setId, setSetId] = useState<number | null>(null);
+  const [newSetName, setNewSetName] = useState("");
+  const [question, setQuestion] = useState("");
+  // Expected documents of the new question; chunk index as typed, empty for any chunk
+  const [expected, setExpected] = useState<Map<number, string>>(new Map());
+  const [k, setK] = useState("");
+  const [openRunId, setOpenRunId] = useState<number | null>(null);
+
+  const { data: sets, refetch: refetchSets } = trpc.rag.listEvalSets.useQuery({ agentId });
+  const { data: documents } = trpc.rag.listDocuments.useQuery({ agentId });
+  const { data: questions, refetch: refetchQuestions } = trpc.rag.listEvalQuestions.useQuery(
+    { setId: setId ?? 0 },
+    { enabled: setId !== null }
+  );
+  const { data: runs, refetch: refetchRuns } = trpc.rag.listEvalRuns.useQuery(
+    { setId: setId ?? 0 },
+    {
+      enabled: setId !== null,
+      // Poll while a run is queued or in progress
+      refetchInterval: (query) =>
+        query.state.data?.some((run) => run.status === "pending" || run.status === "running") ? 2000 : false,
+    }
+  );
+  const { data: openRun } = trpc.rag.getEvalRun.useQuery(
+    { runId: openRunId ?? 0 },
+    { enabled: openRunId !== null }
+  );
+
+  useEffect(() => {
+    if (setId === null && sets && sets.length > 0) {
+      setSetId(sets[0].id);
+    }
+  }, [sets, setId]);
+
+  const documentNames = useMemo(
+    () => new Map((documents ?? []).map((doc) => [doc.id, doc.fileName])),
+    [documents]
+  );
+
+  const createSetMutation = trpc.rag.createEvalSet.useMutation({
+    onSuccess: (set) => {
+      setNewSetName("");
+      setSetId(set.id);
+      refetchSets();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to create eval set");
+    },
+  });
+
+  const deleteSetMutation = trpc.rag.deleteEvalSet.useMutation({
+    onSuccess: () => {
+      toast.success("Eval set deleted");
+      setSetId(null);
+      refetchSets();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete eval set");
+    },
+  });
+
+  const addQuestionMutation = trpc.rag.addEvalQuestion.useMutation({
+    onSuccess: () => {
+      setQuestion("");
+      setExpected(new Map());
+      refetchQuestions();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to add question");
+    },
+  });
+
+  const deleteQuestionMutation = trpc.rag.deleteEvalQuestion.useMutation({
+    onSuccess: () => refetchQuestions(),
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete question");
+    },
+  });
+
+  const evaluateMutation = trpc.rag.evaluate.useMutation({
+    onSuccess: () => {
+      toast.success("Evaluation started");
+      refetchRuns();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to start evaluation");
+    },
+  });
+
+  const toggleExpected = (documentId: number, checked: boolean) => {
+    const next = new Map(expected);
+    if (checked) {
+      next.set(documentId, "");
+    } else {
+      next.delete(documentId);
+    }
+    setExpected(next);
+  };
+
+  const handleAddQuestion = () => {
+    if (setId === null) return;
+    addQuestionMutation.mutate({
+      setId,
+      question: question.trim(),
+      expected: Array.from(expected.entries()).map(([documentId, chunk]) =>
+        chunk.trim() === "" ? { documentId } : { documentId, chunkIndex: Number(chunk) }
+      ),
+    });
+  };
+
+  const runResults = (openRun?.results ?? []) as QuestionResult[];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Retrieval Evaluation</CardTitle>
+        <CardDescription>
+          Golden questions with the documents that should answer them. Runs measure recall@k, MRR and nDCG
+          against the current index, so settings changes can be compared.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={setId !== null ? String(setId) : undefined}
+            onValueChange={(value) => {
+              setSetId(Number(value));
+              setOpenRunId(null);
+            }}
+          >
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Select an eval set" />
+            </SelectTrigger>
+            <SelectContent>
+              {(sets ?? []).map((set) => (
+                <SelectItem key={set.id} value={String(set.id)}>
+                  {set.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {setId !== null && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteSetMutation.mutate({ setId })}
+              disabled={deleteSetMutation.isPending}
+              title="Delete eval set"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+          <div className="flex gap-2 ml-auto">
+            <Input
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              placeholder="New set name"
+              className="w-48"
+            />
+            <Button
+              variant="outline"
+              onClick={() => createSetMutation.mutate({ agentId, name: newSetName.trim() })}
+              disabled={!newSetName.trim() || createSetMutation.isPending}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Create
+            </Button>
+          </div>
+        </div>
+
+        {setId === null ? (
+          <div className="text-center py-6 text-muted-foreground">
+            <FlaskConical className="w-10 h-10 mx-auto mb-2 opacity-50" />
+            <p className="text-sm">Create an eval set to start measuring retrieval quality</p>
+          </div>
+        ) : (
+          <>
+            {/* Questions */}
+            <div className="space-y-3">
+              <Label>Questions</Label>
+              {questions && questions.length > 0 && (
+                <div className="space-y-2">
+                  {questions.map((item) => (
+                    <div key={item.id} className="flex items-start justify-between gap-3 p-3 border rounded-lg">
+                      <div className="min-w-0 space-y-1">
+                        <p className="text-sm font-medium">{item.question}</p>
+                        <div className="flex flex-wrap gap-1">
+                          {item.expected.map((expectation, i) => (
+                            <Badge key={i} variant="outline" className="font-normal">
+                              {documentNames.get(expectation.documentId) ?? `Document ${expectation.documentId}`}
+                              {expectation.chunkIndex !== undefined && ` · chunk ${expectation.chunkIndex}`}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteQuestionMutation.mutate({ questionId: item.id })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-3 p-3 border rounded-lg border-dashed">
+                <Input
+                  value={question}
+                  onChange={(e) => setQuestion(e.target.value)}
+                  placeholder="A question users ask"
+                />
+                <div className="space-y-2 max-h-48 overflow-auto">
+                  {(documents ?? []).map((doc) => (
+                    <div key={doc.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        id={`eval-doc-${doc.id}`}
+                        checked={expected.has(doc.id)}
+                        onCheckedChange={(checked) => toggleExpected(doc.id, checked === true)}
+                      />
+                      <label htmlFor={`eval-doc-${doc.id}`} className="flex-1 truncate">
+                        {doc.fileName}
+                      </label>
+                      {expected.has(doc.id) && (
+                        <Input
+                          value={expected.get(doc.id)}
+                          onChange={(e) => setExpected(new Map(expected).set(doc.id, e.target.value.replace(/\D/g, "")))}
+                          placeholder="Any chunk"
+                          className="w-28 h-8"
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  size="sm"
+                  onClick={handleAddQuestion}
+                  disabled={!question.trim() || expected.size === 0 || addQuestionMutation.isPending}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Question
+                </Button>
+              </div>
+            </div>
+
+            {/* Runs */}
+            <div className="space-y-3 pt-4 border-t">
+              <div className="flex items-center justify-between gap-2">
+                <Label>Runs</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={k}
+                    onChange={(e) => setK(e.target.value.replace(/\D/g, ""))}
+                    placeholder="k (topK)"
+                    className="w-24"
+                  />
+                  <Button
+                    onClick={() => evaluateMutation.mutate({ setId, k: k ? Number(k) : undefined })}
+                    disabled={!questions?.length || evaluateMutation.isPending}
+                  >
+                    <Play className="w-4 h-4 mr-2" />
+                    Run Evaluation
+                  </Button>
+                </div>
+              </div>
+
+              {runs && runs.length > 0 ? (
+                <div className="space-y-1">
+                  <div className="grid grid-cols-[1fr_3rem_4.5rem_4.5rem_4.5rem_6rem] gap-2 px-2 text-xs font-medium text-muted-foreground">
+                    <span>Run</span>
+                    <span className="text-right">k</span>
+                    <span className="text-right">Recall</span>
+                    <span className="text-right">MRR</span>
+                    <span className="text-right">nDCG</span>
+                    <span />
+                  </div>
+                  {runs.map((run) => {
+                    const config = (run.config ?? {}) as Record<string, unknown>;
+                    return (
+                      <div key={run.id}>
+                        <button
+                          type="button"
+                          className="grid grid-cols-[1fr_3rem_4.5rem_4.5rem_4.5rem_6rem] gap-2 items-center w-full p-2 rounded-md text-sm text-left hover:bg-muted/50"
+                          onClick={() => setOpenRunId(openRunId === run.id ? null : run.id)}
+                        >
+                          <span className="min-w-0">
+                            <span className="block">{format(new Date(run.createdAt), "MMM d, h:mm a")}</span>
+                            <span className="block text-xs text-muted-foreground truncate">
+                              chunk {String(config.chunkSize)} · {String(config.chunkingStrategy)} · threshold{" "}
+                              {String(config.similarityThreshold)} · keyword {String(config.keywordWeight)}
+                            </span>
+                          </span>
+                          <span className="text-right tabular-nums">{run.k}</span>
+                          <span className="text-right tabular-nums">{formatMetric(run.recallAtK)}</span>
+                          <span className="text-right tabular-nums">{formatMetric(run.mrr)}</span>
+                          <span className="text-right tabular-nums">{formatMetric(run.ndcg)}</span>
+                          <span className="flex justify-end">
+                            {run.status === "pending" || run.status === "running" ? (
+                              <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+                            ) : (
+                              <Badge variant={run.status === "completed" ? "default" : "destructive"}>{run.status}</Badge>
+                            )}
+                          </span>
+                        </button>
+                        {run.error && <p className="px-2 text-xs text-red-500">{run.error}</p>}
+                        {openRunId === run.id && openRun && (
+                          <div className="mx-2 mb-2 p-3 bg-muted/50 rounded-md space-y-2">
+                            {runResults.map((result) => (
+                              <div key={result.questionId} className="text-sm">
+                                <p className="font-medium">{result.question}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  recall {result.recall.toFixed(2)} · RR {result.reciprocalRank.toFixed(2)} · nDCG{" "}
+                                  {result.ndcg.toFixed(2)} · retrieved:{" "}
+                                  {result.retrieved.length > 0
+                                    ? result.retrieved
+                                        .map((chunk) => `${documentNames.get(chunk.documentId) ?? chunk.documentId} #${chunk.chunkIndex}`)
+                                        .join(", ")
+                                    : "nothing"}
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No runs yet</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,10 +5,27 @@ import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { trpc } from "@/lib/trpc";
-import { Upload, FileText, Trash2, AlertCircle, CheckCircle, Clock, Loader2 } from "lucide-react";
-import { useState, useRef } from "react";
+import { Upload, FileText, Trash2, AlertCircle, CheckCircle, Clock, Loader2, RefreshCw, Globe, StickyNote, Pencil, Tags, History } from "lucide-react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Textarea } from "@/components/ui/textarea";
+import { QaPairs } from "@/components/QaPairs";
+import { RetrievalTester } from "@/components/RetrievalTester";
+import { RagEvaluation } from "@/components/RagEvaluation";
+import { DocumentVersions } from "@/components/DocumentVersions";
+import { KnowledgeSnapshots } from "@/components/KnowledgeSnapshots";
+import { BulkImport } from "@/components/BulkImport";
+import { JsonMappingDialog, type JsonFieldMapping } from "@/components/JsonMappingDialog";
+import { formatTagExpression } from "@shared/tags";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,6 +36,22 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+// Refresh schedules offered for sources; values are hours
+const REFRESH_INTERVALS = [
+  { value: "manual", label: "Manual" },
+  { value: "6", label: "Every 6 hours" },
+  { value: "24", label: "Daily" },
+  { value: "168", label: "Weekly" },
+];
 
 interface RagTrainingProps {
   agentId: number;
@@ -27,15 +60,79 @@ interface RagTrainingProps {
 export function RagTraining({ agentId }: RagTrainingProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [deleteDocId, setDeleteDocId] = useState<number | null>(null);
+  const [chunkSize, setChunkSize] = useState(512);
+  const [sourceType, setSourceType] = useState<"website" | "file">("website");
+  const [sourceUrl, setSourceUrl] = useState("");
+  const [refreshInterval, setRefreshInterval] = useState("manual");
+  const [snippet, setSnippet] = useState<{ documentId?: number; title: string; content: string } | null>(null);
+  const [historyDoc, setHistoryDoc] = useState<{ id: number; fileName: string } | null>(null);
+  const [jsonUpload, setJsonUpload] = useState<{ file: File; name: string; content: string } | null>(null);
+  const [tagEdit, setTagEdit] = useState<{ documentId: number; fileName: string; expression: string } | null>(null);
+  const [crawlDepth, setCrawlDepth] = useState(2);
+  const [crawlPages, setCrawlPages] = useState(50);
 
   const { data: config, refetch: refetchConfig } = trpc.rag.getConfig.useQuery({ agentId });
   const { data: documents, refetch: refetchDocuments } = trpc.rag.listDocuments.useQuery({ agentId });
+  const { data: indexStatus, refetch: refetchIndexStatus } = trpc.rag.getIndexStatus.useQuery(
+    { agentId },
+    {
+      // Poll while a re-index is in flight
+      refetchInterval: (query) => {
+        const status = query.state.data?.job?.status;
+        return status === "pending" || status === "running" ? 2000 : false;
+      },
+    }
+  );
+  const { data: ingestionStatus, refetch: refetchIngestionStatus } = trpc.rag.getIngestionStatus.useQuery(
+    { agentId },
+    {
+      // Poll while documents are waiting in the ingestion queue
+      refetchInterval: (query) =>
+        query.state.data?.some((d) => d.status === "pending" || d.status === "processing")
+          ? 2000
+          : false,
+    }
+  );
+  const { data: sources, refetch: refetchSources } = trpc.rag.listSources.useQuery(
+    { agentId },
+    {
+      // Poll while a source is being synced
+      refetchInterval: (query) =>
+        query.state.data?.some((s) => s.status === "syncing") ? 3000 : false,
+    }
+  );
   const utils = trpc.useUtils();
 
+  const statusByDocument = useMemo(
+    () => new Map((ingestionStatus ?? []).map((entry) => [entry.documentId, entry])),
+    [ingestionStatus]
+  );
+
+  const reindexJob = indexStatus?.job;
+  const isReindexing = reindexJob?.status === "pending" || reindexJob?.status === "running";
+
+  useEffect(() => {
+    if (config) {
+      setChunkSize(config.chunkSize || 512);
+    }
+  }, [config]);
+
+  useEffect(() => {
+    // Documents are added and updated while a source syncs
+    refetchDocuments();
+    refetchIngestionStatus();
+  }, [sources]);
+
+  useEffect(() => {
+    // Document statuses change while the index is rebuilt
+    refetchDocuments();
+  }, [reindexJob?.processedDocuments, reindexJob?.status]);
+
   const updateConfigMutation = trpc.rag.updateConfig.useMutation({
     onSuccess: () => {
       toast.success("RAG configuration updated");
       refetchConfig();
+      refetchIndexStatus();
     },
     onError: (error) => {
       toast.error(error.message || "Failed to update configuration");
@@ -44,14 +141,129 @@ export function RagTraining({ agentId }: RagTrainingProps) {
 
   const uploadDocumentMutation = trpc.rag.uploadDocument.useMutation({
     onSuccess: () => {
-      toast.success("Document uploaded successfully");
+      toast.success("Document uploaded and queued for processing");
       refetchDocuments();
+      refetchIngestionStatus();
     },
     onError: (error) => {
       toast.error(error.message || "Failed to upload document");
     },
   });
 
+  const snippetOptions = {
+    onSuccess: () => {
+      toast.success("Snippet saved and queued for processing");
+      setSnippet(null);
+      refetchDocuments();
+      refetchIngestionStatus();
+    },
+    onError: (error: { message: string }) => {
+      toast.error(error.message || "Failed to save snippet");
+    },
+  };
+  const addSnippetMutation = trpc.rag.addTextSnippet.useMutation(snippetOptions);
+  const updateSnippetMutation = trpc.rag.updateTextSnippet.useMutation(snippetOptions);
+
+  const handleSaveSnippet = () => {
+    if (!snippet) return;
+    const values = { title: snippet.title.trim(), content: snippet.content };
+    if (snippet.documentId) {
+      updateSnippetMutation.mutate({ documentId: snippet.documentId, ...values });
+    } else {
+      addSnippetMutation.mutate({ agentId, ...values });
+    }
+  };
+
+  const addSourceOptions = {
+    onSuccess: () => {
+      toast.success("Source added and queued for syncing");
+      setSourceUrl("");
+      refetchSources();
+    },
+    onError: (error: { message: string }) => {
+      toast.error(error.message || "Failed to add source");
+    },
+  };
+  const addWebsiteMutation = trpc.rag.addWebsiteSource.useMutation(addSourceOptions);
+  const addFileMutation = trpc.rag.addFileSource.useMutation(addSourceOptions);
+
+  const updateSourceMutation = trpc.rag.updateSource.useMutation({
+    onSuccess: () => {
+      toast.success("Refresh schedule updated");
+      refetchSources();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update source");
+    },
+  });
+
+  const syncSourceMutation = trpc.rag.syncSource.useMutation({
+    onSuccess: () => {
+      toast.success("Sync started");
+      refetchSources();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to start sync");
+    },
+  });
+
+  const deleteSourceMutation = trpc.rag.deleteSource.useMutation({
+    onSuccess: () => {
+      toast.success("Source deleted");
+      refetchSources();
+      refetchDocuments();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to delete source");
+    },
+  });
+
+  const handleAddSource = () => {
+    const refreshIntervalHours = refreshInterval === "manual" ? null : Number(refreshInterval);
+    if (sourceType === "website") {
+      addWebsiteMutation.mutate({
+        agentId,
+        url: sourceUrl.trim(),
+        maxDepth: crawlDepth,
+        maxPages: crawlPages,
+        refreshIntervalHours,
+      });
+    } else {
+      addFileMutation.mutate({ agentId, url: sourceUrl.trim(), refreshIntervalHours });
+    }
+  };
+
+  const reindexMutation = trpc.rag.reindex.useMutation({
+    onSuccess: () => {
+      toast.success("Re-indexing started");
+      refetchIndexStatus();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to start re-indexing");
+    },
+  });
+
+  const processDocumentMutation = trpc.rag.processDocument.useMutation({
+    onSuccess: () => {
+      toast.success("Document queued for processing");
+      refetchIngestionStatus();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to queue document");
+    },
+  });
+
+  const updateTagsMutation = trpc.rag.updateDocumentTags.useMutation({
+    onSuccess: () => {
+      toast.success("Tags updated");
+      setTagEdit(null);
+      refetchDocuments();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to update tags");
+    },
+  });
+
   const deleteDocumentMutation = trpc.rag.deleteDocument.useMutation({
     onSuccess: () => {
       toast.success("Document deleted successfully");
@@ -63,16 +275,27 @@ export function RagTraining({ agentId }: RagTrainingProps) {
     },
   });
 
+  const uploadFile = (file: File, content: string, encoding: "text" | "base64", jsonMapping?: JsonFieldMapping) => {
+    uploadDocumentMutation.mutate({
+      agentId,
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      content,
+      encoding,
+      jsonMapping,
+    });
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     // Check file type - use a whitelist approach for security
-    const allowedTypes = ['text/plain', 'text/markdown', 'application/pdf', 'text/csv'];
-    const allowedExtensions = /\.(txt|md|pdf|csv)$/i;
+    const allowedExtensions = /\.(txt|md|pdf|csv|docx|html?|json|jsonl|ndjson)$/i;
     
-    if (!allowedTypes.includes(file.type) && !file.name.match(allowedExtensions)) {
-      toast.error("Unsupported file type. Please upload .txt, .md, .pdf, or .csv files.");
+    if (!file.name.match(allowedExtensions)) {
+      toast.error("Unsupported file type. Please upload .txt, .md, .csv, .pdf, .docx, .html, .json or .jsonl files.");
       return;
     }
 
@@ -85,20 +308,29 @@ export function RagTraining({ agentId }: RagTrainingProps) {
     // Note: Server-side validation should also verify file content
     // Client-side checks are for UX only and can be bypassed
     
+    // PDF and Word files are sent as binary (base64) and extracted on the server
+    const isBinary = /\.(pdf|docx)$/i.test(file.name);
+
     // Read file content
     const reader = new FileReader();
     reader.onload = async (e) => {
-      const content = e.target?.result as string;
+      const result = e.target?.result as string;
       
-      uploadDocumentMutation.mutate({
-        agentId,
-        fileName: file.name,
-        fileType: file.type,
-        fileSize: file.size,
-        content,
-      });
+      if (isBinary) {
+        // Strip the "data:...;base64," prefix
+        uploadFile(file, result.slice(result.indexOf(",") + 1), "base64");
+      } else if (/\.(json|jsonl|ndjson)$/i.test(file.name)) {
+        // Records are mapped to text before uploading
+        setJsonUpload({ file, name: file.name, content: result });
+      } else {
+        uploadFile(file, result, "text");
+      }
     };
-    reader.readAsText(file);
+    if (isBinary) {
+      reader.readAsDataURL(file);
+    } else {
+      reader.readAsText(file);
+    }
 
     // Reset input
     if (fileInputRef.current) {
@@ -158,10 +390,64 @@ export function RagTraining({ agentId }: RagTrainingProps) {
           {config?.enabled === 1 && (
             <>
               <div className="space-y-2">
-                <Label>Chunk Size: {config.chunkSize}</Label>
+                <Label>Embedding Model</Label>
+                <Select
+                  value={config.embeddingModel || "text-embedding-ada-002"}
+                  onValueChange={(value) =>
+                    updateConfigMutation.mutate({
+                      agentId,
+                      embeddingModel: value,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select an embedding model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="text-embedding-3-small">text-embedding-3-small</SelectItem>
+                    <SelectItem value="text-embedding-3-large">text-embedding-3-large</SelectItem>
+                    <SelectItem value="text-embedding-ada-002">text-embedding-ada-002</SelectItem>
+                    <SelectItem value="local-hash">Local (offline, hashed n-grams)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Model used to embed document chunks and queries
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Chunking Strategy</Label>
+                <Select
+                  value={config.chunkingStrategy}
+                  onValueChange={(value) =>
+                    updateConfigMutation.mutate({
+                      agentId,
+                      chunkingStrategy: value as typeof config.chunkingStrategy,
+                    })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a chunking strategy" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto (by file type)</SelectItem>
+                    <SelectItem value="fixed">Fixed size</SelectItem>
+                    <SelectItem value="sentence">Sentences</SelectItem>
+                    <SelectItem value="markdown">Markdown headings</SelectItem>
+                    <SelectItem value="csv">CSV row groups</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  How documents are split into chunks. Auto uses headings for Markdown, row groups for CSV and sentences otherwise.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Chunk Size: {chunkSize}</Label>
                 <Slider
-                  value={[config.chunkSize || 512]}
-                  onValueChange={([value]) =>
+                  value={[chunkSize]}
+                  onValueChange={([value]) => setChunkSize(value)}
+                  onValueCommit={([value]) =>
                     updateConfigMutation.mutate({
                       agentId,
                       chunkSize: value,
@@ -172,7 +458,7 @@ export function RagTraining({ agentId }: RagTrainingProps) {
                   step={128}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Size of text chunks for embedding (characters)
+                  Size of text chunks for embedding (characters). Changing it re-indexes all documents.
                 </p>
               </div>
 
@@ -213,11 +499,343 @@ export function RagTraining({ agentId }: RagTrainingProps) {
                   Minimum similarity score for retrieval (0-1)
                 </p>
               </div>
+
+              <div className="space-y-2">
+                <Label>Keyword Weight: {config.keywordWeight ?? "0.00"}</Label>
+                <Slider
+                  value={[parseFloat(config.keywordWeight || "0") * 100]}
+                  onValueChange={([value]) =>
+                    updateConfigMutation.mutate({
+                      agentId,
+                      keywordWeight: (value / 100).toFixed(2),
+                    })
+                  }
+                  min={0}
+                  max={100}
+                  step={5}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Balance between semantic (0) and BM25 keyword (1) ranking. Keywords help match exact terms like SKUs or error codes.
+                </p>
+              </div>
+
+              <div className="space-y-4 pt-4 border-t">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Rewrite Follow-up Questions</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Turn messages like "what about the second one?" into a standalone query using the conversation
+                    </p>
+                  </div>
+                  <Switch
+                    checked={config.queryRewriting === 1}
+                    onCheckedChange={(checked) =>
+                      updateConfigMutation.mutate({
+                        agentId,
+                        queryRewriting: checked ? 1 : 0,
+                      })
+                    }
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Hypothetical Answer Search (HyDE)</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Search with the embedding of a drafted answer instead of the question
+                    </p>
+                  </div>
+                  <Switch
+                    checked={config.hydeEnabled === 1}
+                    onCheckedChange={(checked) =>
+                      updateConfigMutation.mutate({
+                        agentId,
+                        hydeEnabled: checked ? 1 : 0,
+                      })
+                    }
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Query Variants: {config.multiQueryCount}</Label>
+                  <Slider
+                    value={[config.multiQueryCount]}
+                    onValueChange={([value]) =>
+                      updateConfigMutation.mutate({
+                        agentId,
+                        multiQueryCount: value,
+                      })
+                    }
+                    min={0}
+                    max={5}
+                    step={1}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Alternative phrasings searched alongside the query and merged into one ranking. Each of these options
+                    adds an LLM call per message.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Reranker</Label>
+                  <Select
+                    value={config.reranker ?? "off"}
+                    onValueChange={(value) =>
+                      updateConfigMutation.mutate({
+                        agentId,
+                        reranker: value === "off" ? null : value,
+                      })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="off">Off</SelectItem>
+                      <SelectItem value="llm">LLM relevance</SelectItem>
+                      <SelectItem value="local-overlap">Local (query term overlap)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Re-scores the best candidates against the question and keeps the top K. The LLM reranker adds one
+                    call per message.
+                  </p>
+                </div>
+
+                {config.reranker && (
+                  <div className="space-y-2">
+                    <Label>Rerank Candidates: {config.rerankCandidates}</Label>
+                    <Slider
+                      value={[config.rerankCandidates]}
+                      onValueChange={([value]) =>
+                        updateConfigMutation.mutate({
+                          agentId,
+                          rerankCandidates: value,
+                        })
+                      }
+                      min={5}
+                      max={50}
+                      step={5}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Chunks fetched by similarity for the reranker to choose from
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2 pt-4 border-t">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>Index</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Version {indexStatus?.indexVersion ?? 0}
+                      {indexStatus?.indexedEmbeddingModel && ` · ${indexStatus.indexedEmbeddingModel}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => reindexMutation.mutate({ agentId })}
+                    disabled={isReindexing || reindexMutation.isPending}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${isReindexing ? "animate-spin" : ""}`} />
+                    Rebuild Index
+                  </Button>
+                </div>
+                {isReindexing && reindexJob && (
+                  <div className="space-y-1">
+                    <Progress
+                      value={
+                        reindexJob.totalDocuments > 0
+                          ? (reindexJob.processedDocuments / reindexJob.totalDocuments) * 100
+                          : 0
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Re-indexing {reindexJob.processedDocuments}/{reindexJob.totalDocuments} documents
+                      with {reindexJob.embeddingModel}. The previous index is served until this completes.
+                    </p>
+                  </div>
+                )}
+                {reindexJob?.status === "failed" && (
+                  <p className="text-xs text-red-500">
+                    Last re-index failed: {reindexJob.error || "Unknown error"}
+                  </p>
+                )}
+              </div>
             </>
           )}
         </CardContent>
       </Card>
 
+      {/* Test Query */}
+      <RetrievalTester agentId={agentId} />
+
+      {/* Retrieval Evaluation */}
+      <RagEvaluation agentId={agentId} />
+
+      {/* Snapshots */}
+      <KnowledgeSnapshots agentId={agentId} />
+
+      {/* Sources */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sources</CardTitle>
+          <CardDescription>
+            Crawl a website or sitemap.xml, or download a file by URL. Sources can be re-synced on a schedule;
+            only content that changed is embedded again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Select value={sourceType} onValueChange={(value) => setSourceType(value as "website" | "file")}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="website">Website</SelectItem>
+                <SelectItem value="file">File URL</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              value={sourceUrl}
+              onChange={(e) => setSourceUrl(e.target.value)}
+              placeholder={
+                sourceType === "website"
+                  ? "https://example.com or https://example.com/sitemap.xml"
+                  : "https://example.com/handbook.pdf"
+              }
+              className="flex-1"
+            />
+            <Select value={refreshInterval} onValueChange={setRefreshInterval}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REFRESH_INTERVALS.map((interval) => (
+                  <SelectItem key={interval.value} value={interval.value}>
+                    {interval.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleAddSource}
+              disabled={!sourceUrl.trim() || addWebsiteMutation.isPending || addFileMutation.isPending}
+            >
+              <Globe className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+          {sourceType === "website" && (
+            <>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Link Depth: {crawlDepth}</Label>
+                  <Slider
+                    value={[crawlDepth]}
+                    onValueChange={([value]) => setCrawlDepth(value)}
+                    min={0}
+                    max={5}
+                    step={1}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Max Pages: {crawlPages}</Label>
+                  <Slider
+                    value={[crawlPages]}
+                    onValueChange={([value]) => setCrawlPages(value)}
+                    min={10}
+                    max={500}
+                    step={10}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Pages disallowed by robots.txt are skipped. Sitemap entries are crawled without following links.
+              </p>
+            </>
+          )}
+
+          {sources && sources.length > 0 && (
+            <div className="space-y-3 pt-4 border-t">
+              {sources.map((source) => {
+                const summary = source.lastSyncSummary as
+                  | { added: number; updated: number; removed: number; unchanged: number }
+                  | null;
+                return (
+                  <div key={source.id} className="flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        <Badge variant="outline" className="mr-2">
+                          {source.type === "website" ? "Website" : "File"}
+                        </Badge>
+                        {source.url}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {source.lastSyncedAt
+                          ? `Last synced ${new Date(source.lastSyncedAt).toLocaleString()}`
+                          : "Not synced yet"}
+                        {summary &&
+                          ` · ${summary.added} added, ${summary.updated} updated, ${summary.removed} removed, ${summary.unchanged} unchanged`}
+                      </p>
+                      {source.status === "failed" && source.lastError && (
+                        <p className="text-xs text-red-500 truncate">{source.lastError}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Select
+                        value={source.refreshIntervalHours ? String(source.refreshIntervalHours) : "manual"}
+                        onValueChange={(value) =>
+                          updateSourceMutation.mutate({
+                            sourceId: source.id,
+                            refreshIntervalHours: value === "manual" ? null : Number(value),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-32 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {REFRESH_INTERVALS.map((interval) => (
+                            <SelectItem key={interval.value} value={interval.value}>
+                              {interval.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {getStatusIcon(source.status === "syncing" ? "processing" : source.status)}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => syncSourceMutation.mutate({ sourceId: source.id })}
+                        disabled={source.status === "syncing" || syncSourceMutation.isPending}
+                        title="Sync now"
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteSourceMutation.mutate({ sourceId: source.id })}
+                        disabled={deleteSourceMutation.isPending}
+                        title="Delete source and its documents"
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Q&A Pairs */}
+      <QaPairs agentId={agentId} />
+
       {/* Training Documents */}
       <Card>
         <CardHeader>
@@ -228,46 +846,135 @@ export function RagTraining({ agentId }: RagTrainingProps) {
                 Upload documents to train your agent with specific knowledge
               </CardDescription>
             </div>
-            <Button onClick={() => fileInputRef.current?.click()}>
-              <Upload className="w-4 h-4 mr-2" />
-              Upload Document
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setSnippet({ title: "", content: "" })}>
+                <StickyNote className="w-4 h-4 mr-2" />
+                Add Text
+              </Button>
+              <BulkImport
+                agentId={agentId}
+                onImported={() => {
+                  refetchDocuments();
+                  refetchIngestionStatus();
+                }}
+              />
+              <Button onClick={() => fileInputRef.current?.click()}>
+                <Upload className="w-4 h-4 mr-2" />
+                Upload Document
+              </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".txt,.md,.pdf,.csv"
+            accept=".txt,.md,.pdf,.csv,.docx,.html,.htm,.json,.jsonl,.ndjson"
             onChange={handleFileUpload}
             className="hidden"
           />
 
           {documents && documents.length > 0 ? (
             <div className="space-y-2">
-              {documents.map((doc) => (
+              {documents.map((doc) => {
+                const live = statusByDocument.get(doc.id);
+                const status = live?.status ?? doc.status;
+                const errorMessage = live?.errorMessage ?? doc.errorMessage;
+                const retrying = live?.job?.status === "queued" && live.job.attempts > 0;
+
+                return (
                 <div
                   key={doc.id}
                   className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
                 >
                   <div className="flex items-center gap-3 flex-1 min-w-0">
-                    <FileText className="w-5 h-5 text-muted-foreground shrink-0" />
+                    {doc.sourceUrl ? (
+                      <Globe className="w-5 h-5 text-muted-foreground shrink-0" />
+                    ) : doc.metadata?.snippet ? (
+                      <StickyNote className="w-5 h-5 text-muted-foreground shrink-0" />
+                    ) : (
+                      <FileText className="w-5 h-5 text-muted-foreground shrink-0" />
+                    )}
                     <div className="flex-1 min-w-0">
                       <p className="font-medium truncate">{doc.fileName}</p>
+                      {doc.sourceUrl && (
+                        <a
+                          href={doc.sourceUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-xs text-muted-foreground hover:underline truncate block"
+                        >
+                          {doc.sourceUrl}
+                        </a>
+                      )}
                       <div className="flex items-center gap-2 text-sm text-muted-foreground">
                         <span>{formatFileSize(doc.fileSize ?? undefined)}</span>
                         <span>•</span>
-                        <span>{doc.chunkCount || 0} chunks</span>
+                        <span>{(live?.chunkCount ?? doc.chunkCount) || 0} chunks</span>
                         <span>•</span>
                         <span>{new Date(doc.createdAt).toLocaleDateString()}</span>
                       </div>
+                      {doc.tags && Object.keys(doc.tags).length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {Object.entries(doc.tags).map(([key, values]) => (
+                            <Badge key={key} variant="outline" className="text-xs font-normal">
+                              {key}: {values.join(", ")}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {retrying && live?.job && (
+                        <p className="text-xs text-yellow-500 truncate">
+                          Retry {live.job.attempts}/{live.job.maxAttempts} scheduled
+                          {live.job.lastError && `: ${live.job.lastError}`}
+                        </p>
+                      )}
+                      {status === "failed" && errorMessage && (
+                        <p className="text-xs text-red-500 truncate">{errorMessage}</p>
+                      )}
                     </div>
                   </div>
                   <div className="flex items-center gap-2 shrink-0">
-                    {getStatusIcon(doc.status)}
-                    <Badge variant={doc.status === "completed" ? "default" : "secondary"}>
-                      {doc.status}
+                    {getStatusIcon(status)}
+                    <Badge variant={status === "completed" ? "default" : "secondary"}>
+                      {status}
                     </Badge>
+                    {status === "failed" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => processDocumentMutation.mutate({ documentId: doc.id, agentId })}
+                      >
+                        <RefreshCw className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Version history"
+                      onClick={() => setHistoryDoc({ id: doc.id, fileName: doc.fileName })}
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Edit tags"
+                      onClick={() =>
+                        setTagEdit({ documentId: doc.id, fileName: doc.fileName, expression: formatTagExpression(doc.tags) })
+                      }
+                    >
+                      <Tags className="w-4 h-4" />
+                    </Button>
+                    {Boolean(doc.metadata?.snippet) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setSnippet({ documentId: doc.id, title: doc.fileName, content: doc.content })}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
@@ -277,7 +984,8 @@ export function RagTraining({ agentId }: RagTrainingProps) {
                     </Button>
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           ) : (
             <div className="text-center py-8 text-muted-foreground">
@@ -289,6 +997,103 @@ export function RagTraining({ agentId }: RagTrainingProps) {
         </CardContent>
       </Card>
 
+      {/* Text Snippet Dialog */}
+      <Dialog open={snippet !== null} onOpenChange={(open) => !open && setSnippet(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{snippet?.documentId ? "Edit Text Snippet" : "Add Text Snippet"}</DialogTitle>
+            <DialogDescription>
+              Paste text to train your agent with, e.g. a policy or product description.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Title</Label>
+              <Input
+                value={snippet?.title ?? ""}
+                onChange={(e) => setSnippet((current) => current && { ...current, title: e.target.value })}
+                placeholder="Shipping policy"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Text</Label>
+              <Textarea
+                value={snippet?.content ?? ""}
+                onChange={(e) => setSnippet((current) => current && { ...current, content: e.target.value })}
+                rows={10}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSnippet(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSaveSnippet}
+              disabled={
+                !snippet?.title.trim() ||
+                !snippet.content.trim() ||
+                addSnippetMutation.isPending ||
+                updateSnippetMutation.isPending
+              }
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version History Dialog */}
+      <DocumentVersions document={historyDoc} onClose={() => setHistoryDoc(null)} />
+
+      {/* JSON Field Mapping Dialog */}
+      <JsonMappingDialog
+        file={jsonUpload}
+        onCancel={() => setJsonUpload(null)}
+        onConfirm={(mapping) => {
+          if (jsonUpload) uploadFile(jsonUpload.file, jsonUpload.content, "text", mapping);
+          setJsonUpload(null);
+        }}
+      />
+
+      {/* Document Tags Dialog */}
+      <Dialog open={tagEdit !== null} onOpenChange={(open) => !open && setTagEdit(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Edit Tags</DialogTitle>
+            <DialogDescription>
+              Chats with a tag filter only retrieve from {tagEdit?.fileName ?? "this document"} when its tags match.
+              Documents without a tag are shared with every value of it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <Input
+              value={tagEdit?.expression ?? ""}
+              onChange={(e) => setTagEdit((current) => current && { ...current, expression: e.target.value })}
+              placeholder="product:pro tier:gold,platinum"
+            />
+            <p className="text-xs text-muted-foreground">
+              Space-separated <code>key:value</code> pairs; separate several values with commas.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagEdit(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                tagEdit &&
+                updateTagsMutation.mutate({ documentId: tagEdit.documentId, tags: tagEdit.expression.trim() || null })
+              }
+              disabled={updateTagsMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={deleteDocId !== null} onOpenChange={() => setDeleteDocId(null)}>
         <AlertDialogContent>
@@ -296,7 +1101,7 @@ export function RagTraining({ agentId }: RagTrainingProps) {
             <AlertDialogTitle>Delete Document</AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete this document? This will also remove all associated embeddings.
-              This action cannot be undone.
+              Its versions are kept, so it can be brought back by rolling back to a snapshot.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
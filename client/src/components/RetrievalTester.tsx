@@ -0,0 +1,205 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { Input } from "@/components/ui/input";
+import { trpc } from "@/lib/trpc";
+import { ChevronDown, ChevronRight, Loader2, Search } from "lucide-react";
+import { useState } from "react";
+import { formatTagExpression } from "@shared/tags";
+
+interface RetrievalTesterProps {
+  agentId: number;
+}
+
+/**
+ * Run a test query against an agent's index and show every candidate
+ * chunk with its scores, plus the prompt the model would receive
+ */
+export function RetrievalTester({ agentId }: RetrievalTesterProps) {
+  const [query, setQuery] = useState("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [submitted, setSubmitted] = useState({ query: "", tagFilter: "" });
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const { data, isFetching, error } = trpc.rag.search.useQuery(
+    { agentId, query: submitted.query, tagFilter: submitted.tagFilter || undefined },
+    { enabled: submitted.query.length > 0 }
+  );
+
+  const runQuery = () => {
+    setSubmitted({ query: query.trim(), tagFilter: tagFilter.trim() });
+    setExpanded(new Set());
+  };
+
+  const toggle = (id: number) => {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Test Query</CardTitle>
+        <CardDescription>
+          See which chunks retrieval finds for a question, how they score and what the model is sent
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            runQuery();
+          }}
+        >
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Ask a question your users would ask"
+            className="flex-1"
+          />
+          <Input
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+            placeholder="Tag filter, e.g. product:pro"
+            className="w-56"
+          />
+          <Button type="submit" disabled={!query.trim() || isFetching}>
+            {isFetching ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Search className="w-4 h-4 mr-2" />}
+            Search
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-red-500">{error.message}</p>}
+
+        {data && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-xs">
+              {!data.enabled && <Badge variant="destructive">RAG disabled</Badge>}
+              <Badge variant="outline">Top K: {data.settings.topK}</Badge>
+              <Badge variant="outline">Threshold: {data.settings.similarityThreshold.toFixed(2)}</Badge>
+              <Badge variant="outline">Keyword weight: {data.settings.keywordWeight.toFixed(2)}</Badge>
+              {data.settings.reranker && (
+                <Badge variant="outline">
+                  Reranker: {data.settings.reranker} ({data.settings.rerankCandidates} candidates)
+                </Badge>
+              )}
+              <Badge variant="outline">{data.settings.embeddingModel}</Badge>
+              <Badge variant="outline">Index v{data.settings.indexVersion}</Badge>
+              {data.settings.tagFilter && (
+                <Badge variant="outline">Filter: {formatTagExpression(data.settings.tagFilter)}</Badge>
+              )}
+            </div>
+
+            {data.qaMatch && (
+              <div className="p-3 border rounded-lg text-sm space-y-1">
+                <p className="font-medium">
+                  Q&A pair matched ({data.qaMatch.score.toFixed(3)}) ·{" "}
+                  {data.qaMatch.mode === "direct" ? "answered directly" : "given to the model first"}
+                </p>
+                <p className="text-muted-foreground">{data.qaMatch.question}</p>
+              </div>
+            )}
+
+            {data.retrievalQuery &&
+              (data.retrievalQuery.variants.length > 0 || data.retrievalQuery.hypotheticalAnswer) && (
+                <div className="p-3 border rounded-lg text-sm space-y-1">
+                  <p className="font-medium">Also searched</p>
+                  {data.retrievalQuery.variants.map((variant) => (
+                    <p key={variant} className="text-muted-foreground">Variant: {variant}</p>
+                  ))}
+                  {data.retrievalQuery.hypotheticalAnswer && (
+                    <p className="text-muted-foreground line-clamp-3">
+                      Hypothetical answer: {data.retrievalQuery.hypotheticalAnswer}
+                    </p>
+                  )}
+                </div>
+              )}
+
+            {data.candidates.length > 0 ? (
+              <div className="space-y-1">
+                <div className="grid grid-cols-[3rem_1fr_5rem_5rem_5rem_5rem_4.5rem] gap-2 px-2 text-xs font-medium text-muted-foreground">
+                  <span>Rank</span>
+                  <span>Chunk</span>
+                  <span className="text-right">Vector</span>
+                  <span className="text-right">Keyword</span>
+                  <span className="text-right">Fused</span>
+                  <span className="text-right">Rerank</span>
+                  <span />
+                </div>
+                {data.candidates.map((candidate) => (
+                  <Collapsible
+                    key={candidate.embeddingId}
+                    open={expanded.has(candidate.embeddingId)}
+                    onOpenChange={() => toggle(candidate.embeddingId)}
+                  >
+                    <CollapsibleTrigger asChild>
+                      <div
+                        className={`grid grid-cols-[3rem_1fr_5rem_5rem_5rem_5rem_4.5rem] gap-2 items-center p-2 rounded-md text-sm cursor-pointer hover:bg-muted/50 ${
+                          candidate.rank === null ? "text-muted-foreground" : ""
+                        }`}
+                      >
+                        <span className="flex items-center gap-1">
+                          {expanded.has(candidate.embeddingId) ? (
+                            <ChevronDown className="w-3 h-3" />
+                          ) : (
+                            <ChevronRight className="w-3 h-3" />
+                          )}
+                          {candidate.rank ?? "–"}
+                        </span>
+                        <span className="truncate">
+                          {candidate.documentName} · chunk {candidate.chunkIndex}
+                        </span>
+                        <span className="text-right tabular-nums">{candidate.vectorScore.toFixed(3)}</span>
+                        <span className="text-right tabular-nums">{candidate.keywordScore.toFixed(2)}</span>
+                        <span className="text-right tabular-nums">{candidate.score.toFixed(4)}</span>
+                        <span className="text-right tabular-nums">
+                          {candidate.rerankScore === null ? "–" : candidate.rerankScore.toFixed(2)}
+                        </span>
+                        <Badge variant={candidate.passedThreshold ? "default" : "secondary"} className="justify-center">
+                          {candidate.passedThreshold ? "pass" : "fail"}
+                        </Badge>
+                      </div>
+                    </CollapsibleTrigger>
+                    <CollapsibleContent>
+                      <p className="mx-2 mb-2 p-3 bg-muted/50 rounded-md text-sm whitespace-pre-wrap">
+                        {candidate.content}
+                      </p>
+                    </CollapsibleContent>
+                  </Collapsible>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No chunks found. Upload documents or add sources first.</p>
+            )}
+
+            <Collapsible open={showPrompt} onOpenChange={setShowPrompt}>
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" size="sm" className="px-2">
+                  {showPrompt ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                  Prompt sent to the model
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <pre className="mt-2 p-3 bg-muted/50 rounded-md text-xs whitespace-pre-wrap max-h-96 overflow-auto">
+                  {data.prompt ?? "No prompt: the matched Q&A answer is sent as is."}
+                </pre>
+              </CollapsibleContent>
+            </Collapsible>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import type { ChatSession } from "@shared/types";
+import { Headphones } from "lucide-react";
+
+const STATUS_STYLES: Record<ChatSession["status"], { label: string; className: string }> = {
+  bot: { label: "Agent", className: "" },
+  pending_handoff: { label: "Waiting for operator", className: "text-yellow-400 border-yellow-500/30" },
+  human: { label: "Operator", className: "text-green-400 border-green-500/30" },
+  closed: { label: "Closed", className: "text-muted-foreground" },
+};
+
+interface SessionStatusBadgeProps {
+  status: ChatSession["status"];
+}
+
+/**
+ * Who answers a chat session: its agent, or an operator it was handed to
+ */
+export function SessionStatusBadge({ status }: SessionStatusBadgeProps) {
+  const { label, className } = STATUS_STYLES[status];
+  return (
+    <Badge variant="outline" className={className}>
+      {status !== "bot" && <Headphones className="w-3 h-3 mr-1" />}
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,62 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import type { ToolCallStep as ToolCallStepMetadata } from "@shared/types";
+import { ChevronDown, ChevronRight, Wrench } from "lucide-react";
+import { useState } from "react";
+
+/**
+ * The tool call recorded by a `tool` chat message, if it is one
+ */
+export function getToolCallStep(metadata: unknown): ToolCallStepMetadata | null {
+  const step = metadata as ToolCallStepMetadata | null | undefined;
+  return step?.toolCall ? step : null;
+}
+
+interface ToolCallStepProps {
+  step: ToolCallStepMetadata;
+  /** Result given back to the model */
+  result: string;
+  durationMs?: number | null;
+}
+
+export function ToolCallStep({ step, result, durationMs }: ToolCallStepProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border border-border/50 bg-muted/20 px-3 py-2">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 text-xs text-muted-foreground">
+        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Wrench className="w-3 h-3" />
+        <span className="font-mono text-foreground">{step.toolCall.name}</span>
+        <Badge
+          variant="outline"
+          className={step.status === "ok" ? "text-green-400 border-green-500/30" : "text-red-400 border-red-500/30"}
+        >
+          {step.status === "ok" ? "ok" : "error"}
+        </Badge>
+        {durationMs != null && <span>{durationMs}ms</span>}
+        <span className="ml-auto">round {step.round}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-2 space-y-2 text-xs">
+        <div>
+          <p className="text-muted-foreground mb-1">Arguments</p>
+          <pre className="whitespace-pre-wrap break-all rounded bg-background/50 p-2 font-mono">
+            {typeof step.toolCall.arguments === "string"
+              ? step.toolCall.arguments
+              : JSON.stringify(step.toolCall.arguments, null, 2)}
+          </pre>
+        </div>
+        <div>
+          <p className="text-muted-foreground mb-1">Result</p>
+          <pre className="whitespace-pre-wrap break-all rounded bg-background/50 p-2 font-mono max-h-64 overflow-auto">
+            {result}
+          </pre>
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
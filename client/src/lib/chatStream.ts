@@ -0,0 +1,64 @@
+import { getLoginUrl } from "@/const";
+import type { inferRouterInputs } from "@trpc/server";
+import { readServerSentEvents } from "@shared/sse";
+import type { ChatMessage, ChatSession } from "@shared/types";
+import type { AppRouter } from "../../../server/routers";
+
+export type ChatStreamInput = inferRouterInputs<AppRouter>["chat"]["sendMessage"];
+
+/** The saved reply, sent as JSON */
+export type StreamedChatMessage = Omit<ChatMessage, "createdAt"> & { createdAt: string };
+
+interface ChatStreamHandlers {
+  onSession?: (sessionId: number) => void;
+  onToken: (text: string) => void;
+  /** Called with the saved `tool` message of each tool call the agent makes */
+  onToolCall?: (message: StreamedChatMessage) => void;
+}
+
+/**
+ * Send a chat message through `/api/chat/stream`, passing the reply's text
+ * to `onToken` as it is generated; resolves with the saved reply, which is
+ * null while an operator owns the session
+ */
+export async function streamChatMessage(
+  input: ChatStreamInput,
+  handlers: ChatStreamHandlers,
+  signal?: AbortSignal
+): Promise<{ sessionId: number; status: ChatSession["status"]; message: StreamedChatMessage | null }> {
+  const response = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(input),
+    credentials: "include",
+    signal,
+  });
+
+  if (response.status === 401) {
+    window.location.href = getLoginUrl();
+  }
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Failed to send message (${response.status})`);
+  }
+
+  for await (const event of readServerSentEvents(response.body)) {
+    const data = JSON.parse(event.data);
+    switch (event.event) {
+      case "session":
+        handlers.onSession?.(data.sessionId);
+        break;
+      case "token":
+        handlers.onToken(data.text);
+        break;
+      case "tool":
+        handlers.onToolCall?.(data.message);
+        break;
+      case "done":
+        return data;
+      case "error":
+        throw new Error(data.message);
+    }
+  }
+  throw new Error("The reply stream ended unexpectedly");
+}
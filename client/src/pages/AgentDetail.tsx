@@ -14,12 +14,15 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Bot, Save, RefreshCw, PlayCircle, MessageSquare, BarChart3, Trash2, Plus, X } from "lucide-react";
+import { ArrowLeft, Bot, Save, RefreshCw, PlayCircle, MessageSquare, BarChart3, Trash2, Plus, X, Headphones } from "lucide-react";
 import { useEffect, useState } from "react";
 import { useLocation, useParams } from "wouter";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
 import { RagTraining } from "@/components/RagTraining";
+import { AgentTools } from "@/components/AgentTools";
+import { DEFAULT_HANDOFF_KEYWORDS } from "@shared/const";
+import type { FallbackStep } from "@shared/types";
 
 export default function AgentDetail() {
   const params = useParams<{ id: string }>();
@@ -27,17 +30,25 @@ export default function AgentDetail() {
   const [, setLocation] = useLocation();
 
   const { data: agent, isLoading } = trpc.agent.get.useQuery({ id: agentId });
+  const { data: modelList } = trpc.agent.listModels.useQuery();
   const utils = trpc.useUtils();
 
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
   const [systemPrompt, setSystemPrompt] = useState("");
-  const [model, setModel] = useState("gpt-4");
+  const [model, setModel] = useState("");
   const [temperature, setTemperature] = useState(0.7);
   const [maxTokens, setMaxTokens] = useState(2048);
   const [conversationStarters, setConversationStarters] = useState<string[]>([]);
   const [newStarter, setNewStarter] = useState("");
   const [status, setStatus] = useState<"active" | "inactive" | "training">("active");
+  const [fallbackChain, setFallbackChain] = useState<FallbackStep[]>([]);
+  const [newStepProvider, setNewStepProvider] = useState("");
+  const [newStepModel, setNewStepModel] = useState("");
+  // Null keeps the default handoff phrases
+  const [handoffKeywords, setHandoffKeywords] = useState<string | null>(null);
+  // Null turns signal score handoffs off
+  const [handoffThreshold, setHandoffThreshold] = useState<number | null>(null);
 
   useEffect(() => {
     if (agent) {
@@ -49,6 +60,9 @@ export default function AgentDetail() {
       setMaxTokens(agent.maxTokens || 2048);
       setConversationStarters(agent.conversationStarters as string[] || []);
       setStatus(agent.status);
+      setFallbackChain(agent.fallbackChain ?? []);
+      setHandoffKeywords(agent.handoffKeywords ? agent.handoffKeywords.join("\n") : null);
+      setHandoffThreshold(agent.handoffSignalThreshold !== null ? parseFloat(agent.handoffSignalThreshold) : null);
     }
   }, [agent]);
 
@@ -73,20 +87,47 @@ export default function AgentDetail() {
     },
   });
 
+  // Older agents may name a model by an alias
+  const selectedModel = modelList?.models.find(m => m.id === model || m.aliases.includes(model));
+  const maxTemperature = selectedModel?.maxTemperature ?? 2;
+  const maxOutputTokens = selectedModel?.maxOutputTokens ?? 8192;
+
   const handleSave = () => {
     updateMutation.mutate({
       id: agentId,
       name,
       description,
       systemPrompt,
-      model,
-      temperature: temperature.toString(),
-      maxTokens,
+      model: selectedModel?.id ?? model,
+      temperature: Math.min(temperature, maxTemperature).toString(),
+      maxTokens: Math.min(maxTokens, maxOutputTokens),
       conversationStarters,
       status,
+      fallbackChain,
+      handoffKeywords: handoffKeywords === null
+        ? null
+        : handoffKeywords.split("\n").map(k => k.trim()).filter(Boolean),
+      handoffSignalThreshold: handoffThreshold === null ? null : handoffThreshold.toFixed(2),
     });
   };
 
+  const newStepProviderInfo = modelList?.providers.find(p => p.name === newStepProvider);
+  const newStepModels = modelList?.models.filter(m => m.providers.includes(newStepProvider)) ?? [];
+
+  const addFallbackStep = () => {
+    if (newStepProvider && newStepModel.trim()) {
+      setFallbackChain([...fallbackChain, { provider: newStepProvider, model: newStepModel.trim() }]);
+      setNewStepModel("");
+    }
+  };
+
+  const removeFallbackStep = (index: number) => {
+    setFallbackChain(fallbackChain.filter((_, i) => i !== index));
+  };
+
+  const providerLabel = (name: string) => modelList?.providers.find(p => p.name === name)?.label ?? name;
+  const modelLabel = (id: string) => modelList?.models.find(m => m.id === id)?.label ?? id;
+
   const addStarter = () => {
     if (newStarter.trim()) {
       setConversationStarters([...conversationStarters, newStarter.trim()]);
@@ -170,6 +211,8 @@ export default function AgentDetail() {
           <TabsTrigger value="general">General</TabsTrigger>
           <TabsTrigger value="model">Model Settings</TabsTrigger>
           <TabsTrigger value="starters">Conversation Starters</TabsTrigger>
+          <TabsTrigger value="tools">Tools</TabsTrigger>
+          <TabsTrigger value="handoff">Handoff</TabsTrigger>
           <TabsTrigger value="rag">RAG Training</TabsTrigger>
         </TabsList>
 
@@ -241,27 +284,26 @@ export default function AgentDetail() {
             <CardContent className="space-y-6">
               <div className="grid gap-2">
                 <Label htmlFor="model">Model</Label>
-                <Select value={model} onValueChange={setModel}>
+                <Select value={selectedModel?.id ?? ""} onValueChange={setModel}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select a model" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="gpt-4">GPT-4</SelectItem>
-                    <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
-                    <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
-                    <SelectItem value="claude-3">Claude 3</SelectItem>
+                    {modelList?.models.map((m) => (
+                      <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               <div className="grid gap-4">
                 <div className="flex items-center justify-between">
-                  <Label>Temperature: {temperature.toFixed(1)}</Label>
+                  <Label>Temperature: {Math.min(temperature, maxTemperature).toFixed(1)}</Label>
                 </div>
                 <Slider
-                  value={[temperature]}
+                  value={[Math.min(temperature, maxTemperature)]}
                   onValueChange={([v]) => setTemperature(v)}
                   min={0}
-                  max={2}
+                  max={maxTemperature}
                   step={0.1}
                   className="w-full"
                 />
@@ -277,14 +319,97 @@ export default function AgentDetail() {
                   value={maxTokens}
                   onChange={(e) => setMaxTokens(parseInt(e.target.value) || 2048)}
                   min={1}
-                  max={8192}
+                  max={maxOutputTokens}
                 />
                 <p className="text-xs text-muted-foreground">
-                  Maximum number of tokens in the response (1-8192)
+                  Maximum number of tokens in the response (1-{maxOutputTokens})
                 </p>
               </div>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Fallback Chain</CardTitle>
+              <CardDescription>
+                Tried in order when every provider serving {selectedModel?.label ?? "the model"} is rate limited or unavailable
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Select
+                  value={newStepProvider}
+                  onValueChange={(v) => {
+                    setNewStepProvider(v);
+                    setNewStepModel("");
+                  }}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue placeholder="Provider" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {modelList?.providers.map((p) => (
+                      <SelectItem key={p.name} value={p.name}>
+                        {p.label}{p.configured ? "" : " (not configured)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {newStepProviderInfo?.anyModel ? (
+                  <Input
+                    value={newStepModel}
+                    onChange={(e) => setNewStepModel(e.target.value)}
+                    placeholder="Model name, e.g. llama3.1:8b"
+                    onKeyDown={(e) => e.key === "Enter" && (e.preventDefault(), addFallbackStep())}
+                  />
+                ) : (
+                  <Select value={newStepModel} onValueChange={setNewStepModel} disabled={!newStepProvider}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {newStepModels.map((m) => (
+                        <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button
+                  onClick={addFallbackStep}
+                  variant="outline"
+                  disabled={!newStepProvider || !newStepModel.trim() || fallbackChain.length >= 5}
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="space-y-2">
+                {fallbackChain.length > 0 ? (
+                  fallbackChain.map((step, index) => (
+                    <div
+                      key={index}
+                      className="flex items-center justify-between p-3 rounded-lg bg-muted/30"
+                    >
+                      <span className="text-sm">
+                        {index + 1}. {modelLabel(step.model)} via {providerLabel(step.provider)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeFallbackStep(index)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-4">
+                    No fallback steps. Replies fail if the model's providers are unavailable.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="starters" className="space-y-4">
@@ -336,6 +461,76 @@ export default function AgentDetail() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="tools" className="space-y-4">
+          <AgentTools agentId={agentId} />
+        </TabsContent>
+
+        <TabsContent value="handoff" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Human Handoff</CardTitle>
+              <CardDescription>
+                When a conversation is handed to a person, it waits in the Handoffs inbox until an operator claims it;
+                the agent stops replying while the operator answers. Add the Human handoff tool to let the agent ask
+                for one itself.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Use the default handoff phrases</Label>
+                  <Switch
+                    checked={handoffKeywords === null}
+                    onCheckedChange={(checked) => setHandoffKeywords(checked ? null : DEFAULT_HANDOFF_KEYWORDS.join("\n"))}
+                  />
+                </div>
+                {handoffKeywords === null ? (
+                  <p className="text-xs text-muted-foreground">
+                    Messages containing {DEFAULT_HANDOFF_KEYWORDS.map(k => `"${k}"`).join(", ")} are handed over
+                  </p>
+                ) : (
+                  <>
+                    <Textarea
+                      value={handoffKeywords}
+                      onChange={(e) => setHandoffKeywords(e.target.value)}
+                      rows={5}
+                      placeholder="talk to a human"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      One phrase per line, matched as whole words ignoring case; leave empty to turn phrase handoffs off
+                    </p>
+                  </>
+                )}
+              </div>
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <Label>
+                    Hand over low scoring replies
+                    {handoffThreshold !== null && `: below ${handoffThreshold.toFixed(2)}`}
+                  </Label>
+                  <Switch
+                    checked={handoffThreshold !== null}
+                    onCheckedChange={(checked) => setHandoffThreshold(checked ? 0.4 : null)}
+                  />
+                </div>
+                {handoffThreshold !== null && (
+                  <Slider
+                    value={[handoffThreshold]}
+                    onValueChange={([v]) => setHandoffThreshold(v)}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                  />
+                )}
+              </div>
+              <Button variant="outline" onClick={() => setLocation("/handoffs")}>
+                <Headphones className="w-4 h-4 mr-2" />
+                Open Handoffs Inbox
+              </Button>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="rag" className="space-y-4">
           <RagTraining agentId={agentId} />
         </TabsContent>
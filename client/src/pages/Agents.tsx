@@ -48,6 +48,7 @@ export default function Agents() {
   const [deleteAgentId, setDeleteAgentId] = useState<number | null>(null);
 
   const { data: agents, isLoading, refetch } = trpc.agent.list.useQuery();
+  const { data: modelList } = trpc.agent.listModels.useQuery();
   const utils = trpc.useUtils();
 
   const createMutation = trpc.agent.create.useMutation({
@@ -92,7 +93,7 @@ export default function Agents() {
       name: formData.get("name") as string,
       description: formData.get("description") as string,
       systemPrompt: formData.get("systemPrompt") as string,
-      model: formData.get("model") as string || "gpt-4",
+      model: formData.get("model") as string || undefined,
       conversationStarters: starters,
     });
   };
@@ -140,15 +141,14 @@ export default function Agents() {
                 </div>
                 <div className="grid gap-2">
                   <Label htmlFor="model">Model</Label>
-                  <Select name="model" defaultValue="gpt-4">
+                  <Select name="model" key={modelList?.defaultModel} defaultValue={modelList?.defaultModel}>
                     <SelectTrigger>
                       <SelectValue placeholder="Select a model" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="gpt-4">GPT-4</SelectItem>
-                      <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
-                      <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
-                      <SelectItem value="claude-3">Claude 3</SelectItem>
+                      {modelList?.models.map((m) => (
+                        <SelectItem key={m.id} value={m.id}>{m.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -5,7 +5,7 @@ import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Calendar, Download, MessageSquare, Search, Signal, User, Bot, FileDown, ChevronDown, ChevronRight } from "lucide-react";
+import { ArrowLeft, Calendar, Download, MessageSquare, Search, Signal, User, Bot, FileDown, ChevronDown, ChevronRight, BookmarkPlus, Headphones } from "lucide-react";
 import { useState, useMemo } from "react";
 import { useLocation, useParams } from "wouter";
 import { toast } from "sonner";
@@ -16,6 +16,10 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 import { format } from "date-fns";
+import { Citations, getMessageCitations } from "@/components/Citations";
+import { QaPairDialog } from "@/components/QaPairs";
+import { ToolCallStep, getToolCallStep } from "@/components/ToolCallStep";
+import { SessionStatusBadge } from "@/components/SessionStatusBadge";
 
 export default function ChatLogs() {
   const params = useParams<{ id: string }>();
@@ -26,6 +30,8 @@ export default function ChatLogs() {
   const [endDate, setEndDate] = useState("2024-12-31");
   const [searchQuery, setSearchQuery] = useState("");
   const [expandedSessions, setExpandedSessions] = useState<Set<number>>(new Set());
+  // Reply being turned into a curated Q&A pair
+  const [qaDraft, setQaDraft] = useState<{ question: string; answer: string; messageId: number } | null>(null);
 
   const { data: agent } = trpc.agent.get.useQuery({ id: agentId });
   const { data: logs, isLoading } = trpc.chat.getLogs.useQuery({
@@ -71,6 +77,18 @@ export default function ChatLogs() {
     return "signal-low";
   };
 
+  // Query retrieval ran with when it was rewritten or expanded
+  const getRetrievalQuery = (metadata: unknown) => {
+    const query = (metadata as { retrievalQuery?: { query: string; variants?: string[]; hyde?: boolean } } | null)
+      ?.retrievalQuery;
+    if (!query) return null;
+    const extras = [
+      query.variants?.length ? `+${query.variants.length} phrasings` : null,
+      query.hyde ? "HyDE" : null,
+    ].filter(Boolean);
+    return extras.length > 0 ? `${query.query} (${extras.join(", ")})` : query.query;
+  };
+
   const getSignalScoreBadge = (score: number) => {
     if (score >= 0.7) return "bg-green-500/20 text-green-400 border-green-500/30";
     if (score >= 0.4) return "bg-yellow-500/20 text-yellow-400 border-yellow-500/30";
@@ -228,6 +246,7 @@ export default function ChatLogs() {
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
+                        {log.status !== "bot" && <SessionStatusBadge status={log.status} />}
                         <Badge variant="outline" className={getSignalScoreBadge(log.avgSignalScore)}>
                           <Signal className="w-3 h-3 mr-1" />
                           {log.avgSignalScore.toFixed(2)}
@@ -237,43 +256,83 @@ export default function ChatLogs() {
                   </CollapsibleTrigger>
                   <CollapsibleContent>
                     <div className="ml-7 mt-2 space-y-3 pb-4">
-                      {log.messages.map((message, idx) => (
-                        <div
-                          key={message.id}
-                          className={`flex gap-3 ${message.role === "user" ? "justify-end" : "justify-start"}`}
-                        >
-                          {message.role !== "user" && (
-                            <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
-                              <Bot className="w-4 h-4 text-primary" />
+                      {log.messages.map((message, idx) => {
+                        const toolStep = message.role === "tool" ? getToolCallStep(message.metadata) : null;
+                        if (toolStep) {
+                          return (
+                            <div key={message.id} className="ml-11 max-w-[80%]">
+                              <ToolCallStep step={toolStep} result={message.content} durationMs={message.latencyMs} />
                             </div>
-                          )}
+                          );
+                        }
+                        return (
                           <div
-                            className={`max-w-[80%] p-3 rounded-lg ${
-                              message.role === "user"
-                                ? "chat-message-user"
-                                : "chat-message-assistant"
-                            }`}
+                            key={message.id}
+                            className={`flex gap-3 ${message.role === "user" ? "justify-end" : "justify-start"}`}
                           >
-                            <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                            <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
-                              <span>{format(new Date(message.createdAt), "h:mm a")}</span>
-                              {message.signalScore && (
-                                <span className={getSignalScoreClass(Number(message.signalScore))}>
-                                  Signal: {Number(message.signalScore).toFixed(2)}
-                                </span>
-                              )}
-                              {message.tokensUsed && (
-                                <span>{message.tokensUsed} tokens</span>
+                            {message.role !== "user" && (
+                              <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
+                                {message.operatorId ? (
+                                  <Headphones className="w-4 h-4 text-primary" />
+                                ) : (
+                                  <Bot className="w-4 h-4 text-primary" />
+                                )}
+                              </div>
+                            )}
+                            <div
+                              className={`max-w-[80%] p-3 rounded-lg ${
+                                message.role === "user"
+                                  ? "chat-message-user"
+                                  : "chat-message-assistant"
+                              }`}
+                            >
+                              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                              <Citations citations={getMessageCitations(message.metadata)} />
+                              {getRetrievalQuery(message.metadata) && (
+                                <p className="flex items-center gap-1 mt-2 text-xs text-muted-foreground">
+                                  <Search className="w-3 h-3 shrink-0" />
+                                  Searched: {getRetrievalQuery(message.metadata)}
+                                </p>
                               )}
+                              <div className="flex items-center gap-2 mt-2 text-xs text-muted-foreground">
+                                <span>{format(new Date(message.createdAt), "h:mm a")}</span>
+                                {message.operatorId && <span>Operator</span>}
+                                {message.signalScore && (
+                                  <span className={getSignalScoreClass(Number(message.signalScore))}>
+                                    Signal: {Number(message.signalScore).toFixed(2)}
+                                  </span>
+                                )}
+                                {message.tokensUsed && (
+                                  <span>{message.tokensUsed} tokens</span>
+                                )}
+                                {message.role === "assistant" && (
+                                  <button
+                                    type="button"
+                                    className="ml-auto flex items-center gap-1 hover:text-foreground"
+                                    onClick={() => {
+                                      // Tool calls may sit between the question and the reply
+                                      const previous = log.messages.slice(0, idx).reverse().find(m => m.role !== "tool");
+                                      setQaDraft({
+                                        question: previous?.role === "user" ? previous.content : "",
+                                        answer: message.content,
+                                        messageId: message.id,
+                                      });
+                                    }}
+                                  >
+                                    <BookmarkPlus className="w-3 h-3" />
+                                    Save as Q&A
+                                  </button>
+                                )}
+                              </div>
                             </div>
+                            {message.role === "user" && (
+                              <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                                <User className="w-4 h-4 text-muted-foreground" />
+                              </div>
+                            )}
                           </div>
-                          {message.role === "user" && (
-                            <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
-                              <User className="w-4 h-4 text-muted-foreground" />
-                            </div>
-                          )}
-                        </div>
-                      ))}
+                        );
+                      })}
                     </div>
                   </CollapsibleContent>
                 </Collapsible>
@@ -292,6 +351,15 @@ export default function ChatLogs() {
           )}
         </CardContent>
       </Card>
+
+      <QaPairDialog
+        agentId={agentId}
+        open={qaDraft !== null}
+        onOpenChange={(open) => !open && setQaDraft(null)}
+        initialQuestion={qaDraft?.question}
+        initialAnswer={qaDraft?.answer}
+        sourceMessageId={qaDraft?.messageId}
+      />
     </div>
   );
 }
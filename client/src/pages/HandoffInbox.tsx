@@ -0,0 +1,278 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SessionStatusBadge } from "@/components/SessionStatusBadge";
+import { ToolCallStep, getToolCallStep } from "@/components/ToolCallStep";
+import { trpc } from "@/lib/trpc";
+import { Bot, Headphones, Inbox, Send, User, Undo2, XCircle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+// How often the inbox and the open conversation are refreshed
+const POLL_INTERVAL_MS = 5000;
+
+export default function HandoffInbox() {
+  const { user } = useAuth();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [reply, setReply] = useState("");
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const utils = trpc.useUtils();
+
+  const { data: sessions, isLoading } = trpc.chat.listHandoffs.useQuery(undefined, {
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+  const { data: session } = trpc.chat.getSession.useQuery(
+    { sessionId: selectedId ?? 0 },
+    { enabled: selectedId !== null, refetchInterval: POLL_INTERVAL_MS }
+  );
+  const { data: messages } = trpc.chat.getMessages.useQuery(
+    { sessionId: selectedId ?? 0 },
+    { enabled: selectedId !== null, refetchInterval: POLL_INTERVAL_MS }
+  );
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages?.length]);
+
+  const refresh = () => {
+    utils.chat.listHandoffs.invalidate();
+    if (selectedId !== null) {
+      utils.chat.getSession.invalidate({ sessionId: selectedId });
+      utils.chat.getMessages.invalidate({ sessionId: selectedId });
+    }
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(error.message || "Failed to update session");
+  };
+
+  const claimMutation = trpc.chat.claimSession.useMutation({
+    onSuccess: () => {
+      toast.success("You are now answering this conversation");
+      refresh();
+    },
+    onError,
+  });
+  const releaseMutation = trpc.chat.releaseSession.useMutation({
+    onSuccess: () => {
+      toast.success("Conversation handed back to the agent");
+      refresh();
+    },
+    onError,
+  });
+  const closeMutation = trpc.chat.closeSession.useMutation({
+    onSuccess: () => {
+      toast.success("Conversation closed");
+      refresh();
+    },
+    onError,
+  });
+  const sendMutation = trpc.chat.sendOperatorMessage.useMutation({
+    onSuccess: () => {
+      setReply("");
+      refresh();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Failed to send reply");
+    },
+  });
+
+  const ownsSession = session?.status === "human" && session.operatorId === user?.id;
+  const isUpdating = claimMutation.isPending || releaseMutation.isPending || closeMutation.isPending;
+
+  const handleSend = () => {
+    if (!selectedId || !reply.trim() || sendMutation.isPending) return;
+    sendMutation.mutate({ sessionId: selectedId, content: reply.trim() });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Handoffs</h1>
+        <p className="text-muted-foreground">
+          Conversations your agents handed over to a person; claim one to answer it yourself
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[320px_1fr]">
+        {/* Session list */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Inbox</CardTitle>
+            <CardDescription>Waiting and claimed conversations, longest waiting first</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="w-8 h-8 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : sessions && sessions.length > 0 ? (
+              <div className="space-y-2">
+                {sessions.map((s) => (
+                  <button
+                    key={s.id}
+                    type="button"
+                    onClick={() => setSelectedId(s.id)}
+                    className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                      s.id === selectedId ? "border-primary bg-primary/10" : "border-border hover:bg-muted/50"
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{s.title || `Session ${s.sessionId.slice(0, 8)}`}</p>
+                      <SessionStatusBadge status={s.status} />
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {s.agentName}
+                      {s.handoffRequestedAt &&
+                        ` · ${formatDistanceToNow(new Date(s.handoffRequestedAt), { addSuffix: true })}`}
+                    </p>
+                    {s.handoffReason && (
+                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">{s.handoffReason}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-12 text-muted-foreground">
+                <Inbox className="w-10 h-10 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">No conversations are waiting for an operator.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Conversation */}
+        <Card className="flex flex-col h-[calc(100vh-14rem)] overflow-hidden">
+          {session ? (
+            <>
+              <CardHeader className="border-b border-border">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <CardTitle className="truncate">{session.title || `Session ${session.sessionId.slice(0, 8)}`}</CardTitle>
+                    <CardDescription>{session.handoffReason || "No reason given"}</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <SessionStatusBadge status={session.status} />
+                    {session.status === "pending_handoff" && (
+                      <Button
+                        size="sm"
+                        className="gradient-primary"
+                        onClick={() => claimMutation.mutate({ sessionId: session.id })}
+                        disabled={isUpdating}
+                      >
+                        <Headphones className="w-4 h-4 mr-2" />
+                        Claim
+                      </Button>
+                    )}
+                    {(session.status === "pending_handoff" || session.status === "human") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => releaseMutation.mutate({ sessionId: session.id })}
+                        disabled={isUpdating}
+                      >
+                        <Undo2 className="w-4 h-4 mr-2" />
+                        Return to agent
+                      </Button>
+                    )}
+                    {session.status !== "closed" && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => closeMutation.mutate({ sessionId: session.id })}
+                        disabled={isUpdating}
+                      >
+                        <XCircle className="w-4 h-4 mr-2" />
+                        Close
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <ScrollArea className="flex-1 p-4">
+                <div className="space-y-3">
+                  {messages?.map((message) => {
+                    const toolStep = message.role === "tool" ? getToolCallStep(message.metadata) : null;
+                    if (toolStep) {
+                      return (
+                        <div key={message.id} className="ml-11 max-w-[80%]">
+                          <ToolCallStep step={toolStep} result={message.content} durationMs={message.latencyMs} />
+                        </div>
+                      );
+                    }
+                    return (
+                      <div
+                        key={message.id}
+                        className={`flex gap-3 ${message.role === "user" ? "justify-end" : "justify-start"}`}
+                      >
+                        {message.role !== "user" && (
+                          <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
+                            {message.operatorId ? (
+                              <Headphones className="w-4 h-4 text-primary" />
+                            ) : (
+                              <Bot className="w-4 h-4 text-primary" />
+                            )}
+                          </div>
+                        )}
+                        <div
+                          className={`max-w-[80%] p-3 rounded-lg ${
+                            message.role === "user" ? "chat-message-user" : "chat-message-assistant"
+                          }`}
+                        >
+                          <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            {message.operatorId
+                              ? message.operatorId === user?.id ? "You" : "Operator"
+                              : message.role === "assistant" ? "Agent" : "User"}
+                          </p>
+                        </div>
+                        {message.role === "user" && (
+                          <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center shrink-0">
+                            <User className="w-4 h-4 text-muted-foreground" />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                  <div ref={messagesEndRef} />
+                </div>
+              </ScrollArea>
+              <div className="p-4 border-t border-border">
+                <div className="flex gap-2">
+                  <Input
+                    value={reply}
+                    onChange={(e) => setReply(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" && !e.shiftKey) {
+                        e.preventDefault();
+                        handleSend();
+                      }
+                    }}
+                    placeholder={ownsSession ? "Reply to the user..." : "Claim the conversation to reply"}
+                    disabled={!ownsSession || sendMutation.isPending}
+                    className="flex-1"
+                  />
+                  <Button
+                    onClick={handleSend}
+                    disabled={!ownsSession || !reply.trim() || sendMutation.isPending}
+                    className="gradient-primary"
+                  >
+                    <Send className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-1 flex-col items-center justify-center text-center text-muted-foreground">
+              <Headphones className="w-12 h-12 mb-4 opacity-50" />
+              <p className="text-sm">Select a conversation to read it and take it over.</p>
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,8 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { trpc } from "@/lib/trpc";
-import { ArrowLeft, Bot, Send, User, RefreshCw, Settings2, Sparkles, Loader2 } from "lucide-react";
+import { streamChatMessage } from "@/lib/chatStream";
+import { ArrowLeft, Bot, Send, User, RefreshCw, Settings2, Sparkles, Loader2, Wrench, Headphones } from "lucide-react";
 import { useState, useRef, useEffect } from "react";
 import { useLocation, useParams } from "wouter";
 import { toast } from "sonner";
@@ -20,12 +21,20 @@ import {
 } from "@/components/ui/sheet";
 import { Slider } from "@/components/ui/slider";
 import { Streamdown } from "streamdown";
+import { Citations, getMessageCitations } from "@/components/Citations";
+import { SessionStatusBadge } from "@/components/SessionStatusBadge";
+import type { ChatCitation, ChatSession } from "@shared/types";
 
 interface Message {
   id: number;
   role: "user" | "assistant";
   content: string;
   signalScore?: number;
+  citations?: ChatCitation[];
+  latencyMs?: number;
+  timeToFirstTokenMs?: number;
+  /** Set on replies written by an operator */
+  operatorId?: number;
   createdAt: Date;
 }
 
@@ -37,34 +46,33 @@ export default function Playground() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [sessionId, setSessionId] = useState<number | null>(null);
+  // Whether the agent or an operator answers the session
+  const [sessionStatus, setSessionStatus] = useState<ChatSession["status"]>("bot");
   const [isLoading, setIsLoading] = useState(false);
+  // Text of the reply being streamed
+  const [streamingContent, setStreamingContent] = useState("");
+  // Tools called for the reply being streamed
+  const [toolActivity, setToolActivity] = useState<{ name: string; status: string }[]>([]);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const [tempSystemPrompt, setTempSystemPrompt] = useState("");
   const [tempTemperature, setTempTemperature] = useState(0.7);
+  const [tagFilter, setTagFilter] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const { data: agent, isLoading: agentLoading } = trpc.agent.get.useQuery({ id: agentId });
+  const { data: modelList } = trpc.agent.listModels.useQuery();
   const utils = trpc.useUtils();
 
-  const sendMessageMutation = trpc.chat.sendMessage.useMutation({
-    onSuccess: (data) => {
-      if (!sessionId) {
-        setSessionId(data.sessionId);
-      }
-      
-      setMessages(prev => [...prev, {
-        id: data.message.id,
-        role: "assistant",
-        content: data.message.content,
-        signalScore: data.message.signalScore ? Number(data.message.signalScore) : undefined,
-        createdAt: new Date(data.message.createdAt),
-      }]);
-      setIsLoading(false);
-    },
-    onError: (error) => {
-      toast.error(error.message || "Failed to send message");
-      setIsLoading(false);
-    },
-  });
+  // Watch handed off sessions for operator replies and status changes
+  const handedOff = sessionId !== null && (sessionStatus === "pending_handoff" || sessionStatus === "human");
+  const { data: session } = trpc.chat.getSession.useQuery(
+    { sessionId: sessionId ?? 0 },
+    { enabled: handedOff, refetchInterval: 5000 }
+  );
+  const { data: sessionMessages } = trpc.chat.getMessages.useQuery(
+    { sessionId: sessionId ?? 0 },
+    { enabled: handedOff, refetchInterval: 5000 }
+  );
 
   const updateAgentMutation = trpc.agent.update.useMutation({
     onSuccess: () => {
@@ -83,11 +91,35 @@ export default function Playground() {
     }
   }, [agent]);
 
+  useEffect(() => {
+    if (session && session.id === sessionId) setSessionStatus(session.status);
+  }, [session, sessionId]);
+
+  useEffect(() => {
+    const operatorMessages = sessionMessages?.filter(m => m.operatorId && m.sessionId === sessionId) ?? [];
+    if (operatorMessages.length === 0) return;
+    setMessages(prev => {
+      const known = new Set(prev.map(m => m.id));
+      const added = operatorMessages.filter(m => !known.has(m.id));
+      if (added.length === 0) return prev;
+      return [...prev, ...added.map((m): Message => ({
+        id: m.id,
+        role: "assistant",
+        content: m.content,
+        operatorId: m.operatorId ?? undefined,
+        createdAt: new Date(m.createdAt),
+      }))];
+    });
+  }, [sessionMessages, sessionId]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, streamingContent]);
 
-  const handleSend = () => {
+  // Stop a reply still streaming when leaving the page
+  useEffect(() => () => streamAbortRef.current?.abort(), []);
+
+  const handleSend = async () => {
     if (!inputValue.trim() || isLoading) return;
 
     const userMessage: Message = {
@@ -100,12 +132,57 @@ export default function Playground() {
     setMessages(prev => [...prev, userMessage]);
     setInputValue("");
     setIsLoading(true);
+    setStreamingContent("");
+    setToolActivity([]);
 
-    sendMessageMutation.mutate({
-      agentId,
-      sessionId: sessionId || undefined,
-      message: inputValue,
-    });
+    const abort = new AbortController();
+    streamAbortRef.current = abort;
+    try {
+      const data = await streamChatMessage(
+        {
+          agentId,
+          sessionId: sessionId || undefined,
+          message: inputValue,
+          tagFilter: tagFilter.trim() || undefined,
+        },
+        {
+          onSession: setSessionId,
+          onToken: (text) => setStreamingContent(prev => prev + text),
+          onToolCall: (message) => {
+            const { toolCall, status } = (message.metadata ?? {}) as { toolCall?: { name: string }; status?: string };
+            setToolActivity(prev => [...prev, { name: toolCall?.name ?? "tool", status: status ?? "ok" }]);
+          },
+        },
+        abort.signal
+      );
+
+      setSessionStatus(data.status);
+      // No reply from the agent while an operator owns the session
+      const reply = data.message;
+      if (reply) {
+        setMessages(prev => [...prev, {
+          id: reply.id,
+          role: "assistant",
+          content: reply.content,
+          signalScore: reply.signalScore ? Number(reply.signalScore) : undefined,
+          citations: getMessageCitations(reply.metadata),
+          latencyMs: reply.latencyMs ?? undefined,
+          timeToFirstTokenMs: reply.timeToFirstTokenMs ?? undefined,
+          createdAt: new Date(reply.createdAt),
+        }]);
+      }
+    } catch (error) {
+      if (!abort.signal.aborted) {
+        toast.error(error instanceof Error ? error.message : "Failed to send message");
+      }
+    } finally {
+      if (streamAbortRef.current === abort) {
+        streamAbortRef.current = null;
+        setStreamingContent("");
+        setToolActivity([]);
+        setIsLoading(false);
+      }
+    }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -116,8 +193,13 @@ export default function Playground() {
   };
 
   const handleNewConversation = () => {
+    streamAbortRef.current?.abort();
+    streamAbortRef.current = null;
+    setStreamingContent("");
+    setIsLoading(false);
     setMessages([]);
     setSessionId(null);
+    setSessionStatus("bot");
   };
 
   const handleStarterClick = (starter: string) => {
@@ -132,6 +214,10 @@ export default function Playground() {
     });
   };
 
+  const maxTemperature = modelList?.models.find(
+    m => m.id === agent?.model || m.aliases.includes(agent?.model ?? "")
+  )?.maxTemperature ?? 2;
+
   const getSignalScoreClass = (score: number) => {
     if (score >= 0.7) return "text-green-400";
     if (score >= 0.4) return "text-yellow-400";
@@ -179,6 +265,7 @@ export default function Playground() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {sessionStatus !== "bot" && <SessionStatusBadge status={sessionStatus} />}
           <Button variant="outline" size="sm" onClick={handleNewConversation}>
             <RefreshCw className="w-4 h-4 mr-2" />
             New Chat
@@ -215,10 +302,21 @@ export default function Playground() {
                     value={[tempTemperature]}
                     onValueChange={([v]) => setTempTemperature(v)}
                     min={0}
-                    max={2}
+                    max={maxTemperature}
                     step={0.1}
                   />
                 </div>
+                <div className="space-y-2">
+                  <Label>Tag Filter</Label>
+                  <Input
+                    value={tagFilter}
+                    onChange={(e) => setTagFilter(e.target.value)}
+                    placeholder="product:pro language:en"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Only documents with matching tags are retrieved. Applies from the next new chat.
+                  </p>
+                </div>
                 <Button onClick={handleSaveSettings} className="w-full gradient-primary">
                   Save Changes
                 </Button>
@@ -265,7 +363,11 @@ export default function Playground() {
                 >
                   {message.role !== "user" && (
                     <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
-                      <Bot className="w-4 h-4 text-primary" />
+                      {message.operatorId ? (
+                        <Headphones className="w-4 h-4 text-primary" />
+                      ) : (
+                        <Bot className="w-4 h-4 text-primary" />
+                      )}
                     </div>
                   )}
                   <div
@@ -280,11 +382,18 @@ export default function Playground() {
                     ) : (
                       <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                     )}
+                    {message.citations && <Citations citations={message.citations} />}
                     {message.signalScore !== undefined && (
-                      <div className="mt-2 pt-2 border-t border-border/50">
+                      <div className="mt-2 pt-2 border-t border-border/50 flex items-center justify-between gap-4">
                         <span className={`text-xs ${getSignalScoreClass(message.signalScore)}`}>
                           Signal Score: {message.signalScore.toFixed(3)}
                         </span>
+                        {message.latencyMs !== undefined && (
+                          <span className="text-xs text-muted-foreground">
+                            {message.timeToFirstTokenMs !== undefined && `First token ${message.timeToFirstTokenMs}ms · `}
+                            {message.latencyMs}ms
+                          </span>
+                        )}
                       </div>
                     )}
                   </div>
@@ -300,11 +409,29 @@ export default function Playground() {
                   <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center shrink-0">
                     <Bot className="w-4 h-4 text-primary" />
                   </div>
-                  <div className="chat-message-assistant p-4">
-                    <div className="flex items-center gap-2">
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      <span className="text-sm text-muted-foreground">Thinking...</span>
-                    </div>
+                  <div className="max-w-[80%] chat-message-assistant p-4">
+                    {toolActivity.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-2">
+                        {toolActivity.map((tool, index) => (
+                          <Badge
+                            key={index}
+                            variant="outline"
+                            className={`text-xs ${tool.status === "error" ? "text-red-400 border-red-500/30" : ""}`}
+                          >
+                            <Wrench className="w-3 h-3 mr-1" />
+                            {tool.name}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {streamingContent ? (
+                      <Streamdown className="text-sm">{streamingContent}</Streamdown>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        <span className="text-sm text-muted-foreground">Thinking...</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
@@ -320,20 +447,24 @@ export default function Playground() {
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="Type a message..."
-              disabled={isLoading}
+              placeholder={sessionStatus === "closed" ? "This conversation has been closed" : "Type a message..."}
+              disabled={isLoading || sessionStatus === "closed"}
               className="flex-1"
             />
             <Button
               onClick={handleSend}
-              disabled={!inputValue.trim() || isLoading}
+              disabled={!inputValue.trim() || isLoading || sessionStatus === "closed"}
               className="gradient-primary"
             >
               <Send className="w-4 h-4" />
             </Button>
           </div>
           <p className="text-xs text-muted-foreground mt-2 text-center">
-            Press Enter to send, Shift+Enter for new line
+            {sessionStatus === "pending_handoff"
+              ? "An operator has been asked to join; the agent keeps answering until then"
+              : sessionStatus === "human"
+                ? "An operator is answering this conversation"
+                : "Press Enter to send, Shift+Enter for new line"}
           </p>
         </div>
       </Card>
@@ -19,7 +19,8 @@ import {
   Check, 
   AlertTriangle,
   FileDown,
-  Trash2
+  Trash2,
+  Headphones
 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
@@ -101,6 +102,8 @@ export default function Settings() {
         return <RefreshCw className="w-4 h-4 text-blue-400" />;
       case "credits":
         return <Zap className="w-4 h-4 text-purple-400" />;
+      case "handoff":
+        return <Headphones className="w-4 h-4 text-green-400" />;
       default:
         return <Bell className="w-4 h-4 text-muted-foreground" />;
     }
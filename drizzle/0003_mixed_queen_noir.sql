@@ -0,0 +1,108 @@
+CREATE TABLE `ragConfigurations` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`enabled` int NOT NULL DEFAULT 1,
+	`chunkSize` int DEFAULT 512,
+	`chunkOverlap` int DEFAULT 50,
+	`topK` int DEFAULT 3,
+	`similarityThreshold` decimal(3,2) DEFAULT '0.7',
+	`embeddingModel` varchar(64) DEFAULT 'text-embedding-ada-002',
+	`indexVersion` int NOT NULL DEFAULT 0,
+	`indexedEmbeddingModel` varchar(64),
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ragConfigurations_id` PRIMARY KEY(`id`),
+	CONSTRAINT `ragConfigurations_agentId_unique` UNIQUE(`agentId`)
+);
+--> statement-breakpoint
+CREATE TABLE `ragIndexJobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`status` enum('pending','running','completed','failed','cancelled') NOT NULL DEFAULT 'pending',
+	`targetVersion` int NOT NULL,
+	`embeddingModel` varchar(64) NOT NULL,
+	`chunkSize` int NOT NULL,
+	`chunkOverlap` int NOT NULL,
+	`totalDocuments` int NOT NULL DEFAULT 0,
+	`processedDocuments` int NOT NULL DEFAULT 0,
+	`failedDocuments` int NOT NULL DEFAULT 0,
+	`error` text,
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ragIndexJobs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `trainingDocuments` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`fileName` varchar(255) NOT NULL,
+	`fileType` varchar(64) NOT NULL,
+	`fileSize` int,
+	`fileUrl` text,
+	`content` text NOT NULL,
+	`status` enum('pending','processing','completed','failed') NOT NULL DEFAULT 'pending',
+	`chunkCount` int DEFAULT 0,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `trainingDocuments_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `uiConnections` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`flowId` int NOT NULL,
+	`connectionId` varchar(64) NOT NULL,
+	`sourceFrameId` varchar(64) NOT NULL,
+	`targetFrameId` varchar(64) NOT NULL,
+	`label` varchar(255),
+	`type` varchar(64) DEFAULT 'default',
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `uiConnections_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `uiFlows` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`userId` int NOT NULL,
+	`agentId` int,
+	`name` varchar(255) NOT NULL,
+	`description` text,
+	`mermaidDiagram` text,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `uiFlows_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `uiFrames` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`flowId` int NOT NULL,
+	`frameId` varchar(64) NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`type` varchar(64) DEFAULT 'screen',
+	`positionX` int DEFAULT 0,
+	`positionY` int DEFAULT 0,
+	`width` int DEFAULT 300,
+	`height` int DEFAULT 200,
+	`config` json,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `uiFrames_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `vectorEmbeddings` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`agentId` int NOT NULL,
+	`chunkIndex` int NOT NULL,
+	`indexVersion` int NOT NULL DEFAULT 0,
+	`content` text NOT NULL,
+	`embedding` json,
+	`metadata` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `vectorEmbeddings_id` PRIMARY KEY(`id`)
+);
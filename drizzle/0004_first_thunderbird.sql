@@ -0,0 +1,20 @@
+CREATE TABLE `ingestionJobs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`type` varchar(64) NOT NULL,
+	`agentId` int NOT NULL,
+	`documentId` int,
+	`status` enum('queued','running','completed','failed') NOT NULL DEFAULT 'queued',
+	`attempts` int NOT NULL DEFAULT 0,
+	`maxAttempts` int NOT NULL DEFAULT 5,
+	`payload` json,
+	`runAt` timestamp NOT NULL DEFAULT (now()),
+	`lockedBy` varchar(128),
+	`lockedAt` timestamp,
+	`lastError` text,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ingestionJobs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `trainingDocuments` ADD `errorMessage` text;
\ No newline at end of file
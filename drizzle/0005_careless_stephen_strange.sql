@@ -0,0 +1,2 @@
+ALTER TABLE `ragConfigurations` ADD `chunkingStrategy` enum('fixed','sentence','markdown','csv','auto') DEFAULT 'fixed' NOT NULL;--> statement-breakpoint
+ALTER TABLE `ragIndexJobs` ADD `chunkingStrategy` enum('fixed','sentence','markdown','csv','auto') DEFAULT 'fixed' NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `ragConfigurations` ADD `keywordWeight` decimal(3,2) DEFAULT '0.3';
\ No newline at end of file
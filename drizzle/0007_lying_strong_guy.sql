@@ -0,0 +1 @@
+ALTER TABLE `trainingDocuments` ADD `sourceUrl` text;
\ No newline at end of file
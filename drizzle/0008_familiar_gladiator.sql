@@ -0,0 +1,20 @@
+CREATE TABLE `trainingSources` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`type` enum('website','file') NOT NULL,
+	`url` text NOT NULL,
+	`options` json,
+	`refreshIntervalHours` int,
+	`status` enum('idle','syncing','failed') NOT NULL DEFAULT 'idle',
+	`lastSyncedAt` timestamp,
+	`nextSyncAt` timestamp,
+	`lastError` text,
+	`lastSyncSummary` json,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `trainingSources_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `trainingDocuments` ADD `sourceId` int;--> statement-breakpoint
+ALTER TABLE `trainingDocuments` ADD `contentHash` varchar(64);
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `qaPairs` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`question` text NOT NULL,
+	`answer` text NOT NULL,
+	`embedding` json,
+	`embeddingModel` varchar(64),
+	`sourceMessageId` int,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `qaPairs_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `ragConfigurations` ADD `qaThreshold` decimal(3,2) DEFAULT '0.90';--> statement-breakpoint
+ALTER TABLE `ragConfigurations` ADD `qaAnswerMode` enum('direct','context') DEFAULT 'direct' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE `ragEvalQuestions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`setId` int NOT NULL,
+	`question` text NOT NULL,
+	`expected` json NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ragEvalQuestions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `ragEvalRuns` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`setId` int NOT NULL,
+	`agentId` int NOT NULL,
+	`status` enum('pending','running','completed','failed') NOT NULL DEFAULT 'pending',
+	`k` int NOT NULL,
+	`config` json,
+	`questionCount` int NOT NULL DEFAULT 0,
+	`recallAtK` decimal(5,4),
+	`mrr` decimal(5,4),
+	`ndcg` decimal(5,4),
+	`results` json,
+	`error` text,
+	`startedAt` timestamp,
+	`completedAt` timestamp,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `ragEvalRuns_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `ragEvalSets` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `ragEvalSets_id` PRIMARY KEY(`id`)
+);
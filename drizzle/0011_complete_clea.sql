@@ -0,0 +1,3 @@
+ALTER TABLE `ragConfigurations` ADD `queryRewriting` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `ragConfigurations` ADD `multiQueryCount` int DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `ragConfigurations` ADD `hydeEnabled` int DEFAULT 0 NOT NULL;
\ No newline at end of file
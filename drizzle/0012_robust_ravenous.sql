@@ -0,0 +1,2 @@
+ALTER TABLE `ragConfigurations` ADD `reranker` varchar(64);--> statement-breakpoint
+ALTER TABLE `ragConfigurations` ADD `rerankCandidates` int DEFAULT 20 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `trainingDocuments` ADD `tags` json;--> statement-breakpoint
+ALTER TABLE `vectorEmbeddings` ADD `tags` json;
\ No newline at end of file
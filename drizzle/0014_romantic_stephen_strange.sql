@@ -0,0 +1,35 @@
+CREATE TABLE `documentVersions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`documentId` int NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`version` int NOT NULL,
+	`change` enum('created','updated','restored','deleted') NOT NULL,
+	`restoredFromVersion` int,
+	`fileName` varchar(255) NOT NULL,
+	`fileType` varchar(64) NOT NULL,
+	`fileSize` int,
+	`fileUrl` text,
+	`sourceId` int,
+	`sourceUrl` text,
+	`content` text NOT NULL,
+	`contentHash` varchar(64) NOT NULL,
+	`metadata` json,
+	`tags` json,
+	`chunks` json,
+	`indexVersion` int,
+	`chunkCount` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `documentVersions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `knowledgeSnapshots` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(255) NOT NULL,
+	`lastVersionId` int NOT NULL,
+	`documentCount` int NOT NULL DEFAULT 0,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `knowledgeSnapshots_id` PRIMARY KEY(`id`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `documentVersions` MODIFY COLUMN `fileType` varchar(128) NOT NULL;--> statement-breakpoint
+ALTER TABLE `trainingDocuments` MODIFY COLUMN `fileType` varchar(128) NOT NULL;
\ No newline at end of file
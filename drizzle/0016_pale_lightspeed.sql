@@ -0,0 +1 @@
+ALTER TABLE `chatMessages` ADD `timeToFirstTokenMs` int;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `agents` MODIFY COLUMN `model` varchar(64) NOT NULL DEFAULT 'gemini-2.5-flash';
\ No newline at end of file
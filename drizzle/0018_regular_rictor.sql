@@ -0,0 +1 @@
+ALTER TABLE `agents` ADD `fallbackChain` json;
\ No newline at end of file
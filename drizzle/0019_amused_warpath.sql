@@ -0,0 +1,19 @@
+CREATE TABLE `agentTools` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`agentId` int NOT NULL,
+	`userId` int NOT NULL,
+	`name` varchar(64) NOT NULL,
+	`description` text NOT NULL,
+	`type` enum('webhook','builtin') NOT NULL,
+	`builtin` varchar(64),
+	`parameters` json,
+	`url` text,
+	`headers` json,
+	`timeoutMs` int,
+	`enabled` int NOT NULL DEFAULT 1,
+	`createdAt` timestamp NOT NULL DEFAULT (now()),
+	`updatedAt` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `agentTools_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `chatMessages` MODIFY COLUMN `role` enum('user','assistant','system','tool') NOT NULL;
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE `alerts` MODIFY COLUMN `alertType` enum('signal_score','retraining','credits','system','handoff') NOT NULL;--> statement-breakpoint
+ALTER TABLE `agents` ADD `handoffKeywords` json;--> statement-breakpoint
+ALTER TABLE `agents` ADD `handoffSignalThreshold` decimal(4,3);--> statement-breakpoint
+ALTER TABLE `chatMessages` ADD `operatorId` int;--> statement-breakpoint
+ALTER TABLE `chatSessions` ADD `status` enum('bot','pending_handoff','human','closed') DEFAULT 'bot' NOT NULL;--> statement-breakpoint
+ALTER TABLE `chatSessions` ADD `operatorId` int;--> statement-breakpoint
+ALTER TABLE `chatSessions` ADD `handoffReason` varchar(255);--> statement-breakpoint
+ALTER TABLE `chatSessions` ADD `handoffRequestedAt` timestamp;
\ No newline at end of file
@@ -18,6 +18,12 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+/**
+ * Provider and model an agent's replies fall back to when its own model's
+ * providers fail
+ */
+export type FallbackStep = { provider: string; model: string };
+
 /**
  * AI Agents table - stores chatbot configurations
  */
@@ -27,12 +33,17 @@ export const agents = mysqlTable("agents", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   systemPrompt: text("systemPrompt"),
-  model: varchar("model", { length: 64 }).default("gpt-4").notNull(),
+  model: varchar("model", { length: 64 }).default("gemini-2.5-flash").notNull(),
   status: mysqlEnum("status", ["active", "inactive", "training"]).default("active").notNull(),
   conversationStarters: json("conversationStarters").$type<string[]>(),
   constraints: json("constraints").$type<string[]>(),
   temperature: decimal("temperature", { precision: 3, scale: 2 }).default("0.7"),
   maxTokens: int("maxTokens").default(2048),
+  fallbackChain: json("fallbackChain").$type<FallbackStep[]>(),
+  // Phrases that hand a session to an operator; null uses the default list, [] turns them off
+  handoffKeywords: json("handoffKeywords").$type<string[]>(),
+  // Replies scoring below this hand the session to an operator; null turns it off
+  handoffSignalThreshold: decimal("handoffSignalThreshold", { precision: 4, scale: 3 }),
   lastTrainedAt: timestamp("lastTrainedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -51,6 +62,12 @@ export const chatSessions = mysqlTable("chatSessions", {
   sessionId: varchar("sessionId", { length: 64 }).notNull().unique(),
   title: varchar("title", { length: 255 }),
   metadata: json("metadata").$type<Record<string, unknown>>(),
+  // Who answers: the agent, nobody yet (waiting for an operator), an operator, or nobody ever again
+  status: mysqlEnum("status", ["bot", "pending_handoff", "human", "closed"]).default("bot").notNull(),
+  // User who took the session over
+  operatorId: int("operatorId"),
+  handoffReason: varchar("handoffReason", { length: 255 }),
+  handoffRequestedAt: timestamp("handoffRequestedAt"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -64,13 +81,17 @@ export type InsertChatSession = typeof chatSessions.$inferInsert;
 export const chatMessages = mysqlTable("chatMessages", {
   id: int("id").autoincrement().primaryKey(),
   sessionId: int("sessionId").notNull(),
-  role: mysqlEnum("role", ["user", "assistant", "system"]).notNull(),
+  // "tool" messages record the tool calls made while replying, with their results
+  role: mysqlEnum("role", ["user", "assistant", "system", "tool"]).notNull(),
   content: text("content").notNull(),
   signalScore: decimal("signalScore", { precision: 5, scale: 3 }),
   aiRequests: int("aiRequests").default(1),
   tokensUsed: int("tokensUsed"),
   latencyMs: int("latencyMs"),
+  timeToFirstTokenMs: int("timeToFirstTokenMs"),
   metadata: json("metadata").$type<Record<string, unknown>>(),
+  // Set on assistant messages written by an operator instead of the agent
+  operatorId: int("operatorId"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
@@ -135,7 +156,7 @@ export const alerts = mysqlTable("alerts", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
   agentId: int("agentId"),
-  alertType: mysqlEnum("alertType", ["signal_score", "retraining", "credits", "system"]).notNull(),
+  alertType: mysqlEnum("alertType", ["signal_score", "retraining", "credits", "system", "handoff"]).notNull(),
   title: varchar("title", { length: 255 }).notNull(),
   message: text("message").notNull(),
   isRead: int("isRead").default(0).notNull(),
@@ -146,6 +167,11 @@ export const alerts = mysqlTable("alerts", {
 export type Alert = typeof alerts.$inferSelect;
 export type InsertAlert = typeof alerts.$inferInsert;
 
+/**
+ * Access tags of a document and its chunks, e.g. `{ tier: ["gold"] }`
+ */
+export type DocumentTags = Record<string, string[]>;
+
 /**
  * Training documents for RAG (Retrieval-Augmented Generation)
  */
@@ -154,13 +180,18 @@ export const trainingDocuments = mysqlTable("trainingDocuments", {
   agentId: int("agentId").notNull(),
   userId: int("userId").notNull(),
   fileName: varchar("fileName", { length: 255 }).notNull(),
-  fileType: varchar("fileType", { length: 64 }).notNull(),
+  fileType: varchar("fileType", { length: 128 }).notNull(),
   fileSize: int("fileSize"),
   fileUrl: text("fileUrl"),
+  sourceId: int("sourceId"),
+  sourceUrl: text("sourceUrl"),
   content: text("content").notNull(),
+  contentHash: varchar("contentHash", { length: 64 }),
   status: mysqlEnum("status", ["pending", "processing", "completed", "failed"]).default("pending").notNull(),
   chunkCount: int("chunkCount").default(0),
+  errorMessage: text("errorMessage"),
   metadata: json("metadata").$type<Record<string, unknown>>(),
+  tags: json("tags").$type<DocumentTags>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -168,6 +199,77 @@ export const trainingDocuments = mysqlTable("trainingDocuments", {
 export type TrainingDocument = typeof trainingDocuments.$inferSelect;
 export type InsertTrainingDocument = typeof trainingDocuments.$inferInsert;
 
+/**
+ * Fetchable training sources (websites, remote files) kept in sync on a schedule
+ */
+export const trainingSources = mysqlTable("trainingSources", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  userId: int("userId").notNull(),
+  type: mysqlEnum("type", ["website", "file"]).notNull(),
+  url: text("url").notNull(),
+  options: json("options").$type<Record<string, unknown>>(),
+  refreshIntervalHours: int("refreshIntervalHours"),
+  status: mysqlEnum("status", ["idle", "syncing", "failed"]).default("idle").notNull(),
+  lastSyncedAt: timestamp("lastSyncedAt"),
+  nextSyncAt: timestamp("nextSyncAt"),
+  lastError: text("lastError"),
+  lastSyncSummary: json("lastSyncSummary").$type<Record<string, unknown>>(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type TrainingSource = typeof trainingSources.$inferSelect;
+export type InsertTrainingSource = typeof trainingSources.$inferInsert;
+
+/**
+ * Curated question/answer pairs that override generated replies
+ */
+export const qaPairs = mysqlTable("qaPairs", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  userId: int("userId").notNull(),
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  // Embedding of the question, matched against incoming messages
+  embedding: json("embedding").$type<number[]>(),
+  embeddingModel: varchar("embeddingModel", { length: 64 }),
+  // Chat message the pair was created from, when saved from chat logs
+  sourceMessageId: int("sourceMessageId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type QaPair = typeof qaPairs.$inferSelect;
+export type InsertQaPair = typeof qaPairs.$inferInsert;
+
+/**
+ * Tools an agent's model can call while replying: HTTP webhooks and
+ * built-in tools run by the server
+ */
+export const agentTools = mysqlTable("agentTools", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  userId: int("userId").notNull(),
+  // Name the model calls the tool by, unique per agent
+  name: varchar("name", { length: 64 }).notNull(),
+  description: text("description").notNull(),
+  type: mysqlEnum("type", ["webhook", "builtin"]).notNull(),
+  // Built-in tool run for "builtin" tools
+  builtin: varchar("builtin", { length: 64 }),
+  // JSON schema of a webhook's arguments; built-in tools define their own
+  parameters: json("parameters").$type<Record<string, unknown>>(),
+  url: text("url"),
+  headers: json("headers").$type<Record<string, string>>(),
+  timeoutMs: int("timeoutMs"),
+  enabled: int("enabled").default(1).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type AgentTool = typeof agentTools.$inferSelect;
+export type InsertAgentTool = typeof agentTools.$inferInsert;
+
 /**
  * RAG configurations for agents
  */
@@ -177,9 +279,22 @@ export const ragConfigurations = mysqlTable("ragConfigurations", {
   enabled: int("enabled").default(1).notNull(),
   chunkSize: int("chunkSize").default(512),
   chunkOverlap: int("chunkOverlap").default(50),
+  chunkingStrategy: mysqlEnum("chunkingStrategy", ["fixed", "sentence", "markdown", "csv", "auto"]).default("fixed").notNull(),
   topK: int("topK").default(3),
   similarityThreshold: decimal("similarityThreshold", { precision: 3, scale: 2 }).default("0.7"),
+  keywordWeight: decimal("keywordWeight", { precision: 3, scale: 2 }).default("0.3"),
+  // Query preparation before retrieval; each step costs an LLM call
+  queryRewriting: int("queryRewriting").default(0).notNull(),
+  multiQueryCount: int("multiQueryCount").default(0).notNull(),
+  hydeEnabled: int("hydeEnabled").default(0).notNull(),
+  // Second-stage reranker over the first rerankCandidates chunks; null when off
+  reranker: varchar("reranker", { length: 64 }),
+  rerankCandidates: int("rerankCandidates").default(20).notNull(),
+  qaThreshold: decimal("qaThreshold", { precision: 3, scale: 2 }).default("0.90"),
+  qaAnswerMode: mysqlEnum("qaAnswerMode", ["direct", "context"]).default("direct").notNull(),
   embeddingModel: varchar("embeddingModel", { length: 64 }).default("text-embedding-ada-002"),
+  indexVersion: int("indexVersion").default(0).notNull(),
+  indexedEmbeddingModel: varchar("indexedEmbeddingModel", { length: 64 }),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -195,15 +310,189 @@ export const vectorEmbeddings = mysqlTable("vectorEmbeddings", {
   documentId: int("documentId").notNull(),
   agentId: int("agentId").notNull(),
   chunkIndex: int("chunkIndex").notNull(),
+  indexVersion: int("indexVersion").default(0).notNull(),
   content: text("content").notNull(),
   embedding: json("embedding").$type<number[]>(),
   metadata: json("metadata").$type<Record<string, unknown>>(),
+  // Copied from the document for filtering
+  tags: json("tags").$type<DocumentTags>(),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
 });
 
 export type VectorEmbedding = typeof vectorEmbeddings.$inferSelect;
 export type InsertVectorEmbedding = typeof vectorEmbeddings.$inferInsert;
 
+/**
+ * A document's chunks as embedded for one version
+ */
+export type DocumentVersionChunk = {
+  chunkIndex: number;
+  content: string;
+  /** Only kept by versions recorded before embeddings were left out */
+  embedding?: number[] | null;
+  metadata: Record<string, unknown> | null;
+};
+
+/**
+ * Every embedded revision of a training document, kept after it is
+ * replaced or deleted so the knowledge base can be rolled back
+ */
+export const documentVersions = mysqlTable("documentVersions", {
+  id: int("id").autoincrement().primaryKey(),
+  documentId: int("documentId").notNull(),
+  agentId: int("agentId").notNull(),
+  userId: int("userId").notNull(),
+  version: int("version").notNull(),
+  change: mysqlEnum("change", ["created", "updated", "restored", "deleted"]).notNull(),
+  // Version whose content a restore brought back
+  restoredFromVersion: int("restoredFromVersion"),
+  fileName: varchar("fileName", { length: 255 }).notNull(),
+  fileType: varchar("fileType", { length: 128 }).notNull(),
+  fileSize: int("fileSize"),
+  fileUrl: text("fileUrl"),
+  sourceId: int("sourceId"),
+  sourceUrl: text("sourceUrl"),
+  content: text("content").notNull(),
+  contentHash: varchar("contentHash", { length: 64 }).notNull(),
+  metadata: json("metadata").$type<Record<string, unknown>>(),
+  tags: json("tags").$type<DocumentTags>(),
+  // Chunk text, restored while the index version still matches
+  chunks: json("chunks").$type<DocumentVersionChunk[]>(),
+  indexVersion: int("indexVersion"),
+  chunkCount: int("chunkCount").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type InsertDocumentVersion = typeof documentVersions.$inferInsert;
+
+/**
+ * Named points in an agent's document history to roll back to
+ */
+export const knowledgeSnapshots = mysqlTable("knowledgeSnapshots", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  // Latest documentVersions id at the time of the snapshot
+  lastVersionId: int("lastVersionId").notNull(),
+  documentCount: int("documentCount").default(0).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type KnowledgeSnapshot = typeof knowledgeSnapshots.$inferSelect;
+export type InsertKnowledgeSnapshot = typeof knowledgeSnapshots.$inferInsert;
+
+/**
+ * Re-index jobs that rebuild an agent's embeddings after config changes
+ */
+export const ragIndexJobs = mysqlTable("ragIndexJobs", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed", "cancelled"]).default("pending").notNull(),
+  targetVersion: int("targetVersion").notNull(),
+  embeddingModel: varchar("embeddingModel", { length: 64 }).notNull(),
+  chunkSize: int("chunkSize").notNull(),
+  chunkOverlap: int("chunkOverlap").notNull(),
+  chunkingStrategy: mysqlEnum("chunkingStrategy", ["fixed", "sentence", "markdown", "csv", "auto"]).default("fixed").notNull(),
+  totalDocuments: int("totalDocuments").default(0).notNull(),
+  processedDocuments: int("processedDocuments").default(0).notNull(),
+  failedDocuments: int("failedDocuments").default(0).notNull(),
+  error: text("error"),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type RagIndexJob = typeof ragIndexJobs.$inferSelect;
+export type InsertRagIndexJob = typeof ragIndexJobs.$inferInsert;
+
+/**
+ * A document, or one chunk of it, expected to be retrieved for an eval question
+ */
+export type RagEvalExpectation = {
+  documentId: number;
+  /** Omitted when any chunk of the document counts as relevant */
+  chunkIndex?: number;
+};
+
+/**
+ * Golden question sets for measuring retrieval quality
+ */
+export const ragEvalSets = mysqlTable("ragEvalSets", {
+  id: int("id").autoincrement().primaryKey(),
+  agentId: int("agentId").notNull(),
+  userId: int("userId").notNull(),
+  name: varchar("name", { length: 255 }).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type RagEvalSet = typeof ragEvalSets.$inferSelect;
+export type InsertRagEvalSet = typeof ragEvalSets.$inferInsert;
+
+export const ragEvalQuestions = mysqlTable("ragEvalQuestions", {
+  id: int("id").autoincrement().primaryKey(),
+  setId: int("setId").notNull(),
+  question: text("question").notNull(),
+  expected: json("expected").$type<RagEvalExpectation[]>().notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type RagEvalQuestion = typeof ragEvalQuestions.$inferSelect;
+export type InsertRagEvalQuestion = typeof ragEvalQuestions.$inferInsert;
+
+/**
+ * Evaluation runs of a question set against an agent's index
+ */
+export const ragEvalRuns = mysqlTable("ragEvalRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  setId: int("setId").notNull(),
+  agentId: int("agentId").notNull(),
+  status: mysqlEnum("status", ["pending", "running", "completed", "failed"]).default("pending").notNull(),
+  k: int("k").notNull(),
+  // RAG settings the run was measured with
+  config: json("config").$type<Record<string, unknown>>(),
+  questionCount: int("questionCount").default(0).notNull(),
+  recallAtK: decimal("recallAtK", { precision: 5, scale: 4 }),
+  mrr: decimal("mrr", { precision: 5, scale: 4 }),
+  ndcg: decimal("ndcg", { precision: 5, scale: 4 }),
+  // Per-question metrics and retrieved chunks
+  results: json("results").$type<Record<string, unknown>[]>(),
+  error: text("error"),
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type RagEvalRun = typeof ragEvalRuns.$inferSelect;
+export type InsertRagEvalRun = typeof ragEvalRuns.$inferInsert;
+
+/**
+ * Durable background job queue for document ingestion
+ */
+export const ingestionJobs = mysqlTable("ingestionJobs", {
+  id: int("id").autoincrement().primaryKey(),
+  type: varchar("type", { length: 64 }).notNull(),
+  agentId: int("agentId").notNull(),
+  documentId: int("documentId"),
+  status: mysqlEnum("status", ["queued", "running", "completed", "failed"]).default("queued").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(5).notNull(),
+  payload: json("payload").$type<Record<string, unknown>>(),
+  runAt: timestamp("runAt").defaultNow().notNull(),
+  lockedBy: varchar("lockedBy", { length: 128 }),
+  lockedAt: timestamp("lockedAt"),
+  lastError: text("lastError"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type IngestionJob = typeof ingestionJobs.$inferSelect;
+export type InsertIngestionJob = typeof ingestionJobs.$inferInsert;
+
 /**
  * UI Flows for canvas-based UI autogeneration
  */
@@ -7,4 +7,18 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  openaiApiUrl: process.env.OPENAI_BASE_URL ?? "",
+  openaiApiKey: process.env.OPENAI_API_KEY ?? "",
+  anthropicApiUrl: process.env.ANTHROPIC_BASE_URL ?? "",
+  anthropicApiKey: process.env.ANTHROPIC_API_KEY ?? "",
+  // Ollama, llama.cpp or another OpenAI-compatible server, e.g. http://localhost:11434
+  localLlmUrl: process.env.LOCAL_LLM_BASE_URL ?? "",
+  localLlmApiKey: process.env.LOCAL_LLM_API_KEY ?? "",
+  llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS ?? "120000"),
+  // Longest pause between pieces of a streamed reply
+  llmStreamIdleTimeoutMs: parseInt(process.env.LLM_STREAM_IDLE_TIMEOUT_MS ?? "30000"),
+  ingestionConcurrency: parseInt(process.env.INGESTION_CONCURRENCY ?? "2"),
+  vectorIndexEnabled: process.env.VECTOR_INDEX !== "off",
+  vectorIndexDir: process.env.VECTOR_INDEX_DIR ?? ".data/vector-index",
+  crawlerAllowPrivateHosts: process.env.CRAWLER_ALLOW_PRIVATE_HOSTS === "true",
 };
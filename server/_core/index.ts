@@ -7,6 +7,8 @@ import { registerOAuthRoutes } from "./oauth";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
+import { startIngestion } from "../ingestionJobs";
+import { registerChatStreamRoutes } from "../chatStream";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -35,6 +37,8 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // Streamed chat replies under /api/chat/stream
+  registerChatStreamRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -60,6 +64,9 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Background document ingestion
+  await startIngestion();
 }
 
 startServer().catch(console.error);
@@ -1,3 +1,4 @@
+import { readServerSentEvents } from "@shared/sse";
 import { ENV } from "./env";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
@@ -30,6 +31,8 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  /** Calls an assistant message made, when replaying a tool-calling turn */
+  tool_calls?: ToolCall[];
 };
 
 export type Tool = {
@@ -57,6 +60,12 @@ export type ToolChoice =
 
 export type InvokeParams = {
   messages: Message[];
+  /** Defaults to LLM_MODEL */
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  top_p?: number;
+  stop?: string | string[];
   tools?: Tool[];
   toolChoice?: ToolChoice;
   tool_choice?: ToolChoice;
@@ -137,7 +146,7 @@ const normalizeContentPart = (
 };
 
 const normalizeMessage = (message: Message) => {
-  const { role, name, tool_call_id } = message;
+  const { role, name, tool_call_id, tool_calls } = message;
 
   if (role === "tool" || role === "function") {
     const content = ensureArray(message.content)
@@ -160,6 +169,7 @@ const normalizeMessage = (message: Message) => {
       role,
       name,
       content: contentParts[0].text,
+      ...(tool_calls && tool_calls.length > 0 ? { tool_calls } : {}),
     };
   }
 
@@ -167,6 +177,7 @@ const normalizeMessage = (message: Message) => {
     role,
     name,
     content: contentParts,
+    ...(tool_calls && tool_calls.length > 0 ? { tool_calls } : {}),
   };
 };
 
@@ -265,14 +276,232 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
+export const LLM_MODEL = "gemini-2.5-flash";
+
+/**
+ * Failed LLM request; `retryable` for rate limits, server errors, timeouts
+ * and network failures, which another attempt may get past
+ */
+export class LLMRequestError extends Error {
+  readonly status?: number;
+  readonly retryable: boolean;
+  /** Wait asked for by the provider's Retry-After header */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status?: number; retryable: boolean; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+};
+
+/**
+ * Error event sent in place of the rest of a streamed response
+ */
+export type StreamErrorEvent = {
+  message?: string;
+  type?: string;
+  code?: string | number | null;
+  status?: number;
+};
+
+// HTTP statuses of the error types and codes APIs send mid-stream
+const STREAM_ERROR_STATUSES: Record<string, number> = {
+  invalid_request_error: 400,
+  context_length_exceeded: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  rate_limit_exceeded: 429,
+  api_error: 500,
+  server_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * `LLMRequestError` for an error event in a stream, retryable by the same
+ * rules as the HTTP status it stands for
+ */
+export function toStreamError(error: StreamErrorEvent): LLMRequestError {
+  const status =
+    error.status ??
+    (typeof error.code === "number" ? error.code : Number(error.code) || undefined) ??
+    STREAM_ERROR_STATUSES[String(error.code)] ??
+    STREAM_ERROR_STATUSES[error.type ?? ""];
+  return new LLMRequestError(`LLM stream failed: ${error.message ?? "unknown error"}`, {
+    status,
+    retryable: status !== undefined && isRetryableStatus(status),
+  });
+}
+
+export type LLMRequestOptions = {
+  signal?: AbortSignal;
+  /** Time allowed until the whole response has arrived */
+  timeoutMs?: number;
+  /**
+   * For streamed responses: time allowed between pieces of the body, which
+   * then has no overall limit; `timeoutMs` only covers the headers
+   */
+  idleTimeoutMs?: number;
+};
+
+/**
+ * POST a JSON request to an LLM API, turning HTTP errors, timeouts and
+ * network failures into `LLMRequestError`s
+ * The timeouts keep running while the returned response's body is read.
+ */
+export async function postLLMRequest(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  { signal, timeoutMs, idleTimeoutMs }: LLMRequestOptions = {}
+): Promise<Response> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  let timedOut: string | null = null;
+  const startTimer = (ms: number | undefined, message: string) =>
+    ms
+      ? setTimeout(() => {
+          timedOut = message;
+          controller.abort();
+        }, ms)
+      : undefined;
+  let timer = startTimer(timeoutMs, `LLM request timed out after ${timeoutMs}ms`);
+  const finish = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+  };
+
+  const toRequestError = (error: unknown) => {
+    if (signal?.aborted || error instanceof LLMRequestError) return error;
+    if (timedOut) {
+      return new LLMRequestError(timedOut, { retryable: true });
+    }
+    return new LLMRequestError(
+      `LLM request failed: ${error instanceof Error ? error.message : error}`,
+      { retryable: true }
+    );
+  };
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    finish();
+    throw toRequestError(error);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    finish();
+    throw new LLMRequestError(
+      `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`,
+      {
+        status: response.status,
+        retryable: isRetryableStatus(response.status),
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      }
+    );
+  }
+  if (!response.body) {
+    finish();
+    return response;
+  }
+
+  if (idleTimeoutMs) {
+    clearTimeout(timer);
+    timer = undefined;
+  }
+  const restartIdleTimer = () => {
+    if (!idleTimeoutMs) return;
+    clearTimeout(timer);
+    timer = startTimer(idleTimeoutMs, `LLM stream stalled for ${idleTimeoutMs}ms`);
+  };
+  restartIdleTimer();
+
+  // The body as read by the caller, ending the timers with it
+  const reader = response.body.getReader();
+  const guarded = new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          finish();
+          stream.close();
+          return;
+        }
+        restartIdleTimer();
+        stream.enqueue(value);
+      } catch (error) {
+        finish();
+        stream.error(toRequestError(error));
+      }
+    },
+    cancel(reason) {
+      finish();
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(guarded, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * An OpenAI-compatible `/v1/chat/completions` endpoint
+ */
+export type CompletionEndpoint = {
+  url: string;
+  apiKey?: string;
+  /** Sent with every request, e.g. options only one provider understands */
+  extraBody?: Record<string, unknown>;
+  timeoutMs?: number;
+};
 
+const buildPayload = (
+  params: InvokeParams,
+  extraBody?: Record<string, unknown>
+): Record<string, unknown> => {
   const {
     messages,
+    model,
+    temperature,
+    topP,
+    top_p,
+    stop,
     tools,
     toolChoice,
     tool_choice,
+    maxTokens,
+    max_tokens,
     outputSchema,
     output_schema,
     responseFormat,
@@ -280,10 +509,24 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   } = params;
 
   const payload: Record<string, unknown> = {
-    model: "gemini-2.5-flash",
+    model: model || LLM_MODEL,
     messages: messages.map(normalizeMessage),
+    ...extraBody,
   };
 
+  if (temperature !== undefined) {
+    payload.temperature = temperature;
+  }
+
+  const normalizedTopP = topP ?? top_p;
+  if (normalizedTopP !== undefined) {
+    payload.top_p = normalizedTopP;
+  }
+
+  if (stop !== undefined && stop.length > 0) {
+    payload.stop = stop;
+  }
+
   if (tools && tools.length > 0) {
     payload.tools = tools;
   }
@@ -296,10 +539,7 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.tool_choice = normalizedToolChoice;
   }
 
-  payload.max_tokens = 32768
-  payload.thinking = {
-    "budget_tokens": 128
-  }
+  payload.max_tokens = maxTokens ?? max_tokens ?? 32768
 
   const normalizedResponseFormat = normalizeResponseFormat({
     responseFormat,
@@ -312,21 +552,164 @@ export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
     payload.response_format = normalizedResponseFormat;
   }
 
-  const response = await fetch(resolveApiUrl(), {
-    method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${ENV.forgeApiKey}`,
+  return payload;
+};
+
+const endpointHeaders = (endpoint: CompletionEndpoint): Record<string, string> =>
+  endpoint.apiKey ? { authorization: `Bearer ${endpoint.apiKey}` } : {};
+
+/**
+ * Chat completion from an OpenAI-compatible endpoint
+ */
+export async function requestCompletion(
+  endpoint: CompletionEndpoint,
+  params: InvokeParams,
+  signal?: AbortSignal
+): Promise<InvokeResult> {
+  const response = await postLLMRequest(
+    endpoint.url,
+    endpointHeaders(endpoint),
+    buildPayload(params, endpoint.extraBody),
+    { signal, timeoutMs: endpoint.timeoutMs }
+  );
+  return (await response.json()) as InvokeResult;
+}
+
+export const forgeEndpoint = (): CompletionEndpoint => ({
+  url: resolveApiUrl(),
+  apiKey: ENV.forgeApiKey,
+  extraBody: {
+    thinking: {
+      "budget_tokens": 128
     },
-    body: JSON.stringify(payload),
-  });
+  },
+  timeoutMs: ENV.llmTimeoutMs,
+});
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(
-      `LLM invoke failed: ${response.status} ${response.statusText} – ${errorText}`
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
+  assertApiKey();
+
+  return requestCompletion(forgeEndpoint(), params);
+}
+
+export type StreamOptions = {
+  /** Called with each piece of the reply's text as it arrives */
+  onToken: (text: string) => void;
+  /** Aborting ends the request and returns the text received so far */
+  signal?: AbortSignal;
+};
+
+export type StreamResult = {
+  content: string;
+  /** "aborted" when the signal ended the request */
+  finishReason: string | null;
+  usage?: InvokeResult["usage"];
+  /** Milliseconds from sending the request to the first piece of text */
+  timeToFirstTokenMs: number | null;
+  /** Tools the model called, assembled from their streamed pieces */
+  toolCalls?: ToolCall[];
+};
+
+type StreamChunk = {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+    finish_reason?: string | null;
+  }>;
+  usage?: InvokeResult["usage"] | null;
+  error?: StreamErrorEvent;
+};
+
+/**
+ * Streamed chat completion from an OpenAI-compatible endpoint, reading its
+ * server-sent events as they arrive
+ */
+export async function requestCompletionStream(
+  endpoint: CompletionEndpoint,
+  params: InvokeParams,
+  { onToken, signal }: StreamOptions
+): Promise<StreamResult> {
+  const startTime = Date.now();
+  const result: StreamResult = {
+    content: "",
+    finishReason: null,
+    timeToFirstTokenMs: null,
+  };
+
+  try {
+    const response = await postLLMRequest(
+      endpoint.url,
+      endpointHeaders(endpoint),
+      {
+        ...buildPayload(params, endpoint.extraBody),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal, timeoutMs: endpoint.timeoutMs, idleTimeoutMs: ENV.llmStreamIdleTimeoutMs }
     );
+    if (!response.body) {
+      throw new Error("LLM stream failed: response has no body");
+    }
+
+    for await (const event of readServerSentEvents(response.body)) {
+      if (event.data === "[DONE]") break;
+
+      const chunk = JSON.parse(event.data) as StreamChunk;
+      if (chunk.error) {
+        throw toStreamError(chunk.error);
+      }
+      if (chunk.usage) {
+        result.usage = chunk.usage;
+      }
+
+      const choice = chunk.choices?.[0];
+      if (choice?.finish_reason) {
+        result.finishReason = choice.finish_reason;
+      }
+      const text = choice?.delta?.content;
+      if (text) {
+        if (result.timeToFirstTokenMs === null) {
+          result.timeToFirstTokenMs = Date.now() - startTime;
+        }
+        result.content += text;
+        onToken(text);
+      }
+      // A call's id and name come in its first piece, the arguments across all of them
+      for (const piece of choice?.delta?.tool_calls ?? []) {
+        result.toolCalls ??= [];
+        const call = (result.toolCalls[piece.index] ??= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (piece.id) call.id = piece.id;
+        if (piece.function?.name) call.function.name += piece.function.name;
+        if (piece.function?.arguments) call.function.arguments += piece.function.arguments;
+      }
+    }
+    result.toolCalls = result.toolCalls?.filter(Boolean);
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    result.finishReason = "aborted";
   }
 
-  return (await response.json()) as InvokeResult;
+  return result;
+}
+
+/**
+ * Streaming variant of `invokeLLM`
+ */
+export async function streamLLM(
+  params: InvokeParams,
+  options: StreamOptions
+): Promise<StreamResult> {
+  assertApiKey();
+
+  return requestCompletionStream(forgeEndpoint(), params, options);
 }
@@ -0,0 +1,168 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentTool } from "../drizzle/schema";
+
+vi.mock("./rag", () => ({
+  retrieveRelevantContext: vi.fn(),
+}));
+
+import { ENV } from "./_core/env";
+import { retrieveRelevantContext } from "./rag";
+import { runToolCall, toToolDefinitions, validateAgentTool, validateToolArguments, type ToolContext } from "./agentTools";
+
+const orderParameters = {
+  type: "object",
+  properties: {
+    orderId: { type: "string" },
+    items: { type: "array", items: { type: "integer" } },
+    priority: { enum: ["low", "high"] },
+  },
+  required: ["orderId"],
+};
+
+const webhook = {
+  id: 1,
+  agentId: 3,
+  userId: 2,
+  name: "lookup_order",
+  description: "Look up an order",
+  type: "webhook",
+  builtin: null,
+  parameters: orderParameters,
+  // Public address, so the URL check needs no DNS lookup
+  url: "https://93.184.216.34/orders",
+  headers: { authorization: "Bearer secret" },
+  timeoutMs: null,
+  enabled: 1,
+} as AgentTool;
+
+const search = { ...webhook, id: 2, name: "search", type: "builtin", builtin: "search_knowledge_base", parameters: null, url: null } as AgentTool;
+
+const context: ToolContext = { agentId: 3, userId: 2, sessionId: 7, tagFilter: { team: ["support"] } };
+
+const call = (name: string, args: unknown) => ({
+  id: "call_1",
+  type: "function" as const,
+  function: { name, arguments: typeof args === "string" ? args : JSON.stringify(args) },
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("validateToolArguments", () => {
+  it("checks required properties, types and enums at any depth", () => {
+    expect(validateToolArguments(orderParameters, { orderId: "A1", items: [1, 2], priority: "high" })).toEqual([]);
+    expect(validateToolArguments(orderParameters, { items: [1, "2"], priority: "urgent" })).toEqual([
+      "arguments.orderId is required",
+      "arguments.items[1] must be of type integer",
+      'arguments.priority must be one of "low", "high"',
+    ]);
+    expect(validateToolArguments(orderParameters, [])).toEqual(["arguments must be of type object"]);
+  });
+});
+
+describe("toToolDefinitions", () => {
+  it("describes enabled tools, built-in ones with their own parameters", () => {
+    const definitions = toToolDefinitions([webhook, search, { ...webhook, name: "off", enabled: 0 }]);
+
+    expect(definitions.map(tool => tool.function.name)).toEqual(["lookup_order", "search"]);
+    expect(definitions[1].function.parameters).toMatchObject({ required: ["query"] });
+  });
+});
+
+describe("validateAgentTool", () => {
+  it("rejects duplicate names, unknown built-ins and private webhook hosts", async () => {
+    await expect(validateAgentTool(webhook, [webhook])).rejects.toThrow("already has a tool named lookup_order");
+    await expect(validateAgentTool({ ...search, builtin: "send_email" }, [])).rejects.toThrow("Unknown built-in tool: send_email");
+    await expect(validateAgentTool({ ...webhook, url: "http://127.0.0.1/orders" }, [])).rejects.toThrow("private network");
+    await expect(validateAgentTool({ ...webhook, name: "look up" }, [])).rejects.toThrow("Tool names");
+  });
+});
+
+describe("runToolCall", () => {
+  let server: http.Server;
+  let endpoint: AgentTool;
+  let respond: (req: http.IncomingMessage, res: http.ServerResponse) => void;
+  const requests: { url?: string; headers: http.IncomingHttpHeaders; body: string }[] = [];
+
+  beforeAll(async () => {
+    ENV.crawlerAllowPrivateHosts = true;
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url, headers: req.headers, body });
+        respond(req, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    endpoint = { ...webhook, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/orders` };
+  });
+
+  afterAll(async () => {
+    ENV.crawlerAllowPrivateHosts = false;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it("posts the arguments to a webhook and returns its response", async () => {
+    respond = (_req, res) => res.writeHead(200, { "Content-Type": "application/json" }).end('{"status":"shipped"}');
+
+    const run = await runToolCall([endpoint], call("lookup_order", { orderId: "A1" }), context);
+
+    expect(run).toMatchObject({ toolCallId: "call_1", name: "lookup_order", arguments: { orderId: "A1" }, content: '{"status":"shipped"}', status: "ok" });
+    expect(requests[0].url).toBe("/orders");
+    expect(requests[0].headers).toMatchObject({ authorization: "Bearer secret", "content-type": "application/json" });
+    expect(JSON.parse(requests[0].body)).toEqual({ tool: "lookup_order", arguments: { orderId: "A1" }, agentId: 3, sessionId: 7 });
+  });
+
+  it("returns failures as error results for the model", async () => {
+    respond = (_req, res) => res.writeHead(503, "Service Unavailable").end("down");
+
+    await expect(runToolCall([endpoint], call("lookup_order", { orderId: "A1" }), context)).resolves.toMatchObject({
+      status: "error",
+      content: "Error: Webhook responded with 503 Service Unavailable: down",
+    });
+    await expect(runToolCall([webhook], call("lookup_order", { items: [] }), context)).resolves.toMatchObject({
+      status: "error",
+      content: "Error: invalid arguments: arguments.orderId is required",
+    });
+    await expect(runToolCall([webhook], call("lookup_order", "{orderId"), context)).resolves.toMatchObject({
+      status: "error",
+      content: "Error: arguments are not valid JSON",
+    });
+    await expect(runToolCall([webhook], call("refund", {}), context)).resolves.toMatchObject({
+      status: "error",
+      content: "Error: unknown tool refund",
+    });
+  });
+
+  it("stops reading a webhook response past its size limit", async () => {
+    respond = (_req, res) => res.writeHead(200, { "Content-Type": "text/plain" }).end(Buffer.alloc(2 * 1024 * 1024, "a"));
+
+    await expect(runToolCall([endpoint], call("lookup_order", { orderId: "A1" }), context)).resolves.toMatchObject({
+      status: "error",
+      content: "Error: Webhook response exceeds 1048576 bytes",
+    });
+  });
+
+  it("searches the knowledge base within the session's tag filter", async () => {
+    vi.mocked(retrieveRelevantContext).mockResolvedValue({ context: "[1] Refunds take 30 days.", sources: [] });
+
+    const run = await runToolCall([search], call("search", { query: "refunds" }), context);
+
+    expect(run).toMatchObject({ status: "ok", content: "[1] Refunds take 30 days." });
+    expect(retrieveRelevantContext).toHaveBeenCalledWith(3, "refunds", { filter: { team: ["support"] } });
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Agent tools
+ * Tools the model may call while replying: HTTP webhooks taking arguments
+ * described by a JSON schema, and built-in tools run in the server. The
+ * chat loop passes each call made by the model to `runToolCall` and feeds
+ * the result back as a `tool` message.
+ */
+
+import type { TagFilter } from "@shared/tags";
+import type { AgentTool } from "../drizzle/schema";
+import type { Tool, ToolCall } from "./_core/llm";
+import * as db from "./db";
+import { requestHandoff } from "./handoff";
+import { retrieveRelevantContext } from "./rag";
+import { assertCrawlableUrl, fetchCheckedHost, readBodyWithLimit } from "./webCrawler";
+
+export const MAX_TOOL_ROUNDS = 5;
+export const MAX_TOOL_RESULT_CHARS = 8_000;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 10_000;
+const MAX_WEBHOOK_RESPONSE_BYTES = 1024 * 1024;
+export const MAX_WEBHOOK_TIMEOUT_MS = 30_000;
+
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export type ToolContext = {
+  agentId: number;
+  /** Owner of the agent, alerted when a handoff is requested */
+  userId: number;
+  sessionId: number;
+  /** The session's tag filter, applied to knowledge base searches */
+  tagFilter: TagFilter | null;
+  signal?: AbortSignal;
+};
+
+/**
+ * Outcome of one tool call; stored in the `tool` message's metadata
+ */
+export type ToolRun = {
+  toolCallId: string;
+  name: string;
+  arguments: unknown;
+  /** Text given back to the model */
+  content: string;
+  status: "ok" | "error";
+  durationMs: number;
+};
+
+// ============ BUILT-IN TOOLS ============
+
+export type BuiltinTool = {
+  name: string;
+  label: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  run(args: Record<string, unknown>, context: ToolContext): Promise<string>;
+};
+
+const builtinTools = new Map<string, BuiltinTool>([
+  [
+    "search_knowledge_base",
+    {
+      name: "search_knowledge_base",
+      label: "Knowledge base search",
+      description: "Search the agent's training documents. Returns numbered excerpts with the documents they come from.",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string", description: "What to search for" } },
+        required: ["query"],
+      },
+      async run(args, context) {
+        const result = await retrieveRelevantContext(context.agentId, String(args.query), {
+          filter: context.tagFilter ?? undefined,
+        });
+        return result?.context ?? "No relevant information found.";
+      },
+    },
+  ],
+  [
+    "get_current_time",
+    {
+      name: "get_current_time",
+      label: "Current date and time",
+      description: "Get the current date and time.",
+      parameters: {
+        type: "object",
+        properties: { timeZone: { type: "string", description: "IANA time zone, e.g. Europe/Paris; defaults to UTC" } },
+      },
+      async run(args) {
+        const timeZone = typeof args.timeZone === "string" && args.timeZone ? args.timeZone : "UTC";
+        const now = new Date();
+        const local = now.toLocaleString("en-US", { timeZone, dateStyle: "full", timeStyle: "long" });
+        return `${local} (${now.toISOString()})`;
+      },
+    },
+  ],
+  [
+    "request_human_handoff",
+    {
+      name: "request_human_handoff",
+      label: "Human handoff",
+      description:
+        "Ask a human operator to take over the conversation, when the user asks for a person or you cannot help them. Tell the user someone will reply shortly.",
+      parameters: {
+        type: "object",
+        properties: { reason: { type: "string", description: "Why a person is needed" } },
+        required: ["reason"],
+      },
+      async run(args, context) {
+        const session = await db.getChatSessionById(context.sessionId);
+        if (!session) throw new Error("Chat session not found");
+        const requested = await requestHandoff(session, context, "tool", String(args.reason));
+        return requested.status === "human"
+          ? "An operator is already handling this conversation."
+          : "A human operator has been asked to join the conversation.";
+      },
+    },
+  ],
+]);
+
+/**
+ * Make a built-in tool available to agents
+ */
+export function registerBuiltinTool(tool: BuiltinTool): void {
+  builtinTools.set(tool.name, tool);
+}
+
+export function getBuiltinTool(name: string): BuiltinTool | undefined {
+  return builtinTools.get(name);
+}
+
+export function listBuiltinTools(): BuiltinTool[] {
+  return Array.from(builtinTools.values());
+}
+
+// ============ DEFINITIONS ============
+
+function getParameters(tool: AgentTool): Record<string, unknown> {
+  if (tool.type === "builtin") {
+    return getBuiltinTool(tool.builtin ?? "")?.parameters ?? { type: "object", properties: {} };
+  }
+  return tool.parameters ?? { type: "object", properties: {} };
+}
+
+/**
+ * Definitions of an agent's enabled tools, as sent to the model
+ */
+export function toToolDefinitions(tools: AgentTool[]): Tool[] {
+  return tools
+    .filter(tool => tool.enabled === 1)
+    .map(tool => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: getParameters(tool) },
+    }));
+}
+
+/**
+ * Check a tool before saving it; webhook URLs are checked like crawled URLs,
+ * so private hosts need `CRAWLER_ALLOW_PRIVATE_HOSTS`
+ */
+export async function validateAgentTool(
+  tool: Pick<AgentTool, "name" | "type" | "builtin" | "parameters" | "url" | "timeoutMs">,
+  existing: AgentTool[]
+): Promise<void> {
+  if (!TOOL_NAME_PATTERN.test(tool.name)) {
+    throw new Error("Tool names can only contain letters, digits, underscores and hyphens");
+  }
+  if (existing.some(other => other.name === tool.name)) {
+    throw new Error(`The agent already has a tool named ${tool.name}`);
+  }
+
+  if (tool.type === "builtin") {
+    if (!getBuiltinTool(tool.builtin ?? "")) {
+      throw new Error(`Unknown built-in tool: ${tool.builtin}`);
+    }
+    return;
+  }
+
+  if (!tool.url) {
+    throw new Error("Webhook tools need a URL");
+  }
+  await assertCrawlableUrl(tool.url);
+  if (tool.parameters && tool.parameters.type !== "object") {
+    throw new Error("Tool parameters must be a JSON schema of type object");
+  }
+  if (tool.timeoutMs !== null && tool.timeoutMs !== undefined && (tool.timeoutMs < 1 || tool.timeoutMs > MAX_WEBHOOK_TIMEOUT_MS)) {
+    throw new Error(`Webhook timeouts must be between 1 and ${MAX_WEBHOOK_TIMEOUT_MS}ms`);
+  }
+}
+
+// ============ ARGUMENTS ============
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Problems with a call's arguments: required properties, types and enums
+ * are checked, nested to any depth; other schema keywords are left to the
+ * tool
+ */
+export function validateToolArguments(schema: Record<string, unknown>, value: unknown, path = "arguments"): string[] {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type !== undefined ? [schema.type] : [];
+  if (types.length > 0 && !types.some(type => matchesType(value, type))) {
+    return [`${path} must be of type ${types.join(" or ")}`];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return [`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+  if (matchesType(value, "object")) {
+    const object = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+    for (const name of Array.isArray(schema.required) ? schema.required : []) {
+      if (object[name] === undefined) errors.push(`${path}.${name} is required`);
+    }
+    for (const [name, property] of Object.entries(properties)) {
+      if (object[name] !== undefined) errors.push(...validateToolArguments(property, object[name], `${path}.${name}`));
+    }
+  } else if (Array.isArray(value) && schema.items && typeof schema.items === "object") {
+    value.forEach((item, index) =>
+      errors.push(...validateToolArguments(schema.items as Record<string, unknown>, item, `${path}[${index}]`))
+    );
+  }
+  return errors;
+}
+
+// ============ EXECUTION ============
+
+async function callWebhook(tool: AgentTool, args: unknown, context: ToolContext): Promise<string> {
+  const url = await assertCrawlableUrl(tool.url ?? "");
+  const timeout = AbortSignal.timeout(tool.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    // Redirects are not followed: they could lead to a host the URL check would refuse
+    response = await fetchCheckedHost(url, {
+      method: "POST",
+      headers: { ...tool.headers, "content-type": "application/json" },
+      body: JSON.stringify({ tool: tool.name, arguments: args, agentId: context.agentId, sessionId: context.sessionId }),
+      signal: context.signal ? AbortSignal.any([context.signal, timeout]) : timeout,
+    });
+  } catch (error) {
+    if (timeout.aborted) {
+      throw new Error(`Webhook timed out after ${tool.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS}ms`);
+    }
+    throw error;
+  }
+
+  const body = await readBodyWithLimit(response, MAX_WEBHOOK_RESPONSE_BYTES);
+  if (!body) {
+    throw new Error(`Webhook response exceeds ${MAX_WEBHOOK_RESPONSE_BYTES} bytes`);
+  }
+  const text = new TextDecoder().decode(body);
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}${text ? `: ${text.slice(0, 500)}` : ""}`);
+  }
+  return text;
+}
+
+/**
+ * Run a call the model made to one of the agent's tools; failures are
+ * returned as error results, so the model can recover or explain
+ */
+export async function runToolCall(tools: AgentTool[], call: ToolCall, context: ToolContext): Promise<ToolRun> {
+  const startTime = Date.now();
+  const run = (status: ToolRun["status"], content: string, args: unknown = call.function.arguments): ToolRun => ({
+    toolCallId: call.id,
+    name: call.function.name,
+    arguments: args,
+    content: content.length > MAX_TOOL_RESULT_CHARS ? `${content.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated]` : content,
+    status,
+    durationMs: Date.now() - startTime,
+  });
+
+  const tool = tools.find(tool => tool.name === call.function.name && tool.enabled === 1);
+  if (!tool) {
+    return run("error", `Error: unknown tool ${call.function.name}`);
+  }
+
+  let args: unknown;
+  try {
+    args = JSON.parse(call.function.arguments || "{}");
+  } catch {
+    return run("error", "Error: arguments are not valid JSON");
+  }
+  const builtin = tool.type === "builtin" ? getBuiltinTool(tool.builtin ?? "") : undefined;
+  if (tool.type === "builtin" && !builtin) {
+    return run("error", `Error: built-in tool ${tool.builtin} is no longer available`, args);
+  }
+  const errors = validateToolArguments(getParameters(tool), args);
+  if (errors.length > 0) {
+    return run("error", `Error: invalid arguments: ${errors.join("; ")}`, args);
+  }
+
+  try {
+    const content = builtin
+      ? await builtin.run(args as Record<string, unknown>, context)
+      : await callWebhook(tool, args, context);
+    return run("ok", content, args);
+  } catch (error) {
+    console.warn(`[Tools] ${tool.name} failed:`, error);
+    return run("error", `Error: ${error instanceof Error ? error.message : String(error)}`, args);
+  }
+}
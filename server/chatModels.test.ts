@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { getGenerationSettings, resolveChatModel, validateGenerationSettings } from "./chatModels";
+import { getModelLimits } from "./promptPacking";
+
+describe("getGenerationSettings", () => {
+  it("uses the agent's model, temperature and max tokens", () => {
+    expect(getGenerationSettings({ model: "gpt-4o", temperature: "0.20", maxTokens: 1024 })).toEqual({
+      model: "gpt-4o",
+      temperature: 0.2,
+      maxTokens: 1024,
+    });
+  });
+
+  it("keeps the settings within the model's limits", () => {
+    expect(getGenerationSettings({ model: "claude-sonnet-4", temperature: "1.50", maxTokens: 100_000 })).toEqual({
+      model: "claude-sonnet-4",
+      temperature: 1,
+      maxTokens: 64_000,
+    });
+  });
+
+  it("maps aliases and falls back to the default model for unknown names", () => {
+    expect(getGenerationSettings({ model: "gpt-4", temperature: null, maxTokens: null })).toEqual({
+      model: "gpt-4o",
+      temperature: 0.7,
+      maxTokens: 2048,
+    });
+    expect(resolveChatModel("llama-2").id).toBe("gemini-2.5-flash");
+  });
+});
+
+describe("validateGenerationSettings", () => {
+  it("returns the model's id for an alias", () => {
+    expect(validateGenerationSettings({ model: "claude-3", temperature: "0.5", maxTokens: 4096 })).toBe("claude-sonnet-4");
+  });
+
+  it("rejects unknown models and settings outside the model's limits", () => {
+    expect(() => validateGenerationSettings({ model: "llama-2" })).toThrow("Unknown model: llama-2");
+    expect(() => validateGenerationSettings({ model: "claude-sonnet-4", temperature: "1.5" })).toThrow(
+      "Temperature must be between 0 and 1 for Claude Sonnet 4"
+    );
+    expect(() => validateGenerationSettings({ model: "gpt-4o", maxTokens: 32_768 })).toThrow(
+      "Max tokens must be between 1 and 16384 for GPT-4o"
+    );
+  });
+});
+
+describe("getModelLimits", () => {
+  it("reads registered models' limits from the registry", () => {
+    expect(getModelLimits("gpt-4")).toMatchObject({ contextWindow: 128_000, maxOutputTokens: 16_384 });
+  });
+});
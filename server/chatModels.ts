@@ -0,0 +1,153 @@
+/**
+ * Chat models agents can use
+ * Each model's limits bound the agent's settings: the temperature it
+ * accepts and the reply tokens it can produce, with the context window used
+ * by prompt packing. Names offered by earlier versions of the model picker
+ * are kept as aliases of their closest model. Each model lists the LLM
+ * providers serving it; replies fall back along that list.
+ */
+
+import type { Agent } from "../drizzle/schema";
+import { LLM_MODEL } from "./_core/llm";
+import type { ModelLimits } from "./promptPacking";
+
+export type ChatModel = ModelLimits & {
+  id: string;
+  label: string;
+  maxTemperature: number;
+  aliases: string[];
+  /** Providers serving the model, in order of preference, with the model's name at each */
+  providers: Record<string, string>;
+};
+
+export const DEFAULT_CHAT_MODEL = LLM_MODEL;
+
+export const CHAT_MODELS: ChatModel[] = [
+  {
+    id: "gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    charsPerToken: 4,
+    maxTemperature: 2,
+    aliases: [],
+    providers: { forge: "gemini-2.5-flash" },
+  },
+  {
+    id: "gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    contextWindow: 1_048_576,
+    maxOutputTokens: 65_536,
+    charsPerToken: 4,
+    maxTemperature: 2,
+    aliases: [],
+    providers: { forge: "gemini-2.5-pro" },
+  },
+  {
+    id: "gpt-4o",
+    label: "GPT-4o",
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    charsPerToken: 4,
+    maxTemperature: 2,
+    aliases: ["gpt-4", "gpt-4-turbo"],
+    providers: { openai: "gpt-4o", forge: "gpt-4o" },
+  },
+  {
+    id: "gpt-4o-mini",
+    label: "GPT-4o mini",
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    charsPerToken: 4,
+    maxTemperature: 2,
+    aliases: ["gpt-3.5-turbo"],
+    providers: { openai: "gpt-4o-mini", forge: "gpt-4o-mini" },
+  },
+  {
+    id: "gpt-4.1",
+    label: "GPT-4.1",
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    charsPerToken: 4,
+    maxTemperature: 2,
+    aliases: [],
+    providers: { openai: "gpt-4.1", forge: "gpt-4.1" },
+  },
+  {
+    id: "claude-sonnet-4",
+    label: "Claude Sonnet 4",
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    charsPerToken: 3.5,
+    maxTemperature: 1,
+    aliases: ["claude-3"],
+    providers: { anthropic: "claude-sonnet-4-0", forge: "claude-sonnet-4" },
+  },
+];
+
+/**
+ * The registered model with the given id or alias
+ */
+export function findChatModel(id: string): ChatModel | undefined {
+  return CHAT_MODELS.find(model => model.id === id || model.aliases.includes(id));
+}
+
+/**
+ * The model an agent's model setting refers to; the default model for names
+ * that are not registered
+ */
+export function resolveChatModel(id: string): ChatModel {
+  return findChatModel(id) ?? findChatModel(DEFAULT_CHAT_MODEL)!;
+}
+
+export type GenerationSettings = {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+};
+
+/**
+ * The model, temperature and reply tokens to call the LLM with for an agent,
+ * kept within the model's limits
+ */
+export function getGenerationSettings(agent: Pick<Agent, "model" | "temperature" | "maxTokens">): GenerationSettings {
+  const model = resolveChatModel(agent.model);
+  const temperature = Number(agent.temperature ?? NaN);
+  const maxTokens = agent.maxTokens ?? 0;
+
+  return {
+    model: model.id,
+    temperature: Number.isFinite(temperature) ? Math.min(Math.max(temperature, 0), model.maxTemperature) : 0.7,
+    maxTokens: maxTokens > 0 ? Math.min(maxTokens, model.maxOutputTokens) : 2048,
+  };
+}
+
+/**
+ * Check an agent's model settings against the model's limits; returns the
+ * model's id, with aliases replaced by the model they refer to
+ */
+export function validateGenerationSettings(settings: {
+  model: string;
+  temperature?: string | null;
+  maxTokens?: number | null;
+}): string {
+  const model = findChatModel(settings.model);
+  if (!model) {
+    throw new Error(`Unknown model: ${settings.model}`);
+  }
+
+  if (settings.temperature !== undefined && settings.temperature !== null) {
+    const temperature = Number(settings.temperature);
+    if (!Number.isFinite(temperature) || temperature < 0 || temperature > model.maxTemperature) {
+      throw new Error(`Temperature must be between 0 and ${model.maxTemperature} for ${model.label}`);
+    }
+  }
+
+  if (settings.maxTokens !== undefined && settings.maxTokens !== null) {
+    if (!Number.isInteger(settings.maxTokens) || settings.maxTokens < 1 || settings.maxTokens > model.maxOutputTokens) {
+      throw new Error(`Max tokens must be between 1 and ${model.maxOutputTokens} for ${model.label}`);
+    }
+  }
+
+  return model.id;
+}
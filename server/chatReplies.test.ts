@@ -0,0 +1,310 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentTool, ChatMessage } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  createChatSession: vi.fn(),
+  getChatSessionById: vi.fn(),
+  getAgentById: vi.fn(),
+  createChatMessage: vi.fn(),
+  getMessagesBySessionId: vi.fn(),
+  getOrCreateRagConfig: vi.fn(),
+  incrementCreditsUsed: vi.fn(),
+  checkSignalScoreAlert: vi.fn(),
+  createAnalyticsEvent: vi.fn(),
+  getAgentToolsByAgentId: vi.fn(),
+  transitionChatSession: vi.fn(),
+  createAlert: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+vi.mock("./llmRouting", async importOriginal => ({
+  ...(await importOriginal<typeof import("./llmRouting")>()),
+  completeWithFallback: vi.fn(),
+  streamWithFallback: vi.fn(),
+}));
+
+vi.mock("./rag", () => ({
+  retrieveRelevantContext: vi.fn(async () => null),
+  buildAugmentedPrompt: vi.fn(),
+  embedMessage: vi.fn(async () => [0.6, 0.8]),
+}));
+
+vi.mock("./qaPairs", () => ({
+  findQaMatch: vi.fn(),
+  buildCuratedAnswerPrompt: vi.fn(),
+}));
+
+import * as db from "./db";
+import type { InvokeResult, StreamResult } from "./_core/llm";
+import { MAX_TOOL_ROUNDS } from "./agentTools";
+import { replyToChatMessage } from "./chatReplies";
+import { HANDOFF_REPLY } from "./handoff";
+import { completeWithFallback, streamWithFallback, type RouteReport } from "./llmRouting";
+import { findQaMatch } from "./qaPairs";
+import { embedMessage, retrieveRelevantContext } from "./rag";
+
+// In-memory table behind the mocked db module
+let messages: ChatMessage[];
+
+const served: RouteReport = { provider: "forge", model: "gemini-2.5-flash", failedAttempts: [] };
+const streamed = (result: StreamResult) => ({ result, report: served });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  messages = [];
+
+  vi.mocked(db.createChatSession).mockResolvedValue({ id: 7, agentId: 1, status: "bot" } as Awaited<ReturnType<typeof db.createChatSession>>);
+  vi.mocked(db.getChatSessionById).mockResolvedValue({ id: 7, agentId: 1, status: "bot" } as Awaited<ReturnType<typeof db.getChatSessionById>>);
+  vi.mocked(db.getAgentById).mockResolvedValue({ id: 1, systemPrompt: "You are helpful." } as Awaited<ReturnType<typeof db.getAgentById>>);
+  vi.mocked(db.getOrCreateRagConfig).mockResolvedValue({ enabled: 0 } as Awaited<ReturnType<typeof db.getOrCreateRagConfig>>);
+  vi.mocked(db.createChatMessage).mockImplementation(async values => {
+    const message = { ...values, id: messages.length + 1, createdAt: new Date() } as ChatMessage;
+    messages.push(message);
+    return message;
+  });
+  vi.mocked(db.getMessagesBySessionId).mockImplementation(async () => messages);
+  vi.mocked(findQaMatch).mockResolvedValue(null);
+  vi.mocked(db.getAgentToolsByAgentId).mockResolvedValue([]);
+  vi.mocked(db.transitionChatSession).mockResolvedValue(true);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Let some time pass between receiving the message and generating the reply
+const delayQaMatching = (ms: number, match: Awaited<ReturnType<typeof findQaMatch>> = null) => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.mocked(findQaMatch).mockImplementation(async () => {
+    vi.setSystemTime(Date.now() + ms);
+    return match;
+  });
+};
+
+const clockTool = { id: 4, name: "clock", description: "Current time", type: "builtin", builtin: "get_current_time", enabled: 1 } as AgentTool;
+
+const toolCall = (id: string, name: string, args: unknown) => ({ id, type: "function" as const, function: { name, arguments: JSON.stringify(args) } });
+
+describe("replyToChatMessage", () => {
+  it("streams the reply and saves it with its timings from the message's receipt", async () => {
+    delayQaMatching(200);
+    vi.mocked(streamWithFallback).mockImplementation(async (_route, _params, { onToken }) => {
+      onToken("Refunds take ");
+      onToken("30 days.");
+      return streamed({ content: "Refunds take 30 days.", finishReason: "stop", usage: { prompt_tokens: 40, completion_tokens: 6, total_tokens: 46 }, timeToFirstTokenMs: 120 });
+    });
+
+    const events: string[] = [];
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, {
+      onSession: sessionId => events.push(`session ${sessionId}`),
+      onToken: text => events.push(text),
+    });
+
+    expect(events).toEqual(["session 7", "Refunds take ", "30 days."]);
+    expect(completeWithFallback).not.toHaveBeenCalled();
+    expect(reply.sessionId).toBe(7);
+    expect(reply.message).toMatchObject({
+      role: "assistant",
+      content: "Refunds take 30 days.",
+      tokensUsed: 46,
+      timeToFirstTokenMs: 320,
+      latencyMs: expect.any(Number),
+      metadata: expect.objectContaining({ llm: { provider: "forge", model: "gemini-2.5-flash" } }),
+    });
+    expect(db.createAnalyticsEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventData: expect.objectContaining({ tokensUsed: 46, timeToFirstTokenMs: 320, streamed: true, provider: "forge" }),
+    }));
+  });
+
+  it("embeds the message once for Q&A matching and retrieval", async () => {
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue({ enabled: 1, queryRewriting: 0, multiQueryCount: 0, hydeEnabled: 0 } as Awaited<ReturnType<typeof db.getOrCreateRagConfig>>);
+    vi.mocked(streamWithFallback).mockResolvedValue(streamed({ content: "Refunds take 30 days.", finishReason: "stop", timeToFirstTokenMs: 80 }));
+
+    await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, { onToken: () => {} });
+
+    expect(embedMessage).toHaveBeenCalledTimes(1);
+    expect(findQaMatch).toHaveBeenCalledWith(1, "How long do refunds take?", [0.6, 0.8]);
+    expect(retrieveRelevantContext).toHaveBeenCalledWith(1, "How long do refunds take?", expect.objectContaining({ queryEmbedding: [0.6, 0.8] }));
+  });
+
+  it("calls the agent's model with its temperature and max tokens", async () => {
+    vi.mocked(db.getAgentById).mockResolvedValue({
+      id: 1,
+      systemPrompt: null,
+      model: "claude-3",
+      temperature: "0.30",
+      maxTokens: 100_000,
+    } as Awaited<ReturnType<typeof db.getAgentById>>);
+    vi.mocked(streamWithFallback).mockResolvedValue(streamed({ content: "Refunds take 30 days.", finishReason: "stop", timeToFirstTokenMs: 80 }));
+
+    await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, { onToken: () => undefined });
+
+    expect(vi.mocked(streamWithFallback).mock.calls[0][1]).toMatchObject({ model: "claude-sonnet-4", temperature: 0.3, maxTokens: 64_000 });
+  });
+
+  it("records the providers that failed before one served the reply", async () => {
+    const failedAttempts = [{ provider: "openai", model: "gpt-4o", error: "LLM invoke failed: 429 Too Many Requests", status: 429 }];
+    vi.mocked(streamWithFallback).mockResolvedValue({
+      result: { content: "Refunds take 30 days.", finishReason: "stop", timeToFirstTokenMs: 80 },
+      report: { provider: "forge", model: "gpt-4o", failedAttempts },
+    });
+
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, { onToken: () => undefined });
+
+    expect(reply.message?.metadata).toMatchObject({ llm: { provider: "forge", model: "gpt-4o", failedAttempts } });
+  });
+
+  it("saves a reply cut short by the client as interrupted", async () => {
+    vi.mocked(streamWithFallback).mockResolvedValue(streamed({ content: "Refunds", finishReason: "aborted", timeToFirstTokenMs: 90 }));
+
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, { onToken: () => undefined });
+
+    expect(reply.message).toMatchObject({ content: "Refunds", metadata: { interrupted: true } });
+  });
+
+  it("sends a direct curated answer as a single piece", async () => {
+    delayQaMatching(200, {
+      pair: { id: 3, answer: "Refunds take 30 days." },
+      score: 0.97,
+      mode: "direct",
+    } as Awaited<ReturnType<typeof findQaMatch>>);
+
+    const tokens: string[] = [];
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, { onToken: text => tokens.push(text) });
+
+    expect(tokens).toEqual(["Refunds take 30 days."]);
+    expect(streamWithFallback).not.toHaveBeenCalled();
+    expect(reply.message).toMatchObject({ aiRequests: 0, timeToFirstTokenMs: 200 });
+  });
+
+  it("runs the tools the model calls and saves each step", async () => {
+    vi.mocked(db.getAgentToolsByAgentId).mockResolvedValue([clockTool]);
+    vi.mocked(completeWithFallback)
+      .mockResolvedValueOnce({
+        result: {
+          choices: [{ index: 0, message: { role: "assistant", content: "", tool_calls: [toolCall("call_1", "clock", { timeZone: "UTC" }), toolCall("call_2", "weather", {})] }, finish_reason: "tool_calls" }],
+          usage: { prompt_tokens: 40, completion_tokens: 10, total_tokens: 50 },
+        } as InvokeResult,
+        report: served,
+      })
+      .mockResolvedValueOnce({
+        result: {
+          choices: [{ index: 0, message: { role: "assistant", content: "It is noon." }, finish_reason: "stop" }],
+          usage: { prompt_tokens: 80, completion_tokens: 5, total_tokens: 85 },
+        } as InvokeResult,
+        report: served,
+      });
+
+    const reply = await replyToChatMessage(2, { agentId: 1, sessionId: 7, message: "What time is it?" });
+
+    const [first, second] = vi.mocked(completeWithFallback).mock.calls.map(call => call[1]);
+    expect(first.tools?.map(tool => tool.function.name)).toEqual(["clock"]);
+    expect(second.messages.slice(-3)).toMatchObject([
+      { role: "assistant", tool_calls: [{ id: "call_1" }, { id: "call_2" }] },
+      { role: "tool", tool_call_id: "call_1", content: expect.stringContaining("UTC") },
+      { role: "tool", tool_call_id: "call_2", content: "Error: unknown tool weather" },
+    ]);
+    expect(messages.map(message => message.role)).toEqual(["user", "tool", "tool", "assistant"]);
+    expect(messages[1].metadata).toMatchObject({ toolCall: { id: "call_1", name: "clock", arguments: { timeZone: "UTC" } }, status: "ok", round: 1 });
+    expect(messages[2].metadata).toMatchObject({ status: "error" });
+    expect(reply.message).toMatchObject({ content: "It is noon.", tokensUsed: 135, aiRequests: 2, metadata: expect.objectContaining({ toolCalls: 2 }) });
+  });
+
+  it("makes the model answer after the last round of tool calls", async () => {
+    vi.mocked(db.getAgentToolsByAgentId).mockResolvedValue([clockTool]);
+    vi.mocked(streamWithFallback).mockImplementation(async (_route, params) =>
+      streamed(
+        params.toolChoice === "none"
+          ? { content: "I could not find out.", finishReason: "stop", timeToFirstTokenMs: 40 }
+          : { content: "", finishReason: "tool_calls", timeToFirstTokenMs: null, toolCalls: [toolCall("call", "clock", {})] }
+      )
+    );
+
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "What time is it?" }, { onToken: () => undefined });
+
+    expect(streamWithFallback).toHaveBeenCalledTimes(MAX_TOOL_ROUNDS + 1);
+    expect(messages.filter(message => message.role === "tool")).toHaveLength(MAX_TOOL_ROUNDS);
+    expect(reply.message).toMatchObject({ content: "I could not find out.", timeToFirstTokenMs: expect.any(Number) });
+  });
+
+  it("waits for the whole reply without a stream", async () => {
+    vi.mocked(completeWithFallback).mockResolvedValue({
+      result: {
+        choices: [{ index: 0, message: { role: "assistant", content: "Refunds take 30 days." }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 40, completion_tokens: 6, total_tokens: 46 },
+      } as InvokeResult,
+      report: served,
+    });
+
+    const reply = await replyToChatMessage(2, { agentId: 1, sessionId: 7, message: "How long do refunds take?" });
+
+    expect(streamWithFallback).not.toHaveBeenCalled();
+    expect(reply.message).toMatchObject({ content: "Refunds take 30 days.", tokensUsed: 46, timeToFirstTokenMs: null });
+  });
+
+  it("does not reply while an operator owns the session", async () => {
+    vi.mocked(db.getChatSessionById).mockResolvedValue({ id: 7, agentId: 1, status: "human", operatorId: 5 } as Awaited<ReturnType<typeof db.getChatSessionById>>);
+
+    const reply = await replyToChatMessage(2, { agentId: 1, sessionId: 7, message: "Any news on my refund?" });
+
+    expect(reply).toEqual({ sessionId: 7, status: "human", message: null });
+    expect(messages.map(message => message.role)).toEqual(["user"]);
+    expect(completeWithFallback).not.toHaveBeenCalled();
+  });
+
+  it("drops the reply when an operator takes the session over while it is generated", async () => {
+    vi.mocked(db.getAgentById).mockResolvedValue({ id: 1, systemPrompt: null, handoffSignalThreshold: "0.900" } as Awaited<ReturnType<typeof db.getAgentById>>);
+    vi.mocked(db.getChatSessionById)
+      .mockResolvedValueOnce({ id: 7, agentId: 1, status: "bot" } as Awaited<ReturnType<typeof db.getChatSessionById>>)
+      .mockResolvedValueOnce({ id: 7, agentId: 1, status: "human", operatorId: 5 } as Awaited<ReturnType<typeof db.getChatSessionById>>);
+    vi.mocked(streamWithFallback).mockResolvedValue(streamed({ content: "Sorry.", finishReason: "stop", timeToFirstTokenMs: 30 }));
+
+    const reply = await replyToChatMessage(2, { agentId: 1, sessionId: 7, message: "How long do refunds take?" }, { onToken: () => undefined });
+
+    expect(reply).toEqual({ sessionId: 7, status: "human", message: null });
+    expect(messages.map(message => message.role)).toEqual(["user"]);
+    expect(db.transitionChatSession).not.toHaveBeenCalled();
+  });
+
+  it("only continues the user's own sessions of the agent", async () => {
+    vi.mocked(db.getChatSessionById).mockResolvedValue({ id: 7, agentId: 9, status: "bot" } as Awaited<ReturnType<typeof db.getChatSessionById>>);
+
+    await expect(replyToChatMessage(2, { agentId: 1, sessionId: 7, message: "Hello?" })).rejects.toThrow("Chat session not found");
+    expect(messages).toEqual([]);
+  });
+
+  it("does not create a session for an agent the user does not own", async () => {
+    vi.mocked(db.getAgentById).mockResolvedValue(undefined);
+
+    await expect(replyToChatMessage(2, { agentId: 1, message: "Hello?" })).rejects.toThrow("Agent not found");
+    expect(db.createChatSession).not.toHaveBeenCalled();
+  });
+
+  it("refuses messages in a closed session", async () => {
+    vi.mocked(db.getChatSessionById).mockResolvedValue({ id: 7, agentId: 1, status: "closed" } as Awaited<ReturnType<typeof db.getChatSessionById>>);
+
+    await expect(replyToChatMessage(2, { agentId: 1, sessionId: 7, message: "Hello?" })).rejects.toThrow("closed");
+    expect(messages).toEqual([]);
+  });
+
+  it("hands the session over when the user asks for a person", async () => {
+    const tokens: string[] = [];
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "Let me speak to a human!" }, { onToken: text => tokens.push(text) });
+
+    expect(tokens).toEqual([HANDOFF_REPLY]);
+    expect(streamWithFallback).not.toHaveBeenCalled();
+    expect(reply).toMatchObject({ status: "pending_handoff", message: { content: HANDOFF_REPLY, aiRequests: 0, metadata: { handoff: { trigger: "keyword" } } } });
+    expect(db.transitionChatSession).toHaveBeenCalledWith(7, "bot", expect.objectContaining({ status: "pending_handoff" }));
+    expect(db.createAlert).toHaveBeenCalledWith(expect.objectContaining({ userId: 2, alertType: "handoff" }));
+  });
+
+  it("hands the session over after a reply scoring below the agent's threshold", async () => {
+    vi.mocked(db.getAgentById).mockResolvedValue({ id: 1, systemPrompt: null, handoffSignalThreshold: "0.900" } as Awaited<ReturnType<typeof db.getAgentById>>);
+    vi.mocked(streamWithFallback).mockResolvedValue(streamed({ content: "Sorry.", finishReason: "stop", timeToFirstTokenMs: 30 }));
+
+    const reply = await replyToChatMessage(2, { agentId: 1, message: "How long do refunds take?" }, { onToken: () => undefined });
+
+    expect(reply).toMatchObject({ status: "pending_handoff", message: { content: "Sorry.", metadata: expect.objectContaining({ handoff: { trigger: "signal_score" } }) } });
+    expect(db.createAlert).toHaveBeenCalledWith(expect.objectContaining({ alertType: "handoff", metadata: { sessionId: 7, trigger: "signal_score" } }));
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Assistant replies to chat messages
+ * Shared by `chat.sendMessage`, which returns the whole reply, and the chat
+ * stream route, which sends the reply's text as it is generated. Either way
+ * the reply is saved with its token usage and latency once it is complete.
+ * Calls the model makes to the agent's tools are run and saved as `tool`
+ * messages ahead of the reply. Sessions taken over by an operator get no
+ * reply from the agent, also when taken over while the reply was generated;
+ * see `./handoff`.
+ */
+
+import { toTags, type TagFilter } from "@shared/tags";
+import type { ChatCitation, ToolCallStep } from "@shared/types";
+import type { ChatMessage, ChatSession } from "../drizzle/schema";
+import type { InvokeParams, Message, ToolCall } from "./_core/llm";
+import { MAX_TOOL_ROUNDS, runToolCall, toToolDefinitions, type ToolRun } from "./agentTools";
+import { getGenerationSettings } from "./chatModels";
+import { buildRoute, completeWithFallback, getPackingModel, streamWithFallback, type RouteReport } from "./llmRouting";
+import { extractCitations } from "./citations";
+import * as db from "./db";
+import {
+  getOwnedChatSession,
+  HANDOFF_REPLY,
+  isBelowHandoffThreshold,
+  matchHandoffKeyword,
+  requestHandoff,
+  type SessionStatus,
+} from "./handoff";
+import { MAX_HISTORY_MESSAGES, packPrompt, type PackingReport } from "./promptPacking";
+import { buildCuratedAnswerPrompt, findQaMatch } from "./qaPairs";
+import { prepareRetrievalQuery, type PreparedQuery } from "./queryRewriting";
+import { buildAugmentedPrompt, embedMessage, retrieveRelevantContext } from "./rag";
+
+export type ChatMessageInput = {
+  agentId: number;
+  sessionId?: number;
+  message: string;
+  /** Only used when a new session is created */
+  tagFilter?: string | Record<string, string | string[]>;
+};
+
+export type ReplyStream = {
+  /** Called once the session is known, before the reply is generated */
+  onSession?: (sessionId: number) => void;
+  onToken: (text: string) => void;
+  /** Called with the saved `tool` message of each tool call, once it has run */
+  onToolCall?: (message: ChatMessage) => void;
+  /** Aborting stops generation; the partial reply is saved as interrupted */
+  signal?: AbortSignal;
+};
+
+export type ChatReply = {
+  sessionId: number;
+  /** The session's status once the message is handled */
+  status: SessionStatus;
+  /** The agent's reply; null while an operator owns the session */
+  message: ChatMessage | null;
+};
+
+/**
+ * Save a user's chat message and generate, save and return the agent's reply
+ * The reply's text is passed to `stream.onToken` as it arrives when a stream
+ * is given.
+ */
+export async function replyToChatMessage(
+  userId: number,
+  input: ChatMessageInput,
+  stream?: ReplyStream
+): Promise<ChatReply> {
+  // Time to first token counts from here, whichever way the reply is made
+  const receivedAt = Date.now();
+
+  // Get agent configuration
+  const agent = await db.getAgentById(input.agentId, userId);
+  if (!agent) {
+    throw new Error("Agent not found");
+  }
+
+  // Get or create session; only the user's own sessions of this agent continue
+  let sessionId = input.sessionId;
+  let session: ChatSession;
+  let tagFilter: TagFilter | null;
+  if (!sessionId) {
+    tagFilter = toTags(input.tagFilter);
+    session = await db.createChatSession({
+      agentId: input.agentId,
+      userId,
+      title: input.message.slice(0, 50),
+      metadata: tagFilter ? { tagFilter } : undefined,
+    });
+    sessionId = session.id;
+  } else {
+    session = await getOwnedChatSession(sessionId, userId);
+    if (session.agentId !== input.agentId) {
+      throw new Error("Chat session not found");
+    }
+    tagFilter = getSessionTagFilter(session);
+  }
+  let status: SessionStatus = session.status;
+  if (status === "closed") {
+    throw new Error("This conversation has been closed");
+  }
+
+  // The agent's model settings, within the model's limits
+  const settings = getGenerationSettings(agent);
+  // Providers to try in turn, ending with the agent's fallback chain
+  const route = buildRoute(agent);
+  stream?.onSession?.(sessionId);
+
+  // Save user message
+  await db.createChatMessage({
+    sessionId,
+    role: "user",
+    content: input.message,
+  });
+
+  // The operator who took the session over answers it
+  if (status === "human") {
+    return { sessionId, status, message: null };
+  }
+
+  // Asking for a person hands the session over instead of getting a reply
+  const handoffKeyword = matchHandoffKeyword(agent, input.message);
+  if (handoffKeyword) {
+    status = (await requestHandoff(session, { userId, agentId: agent.id }, "keyword", `Asked for "${handoffKeyword}"`)).status;
+    stream?.onToken(HANDOFF_REPLY);
+    const message = await db.createChatMessage({
+      sessionId,
+      role: "assistant",
+      content: HANDOFF_REPLY,
+      aiRequests: 0,
+      metadata: { handoff: { trigger: "keyword", keyword: handoffKeyword } },
+    });
+    return { sessionId, status, message };
+  }
+
+  // Get the recent conversation history, up to what a prompt may carry
+  const history = await db.getMessagesBySessionId(sessionId, MAX_HISTORY_MESSAGES + 1);
+
+  // Embedded once for Q&A matching and retrieval
+  const ragConfig = await db.getOrCreateRagConfig(input.agentId);
+  const messageEmbedding = ragConfig.enabled === 1 ? await embedMessage(ragConfig, input.message) : undefined;
+
+  // A curated Q&A answer takes priority over retrieved context
+  const qaMatch = await findQaMatch(input.agentId, input.message, messageEmbedding);
+
+  const startTime = Date.now();
+  let assistantContent: string;
+  let tokensUsed: number | undefined;
+  let timeToFirstTokenMs: number | null = null;
+  let interrupted = false;
+  let citations: ChatCitation[] = [];
+  let retrievalQuery: PreparedQuery | null = null;
+  let packing: PackingReport | null = null;
+  let served: RouteReport | null = null;
+  let llmCalls = 0;
+  const toolRuns: ToolRun[] = [];
+
+  if (qaMatch?.mode === "direct") {
+    // Sent as is, without calling the LLM
+    assistantContent = qaMatch.pair.answer;
+    stream?.onToken(assistantContent);
+    if (stream) timeToFirstTokenMs = Date.now() - receivedAt;
+  } else {
+    // Conversation history - excluding the current message
+    const conversation = history
+      .slice(0, -1)
+      .filter(msg => msg.role === "user" || msg.role === "assistant")
+      .map(msg => ({ role: msg.role as "user" | "assistant", content: msg.content }));
+
+    // Turn follow-ups into a standalone query, then retrieve relevant context from RAG
+    if (ragConfig.enabled === 1) {
+      retrievalQuery = await prepareRetrievalQuery(ragConfig, conversation.slice(-10), input.message);
+    }
+    const query = retrievalQuery?.query ?? input.message;
+    // The message's embedding serves when the query was not rewritten
+    const queryEmbedding = query === input.message && retrievalQuery?.options.embeddingText === undefined
+      ? messageEmbedding
+      : undefined;
+    const ragContext = await retrieveRelevantContext(
+      input.agentId,
+      query,
+      { ...retrievalQuery?.options, queryEmbedding, filter: tagFilter ?? undefined }
+    );
+
+    // Fit the system prompt, history, retrieved context and reply into the model's context window
+    const packed = packPrompt({
+      model: getPackingModel(route),
+      systemPrompt: agent.systemPrompt,
+      history: conversation,
+      sources: ragContext?.sources ?? [],
+      buildUserMessage: context => {
+        // Augmented with RAG context if available
+        const userMessage = context !== null ? buildAugmentedPrompt(input.message, context) : input.message;
+        return qaMatch ? buildCuratedAnswerPrompt(userMessage, qaMatch) : userMessage;
+      },
+      replyTokens: settings.maxTokens,
+    });
+    packing = packed.report;
+
+    // Call the LLM, running the tools it calls until it answers
+    const agentTools = await db.getAgentToolsByAgentId(agent.id);
+    const tools = toToolDefinitions(agentTools);
+    const messages: Message[] = [...packed.messages];
+    // Text of each round; text sent alongside tool calls stays part of the reply
+    const contents: string[] = [];
+    const failedAttempts: RouteReport["failedAttempts"] = [];
+
+    for (let round = 0; ; round++) {
+      const params: InvokeParams = {
+        messages,
+        model: settings.model,
+        temperature: settings.temperature,
+        maxTokens: packed.replyTokens,
+        // After the last round of tool calls the model has to answer
+        ...(tools.length > 0 ? { tools, toolChoice: round < MAX_TOOL_ROUNDS ? "auto" : "none" } : {}),
+      };
+      const roundStart = Date.now();
+
+      let content: string;
+      let toolCalls: ToolCall[] | undefined;
+      let report: RouteReport;
+      if (stream) {
+        let started = false;
+        const { result: response, report: streamReport } = await streamWithFallback(route, params, {
+          onToken: text => {
+            if (!started && contents.some(Boolean)) stream.onToken("\n\n");
+            started = true;
+            stream.onToken(text);
+          },
+          signal: stream.signal,
+        });
+        report = streamReport;
+        content = response.content;
+        toolCalls = response.toolCalls;
+        if (response.usage) tokensUsed = (tokensUsed ?? 0) + response.usage.total_tokens;
+        if (timeToFirstTokenMs === null && response.timeToFirstTokenMs !== null) {
+          timeToFirstTokenMs = roundStart - receivedAt + response.timeToFirstTokenMs;
+        }
+        interrupted = response.finishReason === "aborted";
+      } else {
+        const { result: response, report: completeReport } = await completeWithFallback(route, params);
+        report = completeReport;
+        const rawContent = response.choices[0]?.message?.content;
+        content = typeof rawContent === "string" ? rawContent : "";
+        toolCalls = response.choices[0]?.message?.tool_calls;
+        if (response.usage) tokensUsed = (tokensUsed ?? 0) + response.usage.total_tokens;
+      }
+      llmCalls++;
+      contents.push(content);
+      failedAttempts.push(...report.failedAttempts);
+      served = { ...report, failedAttempts };
+
+      if (!toolCalls || toolCalls.length === 0 || interrupted || round >= MAX_TOOL_ROUNDS) break;
+
+      messages.push({ role: "assistant", content, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const run = await runToolCall(agentTools, call, {
+          agentId: agent.id,
+          userId,
+          sessionId,
+          tagFilter,
+          signal: stream?.signal,
+        });
+        toolRuns.push(run);
+        const step: ToolCallStep = {
+          toolCall: { id: run.toolCallId, name: run.name, arguments: run.arguments },
+          status: run.status,
+          round: round + 1,
+        };
+        const toolMessage = await db.createChatMessage({
+          sessionId,
+          role: "tool",
+          content: run.content,
+          aiRequests: 0,
+          latencyMs: run.durationMs,
+          metadata: step,
+        });
+        stream?.onToolCall?.(toolMessage);
+        messages.push({ role: "tool", tool_call_id: call.id, name: call.function.name, content: run.content });
+      }
+      if (stream?.signal?.aborted) {
+        interrupted = true;
+        break;
+      }
+    }
+    assistantContent = contents.filter(Boolean).join("\n\n");
+    if (!assistantContent && !interrupted) {
+      assistantContent = "I apologize, but I couldn't generate a response.";
+    }
+
+    // Keep the retrieved chunks the reply actually cites
+    citations = extractCitations(assistantContent, packed.sources);
+  }
+  const latencyMs = Date.now() - startTime;
+
+  // Calculate a simple signal score based on response characteristics
+  const signalScore = calculateSignalScore(assistantContent, input.message);
+
+  const metadata: Record<string, unknown> = {};
+
+  // An operator may have taken the session over, or a tool asked for one,
+  // while the reply was generated
+  session = (await db.getChatSessionById(sessionId)) ?? session;
+  status = session.status;
+  if (status === "human" || status === "closed") {
+    if (qaMatch?.mode !== "direct") {
+      await db.incrementCreditsUsed(userId);
+    }
+    return { sessionId, status, message: null };
+  }
+  // A poor reply hands the session over
+  if (status === "bot" && isBelowHandoffThreshold(agent, signalScore)) {
+    const reason = `Reply scored ${signalScore.toFixed(3)}, below the handoff threshold of ${Number(agent.handoffSignalThreshold)}`;
+    status = (await requestHandoff(session, { userId, agentId: agent.id }, "signal_score", reason)).status;
+    metadata.handoff = { trigger: "signal_score" };
+  }
+
+  if (citations.length > 0) metadata.citations = citations;
+  if (qaMatch) metadata.qaPair = { id: qaMatch.pair.id, score: qaMatch.score, mode: qaMatch.mode };
+  if (packing) metadata.packing = packing;
+  if (toolRuns.length > 0) metadata.toolCalls = toolRuns.length;
+  if (served) {
+    metadata.llm = {
+      provider: served.provider,
+      model: served.model,
+      failedAttempts: served.failedAttempts.length > 0 ? served.failedAttempts : undefined,
+    };
+  }
+  if (retrievalQuery && retrievalQuery.llmCalls > 0) {
+    metadata.retrievalQuery = {
+      query: retrievalQuery.query,
+      variants: retrievalQuery.options.variants,
+      hyde: retrievalQuery.options.embeddingText !== undefined,
+    };
+  }
+  // The client went away before the reply was complete
+  if (interrupted) metadata.interrupted = true;
+
+  // Save assistant message
+  const assistantMessage = await db.createChatMessage({
+    sessionId,
+    role: "assistant",
+    content: assistantContent,
+    signalScore: signalScore.toString(),
+    aiRequests: llmCalls + (retrievalQuery?.llmCalls ?? 0),
+    tokensUsed,
+    latencyMs,
+    timeToFirstTokenMs,
+    metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+  });
+
+  // Increment credits; curated answers sent directly use no AI request
+  if (qaMatch?.mode !== "direct") {
+    await db.incrementCreditsUsed(userId);
+  }
+
+  // Check for signal score alert
+  await db.checkSignalScoreAlert(userId, input.agentId, signalScore);
+
+  // Log analytics event
+  await db.createAnalyticsEvent({
+    agentId: input.agentId,
+    eventType: "chat_message",
+    eventData: {
+      sessionId,
+      signalScore,
+      tokensUsed,
+      latencyMs,
+      timeToFirstTokenMs,
+      streamed: stream !== undefined,
+      provider: served?.provider,
+      model: served?.model,
+      toolCalls: toolRuns.length > 0 ? toolRuns.length : undefined,
+      qaPairId: qaMatch?.pair.id,
+    },
+  });
+
+  return {
+    sessionId,
+    status,
+    message: assistantMessage,
+  };
+}
+
+// Helper to read the tag filter stored in a chat session's metadata
+function getSessionTagFilter(session: { metadata: Record<string, unknown> | null }): TagFilter | null {
+  const value = session.metadata?.tagFilter;
+  if (!value || typeof value !== "object") return null;
+  try {
+    return toTags(value as Record<string, string | string[]>);
+  } catch {
+    return null;
+  }
+}
+
+// Helper function to calculate signal score
+function calculateSignalScore(response: string, query: string): number {
+  let score = 0.5; // Base score
+
+  // Length factor (longer, more detailed responses score higher)
+  if (response.length > 100) score += 0.1;
+  if (response.length > 500) score += 0.1;
+
+  // Relevance factor (check if response contains query keywords)
+  const queryWords = query.toLowerCase().split(/\s+/).filter(w => w.length > 3);
+  const responseWords = response.toLowerCase();
+  const matchedWords = queryWords.filter(w => responseWords.includes(w));
+  score += (matchedWords.length / Math.max(queryWords.length, 1)) * 0.2;
+
+  // Structure factor (responses with formatting score higher)
+  if (response.includes('\n')) score += 0.05;
+  if (response.match(/\d+\./)) score += 0.05; // Numbered lists
+
+  // Cap score between 0 and 1
+  return Math.min(Math.max(score, 0), 1);
+}
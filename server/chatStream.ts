@@ -0,0 +1,68 @@
+/**
+ * Streamed chat replies
+ * `POST /api/chat/stream` takes the same input as `chat.sendMessage` and
+ * answers with server-sent events:
+ * - `session` `{ sessionId }` once the session is known
+ * - `token` `{ text }` for each piece of the reply
+ * - `tool` `{ message }` with the saved `tool` message of each tool call
+ * - `done` `{ sessionId, status, message }` with the saved reply; `message`
+ *   is null while an operator owns the session
+ * - `error` `{ message }` if the reply failed
+ * Closing the connection stops generation; the partial reply is saved.
+ */
+
+import { UNAUTHED_ERR_MSG } from "@shared/const";
+import type { Express, Request, Response } from "express";
+import type { User } from "../drizzle/schema";
+import { sdk } from "./_core/sdk";
+import { replyToChatMessage } from "./chatReplies";
+import { sendMessageInput } from "./routers";
+
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+export function registerChatStreamRoutes(app: Express) {
+  app.post("/api/chat/stream", async (req: Request, res: Response) => {
+    let user: User;
+    try {
+      user = await sdk.authenticateRequest(req);
+    } catch {
+      res.status(401).json({ error: UNAUTHED_ERR_MSG });
+      return;
+    }
+
+    const input = sendMessageInput.safeParse(req.body);
+    if (!input.success) {
+      res.status(400).json({ error: input.error.issues[0]?.message ?? "Invalid input" });
+      return;
+    }
+
+    res.writeHead(200, {
+      "content-type": "text/event-stream; charset=utf-8",
+      "cache-control": "no-cache, no-transform",
+      connection: "keep-alive",
+      // Stop reverse proxies from buffering the stream
+      "x-accel-buffering": "no",
+    });
+
+    const abort = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abort.abort();
+    });
+
+    try {
+      const reply = await replyToChatMessage(user.id, input.data, {
+        onSession: sessionId => sendEvent(res, "session", { sessionId }),
+        onToken: text => sendEvent(res, "token", { text }),
+        onToolCall: message => sendEvent(res, "tool", { message }),
+        signal: abort.signal,
+      });
+      sendEvent(res, "done", reply);
+    } catch (error) {
+      console.error("[Chat] Streamed reply failed", error);
+      sendEvent(res, "error", { message: error instanceof Error ? error.message : "Failed to send message" });
+    }
+    res.end();
+  });
+}
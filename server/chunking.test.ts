@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import {
+  chunkByMarkdownHeading,
+  chunkBySentence,
+  chunkCsvRows,
+  chunkDocument,
+  chunkFixed,
+  resolveChunkingStrategy,
+  splitSentences,
+} from "./chunking";
+
+describe("chunking", () => {
+  describe("fixed", () => {
+    it("cuts fixed windows with overlap and keeps offsets", () => {
+      const text = "abcdefghijklmnopqrstuvwxyz";
+      const chunks = chunkFixed(text, 10, 2);
+
+      expect(chunks.map(c => c.text)).toEqual(["abcdefghij", "ijklmnopqr", "qrstuvwxyz"]);
+      for (const chunk of chunks) {
+        expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      }
+    });
+
+    it("stops when the overlap is not smaller than the chunk size", () => {
+      expect(chunkFixed("abcdefghij", 4, 4)).toHaveLength(1);
+    });
+  });
+
+  describe("sentence", () => {
+    const text = "Refunds take five days. Shipping is free over $50! Do you ship abroad? Yes, to the EU.";
+
+    it("splits on sentence boundaries", () => {
+      const sentences = splitSentences(text).map(s => text.slice(s.start, s.end));
+      expect(sentences).toEqual([
+        "Refunds take five days.",
+        "Shipping is free over $50!",
+        "Do you ship abroad?",
+        "Yes, to the EU.",
+      ]);
+    });
+
+    it("never cuts through a sentence", () => {
+      const chunks = chunkBySentence(text, { chunkSize: 50, chunkOverlap: 0 });
+
+      expect(chunks.map(c => c.text)).toEqual([
+        "Refunds take five days. Shipping is free over $50!",
+        "Do you ship abroad? Yes, to the EU.",
+      ]);
+    });
+
+    it("overlaps with whole trailing sentences", () => {
+      const chunks = chunkBySentence(text, { chunkSize: 50, chunkOverlap: 30 });
+
+      expect(chunks[1].text.startsWith("Shipping is free over $50!")).toBe(true);
+      expect(chunks[chunks.length - 1].text.endsWith("Yes, to the EU.")).toBe(true);
+    });
+
+    it("splits sentences longer than a chunk at whitespace", () => {
+      const long = "word ".repeat(60).trim() + ".";
+      const chunks = chunkBySentence(long, { chunkSize: 100, chunkOverlap: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(c => c.text.length <= 100)).toBe(true);
+      expect(chunks.every(c => !c.text.startsWith(" ") && !c.text.endsWith(" "))).toBe(true);
+    });
+  });
+
+  describe("markdown", () => {
+    const markdown = [
+      "# Guide",
+      "Intro text.",
+      "## Billing",
+      "Invoices are sent monthly. Payment is due in 30 days.",
+      "### Refunds",
+      "Refunds take five days.",
+      "## Shipping",
+      "```",
+      "# not a heading",
+      "```",
+      "Shipping is free.",
+    ].join("\n");
+
+    it("keeps the heading path of every section", () => {
+      const chunks = chunkByMarkdownHeading(markdown, { chunkSize: 80, chunkOverlap: 0 });
+      const paths = chunks.map(c => c.metadata?.headingPath);
+
+      expect(paths).toContainEqual(["Guide"]);
+      expect(paths).toContainEqual(["Guide", "Billing"]);
+      expect(paths).toContainEqual(["Guide", "Billing", "Refunds"]);
+      expect(paths).toContainEqual(["Guide", "Shipping"]);
+      expect(paths).not.toContainEqual(["Guide", "Shipping", "not a heading"]);
+
+      const refunds = chunks.find(c => c.text.includes("Refunds take"));
+      expect(refunds?.metadata?.headingPath).toEqual(["Guide", "Billing", "Refunds"]);
+      for (const chunk of chunks) {
+        expect(markdown.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      }
+    });
+
+    it("keeps subsections that fit together", () => {
+      const chunks = chunkByMarkdownHeading(markdown, { chunkSize: 1000, chunkOverlap: 0 });
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].metadata?.headingPath).toEqual(["Guide"]);
+    });
+
+    it("falls back to sentences inside an oversized section", () => {
+      const body = "This sentence is about billing. ".repeat(10).trim();
+      const chunks = chunkByMarkdownHeading(`# Billing\n${body}`, { chunkSize: 100, chunkOverlap: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(c => c.text.length <= 100)).toBe(true);
+      expect(chunks.every(c => (c.metadata?.headingPath as string[])[0] === "Billing")).toBe(true);
+    });
+  });
+
+  describe("csv", () => {
+    const csv = 'name,price\nWidget,10\n"Gadget, large",20\n"Multi\nline",30\nGizmo,40\n';
+
+    it("repeats the header row in every chunk", () => {
+      const chunks = chunkCsvRows(csv, { chunkSize: 40, chunkOverlap: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(c => c.text.startsWith("name,price\n"))).toBe(true);
+    });
+
+    it("never splits a row, including quoted newlines", () => {
+      const chunks = chunkCsvRows(csv, { chunkSize: 40, chunkOverlap: 0 });
+      const rows = chunks.flatMap(c => c.text.split("\n").slice(1)).join("\n");
+
+      expect(rows).toBe('Widget,10\n"Gadget, large",20\n"Multi\nline",30\nGizmo,40');
+      expect(chunks[0].metadata).toEqual({ rowStart: 1, rowEnd: expect.any(Number) });
+      expect(chunks[chunks.length - 1].metadata?.rowEnd).toBe(4);
+    });
+
+    it("keeps a header-only file", () => {
+      expect(chunkCsvRows("name,price\n", { chunkSize: 40, chunkOverlap: 0 })).toHaveLength(1);
+    });
+  });
+
+  describe("strategy selection", () => {
+    it("picks a strategy from the file type in auto mode", () => {
+      expect(resolveChunkingStrategy("auto", { fileName: "faq.md", fileType: "" })).toBe("markdown");
+      expect(resolveChunkingStrategy("auto", { fileName: "prices.csv", fileType: "text/csv" })).toBe("csv");
+      expect(resolveChunkingStrategy("auto", { fileName: "Pricing – Acme", fileType: "text/html" })).toBe("markdown");
+      expect(resolveChunkingStrategy("auto", { fileName: "manual.pdf", fileType: "application/pdf" })).toBe(
+        "sentence"
+      );
+      expect(resolveChunkingStrategy("fixed", { fileName: "faq.md", fileType: "text/markdown" })).toBe("fixed");
+    });
+
+    it("dispatches to the chosen strategy", () => {
+      const options = { chunkSize: 512, chunkOverlap: 50 };
+      expect(chunkDocument("a,b\n1,2", "csv", options)[0].metadata).toEqual({ rowStart: 1, rowEnd: 1 });
+      expect(chunkDocument("# A\ntext", "markdown", options)[0].metadata).toEqual({ headingPath: ["A"] });
+    });
+  });
+});
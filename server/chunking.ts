@@ -0,0 +1,331 @@
+/**
+ * Structure-aware chunking strategies for RAG documents
+ * Every chunk keeps the character range it was cut from, so callers can
+ * map it back to its source (e.g. a PDF page).
+ */
+
+import type { RagConfiguration, TrainingDocument } from "../drizzle/schema";
+
+export type ChunkingStrategy = RagConfiguration["chunkingStrategy"];
+
+/**
+ * A chunk of text with its character range in the source document
+ */
+export type TextChunk = {
+  text: string;
+  start: number;
+  end: number;
+  /** Strategy-specific details, e.g. the markdown heading path */
+  metadata?: Record<string, unknown>;
+};
+
+export type ChunkOptions = {
+  chunkSize: number;
+  chunkOverlap: number;
+};
+
+type Span = { start: number; end: number };
+
+/**
+ * Fixed-size character windows with overlap
+ */
+export function chunkFixed(text: string, chunkSize: number = 512, overlap: number = 50): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    const end = Math.min(start + chunkSize, text.length);
+    chunks.push({ text: text.slice(start, end), start, end });
+
+    // Move start position with overlap
+    const nextStart = end - overlap;
+
+    // Avoid infinite loop if overlap is too large or we've reached the end
+    if (nextStart <= start || end >= text.length) {
+      break;
+    }
+
+    start = nextStart;
+  }
+
+  return chunks;
+}
+
+/**
+ * Split a range of text into trimmed sentence spans
+ * Sentences end at terminal punctuation followed by whitespace, or at a
+ * blank line.
+ */
+export function splitSentences(text: string, from: number = 0, to: number = text.length): Span[] {
+  const spans: Span[] = [];
+  const boundary = /[.!?]+["')\]]*(?=\s)|\n\s*\n/g;
+  boundary.lastIndex = from;
+
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) spans.push({ start, end });
+  };
+
+  let start = from;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) && match.index < to) {
+    const end = Math.min(match.index + match[0].length, to);
+    push(start, end);
+    start = end;
+  }
+  push(start, to);
+
+  return spans;
+}
+
+/**
+ * Break a span that is too long at whitespace, falling back to a hard cut
+ */
+function splitLongSpan(text: string, span: Span, chunkSize: number): Span[] {
+  const spans: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > chunkSize) {
+    let end = start + chunkSize;
+    const space = text.lastIndexOf(" ", end);
+    if (space > start + chunkSize / 2) end = space;
+    spans.push({ start, end });
+    start = end;
+    while (start < span.end && /\s/.test(text[start])) start++;
+  }
+  if (start < span.end) spans.push({ start, end: span.end });
+
+  return spans;
+}
+
+/**
+ * Pack consecutive sentences into chunks of up to `chunkSize` characters.
+ * Overlap is made of whole sentences from the end of the previous chunk.
+ */
+export function chunkBySentence(
+  text: string,
+  options: ChunkOptions,
+  from: number = 0,
+  to: number = text.length
+): TextChunk[] {
+  const { chunkSize, chunkOverlap } = options;
+  const sentences = splitSentences(text, from, to).flatMap(span =>
+    span.end - span.start > chunkSize ? splitLongSpan(text, span, chunkSize) : [span]
+  );
+
+  const chunks: TextChunk[] = [];
+  let first = 0;
+
+  while (first < sentences.length) {
+    let last = first;
+    while (
+      last + 1 < sentences.length &&
+      sentences[last + 1].end - sentences[first].start <= chunkSize
+    ) {
+      last++;
+    }
+
+    const start = sentences[first].start;
+    const end = sentences[last].end;
+    chunks.push({ text: text.slice(start, end), start, end });
+
+    if (last + 1 >= sentences.length) break;
+
+    // Step back over trailing sentences that fit in the overlap, always
+    // moving forward by at least one sentence
+    let next = last + 1;
+    while (next - 1 > first && end - sentences[next - 1].start <= chunkOverlap) {
+      next--;
+    }
+    first = next;
+  }
+
+  return chunks;
+}
+
+type Heading = { level: number; title: string; start: number };
+
+/**
+ * ATX headings (`#` to `######`) outside fenced code blocks
+ */
+export function findMarkdownHeadings(text: string): Heading[] {
+  const headings: Heading[] = [];
+  let inFence = false;
+  let offset = 0;
+
+  for (const line of text.split("\n")) {
+    if (/^\s{0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const match = /^\s{0,3}(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line);
+      if (match) {
+        headings.push({ level: match[1].length, title: match[2], start: offset });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  return headings;
+}
+
+/**
+ * Split markdown recursively by heading level: a section that does not fit
+ * is split at its next heading level, and finally by sentence. Each chunk
+ * records the path of headings above it.
+ */
+export function chunkByMarkdownHeading(text: string, options: ChunkOptions): TextChunk[] {
+  const headings = findMarkdownHeadings(text);
+  const chunks: TextChunk[] = [];
+
+  const emit = (start: number, end: number, headingPath: string[]) => {
+    const pieces =
+      end - start <= options.chunkSize
+        ? [{ text: text.slice(start, end), start, end }]
+        : chunkBySentence(text, options, start, end);
+
+    for (const piece of pieces) {
+      const trimmed = piece.text.trim();
+      if (!trimmed) continue;
+      const lead = piece.text.indexOf(trimmed);
+      chunks.push({
+        text: trimmed,
+        start: piece.start + lead,
+        end: piece.start + lead + trimmed.length,
+        metadata: { headingPath },
+      });
+    }
+  };
+
+  const split = (start: number, end: number, minLevel: number, path: string[]) => {
+    const inside = headings.filter(h => h.start >= start && h.start < end && h.level >= minLevel);
+    const level = inside.length > 0 ? Math.min(...inside.map(h => h.level)) : 0;
+
+    // Top-level sections are always chunked separately so every chunk
+    // has a heading path; below that, sections that fit stay together
+    const fits = end - start <= options.chunkSize && path.length > 0;
+    if (fits || level === 0) {
+      emit(start, end, path);
+      return;
+    }
+
+    const sections = inside.filter(h => h.level === level);
+
+    // Text before the first heading at this level belongs to the parent
+    if (sections[0].start > start) {
+      split(start, sections[0].start, level + 1, path);
+    }
+
+    sections.forEach((heading, index) => {
+      const sectionEnd = index + 1 < sections.length ? sections[index + 1].start : end;
+      split(heading.start, sectionEnd, level + 1, [...path, heading.title]);
+    });
+  };
+
+  split(0, text.length, 1, []);
+
+  return chunks;
+}
+
+/**
+ * Spans of CSV records, honouring quoted fields that contain newlines
+ */
+export function splitCsvRows(text: string): Span[] {
+  const rows: Span[] = [];
+  let start = 0;
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "\n" && !quoted) {
+      const end = i > start && text[i - 1] === "\r" ? i - 1 : i;
+      if (end > start) rows.push({ start, end });
+      start = i + 1;
+    }
+  }
+  if (start < text.length && text.slice(start).trim()) {
+    rows.push({ start, end: text.length });
+  }
+
+  return rows;
+}
+
+/**
+ * Group CSV rows into chunks, repeating the header row in each chunk so
+ * every chunk can be read on its own
+ */
+export function chunkCsvRows(text: string, options: ChunkOptions): TextChunk[] {
+  const rows = splitCsvRows(text);
+  if (rows.length === 0) return [];
+
+  const header = text.slice(rows[0].start, rows[0].end);
+  const budget = Math.max(options.chunkSize - header.length - 1, 1);
+  const chunks: TextChunk[] = [];
+  let first = 1;
+
+  while (first < rows.length) {
+    let last = first;
+    while (last + 1 < rows.length && rows[last + 1].end - rows[first].start <= budget) {
+      last++;
+    }
+
+    const start = rows[first].start;
+    const end = rows[last].end;
+    chunks.push({
+      text: `${header}\n${text.slice(start, end)}`,
+      start,
+      end,
+      // 1-based data row numbers, not counting the header
+      metadata: { rowStart: first, rowEnd: last },
+    });
+    first = last + 1;
+  }
+
+  // A header-only file is still indexed
+  if (chunks.length === 0) {
+    chunks.push({ text: header, start: rows[0].start, end: rows[0].end, metadata: { rowStart: 0, rowEnd: 0 } });
+  }
+
+  return chunks;
+}
+
+/**
+ * Strategy `auto` picks one from the document's file type
+ */
+export function resolveChunkingStrategy(
+  strategy: ChunkingStrategy,
+  document: Pick<TrainingDocument, "fileName" | "fileType">
+): Exclude<ChunkingStrategy, "auto"> {
+  if (strategy !== "auto") return strategy;
+
+  if (document.fileType === "text/csv" || /\.csv$/i.test(document.fileName)) return "csv";
+  if (document.fileType === "text/markdown" || /\.(md|markdown)$/i.test(document.fileName)) return "markdown";
+  // Web pages, Word documents and JSON records are converted to text
+  // with markdown headings
+  if (/^text\/html$|wordprocessingml|json/.test(document.fileType) || /\.(html?|docx|jsonl?|ndjson)$/i.test(document.fileName)) {
+    return "markdown";
+  }
+  return "sentence";
+}
+
+/**
+ * Chunk a document with the given strategy
+ */
+export function chunkDocument(
+  text: string,
+  strategy: Exclude<ChunkingStrategy, "auto">,
+  options: ChunkOptions
+): TextChunk[] {
+  switch (strategy) {
+    case "sentence":
+      return chunkBySentence(text, options);
+    case "markdown":
+      return chunkByMarkdownHeading(text, options);
+    case "csv":
+      return chunkCsvRows(text, options);
+    default:
+      return chunkFixed(text, options.chunkSize, options.chunkOverlap);
+  }
+}
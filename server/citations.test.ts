@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { extractCitations, formatContextSources, type ContextSource } from "./citations";
+import { buildAugmentedPrompt } from "./rag";
+
+const sources: ContextSource[] = [
+  { label: 1, documentId: 10, documentName: "handbook.pdf", chunkIndex: 3, page: 2, score: 0.03, content: "Refunds take 5 days." },
+  { label: 2, documentId: 11, documentName: "faq.md", chunkIndex: 0, score: 0.02, content: "Shipping is free." },
+  { label: 3, documentId: 10, documentName: "handbook.pdf", chunkIndex: 7, score: 0.01, content: "Returns need a receipt." },
+];
+
+describe("citations", () => {
+  it("labels each chunk with its number, document name and chunk index", () => {
+    const context = formatContextSources(sources.slice(0, 2));
+
+    expect(context).toBe(
+      "[1] handbook.pdf (chunk 3)\nRefunds take 5 days.\n\n[2] faq.md (chunk 0)\nShipping is free."
+    );
+    expect(buildAugmentedPrompt("How long do refunds take?", context)).toContain("[1] handbook.pdf (chunk 3)");
+  });
+
+  it("returns cited sources once, in order of first citation, with the text they quote", () => {
+    const citations = extractCitations("Returns need a receipt [3]. Refunds take 5 days [1, 3][1].", sources);
+
+    expect(citations).toEqual([
+      { label: 3, documentId: 10, documentName: "handbook.pdf", chunkIndex: 7, score: 0.01, content: "Returns need a receipt." },
+      { label: 1, documentId: 10, documentName: "handbook.pdf", chunkIndex: 3, page: 2, score: 0.03, content: "Refunds take 5 days." },
+    ]);
+  });
+
+  it("ignores markers that do not refer to a source", () => {
+    expect(extractCitations("See step [4] and note [0].", sources)).toEqual([]);
+    expect(extractCitations("No citations here.", sources)).toEqual([]);
+  });
+});
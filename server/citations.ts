@@ -0,0 +1,60 @@
+/**
+ * Source labels for RAG context and citation parsing for assistant replies
+ * Each retrieved chunk is numbered in the prompt; the model cites chunks
+ * by number and the cited ones are stored with the reply, along with the
+ * text the model read, which stays readable after the document changes.
+ */
+
+import type { ChatCitation } from "@shared/types";
+
+/**
+ * A retrieved chunk as presented to the model
+ */
+export type ContextSource = Omit<ChatCitation, "content"> & {
+  content: string;
+};
+
+/**
+ * Render sources as numbered context blocks, e.g.
+ * `[1] handbook.pdf (chunk 3)` followed by the chunk text
+ */
+export function formatContextSources(sources: ContextSource[]): string {
+  return sources
+    .map(source => `[${source.label}] ${source.documentName} (chunk ${source.chunkIndex})\n${source.content}`)
+    .join("\n\n");
+}
+
+// Matches [1] as well as grouped markers such as [1, 3] or [2][4]
+const CITATION_MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+/**
+ * Sources cited in a reply, in order of first citation
+ * Markers that do not refer to a provided source are ignored.
+ */
+export function extractCitations(reply: string, sources: ContextSource[]): ChatCitation[] {
+  const byLabel = new Map(sources.map(source => [source.label, source]));
+  const cited: ChatCitation[] = [];
+  const seen = new Set<number>();
+
+  for (const match of Array.from(reply.matchAll(CITATION_MARKER))) {
+    for (const label of match[1].split(",").map(value => parseInt(value, 10))) {
+      const source = byLabel.get(label);
+      if (!source || seen.has(label)) continue;
+
+      seen.add(label);
+      const citation: ChatCitation = {
+        label: source.label,
+        documentId: source.documentId,
+        documentName: source.documentName,
+        chunkIndex: source.chunkIndex,
+        score: source.score,
+      };
+      if (source.page !== undefined) citation.page = source.page;
+      if (source.rerankScore !== undefined) citation.rerankScore = source.rerankScore;
+      citation.content = source.content;
+      cited.push(citation);
+    }
+  }
+
+  return cited;
+}
@@ -1,4 +1,4 @@
-import { eq, desc, and, gte, lte, sql, count, avg } from "drizzle-orm";
+import { eq, desc, and, gte, lte, ne, inArray, sql, count, avg, max } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import { 
   InsertUser, users, 
@@ -9,9 +9,19 @@ import {
   analyticsEvents, InsertAnalyticsEvent,
   exportedFiles, InsertExportedFile,
   alerts, InsertAlert, Alert,
-  trainingDocuments, InsertTrainingDocument, TrainingDocument,
+  trainingDocuments, InsertTrainingDocument, TrainingDocument, DocumentTags,
+  trainingSources, InsertTrainingSource, TrainingSource,
+  qaPairs, InsertQaPair, QaPair,
+  agentTools, InsertAgentTool, AgentTool,
   ragConfigurations, InsertRagConfiguration, RagConfiguration,
   vectorEmbeddings, InsertVectorEmbedding, VectorEmbedding,
+  documentVersions, InsertDocumentVersion, DocumentVersion,
+  knowledgeSnapshots, InsertKnowledgeSnapshot, KnowledgeSnapshot,
+  ragIndexJobs, InsertRagIndexJob, RagIndexJob,
+  ragEvalSets, InsertRagEvalSet, RagEvalSet,
+  ragEvalQuestions, InsertRagEvalQuestion, RagEvalQuestion,
+  ragEvalRuns, InsertRagEvalRun, RagEvalRun,
+  ingestionJobs, InsertIngestionJob, IngestionJob,
   uiFlows, InsertUiFlow, UiFlow,
   uiFrames, InsertUiFrame, UiFrame,
   uiConnections, InsertUiConnection, UiConnection
@@ -221,6 +231,44 @@ export async function getChatSessionBySessionId(sessionId: string): Promise<Chat
   return session;
 }
 
+/**
+ * Atomically update a session that still has the status `from`; false when
+ * its status was changed by someone else first
+ */
+export async function transitionChatSession(id: number, from: ChatSession["status"], data: Partial<InsertChatSession>): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db.update(chatSessions)
+    .set(data)
+    .where(and(
+      eq(chatSessions.id, id),
+      eq(chatSessions.status, from)
+    ));
+  return result[0].affectedRows === 1;
+}
+
+/**
+ * Sessions of the user's agents waiting for or taken over by an operator,
+ * longest waiting first
+ */
+export async function getHandoffSessionsByUserId(userId: number): Promise<(ChatSession & { agentName: string })[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const userAgents = await getAgentsByUserId(userId);
+  if (userAgents.length === 0) return [];
+  const agentNames = new Map(userAgents.map(agent => [agent.id, agent.name]));
+
+  const sessions = await db.select().from(chatSessions)
+    .where(and(
+      inArray(chatSessions.agentId, Array.from(agentNames.keys())),
+      inArray(chatSessions.status, ["pending_handoff", "human"])
+    ))
+    .orderBy(chatSessions.handoffRequestedAt);
+  return sessions.map(session => ({ ...session, agentName: agentNames.get(session.agentId) ?? "" }));
+}
+
 // ============ CHAT MESSAGE FUNCTIONS ============
 
 export async function createChatMessage(data: Omit<InsertChatMessage, 'id' | 'createdAt'>): Promise<ChatMessage> {
@@ -233,13 +281,23 @@ export async function createChatMessage(data: Omit<InsertChatMessage, 'id' | 'cr
   return message;
 }
 
-export async function getMessagesBySessionId(sessionId: number): Promise<ChatMessage[]> {
+/**
+ * A session's messages, oldest first; only the latest `limit` when given
+ */
+export async function getMessagesBySessionId(sessionId: number, limit?: number): Promise<ChatMessage[]> {
   const db = await getDb();
   if (!db) return [];
 
-  return db.select().from(chatMessages)
+  if (limit === undefined) {
+    return db.select().from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(chatMessages.createdAt);
+  }
+  const latest = await db.select().from(chatMessages)
     .where(eq(chatMessages.sessionId, sessionId))
-    .orderBy(chatMessages.createdAt);
+    .orderBy(desc(chatMessages.createdAt), desc(chatMessages.id))
+    .limit(limit);
+  return latest.reverse();
 }
 
 export async function getChatLogsWithMessages(agentId: number, startDate?: Date, endDate?: Date) {
@@ -259,7 +317,8 @@ export async function getChatLogsWithMessages(agentId: number, startDate?: Date,
       return {
         ...session,
         messages,
-        messageCount: messages.length,
+        // Tool calls are steps of a reply, not messages of the conversation
+        messageCount: messages.filter(m => m.role !== "tool").length,
         avgSignalScore: avgSignalScore || 0,
       };
     })
@@ -434,7 +493,7 @@ export async function createAlert(data: Omit<InsertAlert, 'id' | 'createdAt'>):
   const [alert] = await db.select().from(alerts).where(eq(alerts.id, Number(result[0].insertId)));
   
   // Send notification to owner for important alerts
-  if (data.alertType === 'signal_score' || data.alertType === 'retraining') {
+  if (data.alertType === 'signal_score' || data.alertType === 'retraining' || data.alertType === 'handoff') {
     try {
       const { notifyOwner } = await import('./_core/notification');
       await notifyOwner({
@@ -554,6 +613,23 @@ export async function createTrainingDocument(document: InsertTrainingDocument):
   return inserted[0]!;
 }
 
+export async function getTrainingDocumentById(id: number): Promise<TrainingDocument | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [document] = await db.select().from(trainingDocuments).where(eq(trainingDocuments.id, id));
+  return document;
+}
+
+export async function getTrainingDocumentsByStatus(statuses: TrainingDocument["status"][]): Promise<TrainingDocument[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(trainingDocuments)
+    .where(inArray(trainingDocuments.status, statuses));
+}
+
 export async function getTrainingDocumentsByAgentId(agentId: number): Promise<TrainingDocument[]> {
   const db = await getDb();
   if (!db) return [];
@@ -564,6 +640,26 @@ export async function getTrainingDocumentsByAgentId(agentId: number): Promise<Tr
     .orderBy(desc(trainingDocuments.createdAt));
 }
 
+export async function getTrainingDocumentBySourceUrl(agentId: number, sourceUrl: string): Promise<TrainingDocument | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [document] = await db.select()
+    .from(trainingDocuments)
+    .where(and(eq(trainingDocuments.agentId, agentId), eq(trainingDocuments.sourceUrl, sourceUrl)))
+    .limit(1);
+  return document;
+}
+
+export async function getTrainingDocumentsBySourceId(sourceId: number): Promise<TrainingDocument[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(trainingDocuments)
+    .where(eq(trainingDocuments.sourceId, sourceId));
+}
+
 export async function updateTrainingDocument(id: number, data: Partial<InsertTrainingDocument>): Promise<TrainingDocument | undefined> {
   const db = await getDb();
   if (!db) return undefined;
@@ -585,6 +681,193 @@ export async function deleteTrainingDocument(id: number, userId: number): Promis
   );
 }
 
+// ============ RAG TRAINING SOURCES ============
+
+export async function createTrainingSource(source: InsertTrainingSource): Promise<TrainingSource> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(trainingSources).values(source);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(trainingSources).where(eq(trainingSources.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getTrainingSourceById(id: number): Promise<TrainingSource | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [source] = await db.select().from(trainingSources).where(eq(trainingSources.id, id));
+  return source;
+}
+
+export async function getTrainingSourcesByAgentId(agentId: number): Promise<TrainingSource[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(trainingSources)
+    .where(eq(trainingSources.agentId, agentId))
+    .orderBy(desc(trainingSources.createdAt));
+}
+
+/**
+ * Scheduled sources whose next sync is due and that are not syncing
+ */
+export async function getDueTrainingSources(now: Date): Promise<TrainingSource[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(trainingSources)
+    .where(and(
+      ne(trainingSources.status, "syncing"),
+      lte(trainingSources.nextSyncAt, now)
+    ));
+}
+
+export async function updateTrainingSource(id: number, data: Partial<InsertTrainingSource>): Promise<TrainingSource | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  await db.update(trainingSources).set(data).where(eq(trainingSources.id, id));
+  return getTrainingSourceById(id);
+}
+
+/**
+ * Atomically mark a source as syncing; false when a sync is already running
+ */
+export async function claimTrainingSourceForSync(id: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+
+  const result = await db.update(trainingSources)
+    .set({ status: "syncing", lastError: null })
+    .where(and(
+      eq(trainingSources.id, id),
+      ne(trainingSources.status, "syncing")
+    ));
+  return result[0].affectedRows === 1;
+}
+
+export async function deleteTrainingSource(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(trainingSources).where(
+    and(
+      eq(trainingSources.id, id),
+      eq(trainingSources.userId, userId)
+    )
+  );
+}
+
+// ============ Q&A PAIRS ============
+
+export async function createQaPair(pair: InsertQaPair): Promise<QaPair> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(qaPairs).values(pair);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(qaPairs).where(eq(qaPairs.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getQaPairById(id: number): Promise<QaPair | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [pair] = await db.select().from(qaPairs).where(eq(qaPairs.id, id));
+  return pair;
+}
+
+export async function getQaPairsByAgentId(agentId: number): Promise<QaPair[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(qaPairs)
+    .where(eq(qaPairs.agentId, agentId))
+    .orderBy(desc(qaPairs.createdAt));
+}
+
+export async function updateQaPair(id: number, data: Partial<InsertQaPair>): Promise<QaPair | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  await db.update(qaPairs).set(data).where(eq(qaPairs.id, id));
+  return getQaPairById(id);
+}
+
+export async function deleteQaPair(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(qaPairs).where(
+    and(
+      eq(qaPairs.id, id),
+      eq(qaPairs.userId, userId)
+    )
+  );
+}
+
+// ============ AGENT TOOLS ============
+
+export async function createAgentTool(tool: InsertAgentTool): Promise<AgentTool> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(agentTools).values(tool);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(agentTools).where(eq(agentTools.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getAgentToolById(id: number): Promise<AgentTool | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [tool] = await db.select().from(agentTools).where(eq(agentTools.id, id));
+  return tool;
+}
+
+export async function getAgentToolsByAgentId(agentId: number): Promise<AgentTool[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(agentTools)
+    .where(eq(agentTools.agentId, agentId))
+    .orderBy(agentTools.createdAt);
+}
+
+export async function updateAgentTool(id: number, data: Partial<InsertAgentTool>): Promise<AgentTool | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  await db.update(agentTools).set(data).where(eq(agentTools.id, id));
+  return getAgentToolById(id);
+}
+
+export async function deleteAgentTool(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(agentTools).where(
+    and(
+      eq(agentTools.id, id),
+      eq(agentTools.userId, userId)
+    )
+  );
+}
+
 // ============ RAG CONFIGURATIONS ============
 
 export async function getOrCreateRagConfig(agentId: number): Promise<RagConfiguration> {
@@ -608,7 +891,10 @@ export async function getOrCreateRagConfig(agentId: number): Promise<RagConfigur
     chunkOverlap: 50,
     topK: 3,
     similarityThreshold: "0.7",
+    keywordWeight: "0.3",
     embeddingModel: "text-embedding-ada-002",
+    indexVersion: 0,
+    indexedEmbeddingModel: "text-embedding-ada-002",
   });
 
   const insertedId = Number(result[0].insertId);
@@ -627,6 +913,31 @@ export async function updateRagConfig(agentId: number, data: Partial<InsertRagCo
 
 // ============ VECTOR EMBEDDINGS ============
 
+/**
+ * Change to stored embeddings, used to keep in-memory indexes current
+ */
+export type VectorEmbeddingChange =
+  | { type: "created"; embedding: VectorEmbedding }
+  | { type: "deleted"; agentId: number; indexVersion: number; ids: number[] }
+  | { type: "versionDeleted"; agentId: number; indexVersion: number }
+  | { type: "staleDeleted"; agentId: number; keepIndexVersion: number };
+
+const vectorEmbeddingListeners: ((change: VectorEmbeddingChange) => void)[] = [];
+
+export function onVectorEmbeddingChange(listener: (change: VectorEmbeddingChange) => void): void {
+  vectorEmbeddingListeners.push(listener);
+}
+
+function notifyVectorEmbeddingChange(change: VectorEmbeddingChange): void {
+  for (const listener of vectorEmbeddingListeners) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.warn("[Database] Vector embedding listener failed:", error);
+    }
+  }
+}
+
 export async function createVectorEmbedding(embedding: InsertVectorEmbedding): Promise<VectorEmbedding> {
   const db = await getDb();
   if (!db) {
@@ -636,24 +947,600 @@ export async function createVectorEmbedding(embedding: InsertVectorEmbedding): P
   const result = await db.insert(vectorEmbeddings).values(embedding);
   const insertedId = Number(result[0].insertId);
   const inserted = await db.select().from(vectorEmbeddings).where(eq(vectorEmbeddings.id, insertedId));
+  notifyVectorEmbeddingChange({ type: "created", embedding: inserted[0]! });
   return inserted[0]!;
 }
 
-export async function getVectorEmbeddingsByAgentId(agentId: number): Promise<VectorEmbedding[]> {
+export async function getVectorEmbeddingsByAgentId(agentId: number, indexVersion?: number): Promise<VectorEmbedding[]> {
   const db = await getDb();
   if (!db) return [];
 
+  const condition = indexVersion === undefined
+    ? eq(vectorEmbeddings.agentId, agentId)
+    : and(eq(vectorEmbeddings.agentId, agentId), eq(vectorEmbeddings.indexVersion, indexVersion));
+
   return db.select()
     .from(vectorEmbeddings)
-    .where(eq(vectorEmbeddings.agentId, agentId))
+    .where(condition)
     .orderBy(desc(vectorEmbeddings.createdAt));
 }
 
-export async function deleteVectorEmbeddingsByDocumentId(documentId: number): Promise<void> {
+export async function getVectorEmbeddingsByDocumentId(documentId: number, indexVersion: number): Promise<VectorEmbedding[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(vectorEmbeddings)
+    .where(and(eq(vectorEmbeddings.documentId, documentId), eq(vectorEmbeddings.indexVersion, indexVersion)))
+    .orderBy(vectorEmbeddings.chunkIndex);
+}
+
+export async function getVectorEmbeddingsByIds(ids: number[]): Promise<VectorEmbedding[]> {
+  const db = await getDb();
+  if (!db || ids.length === 0) return [];
+
+  const rows: VectorEmbedding[] = [];
+  // Keep IN lists to a reasonable size
+  for (let i = 0; i < ids.length; i += 500) {
+    rows.push(...await db.select()
+      .from(vectorEmbeddings)
+      .where(inArray(vectorEmbeddings.id, ids.slice(i, i + 500))));
+  }
+  return rows;
+}
+
+export async function getVectorEmbeddingByChunk(
+  documentId: number,
+  chunkIndex: number,
+  indexVersion: number
+): Promise<VectorEmbedding | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [embedding] = await db.select()
+    .from(vectorEmbeddings)
+    .where(and(
+      eq(vectorEmbeddings.documentId, documentId),
+      eq(vectorEmbeddings.chunkIndex, chunkIndex),
+      eq(vectorEmbeddings.indexVersion, indexVersion)
+    ))
+    .limit(1);
+  return embedding;
+}
+
+export async function getVectorEmbeddingIds(agentId: number, indexVersion: number): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db.select({ id: vectorEmbeddings.id })
+    .from(vectorEmbeddings)
+    .where(and(eq(vectorEmbeddings.agentId, agentId), eq(vectorEmbeddings.indexVersion, indexVersion)));
+  return rows.map(row => row.id);
+}
+
+/**
+ * Row count and highest id of an index version, to cheaply detect changes
+ */
+export async function getVectorEmbeddingStats(
+  agentId: number,
+  indexVersion: number
+): Promise<{ count: number; maxId: number }> {
+  const db = await getDb();
+  if (!db) return { count: 0, maxId: 0 };
+
+  const [stats] = await db.select({ count: count(), maxId: max(vectorEmbeddings.id) })
+    .from(vectorEmbeddings)
+    .where(and(eq(vectorEmbeddings.agentId, agentId), eq(vectorEmbeddings.indexVersion, indexVersion)));
+  return { count: Number(stats?.count ?? 0), maxId: Number(stats?.maxId ?? 0) };
+}
+
+export async function deleteVectorEmbeddingsByDocumentId(documentId: number, indexVersion?: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  const condition = indexVersion === undefined
+    ? eq(vectorEmbeddings.documentId, documentId)
+    : and(eq(vectorEmbeddings.documentId, documentId), eq(vectorEmbeddings.indexVersion, indexVersion));
+
+  const deleted = await db.select({
+    id: vectorEmbeddings.id,
+    agentId: vectorEmbeddings.agentId,
+    indexVersion: vectorEmbeddings.indexVersion,
+  })
+    .from(vectorEmbeddings)
+    .where(condition);
+
+  await db.delete(vectorEmbeddings).where(condition);
+
+  // Group by index so each in-memory index is updated once
+  const groups = new Map<string, { agentId: number; indexVersion: number; ids: number[] }>();
+  for (const row of deleted) {
+    const key = `${row.agentId}:${row.indexVersion}`;
+    const group = groups.get(key) ?? { agentId: row.agentId, indexVersion: row.indexVersion, ids: [] };
+    group.ids.push(row.id);
+    groups.set(key, group);
+  }
+  groups.forEach(group => notifyVectorEmbeddingChange({ type: "deleted", ...group }));
+}
+
+export async function updateVectorEmbeddingTagsByDocumentId(documentId: number, tags: DocumentTags | null): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  // Tags are not part of the vector index, so no change notification is needed
+  await db.update(vectorEmbeddings).set({ tags }).where(eq(vectorEmbeddings.documentId, documentId));
+}
+
+export async function deleteVectorEmbeddingsByIds(agentId: number, indexVersion: number, ids: number[]): Promise<void> {
+  const db = await getDb();
+  if (!db || ids.length === 0) return;
+
+  for (let i = 0; i < ids.length; i += 500) {
+    await db.delete(vectorEmbeddings).where(inArray(vectorEmbeddings.id, ids.slice(i, i + 500)));
+  }
+  notifyVectorEmbeddingChange({ type: "deleted", agentId, indexVersion, ids });
+}
+
+export async function deleteVectorEmbeddingsByIndexVersion(agentId: number, indexVersion: number): Promise<void> {
   const db = await getDb();
   if (!db) return;
 
-  await db.delete(vectorEmbeddings).where(eq(vectorEmbeddings.documentId, documentId));
+  await db.delete(vectorEmbeddings).where(
+    and(
+      eq(vectorEmbeddings.agentId, agentId),
+      eq(vectorEmbeddings.indexVersion, indexVersion)
+    )
+  );
+  notifyVectorEmbeddingChange({ type: "versionDeleted", agentId, indexVersion });
+}
+
+export async function deleteStaleVectorEmbeddings(agentId: number, keepIndexVersion: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(vectorEmbeddings).where(
+    and(
+      eq(vectorEmbeddings.agentId, agentId),
+      ne(vectorEmbeddings.indexVersion, keepIndexVersion)
+    )
+  );
+  notifyVectorEmbeddingChange({ type: "staleDeleted", agentId, keepIndexVersion });
+}
+
+// ============ DOCUMENT VERSIONS ============
+
+export type DocumentVersionSummary = Omit<DocumentVersion, "content" | "chunks">;
+
+// Version columns without the content and embedded chunks
+const documentVersionSummaryColumns = {
+  id: documentVersions.id,
+  documentId: documentVersions.documentId,
+  agentId: documentVersions.agentId,
+  userId: documentVersions.userId,
+  version: documentVersions.version,
+  change: documentVersions.change,
+  restoredFromVersion: documentVersions.restoredFromVersion,
+  fileName: documentVersions.fileName,
+  fileType: documentVersions.fileType,
+  fileSize: documentVersions.fileSize,
+  fileUrl: documentVersions.fileUrl,
+  sourceId: documentVersions.sourceId,
+  sourceUrl: documentVersions.sourceUrl,
+  contentHash: documentVersions.contentHash,
+  metadata: documentVersions.metadata,
+  tags: documentVersions.tags,
+  indexVersion: documentVersions.indexVersion,
+  chunkCount: documentVersions.chunkCount,
+  createdAt: documentVersions.createdAt,
+};
+
+export async function createDocumentVersion(version: InsertDocumentVersion): Promise<DocumentVersion> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(documentVersions).values(version);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(documentVersions).where(eq(documentVersions.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getDocumentVersionById(id: number): Promise<DocumentVersion | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [version] = await db.select().from(documentVersions).where(eq(documentVersions.id, id));
+  return version;
+}
+
+/**
+ * A document's versions, newest first
+ */
+export async function getDocumentVersionsByDocumentId(documentId: number): Promise<DocumentVersionSummary[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select(documentVersionSummaryColumns)
+    .from(documentVersions)
+    .where(eq(documentVersions.documentId, documentId))
+    .orderBy(desc(documentVersions.id));
+}
+
+/**
+ * Every version of an agent's documents in the order they were recorded
+ */
+export async function getDocumentVersionsByAgentId(agentId: number): Promise<DocumentVersionSummary[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select(documentVersionSummaryColumns)
+    .from(documentVersions)
+    .where(eq(documentVersions.agentId, agentId))
+    .orderBy(documentVersions.id);
+}
+
+export async function createKnowledgeSnapshot(snapshot: InsertKnowledgeSnapshot): Promise<KnowledgeSnapshot> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(knowledgeSnapshots).values(snapshot);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(knowledgeSnapshots).where(eq(knowledgeSnapshots.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getKnowledgeSnapshotById(id: number): Promise<KnowledgeSnapshot | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [snapshot] = await db.select().from(knowledgeSnapshots).where(eq(knowledgeSnapshots.id, id));
+  return snapshot;
+}
+
+export async function getKnowledgeSnapshotsByAgentId(agentId: number): Promise<KnowledgeSnapshot[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(knowledgeSnapshots)
+    .where(eq(knowledgeSnapshots.agentId, agentId))
+    .orderBy(desc(knowledgeSnapshots.id));
+}
+
+export async function deleteKnowledgeSnapshot(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(knowledgeSnapshots).where(
+    and(
+      eq(knowledgeSnapshots.id, id),
+      eq(knowledgeSnapshots.userId, userId)
+    )
+  );
+}
+
+// ============ RAG INDEX JOBS ============
+
+export async function createRagIndexJob(job: InsertRagIndexJob): Promise<RagIndexJob> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(ragIndexJobs).values(job);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(ragIndexJobs).where(eq(ragIndexJobs.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getRagIndexJobById(id: number): Promise<RagIndexJob | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [job] = await db.select().from(ragIndexJobs).where(eq(ragIndexJobs.id, id));
+  return job;
+}
+
+export async function getLatestRagIndexJob(agentId: number): Promise<RagIndexJob | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [job] = await db.select()
+    .from(ragIndexJobs)
+    .where(eq(ragIndexJobs.agentId, agentId))
+    .orderBy(desc(ragIndexJobs.id))
+    .limit(1);
+  return job;
+}
+
+export async function updateRagIndexJob(id: number, data: Partial<InsertRagIndexJob>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ragIndexJobs).set(data).where(eq(ragIndexJobs.id, id));
+}
+
+export async function cancelActiveRagIndexJobs(agentId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ragIndexJobs)
+    .set({ status: "cancelled", completedAt: new Date() })
+    .where(and(
+      eq(ragIndexJobs.agentId, agentId),
+      inArray(ragIndexJobs.status, ["pending", "running"])
+    ));
+}
+
+// ============ RAG EVALUATION ============
+
+export async function createRagEvalSet(set: InsertRagEvalSet): Promise<RagEvalSet> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(ragEvalSets).values(set);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(ragEvalSets).where(eq(ragEvalSets.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getRagEvalSetById(id: number): Promise<RagEvalSet | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [set] = await db.select().from(ragEvalSets).where(eq(ragEvalSets.id, id));
+  return set;
+}
+
+export async function getRagEvalSetsByAgentId(agentId: number): Promise<RagEvalSet[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(ragEvalSets)
+    .where(eq(ragEvalSets.agentId, agentId))
+    .orderBy(desc(ragEvalSets.createdAt));
+}
+
+/**
+ * Delete a set with its questions and runs
+ */
+export async function deleteRagEvalSet(id: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  const set = await getRagEvalSetById(id);
+  if (!set || set.userId !== userId) return;
+
+  await db.delete(ragEvalRuns).where(eq(ragEvalRuns.setId, id));
+  await db.delete(ragEvalQuestions).where(eq(ragEvalQuestions.setId, id));
+  await db.delete(ragEvalSets).where(eq(ragEvalSets.id, id));
+}
+
+export async function createRagEvalQuestion(question: InsertRagEvalQuestion): Promise<RagEvalQuestion> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(ragEvalQuestions).values(question);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(ragEvalQuestions).where(eq(ragEvalQuestions.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getRagEvalQuestionById(id: number): Promise<RagEvalQuestion | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [question] = await db.select().from(ragEvalQuestions).where(eq(ragEvalQuestions.id, id));
+  return question;
+}
+
+export async function getRagEvalQuestionsBySetId(setId: number): Promise<RagEvalQuestion[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(ragEvalQuestions)
+    .where(eq(ragEvalQuestions.setId, setId))
+    .orderBy(ragEvalQuestions.id);
+}
+
+export async function updateRagEvalQuestion(id: number, data: Partial<InsertRagEvalQuestion>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ragEvalQuestions).set(data).where(eq(ragEvalQuestions.id, id));
+}
+
+export async function deleteRagEvalQuestion(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.delete(ragEvalQuestions).where(eq(ragEvalQuestions.id, id));
+}
+
+export async function createRagEvalRun(run: InsertRagEvalRun): Promise<RagEvalRun> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(ragEvalRuns).values(run);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(ragEvalRuns).where(eq(ragEvalRuns.id, insertedId));
+  return inserted[0]!;
+}
+
+export async function getRagEvalRunById(id: number): Promise<RagEvalRun | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [run] = await db.select().from(ragEvalRuns).where(eq(ragEvalRuns.id, id));
+  return run;
+}
+
+/**
+ * Runs of a set, newest first, without per-question results
+ */
+export async function getRagEvalRunsBySetId(setId: number, limit: number = 20): Promise<Omit<RagEvalRun, "results">[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select({
+    id: ragEvalRuns.id,
+    setId: ragEvalRuns.setId,
+    agentId: ragEvalRuns.agentId,
+    status: ragEvalRuns.status,
+    k: ragEvalRuns.k,
+    config: ragEvalRuns.config,
+    questionCount: ragEvalRuns.questionCount,
+    recallAtK: ragEvalRuns.recallAtK,
+    mrr: ragEvalRuns.mrr,
+    ndcg: ragEvalRuns.ndcg,
+    error: ragEvalRuns.error,
+    startedAt: ragEvalRuns.startedAt,
+    completedAt: ragEvalRuns.completedAt,
+    createdAt: ragEvalRuns.createdAt,
+  })
+    .from(ragEvalRuns)
+    .where(eq(ragEvalRuns.setId, setId))
+    .orderBy(desc(ragEvalRuns.id))
+    .limit(limit);
+}
+
+export async function updateRagEvalRun(id: number, data: Partial<InsertRagEvalRun>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ragEvalRuns).set(data).where(eq(ragEvalRuns.id, id));
+}
+
+// ============ INGESTION JOBS ============
+
+export async function createIngestionJob(job: InsertIngestionJob): Promise<IngestionJob> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(ingestionJobs).values(job);
+  const insertedId = Number(result[0].insertId);
+  const inserted = await db.select().from(ingestionJobs).where(eq(ingestionJobs.id, insertedId));
+  return inserted[0]!;
+}
+
+/**
+ * Atomically lock the next due job for a worker
+ * The conditional update makes concurrent workers race safely for a row
+ */
+export async function claimNextIngestionJob(workerId: string): Promise<IngestionJob | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const now = new Date();
+    const [candidate] = await db.select()
+      .from(ingestionJobs)
+      .where(and(
+        eq(ingestionJobs.status, "queued"),
+        lte(ingestionJobs.runAt, now)
+      ))
+      .orderBy(ingestionJobs.runAt, ingestionJobs.id)
+      .limit(1);
+
+    if (!candidate) return undefined;
+
+    const result = await db.update(ingestionJobs)
+      .set({
+        status: "running",
+        lockedBy: workerId,
+        lockedAt: now,
+        attempts: sql`${ingestionJobs.attempts} + 1`,
+      })
+      .where(and(
+        eq(ingestionJobs.id, candidate.id),
+        eq(ingestionJobs.status, "queued")
+      ));
+
+    if (result[0].affectedRows === 1) {
+      return {
+        ...candidate,
+        status: "running",
+        lockedBy: workerId,
+        lockedAt: now,
+        attempts: candidate.attempts + 1,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+export async function updateIngestionJob(id: number, data: Partial<InsertIngestionJob>): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ingestionJobs).set(data).where(eq(ingestionJobs.id, id));
+}
+
+export async function touchIngestionJob(id: number, workerId: string): Promise<void> {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(ingestionJobs)
+    .set({ lockedAt: new Date() })
+    .where(and(
+      eq(ingestionJobs.id, id),
+      eq(ingestionJobs.lockedBy, workerId)
+    ));
+}
+
+/**
+ * Put running jobs whose worker stopped heartbeating back in the queue
+ */
+export async function requeueStaleIngestionJobs(staleBefore: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) return 0;
+
+  const result = await db.update(ingestionJobs)
+    .set({ status: "queued", lockedBy: null, lockedAt: null, runAt: new Date() })
+    .where(and(
+      eq(ingestionJobs.status, "running"),
+      lte(ingestionJobs.lockedAt, staleBefore)
+    ));
+  return result[0].affectedRows;
+}
+
+export async function getIngestionJobsByAgentId(agentId: number, limit: number = 50): Promise<IngestionJob[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select()
+    .from(ingestionJobs)
+    .where(eq(ingestionJobs.agentId, agentId))
+    .orderBy(desc(ingestionJobs.id))
+    .limit(limit);
+}
+
+export async function getActiveIngestionJobForDocument(documentId: number): Promise<IngestionJob | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const [job] = await db.select()
+    .from(ingestionJobs)
+    .where(and(
+      eq(ingestionJobs.documentId, documentId),
+      inArray(ingestionJobs.status, ["queued", "running"])
+    ))
+    .limit(1);
+  return job;
 }
 
 // ============ UI FLOWS ============
@@ -0,0 +1,216 @@
+import { crc32 } from "zlib";
+import { describe, expect, it } from "vitest";
+import { chunkByMarkdownHeading } from "./chunking";
+import { extractDocumentText, extractPdfText, findPageAt, getDocumentFormat, joinPages } from "./documentExtraction";
+import { PermanentJobError } from "./ingestionQueue";
+import { findRecordAt, type RecordSpan } from "./jsonExtraction";
+
+/**
+ * Build a minimal PDF with one Helvetica text line per page
+ */
+function buildPdf(pageTexts: (string | null)[], trailerExtra = ""): Uint8Array {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+  const add = (body: string) => objects.push(body) + 1;
+
+  const fontId = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>");
+  for (const text of pageTexts) {
+    // A page without a text operator behaves like a scanned page
+    const stream = text === null ? "0 0 m 10 10 l S" : `BT /F1 12 Tf 72 720 Td (${text}) Tj ET`;
+    const contentId = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    pageIds.push(
+      add(
+        `<< /Type /Page /Parent 1 0 R /MediaBox [0 0 612 792] /Contents ${contentId} 0 R ` +
+          `/Resources << /Font << /F1 ${fontId} 0 R >> >> >>`
+      )
+    );
+  }
+
+  const all = [
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+    ...objects,
+  ];
+  const catalogId = all.push("<< /Type /Catalog /Pages 1 0 R >>");
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  all.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xref = pdf.length;
+  pdf += `xref\n0 ${all.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${all.length + 1} /Root ${catalogId} 0 R ${trailerExtra}>>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(pdf, "latin1"));
+}
+
+/**
+ * Build a Word document from the XML of its body, stored uncompressed
+ */
+function buildDocx(bodyXml: string): Uint8Array {
+  const files = {
+    "[Content_Types].xml": "<Types/>",
+    "word/document.xml":
+      `<?xml version="1.0" encoding="UTF-8"?><w:document xmlns:w="w"><w:body>${bodyXml}</w:body></w:document>`,
+    "word/styles.xml":
+      `<w:styles><w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style></w:styles>`,
+  };
+
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [path, xml] of Object.entries(files)) {
+    const name = Buffer.from(path);
+    const data = Buffer.from(xml);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length / 2, 8);
+  end.writeUInt16LE(centrals.length / 2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return new Uint8Array(Buffer.concat([...locals, directory, end]));
+}
+
+const paragraph = (text: string, properties = "") =>
+  `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+const cell = (text: string) => `<w:tc><w:tcPr/>${paragraph(text)}</w:tc>`;
+
+describe("documentExtraction", () => {
+  it("extracts text page by page with character ranges", async () => {
+    const result = await extractPdfText(buildPdf(["Refunds take five days.", "Shipping is free."]));
+
+    expect(result.totalPages).toBe(2);
+    expect(result.pages).toHaveLength(2);
+    const [first, second] = result.pages;
+    expect(result.content.slice(first.start, first.end)).toContain("Refunds take five days.");
+    expect(result.content.slice(second.start, second.end)).toContain("Shipping is free.");
+    expect(second.page).toBe(2);
+  });
+
+  it("fails with a clear reason for image-only PDFs", async () => {
+    await expect(extractPdfText(buildPdf([null, null]))).rejects.toThrow(/no extractable text/);
+  });
+
+  it("fails with a clear reason for password-protected PDFs", async () => {
+    const hex32 = "0".repeat(64);
+    const encrypt =
+      `/Encrypt << /Filter /Standard /V 1 /R 2 /O <${hex32}> /U <${"ab".repeat(32)}> /P -4 >> ` +
+      `/ID [<${"1".repeat(32)}> <${"1".repeat(32)}>] `;
+
+    const error = await extractPdfText(buildPdf(["Secret"], encrypt)).catch(e => e);
+    expect(error).toBeInstanceOf(PermanentJobError);
+    expect(error.message).toMatch(/encrypted/);
+  });
+
+  it("rejects files without a PDF signature", async () => {
+    await expect(extractPdfText(new Uint8Array(Buffer.from("plain text")))).rejects.toBeInstanceOf(
+      PermanentJobError
+    );
+  });
+
+  it("skips empty pages and maps offsets to page numbers", () => {
+    const { content, pages } = joinPages(["Intro", "  ", "Details"]);
+
+    expect(content).toBe("Intro\n\nDetails");
+    expect(pages).toEqual([
+      { page: 1, start: 0, end: 5 },
+      { page: 3, start: 7, end: 14 },
+    ]);
+    expect(findPageAt(pages, 0)).toBe(1);
+    expect(findPageAt(pages, 6)).toBe(1);
+    expect(findPageAt(pages, 10)).toBe(3);
+  });
+});
+
+describe("extractDocumentText", () => {
+  it("converts Word documents to markdown with headings, lists and tables", async () => {
+    const docx = buildDocx(
+      paragraph("Returns &amp; refunds", '<w:pStyle w:val="berschrift1"/>') +
+        paragraph("Details", '<w:pStyle w:val="Heading2"/>') +
+        paragraph("Refunds take 30 days.") +
+        paragraph("Keep the receipt", '<w:numPr><w:ilvl w:val="0"/></w:numPr>') +
+        `<w:tbl><w:tr>${cell("Plan")}${cell("Price")}</w:tr><w:tr>${cell("Pro")}${cell("$20 | month")}</w:tr></w:tbl>` +
+        "<w:p/>"
+    );
+
+    const { content } = await extractDocumentText("docx", docx);
+
+    expect(content).toBe(
+      [
+        "# Returns & refunds",
+        "## Details",
+        "Refunds take 30 days.",
+        "- Keep the receipt",
+        "| Plan | Price |\n| --- | --- |\n| Pro | $20 \\| month |",
+      ].join("\n\n")
+    );
+  });
+
+  it("rejects files that are not Word documents", async () => {
+    await expect(extractDocumentText("docx", new Uint8Array(Buffer.from("plain text")))).rejects.toBeInstanceOf(
+      PermanentJobError
+    );
+  });
+
+  it("turns JSONL records into one section each with mapped metadata", async () => {
+    const jsonl = [
+      JSON.stringify({ id: 7, subject: "Login fails", body: "Reset the password.", status: "closed", meta: { product: "pro" } }),
+      "",
+      JSON.stringify({ id: 8, subject: "Refund", body: "Refunds take 30 days.", status: "open", meta: { product: "team" } }),
+    ].join("\n");
+
+    const { content, metadata } = await extractDocumentText("jsonl", new Uint8Array(Buffer.from(jsonl)), {
+      titleField: "subject",
+      textFields: ["body"],
+      metadataFields: ["id", "meta.product"],
+    });
+    const records = metadata.records as RecordSpan[];
+
+    expect(content).toBe("# Login fails\n\nReset the password.\n\n# Refund\n\nRefunds take 30 days.");
+    const chunks = chunkByMarkdownHeading(content, { chunkSize: 500, chunkOverlap: 0 });
+    expect(chunks.map(chunk => findRecordAt(records, chunk.start)?.fields)).toEqual([
+      { id: 7, "meta.product": "pro" },
+      { id: 8, "meta.product": "team" },
+    ]);
+  });
+
+  it("labels all scalar fields of JSON records without a mapping", async () => {
+    const json = JSON.stringify({ data: { faqs: [{ q: "Hours?", a: "Nine to five.", tags: ["hours", "support"] }] } });
+
+    const { content } = await extractDocumentText("json", new Uint8Array(Buffer.from(json)), { recordsPath: "data.faqs" });
+
+    expect(content).toBe("# Record 1\n\nq: Hours?\na: Nine to five.\ntags: hours, support");
+    await expect(extractDocumentText("jsonl", new Uint8Array(Buffer.from("{}\n{oops")))).rejects.toThrow(
+      "Invalid JSON on line 2"
+    );
+  });
+
+  it("recognises formats by file type or name", () => {
+    expect(getDocumentFormat({ fileName: "guide", fileType: "application/pdf" })).toBe("pdf");
+    expect(getDocumentFormat({ fileName: "Guide.DOCX", fileType: "" })).toBe("docx");
+    expect(getDocumentFormat({ fileName: "tickets.jsonl", fileType: "text/plain" })).toBe("jsonl");
+    expect(getDocumentFormat({ fileName: "notes.md", fileType: "text/markdown" })).toBeUndefined();
+  });
+});
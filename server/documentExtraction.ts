@@ -0,0 +1,219 @@
+/**
+ * Text extraction for stored training documents
+ * PDF, Word, HTML and JSON/JSONL files are uploaded to storage as-is and
+ * extracted by the ingestion worker. The extracted text is written back to
+ * `trainingDocuments.content` with the character range of every PDF page
+ * or JSON record, so chunks can cite their page or record.
+ */
+
+import { extractText, getDocumentProxy } from "unpdf";
+import * as db from "./db";
+import type { TrainingDocument } from "../drizzle/schema";
+import { extractDocxText } from "./docxExtraction";
+import { htmlToText } from "./htmlExtraction";
+import { PermanentJobError } from "./ingestionQueue";
+import { extractJsonRecords, type JsonFieldMapping } from "./jsonExtraction";
+import { storageGet } from "./storage";
+
+export type DocumentFormat = "pdf" | "docx" | "html" | "json" | "jsonl";
+
+/**
+ * File type stored for each format and the file names it is recognised by
+ */
+export const DOCUMENT_FORMATS: Record<DocumentFormat, { fileType: string; fileName: RegExp }> = {
+  pdf: { fileType: "application/pdf", fileName: /\.pdf$/i },
+  docx: { fileType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document", fileName: /\.docx$/i },
+  html: { fileType: "text/html", fileName: /\.html?$/i },
+  json: { fileType: "application/json", fileName: /\.json$/i },
+  jsonl: { fileType: "application/x-ndjson", fileName: /\.(jsonl|ndjson)$/i },
+};
+
+// Uploaded as base64; the others are text
+export const BINARY_FORMATS: DocumentFormat[] = ["pdf", "docx"];
+
+/**
+ * Character range of a page within the extracted document content
+ */
+export type PageSpan = {
+  page: number;
+  start: number;
+  end: number;
+};
+
+export type ExtractedText = {
+  content: string;
+  pages: PageSpan[];
+};
+
+const PAGE_SEPARATOR = "\n\n";
+
+/**
+ * Format of a document whose text is extracted from its file, by file
+ * type or name; undefined for plain text, markdown and CSV
+ */
+export function getDocumentFormat(document: Pick<TrainingDocument, "fileName" | "fileType">): DocumentFormat | undefined {
+  const formats = Object.keys(DOCUMENT_FORMATS) as DocumentFormat[];
+  return (
+    formats.find(format => document.fileType === DOCUMENT_FORMATS[format].fileType) ??
+    formats.find(format => DOCUMENT_FORMATS[format].fileName.test(document.fileName))
+  );
+}
+
+/**
+ * Whether the buffer starts with the PDF file signature
+ */
+export function hasPdfSignature(data: Uint8Array): boolean {
+  return Buffer.from(data.subarray(0, 1024)).toString("latin1").includes("%PDF-");
+}
+
+/**
+ * Join per-page text into one document, recording where each page lands
+ */
+export function joinPages(pageTexts: string[]): ExtractedText {
+  const pages: PageSpan[] = [];
+  let content = "";
+
+  pageTexts.forEach((raw, index) => {
+    const text = raw.trim();
+    if (!text) return;
+
+    if (content) content += PAGE_SEPARATOR;
+    pages.push({ page: index + 1, start: content.length, end: content.length + text.length });
+    content += text;
+  });
+
+  return { content, pages };
+}
+
+/**
+ * Page a character offset falls on, or undefined for documents without pages
+ */
+export function findPageAt(pages: PageSpan[], offset: number): number | undefined {
+  let found: number | undefined;
+  for (const span of pages) {
+    if (span.start > offset) break;
+    found = span.page;
+  }
+  return found;
+}
+
+/**
+ * Page ranges stored on an extracted document
+ */
+export function getDocumentPages(document: Pick<TrainingDocument, "metadata">): PageSpan[] | undefined {
+  const pages = document.metadata?.pages;
+  return Array.isArray(pages) ? (pages as PageSpan[]) : undefined;
+}
+
+/**
+ * Extract the text of every page of a PDF
+ * Fails permanently for encrypted, malformed or image-only files, since
+ * retrying cannot change the outcome.
+ */
+export async function extractPdfText(data: Uint8Array): Promise<ExtractedText & { totalPages: number }> {
+  if (!hasPdfSignature(data)) {
+    throw new PermanentJobError("File is not a valid PDF");
+  }
+
+  let totalPages: number;
+  let pageTexts: string[];
+  try {
+    // pdf.js takes ownership of the buffer, so hand it a copy
+    const pdf = await getDocumentProxy(new Uint8Array(data));
+    ({ totalPages, text: pageTexts } = await extractText(pdf, { mergePages: false }));
+  } catch (error) {
+    const name = error instanceof Error ? error.name : "";
+    if (name === "PasswordException") {
+      throw new PermanentJobError("PDF is encrypted or password-protected and cannot be read");
+    }
+    if (name === "InvalidPDFException") {
+      throw new PermanentJobError("File is not a valid PDF");
+    }
+    throw error;
+  }
+
+  const extracted = joinPages(pageTexts);
+  if (!extracted.content) {
+    throw new PermanentJobError(
+      "PDF contains no extractable text; it may be a scanned or image-only document"
+    );
+  }
+
+  return { ...extracted, totalPages };
+}
+
+/**
+ * Field mapping stored on a JSON document
+ */
+export function getJsonMapping(document: Pick<TrainingDocument, "metadata">): JsonFieldMapping | undefined {
+  const mapping = document.metadata?.jsonMapping;
+  return mapping && typeof mapping === "object" ? (mapping as JsonFieldMapping) : undefined;
+}
+
+/**
+ * Extract the text of a file in one of the document formats, with the
+ * metadata the chunker uses (PDF pages, JSON records)
+ */
+export async function extractDocumentText(
+  format: DocumentFormat,
+  data: Uint8Array,
+  jsonMapping?: JsonFieldMapping
+): Promise<{ content: string; metadata: Record<string, unknown> }> {
+  switch (format) {
+    case "pdf": {
+      const { content, pages, totalPages } = await extractPdfText(data);
+      return { content, metadata: { pages, totalPages } };
+    }
+    case "docx":
+      return { content: extractDocxText(data), metadata: {} };
+    case "html": {
+      const content = htmlToText(decodeText(data));
+      if (!content) {
+        throw new PermanentJobError("HTML contains no readable text");
+      }
+      return { content, metadata: {} };
+    }
+    case "json":
+    case "jsonl": {
+      const { content, records } = extractJsonRecords(decodeText(data), format, jsonMapping);
+      return { content, metadata: { records } };
+    }
+  }
+}
+
+function decodeText(data: Uint8Array): string {
+  return Buffer.from(data).toString("utf8").replace(/^\uFEFF/, "");
+}
+
+async function downloadStoredFile(storageKey: string): Promise<Uint8Array> {
+  const { url } = await storageGet(storageKey);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${storageKey} (${response.status} ${response.statusText})`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Make sure a document's text content is available, extracting it from
+ * the stored file on first use. Returns the document with its content.
+ */
+export async function ensureDocumentText(document: TrainingDocument): Promise<TrainingDocument> {
+  const storageKey = document.metadata?.storageKey;
+  const format = getDocumentFormat(document);
+  if (!format || typeof storageKey !== "string" || document.metadata?.extractedAt) {
+    return document;
+  }
+
+  const data = await downloadStoredFile(storageKey);
+  const extracted = await extractDocumentText(format, data, getJsonMapping(document));
+
+  const metadata = {
+    ...document.metadata,
+    ...extracted.metadata,
+    extractedAt: new Date().toISOString(),
+  };
+  await db.updateTrainingDocument(document.id, { content: extracted.content, metadata });
+
+  return { ...document, content: extracted.content, metadata };
+}
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TrainingDocument } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getTrainingDocumentById: vi.fn(),
+  getTrainingDocumentsByAgentId: vi.fn(),
+  createTrainingDocument: vi.fn(),
+  updateTrainingDocument: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+vi.mock("./ingestionJobs", () => ({ enqueueDocumentProcessing: vi.fn() }));
+vi.mock("./documentVersions", () => ({ recordDocumentVersion: vi.fn() }));
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://storage.test/${key}` })),
+}));
+
+import * as db from "./db";
+import { importBundle, type BundleFile } from "./documentImport";
+import { recordDocumentVersion } from "./documentVersions";
+import { enqueueDocumentProcessing } from "./ingestionJobs";
+
+// In-memory table behind the mocked db module
+let documents: TrainingDocument[];
+let nextId: number;
+
+function file(path: string, content: string | Buffer): BundleFile {
+  return { path, read: () => Buffer.from(content) };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  documents = [];
+  nextId = 1;
+
+  vi.mocked(db.getTrainingDocumentsByAgentId).mockImplementation(async () => documents.map(d => ({ ...d })));
+  vi.mocked(db.getTrainingDocumentById).mockImplementation(async id => documents.find(d => d.id === id));
+  vi.mocked(db.createTrainingDocument).mockImplementation(async values => {
+    const document = { ...values, id: nextId++, sourceId: null } as TrainingDocument;
+    documents.push(document);
+    return document;
+  });
+  vi.mocked(db.updateTrainingDocument).mockImplementation(async (id, updates) => {
+    Object.assign(documents.find(d => d.id === id)!, updates);
+  });
+});
+
+describe("importBundle", () => {
+  it("queues supported files and reports skipped and failed ones", async () => {
+    const report = await importBundle(1, 2, "handbook.zip", [
+      file("faq.md", "# FAQ\nRefunds take 30 days."),
+      file("web/pricing.html", "<html><body><h1>Pricing</h1><p>Pro costs $20.</p></body></html>"),
+      file("manual.pdf", "%PDF-1.4 ..."),
+      file("broken.pdf", "not a pdf"),
+      file("logo.png", "\x89PNG"),
+      file("__MACOSX/._faq.md", "resource fork"),
+      file("empty.txt", ""),
+      { path: "huge.csv", error: "File is larger than 10485760 bytes", read: () => Buffer.alloc(0) },
+    ], { tags: { team: ["support"] } });
+
+    expect(report).toMatchObject({ queued: 3, skipped: 3, failed: 2 });
+    expect(report.files.map(f => [f.path, f.status])).toEqual([
+      ["faq.md", "queued"],
+      ["web/pricing.html", "queued"],
+      ["manual.pdf", "queued"],
+      ["broken.pdf", "failed"],
+      ["logo.png", "skipped"],
+      ["__MACOSX/._faq.md", "skipped"],
+      ["empty.txt", "skipped"],
+      ["huge.csv", "failed"],
+    ]);
+    expect(report.files[3].reason).toBe("File is not a valid PDF");
+
+    // Extracted from the stored original by the ingestion worker
+    const pricing = documents.find(d => d.fileName === "web/pricing.html")!;
+    expect(pricing).toMatchObject({ fileType: "text/html", content: "" });
+    expect(pricing.metadata).toEqual({
+      storageKey: expect.stringMatching(/-pricing\.html$/),
+      relativePath: "web/pricing.html",
+      importedFrom: "handbook.zip",
+    });
+    expect(pricing.tags).toEqual({ team: ["support"] });
+    expect(documents.find(d => d.fileName === "faq.md")).toMatchObject({ content: "# FAQ\nRefunds take 30 days." });
+    expect(documents.find(d => d.fileName === "manual.pdf")!.metadata).toMatchObject({
+      storageKey: expect.stringMatching(/^training\/1\/.+-manual\.pdf$/),
+    });
+    expect(enqueueDocumentProcessing).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails files with unsafe paths without stopping the others", async () => {
+    const report = await importBundle(1, 2, "notes", [
+      file("../secrets.md", "Outside the folder"),
+      file("/etc/motd.txt", "Absolute"),
+      file("guides\\setup.md", "# Setup"),
+    ]);
+
+    expect(report).toMatchObject({ queued: 1, failed: 2 });
+    expect(report.files).toEqual([
+      { path: "../secrets.md", status: "failed", reason: "Path traversal not allowed: ../secrets.md" },
+      { path: "/etc/motd.txt", status: "failed", reason: "Absolute path not allowed: /etc/motd.txt" },
+      { path: "guides/setup.md", status: "queued", documentId: 1, updated: false },
+    ]);
+  });
+
+  it("keeps the field mapping on JSON files", async () => {
+    const mapping = { titleField: "subject", textFields: ["body"] };
+    await importBundle(1, 2, "tickets.zip", [file("tickets.jsonl", '{"subject":"Hi","body":"Hello"}')], { jsonMapping: mapping });
+
+    expect(documents[0]).toMatchObject({ fileType: "application/x-ndjson", metadata: { jsonMapping: mapping } });
+  });
+
+  it("imports a file seen before as the document's next version", async () => {
+    await importBundle(1, 2, "handbook.zip", [file("faq.md", "Refunds take 30 days.")]);
+    const report = await importBundle(1, 2, "handbook-v2.zip", [file("faq.md", "Refunds take 14 days.")]);
+
+    expect(report.files).toEqual([{ path: "faq.md", status: "queued", documentId: 1, updated: true }]);
+    expect(documents).toHaveLength(1);
+    expect(documents[0]).toMatchObject({ content: "Refunds take 14 days.", metadata: { importedFrom: "handbook-v2.zip" } });
+    expect(recordDocumentVersion).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Import of uploaded training files
+ * An upload becomes a new document, or the next version of an earlier
+ * upload of the same name. ZIP archives and folders are imported file by
+ * file: each supported file is stored with its relative path and queued
+ * for processing, and the report says what happened to every file.
+ */
+
+import { nanoid } from "nanoid";
+import * as db from "./db";
+import type { DocumentTags, InsertTrainingDocument, TrainingDocument } from "../drizzle/schema";
+import { DOCUMENT_FORMATS, getDocumentFormat, hasPdfSignature, type DocumentFormat } from "./documentExtraction";
+import { recordDocumentVersion } from "./documentVersions";
+import { hasDocxSignature } from "./docxExtraction";
+import { enqueueDocumentProcessing } from "./ingestionJobs";
+import type { JsonFieldMapping } from "./jsonExtraction";
+import { storagePut } from "./storage";
+import { readZipArchive, sanitizeArchivePath } from "./zipArchive";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const MAX_ARCHIVE_BYTES = 30 * 1024 * 1024;
+
+export type Upload = Pick<
+  InsertTrainingDocument,
+  "fileName" | "fileType" | "fileSize" | "fileUrl" | "content" | "metadata" | "tags"
+>;
+
+// ============ UPLOADS ============
+
+/**
+ * Store an upload and queue it for processing; a file named like an
+ * earlier upload of the agent becomes that document's next version
+ */
+export async function saveUploadedDocument(agentId: number, userId: number, upload: Upload): Promise<TrainingDocument> {
+  const documents = await db.getTrainingDocumentsByAgentId(agentId);
+  return storeUpload(agentId, userId, upload, findPreviousUpload(documents, userId, upload.fileName));
+}
+
+/**
+ * Store the original file of a PDF, Word, HTML or JSON upload; its text is
+ * extracted by the ingestion worker
+ */
+export async function storeOriginalFile(
+  agentId: number,
+  fileName: string,
+  format: DocumentFormat,
+  data: Buffer,
+  jsonMapping?: JsonFieldMapping
+): Promise<Upload> {
+  if (format === "pdf" && !hasPdfSignature(data)) {
+    throw new Error("File is not a valid PDF");
+  }
+  if (format === "docx" && !hasDocxSignature(data)) {
+    throw new Error("File is not a valid Word document");
+  }
+
+  const { fileType } = DOCUMENT_FORMATS[format];
+  const fileKey = `training/${agentId}/${nanoid()}-${fileName.split("/").pop()!.replace(/[^\w.-]+/g, "_")}`;
+  const { key, url } = await storagePut(fileKey, data, fileType);
+  return {
+    fileName,
+    fileType,
+    fileSize: data.length,
+    fileUrl: url,
+    content: "",
+    metadata: jsonMapping && (format === "json" || format === "jsonl") ? { storageKey: key, jsonMapping } : { storageKey: key },
+  };
+}
+
+function findPreviousUpload(documents: TrainingDocument[], userId: number, fileName: string) {
+  return documents.find(document =>
+    document.userId === userId &&
+    document.fileName === fileName &&
+    !document.sourceId &&
+    !document.metadata?.snippet
+  );
+}
+
+async function storeUpload(
+  agentId: number,
+  userId: number,
+  upload: Upload,
+  previous: TrainingDocument | undefined
+): Promise<TrainingDocument> {
+  if (!previous) {
+    const document = await db.createTrainingDocument({
+      ...upload,
+      agentId,
+      userId,
+      status: "pending",
+      chunkCount: 0,
+    });
+    // Chunking and embedding run in the background ingestion queue
+    await enqueueDocumentProcessing(document.id, agentId);
+    return document;
+  }
+
+  // Documents uploaded before versioning keep their previous content as a version
+  await recordDocumentVersion(previous.id);
+  await db.updateTrainingDocument(previous.id, {
+    ...upload,
+    fileUrl: upload.fileUrl ?? null,
+    metadata: upload.metadata ?? null,
+    tags: upload.tags ?? previous.tags,
+  });
+  await enqueueDocumentProcessing(previous.id, agentId);
+  return (await db.getTrainingDocumentById(previous.id))!;
+}
+
+// ============ BULK IMPORT ============
+
+export type BundleFile = {
+  /** Relative path inside the archive or folder; absolute and `..` paths fail */
+  path: string;
+  /** Set when the file cannot be read, e.g. too large */
+  error?: string | null;
+  read(): Buffer;
+};
+
+export type ImportedFile = {
+  path: string;
+  status: "queued" | "skipped" | "failed";
+  documentId?: number;
+  /** An earlier upload of the same path got a new version */
+  updated?: boolean;
+  reason?: string;
+};
+
+export type ImportOptions = {
+  tags?: DocumentTags | null;
+  /** Field mapping for the bundle's JSON and JSONL files */
+  jsonMapping?: JsonFieldMapping;
+};
+
+export type ImportReport = {
+  files: ImportedFile[];
+  queued: number;
+  skipped: number;
+  failed: number;
+};
+
+// Stored as they are; other formats are extracted from the original file
+const TEXT_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+};
+
+/**
+ * Import every file of a ZIP archive
+ */
+export async function importZipArchive(
+  agentId: number,
+  userId: number,
+  archiveName: string,
+  data: Buffer,
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  if (data.length > MAX_ARCHIVE_BYTES) {
+    throw new Error(`Archive exceeds ${MAX_ARCHIVE_BYTES / 1024 / 1024}MB limit`);
+  }
+  return importBundle(agentId, userId, archiveName, readZipArchive(data), options);
+}
+
+/**
+ * Import files from an archive or folder; each file is saved as a document
+ * named by its relative path. A failing file does not stop the others.
+ */
+export async function importBundle(
+  agentId: number,
+  userId: number,
+  bundleName: string,
+  files: BundleFile[],
+  options: ImportOptions = {}
+): Promise<ImportReport> {
+  const documents = await db.getTrainingDocumentsByAgentId(agentId);
+  const report: ImportReport = { files: [], queued: 0, skipped: 0, failed: 0 };
+
+  for (const file of files) {
+    let result: ImportedFile;
+    try {
+      result = await importFile(agentId, userId, bundleName, file, options, documents);
+    } catch (error) {
+      result = { path: file.path, status: "failed", reason: error instanceof Error ? error.message : String(error) };
+    }
+    report.files.push(result);
+    report[result.status]++;
+  }
+
+  console.log(`[Import] ${bundleName}: ${report.queued} queued, ${report.skipped} skipped, ${report.failed} failed`);
+  return report;
+}
+
+async function importFile(
+  agentId: number,
+  userId: number,
+  bundleName: string,
+  file: BundleFile,
+  options: ImportOptions,
+  documents: TrainingDocument[]
+): Promise<ImportedFile> {
+  const path = sanitizeArchivePath(file.path);
+  const segments = path.split("/");
+  // Hidden files and macOS resource forks
+  if (segments.some(segment => segment.startsWith(".") || segment === "__MACOSX")) {
+    return { path, status: "skipped", reason: "Hidden file" };
+  }
+
+  const extension = path.includes(".") ? path.slice(path.lastIndexOf(".") + 1).toLowerCase() : "";
+  const format = getDocumentFormat({ fileName: path, fileType: "" });
+  if (!format && !TEXT_TYPES[extension]) {
+    return {
+      path,
+      status: "skipped",
+      reason: "Unsupported file type. Supported: .txt, .md, .csv, .pdf, .docx, .html, .json and .jsonl",
+    };
+  }
+  if (path.length > 255) {
+    throw new Error("Path is longer than 255 characters");
+  }
+  if (file.error) {
+    throw new Error(file.error);
+  }
+
+  const data = file.read();
+  if (data.length > MAX_UPLOAD_BYTES) {
+    throw new Error("File content exceeds 10MB limit");
+  }
+  if (data.length === 0) {
+    return { path, status: "skipped", reason: "Empty file" };
+  }
+
+  let upload: Upload;
+  if (format) {
+    upload = await storeOriginalFile(agentId, path, format, data, options.jsonMapping);
+  } else {
+    const text = data.toString("utf8").replace(/^\uFEFF/, "");
+    if (text.includes("\0")) {
+      throw new Error("File is not a text file");
+    }
+    upload = { fileName: path, fileType: TEXT_TYPES[extension], fileSize: data.length, content: text };
+  }
+
+  upload.metadata = { ...upload.metadata, relativePath: path, importedFrom: bundleName };
+  upload.tags = options.tags ?? null;
+
+  const previous = findPreviousUpload(documents, userId, path);
+  const document = await storeUpload(agentId, userId, upload, previous);
+  // Later files with the same path in the bundle update this document
+  if (!previous) documents.push(document);
+
+  return { path, status: "queued", documentId: document.id, updated: previous !== undefined };
+}
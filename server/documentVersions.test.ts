@@ -0,0 +1,258 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  DocumentVersion,
+  KnowledgeSnapshot,
+  RagConfiguration,
+  TrainingDocument,
+  VectorEmbedding,
+} from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getOrCreateRagConfig: vi.fn(),
+  getTrainingSourceById: vi.fn(),
+  getTrainingDocumentById: vi.fn(),
+  getTrainingDocumentsByAgentId: vi.fn(),
+  createTrainingDocument: vi.fn(),
+  updateTrainingDocument: vi.fn(),
+  deleteTrainingDocument: vi.fn(),
+  getVectorEmbeddingsByDocumentId: vi.fn(),
+  createVectorEmbedding: vi.fn(),
+  deleteVectorEmbeddingsByDocumentId: vi.fn(),
+  createDocumentVersion: vi.fn(),
+  getDocumentVersionById: vi.fn(),
+  getDocumentVersionsByDocumentId: vi.fn(),
+  getDocumentVersionsByAgentId: vi.fn(),
+  createKnowledgeSnapshot: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+import * as db from "./db";
+import {
+  createKnowledgeSnapshot,
+  diffLines,
+  recordDocumentVersion,
+  removeTrainingDocument,
+  restoreDocumentVersion,
+  rollbackToSnapshot,
+} from "./documentVersions";
+import { embedLocally } from "./embeddings";
+import { hashContent } from "./rag";
+
+let config: RagConfiguration;
+
+// In-memory tables behind the mocked db module
+let documents: TrainingDocument[];
+let embeddings: VectorEmbedding[];
+let versions: DocumentVersion[];
+let nextId: number;
+
+/**
+ * A completed document with one stored chunk per line
+ */
+function addDocument(id: number, fileName: string, content: string): TrainingDocument {
+  const document = {
+    id,
+    agentId: 1,
+    userId: 2,
+    fileName,
+    fileType: "text/plain",
+    fileSize: content.length,
+    fileUrl: null,
+    sourceId: null,
+    sourceUrl: null,
+    content,
+    contentHash: hashContent(content),
+    status: "completed",
+    chunkCount: 0,
+    errorMessage: null,
+    metadata: null,
+    tags: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as TrainingDocument;
+  documents.push(document);
+  setChunks(document);
+  return document;
+}
+
+function setChunks(document: TrainingDocument) {
+  embeddings = embeddings.filter(e => e.documentId !== document.id);
+  document.content.split("\n").forEach((line, index) => {
+    embeddings.push({
+      id: nextId++,
+      documentId: document.id,
+      agentId: 1,
+      chunkIndex: index,
+      indexVersion: config.indexVersion,
+      content: line,
+      embedding: [index, line.length],
+      metadata: null,
+      tags: null,
+      createdAt: new Date(),
+    });
+  });
+  document.chunkCount = document.content.split("\n").length;
+}
+
+function editDocument(document: TrainingDocument, content: string) {
+  Object.assign(document, { content, contentHash: hashContent(content) });
+  setChunks(document);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  config = { agentId: 1, embeddingModel: "local-hash", indexedEmbeddingModel: "local-hash", indexVersion: 0 } as RagConfiguration;
+  documents = [];
+  embeddings = [];
+  versions = [];
+  nextId = 100;
+
+  vi.mocked(db.getOrCreateRagConfig).mockImplementation(async () => config);
+  vi.mocked(db.getTrainingDocumentById).mockImplementation(async id => {
+    const document = documents.find(d => d.id === id);
+    return document && { ...document };
+  });
+  vi.mocked(db.getTrainingDocumentsByAgentId).mockImplementation(async () => documents.map(d => ({ ...d })));
+  vi.mocked(db.createTrainingDocument).mockImplementation(async values => {
+    const document = { ...values, id: values.id ?? nextId++, contentHash: null } as TrainingDocument;
+    documents.push(document);
+    return document;
+  });
+  vi.mocked(db.updateTrainingDocument).mockImplementation(async (id, updates) => {
+    Object.assign(documents.find(d => d.id === id)!, updates);
+  });
+  vi.mocked(db.deleteTrainingDocument).mockImplementation(async id => {
+    documents = documents.filter(d => d.id !== id);
+  });
+  vi.mocked(db.getVectorEmbeddingsByDocumentId).mockImplementation(async id =>
+    embeddings.filter(e => e.documentId === id)
+  );
+  vi.mocked(db.createVectorEmbedding).mockImplementation(async values => {
+    const embedding = { ...values, id: nextId++ } as VectorEmbedding;
+    embeddings.push(embedding);
+    return embedding;
+  });
+  vi.mocked(db.deleteVectorEmbeddingsByDocumentId).mockImplementation(async id => {
+    embeddings = embeddings.filter(e => e.documentId !== id);
+  });
+  vi.mocked(db.createDocumentVersion).mockImplementation(async values => {
+    const version = { ...values, id: nextId++, createdAt: new Date() } as DocumentVersion;
+    versions.push(version);
+    return version;
+  });
+  vi.mocked(db.getDocumentVersionById).mockImplementation(async id => versions.find(v => v.id === id));
+  vi.mocked(db.getDocumentVersionsByDocumentId).mockImplementation(async id =>
+    versions.filter(v => v.documentId === id).reverse()
+  );
+  vi.mocked(db.getDocumentVersionsByAgentId).mockImplementation(async () => [...versions]);
+  vi.mocked(db.createKnowledgeSnapshot).mockImplementation(async values =>
+    ({ ...values, id: nextId++, createdAt: new Date() }) as KnowledgeSnapshot
+  );
+});
+
+describe("diffLines", () => {
+  it("aligns changed lines and collapses long unchanged stretches", () => {
+    const before = ["a", "b", "c", "d", "e", "f", "g", "h", "i"].join("\n");
+    const after = ["a", "b", "c", "d", "e", "f", "g", "H", "i", "j"].join("\n");
+
+    expect(diffLines(before, after)).toEqual([
+      { type: "skipped", count: 4 },
+      { type: "same", text: "e" },
+      { type: "same", text: "f" },
+      { type: "same", text: "g" },
+      { type: "removed", text: "h" },
+      { type: "added", text: "H" },
+      { type: "same", text: "i" },
+      { type: "added", text: "j" },
+    ]);
+  });
+});
+
+describe("recordDocumentVersion", () => {
+  it("records new content with its chunks and recognises restored content", async () => {
+    const document = addDocument(1, "faq.txt", "Refunds take 30 days.\nShipping is free.");
+
+    await recordDocumentVersion(1);
+    await recordDocumentVersion(1);
+    editDocument(document, "Refunds take 14 days.\nShipping is free.");
+    await recordDocumentVersion(1);
+    editDocument(document, "Refunds take 30 days.\nShipping is free.");
+    await recordDocumentVersion(1);
+
+    expect(versions.map(v => [v.version, v.change, v.restoredFromVersion])).toEqual([
+      [1, "created", null],
+      [2, "updated", null],
+      [3, "restored", 1],
+    ]);
+    expect(versions[0].chunks).toEqual([
+      { chunkIndex: 0, content: "Refunds take 30 days.", metadata: null },
+      { chunkIndex: 1, content: "Shipping is free.", metadata: null },
+    ]);
+  });
+
+  it("logs failures instead of failing the ingestion", async () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+    addDocument(1, "faq.txt", "Refunds take 30 days.");
+    vi.mocked(db.createDocumentVersion).mockRejectedValueOnce(new Error("Packet too large"));
+
+    await expect(recordDocumentVersion(1)).resolves.toBeNull();
+    expect(error).toHaveBeenCalledWith("[Versions] Failed to record a version of document 1:", expect.any(Error));
+    error.mockRestore();
+  });
+});
+
+describe("rollbackToSnapshot", () => {
+  it("restores changed and deleted documents from their stored chunks and removes new ones", async () => {
+    const faq = addDocument(1, "faq.txt", "Refunds take 30 days.");
+    const pricing = addDocument(2, "pricing.txt", "Pro costs $20.\nTeam costs $50.");
+    const snapshot = await createKnowledgeSnapshot(1, 2, "Launch");
+
+    editDocument(faq, "Refunds take 14 days.");
+    await recordDocumentVersion(1);
+    await removeTrainingDocument(documents.find(d => d.id === 2)!);
+    addDocument(3, "beta.txt", "Beta features.");
+    await recordDocumentVersion(3);
+
+    const result = await rollbackToSnapshot(snapshot, 2);
+
+    expect(result).toMatchObject({ removed: [3], unchanged: 0 });
+    expect(result.restored).toEqual([
+      { documentId: 1, needsProcessing: false },
+      { documentId: 2, needsProcessing: false },
+    ]);
+    expect(documents.map(d => [d.id, d.content, d.status]).sort()).toEqual([
+      [1, "Refunds take 30 days.", "completed"],
+      [2, pricing.content, "completed"],
+    ]);
+    // Deleted documents have no embeddings left to reuse
+    expect(embeddings.filter(e => e.documentId === 2).map(e => [e.content, e.embedding])).toEqual([
+      ["Pro costs $20.", embedLocally("Pro costs $20.")],
+      ["Team costs $50.", embedLocally("Team costs $50.")],
+    ]);
+    expect(versions.filter(v => v.documentId === 2).map(v => v.change)).toEqual(["created", "deleted", "restored"]);
+  });
+
+  it("reuses the embeddings of text the document still has", async () => {
+    const faq = addDocument(1, "faq.txt", "Refunds take 30 days.\nShipping is free.");
+    const version = await recordDocumentVersion(1);
+    editDocument(faq, "Refunds take 14 days.\nShipping is free.");
+
+    await restoreDocumentVersion(version!);
+
+    expect(embeddings.filter(e => e.documentId === 1).map(e => [e.content, e.embedding])).toEqual([
+      ["Refunds take 30 days.", embedLocally("Refunds take 30 days.")],
+      ["Shipping is free.", [1, 17]],
+    ]);
+  });
+
+  it("leaves documents to be embedded again when the index was rebuilt", async () => {
+    addDocument(1, "faq.txt", "Refunds take 30 days.");
+    const version = await recordDocumentVersion(1);
+    config = { ...config, indexVersion: 1 };
+
+    const result = await restoreDocumentVersion(version!);
+
+    expect(result).toEqual({ documentId: 1, needsProcessing: true });
+    expect(db.createVectorEmbedding).not.toHaveBeenCalled();
+  });
+});
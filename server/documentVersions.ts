@@ -0,0 +1,380 @@
+/**
+ * Training document versions and knowledge base rollback
+ * Each time a document is embedded with new content, a version is
+ * recorded with its chunks' text; deleting a document records that too. A
+ * snapshot marks a point in an agent's history. Restoring a version writes
+ * its chunks back while the agent's index version still matches, embedding
+ * only text the document no longer has, and otherwise leaves the document
+ * to be embedded again.
+ */
+
+import * as db from "./db";
+import type { DocumentVersionSummary } from "./db";
+import type { DocumentVersion, KnowledgeSnapshot, TrainingDocument } from "../drizzle/schema";
+import { getEmbeddingProvider } from "./embeddings";
+import { getActiveIndexSettings, hashContent } from "./rag";
+
+// Unchanged lines shown around each change in a diff
+const DIFF_CONTEXT_LINES = 3;
+// Larger changed regions are shown as removed then added, without alignment
+const MAX_DIFF_CELLS = 4_000_000;
+
+// ============ RECORDING ============
+
+/**
+ * Record the content a document was embedded with as its newest version
+ * Nothing is recorded for documents that are not embedded or whose newest
+ * version has the same content. Content matching an earlier version is
+ * recorded as a restore of it. Failures are logged rather than thrown, so
+ * they do not fail the ingestion that embedded the document.
+ */
+export async function recordDocumentVersion(documentId: number): Promise<DocumentVersion | null> {
+  try {
+    return await recordVersion(documentId);
+  } catch (error) {
+    console.error(`[Versions] Failed to record a version of document ${documentId}:`, error);
+    return null;
+  }
+}
+
+async function recordVersion(documentId: number): Promise<DocumentVersion | null> {
+  const document = await db.getTrainingDocumentById(documentId);
+  if (!document || document.status !== "completed") return null;
+
+  const history = await db.getDocumentVersionsByDocumentId(document.id);
+  const contentHash = document.contentHash ?? hashContent(document.content);
+  const latest = history[0];
+  if (latest && latest.change !== "deleted" && latest.contentHash === contentHash && latest.fileName === document.fileName) {
+    return null;
+  }
+
+  const previous = history.find(version => version.change !== "deleted" && version.contentHash === contentHash);
+  const { indexVersion } = getActiveIndexSettings(await db.getOrCreateRagConfig(document.agentId));
+  const chunks = await db.getVectorEmbeddingsByDocumentId(document.id, indexVersion);
+
+  return db.createDocumentVersion({
+    ...versionFields(document),
+    version: (latest?.version ?? 0) + 1,
+    change: !latest ? "created" : previous ? "restored" : "updated",
+    restoredFromVersion: previous?.version ?? null,
+    content: document.content,
+    contentHash,
+    // Without embeddings, which would make versions of large documents huge
+    chunks: chunks.map(chunk => ({
+      chunkIndex: chunk.chunkIndex,
+      content: chunk.content,
+      metadata: chunk.metadata ?? null,
+    })),
+    indexVersion,
+    chunkCount: chunks.length,
+  });
+}
+
+function versionFields(document: TrainingDocument) {
+  return {
+    documentId: document.id,
+    agentId: document.agentId,
+    userId: document.userId,
+    fileName: document.fileName,
+    fileType: document.fileType,
+    fileSize: document.fileSize,
+    fileUrl: document.fileUrl,
+    sourceId: document.sourceId,
+    sourceUrl: document.sourceUrl,
+    metadata: document.metadata,
+    tags: document.tags,
+  };
+}
+
+/**
+ * Delete a document with its embeddings, keeping its versions and
+ * recording the deletion so a rollback can bring it back
+ */
+export async function removeTrainingDocument(document: TrainingDocument): Promise<void> {
+  // Documents embedded before versioning get a version first
+  await recordDocumentVersion(document.id);
+
+  const latest = (await db.getDocumentVersionsByDocumentId(document.id))[0];
+  if (latest && latest.change !== "deleted") {
+    await db.createDocumentVersion({
+      ...versionFields(document),
+      version: latest.version + 1,
+      change: "deleted",
+      content: "",
+      contentHash: hashContent(""),
+      chunks: null,
+      indexVersion: null,
+      chunkCount: 0,
+    });
+  }
+
+  await db.deleteVectorEmbeddingsByDocumentId(document.id);
+  await db.deleteTrainingDocument(document.id, document.userId);
+}
+
+// ============ RESTORING ============
+
+export type RestoreResult = {
+  documentId: number;
+  /** The stored chunks were from another index version; the document must be processed again */
+  needsProcessing: boolean;
+};
+
+/**
+ * Bring a document back to a version, recreating it under its old id when
+ * it was deleted. The restore is recorded as a new version once the
+ * document is embedded.
+ */
+export async function restoreDocumentVersion(version: DocumentVersion): Promise<RestoreResult> {
+  if (version.change === "deleted") {
+    throw new Error("A deletion cannot be restored; choose the version before it");
+  }
+
+  const settings = getActiveIndexSettings(await db.getOrCreateRagConfig(version.agentId));
+  const source = version.sourceId ? await db.getTrainingSourceById(version.sourceId) : undefined;
+  const fields = {
+    fileName: version.fileName,
+    fileType: version.fileType,
+    fileSize: version.fileSize,
+    fileUrl: version.fileUrl,
+    // A restored page of a deleted source no longer belongs to it
+    sourceId: source ? version.sourceId : null,
+    sourceUrl: version.sourceUrl,
+    content: version.content,
+    metadata: version.metadata,
+    tags: version.tags,
+  };
+
+  const existing = await db.getTrainingDocumentById(version.documentId);
+  if (existing) {
+    await db.updateTrainingDocument(existing.id, fields);
+  } else {
+    await db.createTrainingDocument({
+      ...fields,
+      id: version.documentId,
+      agentId: version.agentId,
+      userId: version.userId,
+      status: "pending",
+      chunkCount: 0,
+    });
+  }
+
+  if (!version.chunks || version.indexVersion !== settings.indexVersion) {
+    return { documentId: version.documentId, needsProcessing: true };
+  }
+
+  // Text the document still has keeps its embedding; the rest is embedded again
+  const embeddingByText = new Map<string, number[]>();
+  for (const row of await db.getVectorEmbeddingsByDocumentId(version.documentId, settings.indexVersion)) {
+    if (Array.isArray(row.embedding)) embeddingByText.set(row.content, row.embedding);
+  }
+  for (const chunk of version.chunks) {
+    if (chunk.embedding) embeddingByText.set(chunk.content, chunk.embedding);
+  }
+  const toEmbed = Array.from(new Set(
+    version.chunks.map(chunk => chunk.content).filter(text => !embeddingByText.has(text))
+  ));
+  if (toEmbed.length > 0) {
+    const fresh = await getEmbeddingProvider(settings.embeddingModel).embed(toEmbed);
+    toEmbed.forEach((text, i) => embeddingByText.set(text, fresh[i]));
+  }
+
+  await db.deleteVectorEmbeddingsByDocumentId(version.documentId, settings.indexVersion);
+  for (const chunk of version.chunks) {
+    await db.createVectorEmbedding({
+      documentId: version.documentId,
+      agentId: version.agentId,
+      chunkIndex: chunk.chunkIndex,
+      indexVersion: settings.indexVersion,
+      content: chunk.content,
+      embedding: embeddingByText.get(chunk.content),
+      metadata: chunk.metadata,
+      tags: version.tags ?? null,
+    });
+  }
+  await db.updateTrainingDocument(version.documentId, {
+    status: "completed",
+    chunkCount: version.chunks.length,
+    contentHash: version.contentHash,
+    errorMessage: null,
+  });
+  await recordDocumentVersion(version.documentId);
+
+  return { documentId: version.documentId, needsProcessing: false };
+}
+
+// ============ SNAPSHOTS ============
+
+/**
+ * Mark the current state of an agent's embedded documents
+ */
+export async function createKnowledgeSnapshot(agentId: number, userId: number, name: string): Promise<KnowledgeSnapshot> {
+  const documents = (await db.getTrainingDocumentsByAgentId(agentId)).filter(document => document.status === "completed");
+  // Documents embedded before versioning get their first version
+  for (const document of documents) {
+    await recordDocumentVersion(document.id);
+  }
+
+  const history = await db.getDocumentVersionsByAgentId(agentId);
+  return db.createKnowledgeSnapshot({
+    agentId,
+    userId,
+    name,
+    lastVersionId: history.length > 0 ? history[history.length - 1].id : 0,
+    documentCount: documents.length,
+  });
+}
+
+export type RollbackResult = {
+  /** Taken before rolling back, to undo it */
+  backup: KnowledgeSnapshot;
+  restored: RestoreResult[];
+  removed: number[];
+  unchanged: number;
+};
+
+/**
+ * Roll an agent's documents back to a snapshot: documents added since are
+ * deleted, deleted ones are recreated and changed ones restored to the
+ * version they had. Documents that were never embedded are left alone.
+ */
+export async function rollbackToSnapshot(snapshot: KnowledgeSnapshot, userId: number): Promise<RollbackResult> {
+  const backup = await createKnowledgeSnapshot(snapshot.agentId, userId, `Before rollback to "${snapshot.name}"`);
+
+  const target = new Map<number, DocumentVersionSummary>();
+  const tracked = new Set<number>();
+  for (const version of await db.getDocumentVersionsByAgentId(snapshot.agentId)) {
+    if (version.id <= snapshot.lastVersionId) target.set(version.documentId, version);
+    tracked.add(version.documentId);
+  }
+
+  const result: RollbackResult = { backup, restored: [], removed: [], unchanged: 0 };
+  const documents = await db.getTrainingDocumentsByAgentId(snapshot.agentId);
+  const present = new Set(documents.map(document => document.id));
+
+  for (const document of documents) {
+    if (!tracked.has(document.id)) continue;
+
+    const wanted = target.get(document.id);
+    if (!wanted || wanted.change === "deleted") {
+      await removeTrainingDocument(document);
+      result.removed.push(document.id);
+    } else if (document.status !== "completed" || document.contentHash !== wanted.contentHash || document.fileName !== wanted.fileName) {
+      result.restored.push(await restoreVersion(wanted.id));
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  // Documents deleted since the snapshot
+  for (const [documentId, wanted] of Array.from(target.entries())) {
+    if (!present.has(documentId) && wanted.change !== "deleted") {
+      result.restored.push(await restoreVersion(wanted.id));
+    }
+  }
+
+  return result;
+}
+
+async function restoreVersion(versionId: number): Promise<RestoreResult> {
+  const version = await db.getDocumentVersionById(versionId);
+  if (!version) {
+    throw new Error(`Document version ${versionId} not found`);
+  }
+  return restoreDocumentVersion(version);
+}
+
+// ============ DIFF ============
+
+export type DiffLine =
+  | { type: "same" | "added" | "removed"; text: string }
+  | { type: "skipped"; count: number };
+
+/**
+ * Line diff between two texts; long unchanged stretches are collapsed
+ * into `skipped` entries
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // Common prefix and suffix need no alignment
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: Array<{ type: "same" | "added" | "removed"; text: string }> = [];
+  a.slice(0, start).forEach(text => lines.push({ type: "same", text }));
+  lines.push(...alignLines(a.slice(start, endA), b.slice(start, endB)));
+  a.slice(endA).forEach(text => lines.push({ type: "same", text }));
+
+  return collapseUnchanged(lines);
+}
+
+/**
+ * Longest-common-subsequence alignment of the changed region
+ */
+function alignLines(a: string[], b: string[]): Array<{ type: "same" | "added" | "removed"; text: string }> {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: "removed" as const, text })),
+      ...b.map(text => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: Array<{ type: "same" | "added" | "removed"; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      lines.push({ type: "removed", text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: "added", text: b[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+function collapseUnchanged(lines: Array<{ type: "same" | "added" | "removed"; text: string }>): DiffLine[] {
+  const changed = lines.map(line => line.type !== "same");
+  const nearChange = (index: number) => {
+    for (let k = Math.max(0, index - DIFF_CONTEXT_LINES); k <= Math.min(lines.length - 1, index + DIFF_CONTEXT_LINES); k++) {
+      if (changed[k]) return true;
+    }
+    return false;
+  };
+
+  const result: DiffLine[] = [];
+  lines.forEach((line, index) => {
+    if (line.type !== "same" || nearChange(index)) {
+      result.push(line);
+      return;
+    }
+    const last = result[result.length - 1];
+    if (last?.type === "skipped") {
+      last.count++;
+    } else {
+      result.push({ type: "skipped", count: 1 });
+    }
+  });
+  return result;
+}
@@ -0,0 +1,196 @@
+/**
+ * Text extraction for Word (.docx) training documents
+ * The document body is read from the archive's `word/document.xml`.
+ * Headings become markdown headings, so the markdown chunker follows the
+ * document outline; list paragraphs become list items and tables become
+ * markdown tables.
+ */
+
+import { decodeEntities } from "./htmlExtraction";
+import { PermanentJobError } from "./ingestionQueue";
+import { readZipArchive } from "./zipArchive";
+
+type Paragraph = { text: string; headingLevel: number; listItem: boolean };
+type Table = { rows: string[][]; row: string[] | null; cell: string[] | null };
+
+// Elements that shape the text; everything else is skipped
+const TOKEN = /<(\/?)(w:p|w:tbl|w:tr|w:tc|w:tab|w:br|w:cr|w:t|w:pStyle|w:outlineLvl|w:numPr)(?=[\s/>])([^>]*?)(\/?)>|<[^>]*>|([^<]+)/g;
+
+export function hasDocxSignature(data: Uint8Array): boolean {
+  return data.length > 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Extract a Word document's text as markdown
+ * Fails permanently for files that are not Word documents or have no text.
+ */
+export function extractDocxText(data: Uint8Array): string {
+  if (!hasDocxSignature(data)) {
+    throw new PermanentJobError("File is not a valid Word document");
+  }
+
+  let files: Map<string, () => Buffer>;
+  try {
+    files = new Map(readZipArchive(Buffer.from(data)).map(entry => [entry.path, entry.read]));
+  } catch (error) {
+    throw new PermanentJobError(`File is not a valid Word document: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const readDocument = files.get("word/document.xml");
+  if (!readDocument) {
+    throw new PermanentJobError("File is not a valid Word document: word/document.xml is missing");
+  }
+  const readStyles = files.get("word/styles.xml");
+
+  const content = convertDocumentXml(readDocument().toString("utf8"), readStyles ? headingStyles(readStyles().toString("utf8")) : new Map());
+  if (!content) {
+    throw new PermanentJobError("Word document contains no text");
+  }
+  return content;
+}
+
+/**
+ * Heading level of each paragraph style id; style ids are localised
+ * (e.g. "berschrift1"), so levels are read from the style names
+ */
+function headingStyles(stylesXml: string): Map<string, number> {
+  const levels = new Map<string, number>();
+  for (const style of stylesXml.match(/<w:style\b[\s\S]*?<\/w:style>/g) ?? []) {
+    const id = style.match(/w:styleId="([^"]*)"/)?.[1];
+    const name = style.match(/<w:name\b[^>]*w:val="([^"]*)"/)?.[1]?.toLowerCase();
+    if (!id || !name) continue;
+
+    const heading = name.match(/^heading (\d)$/);
+    if (heading) levels.set(id, Math.min(Number(heading[1]), 6));
+    else if (name === "title") levels.set(id, 1);
+  }
+  return levels;
+}
+
+function styleHeadingLevel(styleId: string, styles: Map<string, number>): number {
+  const level = styles.get(styleId);
+  if (level !== undefined) return level;
+  // Documents without styles.xml use the built-in English ids
+  const heading = styleId.match(/^heading(\d)$/i);
+  if (heading) return Math.min(Number(heading[1]), 6);
+  return styleId.toLowerCase() === "title" ? 1 : 0;
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  return attributes.match(new RegExp(`${name}="([^"]*)"`))?.[1];
+}
+
+function convertDocumentXml(xml: string, styles: Map<string, number>): string {
+  const blocks: string[] = [];
+  const tables: Table[] = [];
+  let paragraph: Paragraph | null = null;
+  let inText = false;
+
+  const finishParagraph = () => {
+    if (!paragraph) return;
+    const text = paragraph.text.replace(/[ \t]+/g, " ").trim();
+    const table = tables[tables.length - 1];
+
+    if (table?.cell) {
+      if (text) table.cell.push(text);
+    } else if (text) {
+      blocks.push(
+        paragraph.headingLevel > 0
+          ? `${"#".repeat(paragraph.headingLevel)} ${text.replace(/\n+/g, " ")}`
+          : paragraph.listItem
+            ? `- ${text}`
+            : text
+      );
+    }
+    paragraph = null;
+  };
+
+  for (const match of Array.from(xml.matchAll(TOKEN))) {
+    const [, closing, name, attributes = "", selfClosing, text] = match;
+    if (text !== undefined) {
+      if (inText && paragraph) paragraph.text += decodeEntities(text);
+      continue;
+    }
+    if (!name) continue;
+
+    const table = tables[tables.length - 1];
+    switch (name) {
+      case "w:p":
+        if (closing) {
+          finishParagraph();
+        } else {
+          paragraph = { text: "", headingLevel: 0, listItem: false };
+          if (selfClosing) finishParagraph();
+        }
+        break;
+      case "w:t":
+        inText = !closing && !selfClosing;
+        break;
+      case "w:tab":
+        if (paragraph && !closing) paragraph.text += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        if (paragraph && !closing) paragraph.text += "\n";
+        break;
+      case "w:pStyle":
+        if (paragraph) paragraph.headingLevel = styleHeadingLevel(attribute(attributes, "w:val") ?? "", styles);
+        break;
+      case "w:outlineLvl": {
+        const level = Number(attribute(attributes, "w:val"));
+        // Level 9 is body text
+        if (paragraph && !paragraph.headingLevel && level >= 0 && level < 6) paragraph.headingLevel = level + 1;
+        break;
+      }
+      case "w:numPr":
+        if (paragraph && !closing) paragraph.listItem = true;
+        break;
+      case "w:tbl":
+        if (!closing) {
+          tables.push({ rows: [], row: null, cell: null });
+        } else {
+          const finished = tables.pop();
+          if (!finished) break;
+          const parent = tables[tables.length - 1];
+          // Nested tables are flattened into the enclosing cell
+          if (parent?.cell) {
+            parent.cell.push(finished.rows.map(row => row.join(" ")).join(" "));
+          } else if (finished.rows.length > 0) {
+            blocks.push(markdownTable(finished.rows));
+          }
+        }
+        break;
+      case "w:tr":
+        if (!table) break;
+        if (!closing) {
+          table.row = [];
+        } else if (table.row) {
+          if (table.row.some(cell => cell)) table.rows.push(table.row);
+          table.row = null;
+        }
+        break;
+      case "w:tc":
+        if (!table) break;
+        if (!closing) {
+          table.cell = [];
+        } else if (table.cell) {
+          table.row?.push(table.cell.join(" ").replace(/\s+/g, " ").trim());
+          table.cell = null;
+        }
+        break;
+    }
+  }
+
+  return blocks.join("\n\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Markdown table with the first row as header; short rows are padded
+ */
+function markdownTable(rows: string[][]): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => (cells[i] ?? "").replace(/\|/g, "\\|")).join(" | ")} |`;
+
+  return [line(rows[0]), line(Array(columns).fill("---")), ...rows.slice(1).map(line)].join("\n");
+}
@@ -0,0 +1,101 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createLocalEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  embedLocally,
+  getEmbeddingProvider,
+  toBatches,
+} from "./embeddings";
+import { ENV } from "./_core/env";
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, val, i) => sum + val * b[i], 0);
+}
+
+describe("embeddings", () => {
+  describe("embedLocally", () => {
+    it("is deterministic and unit length", () => {
+      const a = embedLocally("Refund policy for annual plans");
+      const b = embedLocally("Refund policy for annual plans");
+
+      expect(a).toEqual(b);
+      expect(dot(a, a)).toBeCloseTo(1, 6);
+    });
+
+    it("scores related text above unrelated text", () => {
+      const query = embedLocally("how do I reset my password");
+      const related = embedLocally("To reset your password, open account settings.");
+      const unrelated = embedLocally("Our office is closed on public holidays.");
+
+      expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated));
+    });
+
+    it("returns a zero vector for empty text", () => {
+      const vector = embedLocally("");
+
+      expect(vector.every(val => val === 0)).toBe(true);
+    });
+  });
+
+  describe("toBatches", () => {
+    it("splits items into fixed-size batches", () => {
+      expect(toBatches([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+      expect(toBatches([], 2)).toEqual([]);
+    });
+  });
+
+  describe("getEmbeddingProvider", () => {
+    it("selects the local provider for local models", () => {
+      expect(getEmbeddingProvider("local-hash").model).toBe("local-hash");
+    });
+
+    it("falls back to the default model", () => {
+      expect(getEmbeddingProvider(null).model).toBe("text-embedding-ada-002");
+    });
+  });
+
+  describe("createLocalEmbeddingProvider", () => {
+    it("embeds every input in order", async () => {
+      const provider = createLocalEmbeddingProvider();
+      const vectors = await provider.embed(["alpha", "beta"]);
+
+      expect(vectors).toHaveLength(2);
+      expect(vectors[0]).toEqual(embedLocally("alpha"));
+      expect(vectors[1]).toEqual(embedLocally("beta"));
+    });
+  });
+
+  describe("createOpenAIEmbeddingProvider", () => {
+    const originalKey = ENV.forgeApiKey;
+
+    afterEach(() => {
+      ENV.forgeApiKey = originalKey;
+      vi.unstubAllGlobals();
+    });
+
+    it("batches requests and orders vectors by index", async () => {
+      ENV.forgeApiKey = "test-key";
+      const fetchMock = vi.fn(async (_url: string, init: RequestInit) => {
+        const { input } = JSON.parse(init.body as string) as { input: string[] };
+        const data = input
+          .map((text, index) => ({ index, embedding: [text.length] }))
+          .reverse();
+        return new Response(JSON.stringify({ data }), { status: 200 });
+      });
+      vi.stubGlobal("fetch", fetchMock);
+
+      const provider = createOpenAIEmbeddingProvider("text-embedding-3-small", 2);
+      const vectors = await provider.embed(["a", "bb", "ccc"]);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(vectors).toEqual([[1], [2], [3]]);
+    });
+
+    it("throws when the API key is missing", async () => {
+      ENV.forgeApiKey = "";
+      const provider = createOpenAIEmbeddingProvider("text-embedding-3-small");
+
+      await expect(provider.embed(["a"])).rejects.toThrow("not configured");
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Embedding providers for RAG
+ * Turns document chunks and queries into vectors for similarity search
+ */
+
+import { ENV } from "./_core/env";
+
+export type EmbeddingProvider = {
+  /** Model identifier, recorded on every stored embedding */
+  model: string;
+  /** Embed texts in order; returns one vector per input */
+  embed(texts: string[]): Promise<number[][]>;
+};
+
+export const DEFAULT_EMBEDDING_MODEL = "text-embedding-ada-002";
+export const LOCAL_EMBEDDING_MODEL = "local-hash";
+
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Split a list into consecutive batches of at most `size` items
+ */
+export function toBatches<T>(items: T[], size: number = EMBEDDING_BATCH_SIZE): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+// ============ OPENAI-COMPATIBLE PROVIDER ============
+
+type EmbeddingsResponse = {
+  data: Array<{ index: number; embedding: number[] }>;
+};
+
+const resolveEmbeddingsUrl = () =>
+  ENV.forgeApiUrl && ENV.forgeApiUrl.trim().length > 0
+    ? `${ENV.forgeApiUrl.replace(/\/$/, "")}/v1/embeddings`
+    : "https://forge.manus.im/v1/embeddings";
+
+/**
+ * Embeddings via an OpenAI-compatible `/v1/embeddings` endpoint.
+ * Requests are sent in batches to stay within provider input limits.
+ */
+export function createOpenAIEmbeddingProvider(
+  model: string,
+  batchSize: number = EMBEDDING_BATCH_SIZE
+): EmbeddingProvider {
+  return {
+    model,
+    async embed(texts) {
+      if (!ENV.forgeApiKey) {
+        throw new Error("OPENAI_API_KEY is not configured");
+      }
+
+      const vectors: number[][] = [];
+      for (const batch of toBatches(texts, batchSize)) {
+        const response = await fetch(resolveEmbeddingsUrl(), {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            authorization: `Bearer ${ENV.forgeApiKey}`,
+          },
+          body: JSON.stringify({ model, input: batch }),
+        });
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(
+            `Embedding request failed: ${response.status} ${response.statusText} – ${errorText}`
+          );
+        }
+
+        const result = (await response.json()) as EmbeddingsResponse;
+        const ordered = [...result.data].sort((a, b) => a.index - b.index);
+        if (ordered.length !== batch.length) {
+          throw new Error(
+            `Embedding request returned ${ordered.length} vectors for ${batch.length} inputs`
+          );
+        }
+        vectors.push(...ordered.map(item => item.embedding));
+      }
+
+      return vectors;
+    },
+  };
+}
+
+// ============ LOCAL PROVIDER ============
+
+/**
+ * 32-bit FNV-1a hash, used for the hashing trick
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+/g) ?? [];
+}
+
+/**
+ * Word unigrams, word bigrams and character trigrams of each word
+ */
+function extractFeatures(text: string): string[] {
+  const words = tokenize(text);
+  const features: string[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    features.push(`w:${word}`);
+    if (i > 0) {
+      features.push(`b:${words[i - 1]} ${word}`);
+    }
+
+    const padded = `^${word}$`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      features.push(`c:${padded.slice(j, j + 3)}`);
+    }
+  }
+
+  return features;
+}
+
+/**
+ * Deterministic embedding from hashed n-gram features.
+ * Term frequencies are log-scaled and each feature gets a hash-derived sign,
+ * so collisions tend to cancel out instead of piling up.
+ */
+export function embedLocally(
+  text: string,
+  dimensions: number = LOCAL_EMBEDDING_DIMENSIONS
+): number[] {
+  const counts = new Map<string, number>();
+  for (const feature of extractFeatures(text)) {
+    counts.set(feature, (counts.get(feature) ?? 0) + 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((tf, feature) => {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % dimensions] += sign * (1 + Math.log(tf));
+  });
+
+  const magnitude = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+  return vector.map(val => (magnitude > 0 ? val / magnitude : 0));
+}
+
+/**
+ * Offline provider for development and tests; needs no network access
+ */
+export function createLocalEmbeddingProvider(
+  model: string = LOCAL_EMBEDDING_MODEL
+): EmbeddingProvider {
+  return {
+    model,
+    async embed(texts) {
+      return texts.map(text => embedLocally(text));
+    },
+  };
+}
+
+// ============ PROVIDER SELECTION ============
+
+export function isLocalEmbeddingModel(model: string): boolean {
+  return model.startsWith("local");
+}
+
+/**
+ * Pick the provider for a `ragConfigurations.embeddingModel` value
+ */
+export function getEmbeddingProvider(model?: string | null): EmbeddingProvider {
+  const resolved = model && model.trim().length > 0 ? model : DEFAULT_EMBEDDING_MODEL;
+  return isLocalEmbeddingModel(resolved)
+    ? createLocalEmbeddingProvider(resolved)
+    : createOpenAIEmbeddingProvider(resolved);
+}
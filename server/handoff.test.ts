@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ChatSession } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  transitionChatSession: vi.fn(),
+  getChatSessionById: vi.fn(),
+  createAlert: vi.fn(),
+  createChatMessage: vi.fn(async values => ({ ...values, id: 1 })),
+}));
+
+import * as db from "./db";
+import {
+  claimSession,
+  isBelowHandoffThreshold,
+  matchHandoffKeyword,
+  releaseSession,
+  requestHandoff,
+  sendOperatorMessage,
+  transitionSession,
+} from "./handoff";
+
+const session = { id: 7, agentId: 3, sessionId: "abc123", title: "Refund for order A1", status: "bot", operatorId: null } as ChatSession;
+const owner = { userId: 2, agentId: 3 };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(db.transitionChatSession).mockResolvedValue(true);
+});
+
+describe("matchHandoffKeyword", () => {
+  it("matches the default phrases as whole words, ignoring case and punctuation", () => {
+    expect(matchHandoffKeyword({ handoffKeywords: null }, "Can I TALK to a human, please?")).toBe("talk to a human");
+    expect(matchHandoffKeyword({ handoffKeywords: null }, "Is this a surreal personality test?")).toBeNull();
+  });
+
+  it("uses the agent's own phrases, and none when its list is empty", () => {
+    expect(matchHandoffKeyword({ handoffKeywords: ["manager"] }, "Get me your manager!")).toBe("manager");
+    expect(matchHandoffKeyword({ handoffKeywords: ["manager"] }, "I want a real person")).toBeNull();
+    expect(matchHandoffKeyword({ handoffKeywords: [] }, "I want a real person")).toBeNull();
+  });
+});
+
+describe("isBelowHandoffThreshold", () => {
+  it("is off without a threshold", () => {
+    expect(isBelowHandoffThreshold({ handoffSignalThreshold: null }, 0)).toBe(false);
+    expect(isBelowHandoffThreshold({ handoffSignalThreshold: "0.600" }, 0.55)).toBe(true);
+    expect(isBelowHandoffThreshold({ handoffSignalThreshold: "0.600" }, 0.6)).toBe(false);
+  });
+});
+
+describe("transitionSession", () => {
+  it("only moves a session from the status it was read with", async () => {
+    await expect(transitionSession(session, "human", { operatorId: 5 })).resolves.toMatchObject({ status: "human", operatorId: 5 });
+    expect(db.transitionChatSession).toHaveBeenCalledWith(7, "bot", { status: "human", operatorId: 5 });
+
+    vi.mocked(db.transitionChatSession).mockResolvedValue(false);
+    await expect(transitionSession(session, "closed")).rejects.toThrow("changed by someone else");
+  });
+
+  it("rejects moves out of a closed session", async () => {
+    await expect(releaseSession({ ...session, status: "closed" })).rejects.toThrow("Cannot move a session from closed to bot");
+    expect(db.transitionChatSession).not.toHaveBeenCalled();
+  });
+});
+
+describe("requestHandoff", () => {
+  it("waits for an operator and alerts the agent's owner", async () => {
+    const requested = await requestHandoff(session, owner, "keyword", 'Asked for "real person"');
+
+    expect(requested).toMatchObject({ status: "pending_handoff", handoffReason: 'Asked for "real person"' });
+    expect(db.createAlert).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 2,
+      agentId: 3,
+      alertType: "handoff",
+      metadata: { sessionId: 7, trigger: "keyword" },
+    }));
+  });
+
+  it("takes a session an operator claimed since it was read as handed off", async () => {
+    const claimed = { ...session, status: "human", operatorId: 5 } as ChatSession;
+    vi.mocked(db.transitionChatSession).mockResolvedValue(false);
+    vi.mocked(db.getChatSessionById).mockResolvedValue(claimed);
+
+    await expect(requestHandoff(session, owner, "signal_score", "Reply scored 0.5")).resolves.toEqual(claimed);
+    expect(db.createAlert).not.toHaveBeenCalled();
+  });
+
+  it("leaves sessions already handed off alone", async () => {
+    const claimed = { ...session, status: "human", operatorId: 5 } as ChatSession;
+
+    await expect(requestHandoff(claimed, owner, "tool", "Needs a refund")).resolves.toBe(claimed);
+    expect(db.transitionChatSession).not.toHaveBeenCalled();
+    expect(db.createAlert).not.toHaveBeenCalled();
+  });
+});
+
+describe("operators", () => {
+  it("cannot claim a session another operator owns", async () => {
+    await expect(claimSession({ ...session, status: "human", operatorId: 5 }, 6)).rejects.toThrow("Another operator owns this session");
+  });
+
+  it("reply as the agent in sessions they own", async () => {
+    const claimed = { ...session, status: "human", operatorId: 5 } as ChatSession;
+
+    await expect(sendOperatorMessage(claimed, 6, "Hello")).rejects.toThrow("Claim the session before replying");
+    await expect(sendOperatorMessage(claimed, 5, "Your refund is on its way.")).resolves.toMatchObject({
+      sessionId: 7,
+      role: "assistant",
+      content: "Your refund is on its way.",
+      operatorId: 5,
+      aiRequests: 0,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Human handoff
+ * A chat session is answered by its agent (`bot`) until a handoff is
+ * requested: by the agent calling its `request_human_handoff` tool, by a
+ * message containing one of the agent's handoff keywords, or by a reply
+ * scoring below the agent's handoff threshold. The session then waits for an
+ * operator (`pending_handoff`). Once an operator claims it (`human`) the
+ * agent stops replying, and the operator's replies are saved as `assistant`
+ * messages carrying their id. Operators hand sessions back to the agent or
+ * close them.
+ */
+
+import { DEFAULT_HANDOFF_KEYWORDS } from "@shared/const";
+import type { Agent, ChatMessage, ChatSession, InsertChatSession } from "../drizzle/schema";
+import * as db from "./db";
+
+export type SessionStatus = ChatSession["status"];
+
+export type HandoffTrigger = "tool" | "keyword" | "signal_score";
+
+const TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  bot: ["pending_handoff", "human", "closed"],
+  pending_handoff: ["human", "bot", "closed"],
+  human: ["bot", "closed"],
+  closed: [],
+};
+
+/** Sent instead of the agent's reply when a message asks for a person */
+export const HANDOFF_REPLY = "I've asked a member of our team to join this conversation. They will reply here shortly.";
+
+export function canTransition(from: SessionStatus, to: SessionStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Load a chat session, checking its agent belongs to the user
+ */
+export async function getOwnedChatSession(sessionId: number, userId: number): Promise<ChatSession> {
+  const session = await db.getChatSessionById(sessionId);
+  if (!session || !(await db.getAgentById(session.agentId, userId))) {
+    throw new Error("Chat session not found");
+  }
+  return session;
+}
+
+/**
+ * Move a session to another status; fails when the move is not allowed or
+ * someone else changed the session's status first
+ */
+export async function transitionSession(
+  session: ChatSession,
+  to: SessionStatus,
+  data: Partial<InsertChatSession> = {}
+): Promise<ChatSession> {
+  if (!canTransition(session.status, to)) {
+    throw new Error(`Cannot move a session from ${session.status} to ${to}`);
+  }
+  const changes = { ...data, status: to };
+  if (!(await db.transitionChatSession(session.id, session.status, changes))) {
+    throw new Error("The session was changed by someone else; reload it and try again");
+  }
+  return { ...session, ...changes };
+}
+
+// Lowercase words separated by single spaces, without ASCII punctuation
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[\s!-/:-@[-`{-~]+/g, " ").trim();
+}
+
+/**
+ * The first of the agent's handoff keywords found in a message, matched on
+ * whole words ignoring case and punctuation
+ */
+export function matchHandoffKeyword(agent: Pick<Agent, "handoffKeywords">, message: string): string | null {
+  const text = ` ${normalize(message)} `;
+  const keywords = agent.handoffKeywords ?? DEFAULT_HANDOFF_KEYWORDS;
+  return keywords.find(keyword => normalize(keyword) && text.includes(` ${normalize(keyword)} `)) ?? null;
+}
+
+export function isBelowHandoffThreshold(agent: Pick<Agent, "handoffSignalThreshold">, signalScore: number): boolean {
+  if (agent.handoffSignalThreshold === null || agent.handoffSignalThreshold === undefined) return false;
+  return signalScore < Number(agent.handoffSignalThreshold);
+}
+
+/**
+ * Ask for an operator to take over a session the agent is answering, and
+ * alert the agent's owner; sessions already handed off are left as they are,
+ * also when handed off since `session` was read
+ */
+export async function requestHandoff(
+  session: ChatSession,
+  owner: { userId: number; agentId: number },
+  trigger: HandoffTrigger,
+  reason: string
+): Promise<ChatSession> {
+  if (session.status !== "bot") return session;
+
+  const changes = {
+    status: "pending_handoff" as const,
+    handoffReason: reason.slice(0, 255),
+    handoffRequestedAt: new Date(),
+  };
+  if (!(await db.transitionChatSession(session.id, session.status, changes))) {
+    // E.g. an operator claimed the session first
+    return (await db.getChatSessionById(session.id)) ?? session;
+  }
+  await db.createAlert({
+    userId: owner.userId,
+    agentId: owner.agentId,
+    alertType: "handoff",
+    title: "Human Handoff Requested",
+    message: `Conversation "${session.title || session.sessionId}" is waiting for an operator: ${reason}`,
+    isRead: 0,
+    metadata: { sessionId: session.id, trigger },
+  });
+  return { ...session, ...changes };
+}
+
+/**
+ * Take a session over; the agent stops replying to it
+ */
+export async function claimSession(session: ChatSession, operatorId: number): Promise<ChatSession> {
+  if (session.status === "human") {
+    throw new Error(session.operatorId === operatorId ? "You already own this session" : "Another operator owns this session");
+  }
+  return transitionSession(session, "human", { operatorId });
+}
+
+/**
+ * Hand a session back to its agent
+ */
+export function releaseSession(session: ChatSession): Promise<ChatSession> {
+  return transitionSession(session, "bot", { operatorId: null, handoffReason: null, handoffRequestedAt: null });
+}
+
+/**
+ * End a session; nobody replies to it any more
+ */
+export function closeSession(session: ChatSession): Promise<ChatSession> {
+  return transitionSession(session, "closed");
+}
+
+/**
+ * Save an operator's reply in a session they own
+ */
+export async function sendOperatorMessage(session: ChatSession, operatorId: number, content: string): Promise<ChatMessage> {
+  if (session.status !== "human" || session.operatorId !== operatorId) {
+    throw new Error("Claim the session before replying");
+  }
+  return db.createChatMessage({
+    sessionId: session.id,
+    role: "assistant",
+    content,
+    operatorId,
+    aiRequests: 0,
+  });
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { extractHtml, htmlToText } from "./htmlExtraction";
+
+describe("htmlExtraction", () => {
+  it("keeps the main content and drops scripts and page chrome", () => {
+    const text = htmlToText(`
+      <html><head><style>p { color: red }</style></head>
+      <body>
+        <nav><a href="/">Home</a></nav>
+        <main>
+          <h1>Pricing</h1>
+          <p>Plans start at
+             &euro;10 per&nbsp;month.</p>
+          <script>track()</script>
+          <table><tr><th>Plan</th><th>Price</th></tr><tr><td>Pro</td><td>&#8364;20</td></tr></table>
+          <pre>line 1
+  line 2</pre>
+        </main>
+        <footer>© Acme</footer>
+      </body></html>`);
+
+    expect(text).toBe("# Pricing\n\nPlans start at €10 per month.\n\nPlan | Price\nPro | €20\n\nline 1\n  line 2");
+  });
+
+  it("resolves links against <base> and reads robots directives", () => {
+    const page = extractHtml(
+      `<html><head>
+        <title>Guide &ndash; Acme</title>
+        <base href="https://acme.test/docs/">
+        <meta name="robots" content="noindex, follow">
+      </head><body>
+        <a href="setup#step-2">Setup</a>
+        <a href="mailto:hi@acme.test">Mail</a>
+        <a href="/pricing" rel="nofollow">Pricing</a>
+        <p>Guide</p>
+      </body></html>`,
+      "https://acme.test/guide"
+    );
+
+    expect(page.title).toBe("Guide – Acme");
+    expect(page.links).toEqual(["https://acme.test/docs/setup"]);
+    expect(page.noindex).toBe(true);
+    expect(page.nofollow).toBe(false);
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * HTML to text conversion for web training sources
+ * Pages are reduced to their readable text: scripts, styles and page
+ * chrome (navigation, footers, sidebars) are dropped and headings become
+ * markdown headings, so the markdown chunker can follow the page outline.
+ */
+
+export type ExtractedHtml = {
+  title: string;
+  text: string;
+  /** Absolute http(s) URLs linked from the page, without fragments */
+  links: string[];
+  /** Robots meta directives of the page */
+  noindex: boolean;
+  nofollow: boolean;
+};
+
+// Never part of the readable content
+const DROPPED_ELEMENTS = ["script", "style", "noscript", "template", "svg", "iframe", "head"];
+// Page chrome, dropped from the content but still crawled for links
+const CHROME_ELEMENTS = ["nav", "footer", "aside"];
+
+const BLOCK_ELEMENTS =
+  "p|div|section|article|main|header|ul|ol|dl|dt|dd|table|thead|tbody|tfoot|blockquote|figure|figcaption|address|details|summary|hr";
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: "\"",
+  apos: "'",
+  nbsp: " ",
+  ndash: "–",
+  mdash: "—",
+  hellip: "…",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  laquo: "«",
+  raquo: "»",
+  bull: "•",
+  middot: "·",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  euro: "€",
+  pound: "£",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X"
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3] ?? "");
+}
+
+function removeElements(html: string, names: string[]): string {
+  return html.replace(new RegExp(`<(${names.join("|")})\\b[^>]*>[\\s\\S]*?<\\/\\1\\s*>`, "gi"), " ");
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+/**
+ * The element holding the page's main content: `<main>`, a single
+ * `<article>`, else `<body>`
+ */
+function selectContent(html: string): string {
+  const main = html.match(/<main\b[^>]*>([\s\S]*?)<\/main\s*>/i);
+  if (main) return main[1];
+
+  const articles = html.match(/<article\b[^>]*>[\s\S]*?<\/article\s*>/gi);
+  if (articles?.length === 1) return articles[0];
+
+  const body = html.match(/<body\b[^>]*>([\s\S]*)<\/body\s*>/i);
+  return body ? body[1] : html;
+}
+
+/**
+ * Convert HTML markup to plain text with markdown headings and list items
+ */
+export function htmlToText(html: string): string {
+  let content = removeElements(html.replace(/<!--[\s\S]*?-->/g, " "), DROPPED_ELEMENTS);
+  content = removeElements(selectContent(content), CHROME_ELEMENTS);
+
+  // Whitespace in markup is insignificant except inside <pre>
+  const parts = content.split(/(<pre\b[^>]*>[\s\S]*?<\/pre\s*>)/i);
+  const text = parts
+    .map((part, index) => {
+      if (index % 2 === 1) {
+        return `\n\n${decodeEntities(stripTags(part.replace(/<br\s*\/?>/gi, "\n")))}\n\n`;
+      }
+
+      const flattened = part
+        .replace(/\s+/g, " ")
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, inner: string) =>
+          `\n\n${"#".repeat(Number(level))} ${stripTags(inner).trim()}\n\n`
+        )
+        .replace(/<br\s*\/?>/gi, "\n")
+        .replace(/<li\b[^>]*>/gi, "\n- ")
+        .replace(/<\/t[dh]\s*>/gi, " | ")
+        .replace(/<tr\b[^>]*>/gi, "\n")
+        .replace(new RegExp(`<\\/?(?:${BLOCK_ELEMENTS})\\b[^>]*>`, "gi"), "\n\n")
+        .replace(/<[^>]*>/g, "");
+
+      return decodeEntities(flattened)
+        .replace(/\u00a0/g, " ")
+        .split("\n")
+        .map(line => line.replace(/[ \t]+/g, " ").replace(/\s*\|\s*$/, "").trim())
+        .join("\n");
+    })
+    .join("");
+
+  return text.replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Extract title, readable text, links and robots directives from a page
+ */
+export function extractHtml(html: string, pageUrl: string): ExtractedHtml {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, " ");
+
+  const baseTag = withoutComments.match(/<base\b[^>]*>/i)?.[0];
+  const baseHref = baseTag ? getAttribute(baseTag, "href") : undefined;
+  let baseUrl = pageUrl;
+  try {
+    if (baseHref) baseUrl = new URL(baseHref, pageUrl).href;
+  } catch {
+    // Malformed <base>; resolve against the page URL
+  }
+
+  const robots = (withoutComments.match(/<meta\b[^>]*>/gi) ?? [])
+    .filter(tag => getAttribute(tag, "name")?.toLowerCase() === "robots")
+    .map(tag => getAttribute(tag, "content")?.toLowerCase() ?? "")
+    .join(",");
+
+  const links = new Set<string>();
+  for (const tag of withoutComments.match(/<a\b[^>]*>/gi) ?? []) {
+    const href = getAttribute(tag, "href");
+    if (!href || getAttribute(tag, "rel")?.toLowerCase().split(/\s+/).includes("nofollow")) continue;
+
+    try {
+      const url = new URL(href, baseUrl);
+      if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+      url.hash = "";
+      links.add(url.href);
+    } catch {
+      // Ignore malformed hrefs
+    }
+  }
+
+  const titleMatch = withoutComments.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  const text = htmlToText(withoutComments);
+  let title = titleMatch ? decodeEntities(stripTags(titleMatch[1])).replace(/\s+/g, " ").trim() : "";
+  if (!title) {
+    title = text.match(/^# (.+)$/m)?.[1] ?? "";
+  }
+
+  return {
+    title,
+    text,
+    links: Array.from(links),
+    noindex: /\b(noindex|none)\b/.test(robots),
+    nofollow: /\b(nofollow|none)\b/.test(robots),
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Ingestion job types and worker startup
+ * Wires RAG processing into the durable job queue
+ */
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { ensureDocumentText } from "./documentExtraction";
+import { recordDocumentVersion } from "./documentVersions";
+import {
+  enqueueJob,
+  recoverStaleJobs,
+  registerJobHandler,
+  startIngestionWorker,
+} from "./ingestionQueue";
+import { processDocumentForRAG } from "./rag";
+import { EVALUATE_JOB_TYPE, runEvaluation } from "./ragEvaluation";
+import { REINDEX_JOB_TYPE, runReindexJob } from "./reindex";
+import {
+  adoptWebsiteCrawl,
+  CRAWL_WEBSITE_JOB_TYPE,
+  markSourceSyncFailed,
+  runSourceSync,
+  startSourceSyncScheduler,
+  SYNC_SOURCE_JOB_TYPE,
+} from "./sourceSync";
+
+export const PROCESS_DOCUMENT_JOB_TYPE = "process_document";
+
+/**
+ * Queue a training document for chunking and embedding
+ */
+export async function enqueueDocumentProcessing(documentId: number, agentId: number) {
+  await db.updateTrainingDocument(documentId, { status: "pending", errorMessage: null });
+  return enqueueJob({
+    type: PROCESS_DOCUMENT_JOB_TYPE,
+    agentId,
+    documentId,
+  });
+}
+
+function registerIngestionHandlers(): void {
+  registerJobHandler(PROCESS_DOCUMENT_JOB_TYPE, {
+    async run(job) {
+      if (!job.documentId) {
+        throw new Error("process_document job is missing documentId");
+      }
+      const stored = await db.getTrainingDocumentById(job.documentId);
+      // Deleted while queued; nothing to do
+      if (!stored) return;
+
+      // Binary uploads (PDF) are extracted to text on first processing
+      const document = await ensureDocumentText(stored);
+      await processDocumentForRAG(document);
+      await recordDocumentVersion(document.id);
+    },
+    async onFailed(job, error) {
+      if (job.documentId) {
+        await db.updateTrainingDocument(job.documentId, {
+          status: "failed",
+          errorMessage: error.message,
+        });
+      }
+    },
+  });
+
+  registerJobHandler(SYNC_SOURCE_JOB_TYPE, {
+    async run(job) {
+      const sourceId = Number(job.payload?.sourceId);
+      if (!sourceId) {
+        throw new Error("sync_source job is missing sourceId");
+      }
+      const summary = await runSourceSync(sourceId);
+      if (summary) {
+        console.log(
+          `[Ingestion] Synced source ${sourceId}: ${summary.added} added, ${summary.updated} updated, ` +
+            `${summary.removed} removed, ${summary.unchanged} unchanged`
+        );
+      }
+    },
+    async onFailed(job, error) {
+      const sourceId = Number(job.payload?.sourceId);
+      if (sourceId) {
+        await markSourceSyncFailed(sourceId, error);
+      }
+    },
+  });
+
+  // Crawls queued by earlier versions; the crawl itself runs as a source sync
+  registerJobHandler(CRAWL_WEBSITE_JOB_TYPE, {
+    async run(job) {
+      const url = job.payload?.url;
+      const userId = Number(job.payload?.userId);
+      if (typeof url !== "string" || !userId) {
+        throw new Error("crawl_website job is missing url or userId");
+      }
+      await adoptWebsiteCrawl({
+        agentId: job.agentId,
+        userId,
+        url,
+        maxDepth: job.payload?.maxDepth === undefined ? undefined : Number(job.payload.maxDepth),
+        maxPages: job.payload?.maxPages === undefined ? undefined : Number(job.payload.maxPages),
+      });
+    },
+  });
+
+  registerJobHandler(REINDEX_JOB_TYPE, {
+    async run(job) {
+      const indexJobId = Number(job.payload?.indexJobId);
+      if (!indexJobId) {
+        throw new Error("reindex job is missing indexJobId");
+      }
+      await runReindexJob(indexJobId);
+    },
+  });
+
+  registerJobHandler(EVALUATE_JOB_TYPE, {
+    async run(job) {
+      const runId = Number(job.payload?.runId);
+      if (!runId) {
+        throw new Error("evaluate_rag job is missing runId");
+      }
+      await runEvaluation(runId);
+    },
+  });
+}
+
+/**
+ * Re-enqueue documents left `pending` or `processing` without a live job,
+ * e.g. uploads from before the queue existed or lost to a crash
+ */
+async function recoverStuckDocuments(): Promise<void> {
+  const documents = await db.getTrainingDocumentsByStatus(["pending", "processing"]);
+
+  for (const document of documents) {
+    const activeJob = await db.getActiveIngestionJobForDocument(document.id);
+    if (!activeJob) {
+      await enqueueDocumentProcessing(document.id, document.agentId);
+    }
+  }
+
+  if (documents.length > 0) {
+    console.log(`[Ingestion] Checked ${documents.length} unfinished document(s) for recovery`);
+  }
+}
+
+/**
+ * Register handlers, recover interrupted work and start the worker
+ */
+export async function startIngestion() {
+  registerIngestionHandlers();
+
+  if (!(await db.getDb())) {
+    console.warn("[Ingestion] Database not available, worker not started");
+    return null;
+  }
+
+  await recoverStaleJobs();
+  await recoverStuckDocuments();
+
+  const worker = startIngestionWorker({ concurrency: ENV.ingestionConcurrency });
+  // Scheduled re-syncs of website and file sources
+  const scheduler = startSourceSyncScheduler();
+
+  return {
+    ...worker,
+    async stop() {
+      scheduler.stop();
+      await worker.stop();
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { IngestionJob } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  createIngestionJob: vi.fn(),
+  updateIngestionJob: vi.fn(),
+  touchIngestionJob: vi.fn(),
+  requeueStaleIngestionJobs: vi.fn(),
+  claimNextIngestionJob: vi.fn(),
+}));
+
+import * as db from "./db";
+import { computeBackoffMs, registerJobHandler, runClaimedJob } from "./ingestionQueue";
+
+function makeJob(overrides: Partial<IngestionJob> = {}): IngestionJob {
+  return {
+    id: 3,
+    type: "test_job",
+    agentId: 1,
+    documentId: 9,
+    status: "running",
+    attempts: 1,
+    maxAttempts: 3,
+    payload: null,
+    runAt: new Date(),
+    lockedBy: "worker",
+    lockedAt: new Date(),
+    lastError: null,
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("ingestionQueue", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("doubles the backoff per attempt up to a cap", () => {
+    expect(computeBackoffMs(1)).toBe(5_000);
+    expect(computeBackoffMs(2)).toBe(10_000);
+    expect(computeBackoffMs(3)).toBe(20_000);
+    expect(computeBackoffMs(50)).toBe(10 * 60_000);
+  });
+
+  it("marks a job completed when its handler succeeds", async () => {
+    const run = vi.fn().mockResolvedValue(undefined);
+    registerJobHandler("test_job", { run });
+
+    await runClaimedJob(makeJob(), "worker");
+
+    expect(run).toHaveBeenCalledOnce();
+    expect(db.updateIngestionJob).toHaveBeenCalledWith(
+      3,
+      expect.objectContaining({ status: "completed", lockedBy: null })
+    );
+  });
+
+  it("requeues a failed job with backoff while attempts remain", async () => {
+    const onFailed = vi.fn();
+    registerJobHandler("test_job", {
+      run: vi.fn().mockRejectedValue(new Error("embedding API down")),
+      onFailed,
+    });
+
+    await runClaimedJob(makeJob({ attempts: 1 }), "worker");
+
+    const [, update] = vi.mocked(db.updateIngestionJob).mock.calls[0];
+    expect(update.status).toBe("queued");
+    expect(update.lastError).toBe("embedding API down");
+    expect(update.runAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it("fails the job and notifies the handler on the last attempt", async () => {
+    const onFailed = vi.fn().mockResolvedValue(undefined);
+    registerJobHandler("test_job", {
+      run: vi.fn().mockRejectedValue(new Error("embedding API down")),
+      onFailed,
+    });
+
+    await runClaimedJob(makeJob({ attempts: 3 }), "worker");
+
+    expect(db.updateIngestionJob).toHaveBeenCalledWith(
+      3,
+      expect.objectContaining({ status: "failed", lastError: "embedding API down" })
+    );
+    expect(onFailed).toHaveBeenCalledWith(expect.objectContaining({ id: 3 }), expect.any(Error));
+  });
+
+  it("fails jobs without a registered handler immediately", async () => {
+    await runClaimedJob(makeJob({ type: "unknown_job", attempts: 1 }), "worker");
+
+    expect(db.updateIngestionJob).toHaveBeenCalledWith(
+      3,
+      expect.objectContaining({ status: "failed" })
+    );
+  });
+});
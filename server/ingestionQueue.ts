@@ -0,0 +1,192 @@
+/**
+ * Durable background job queue backed by the `ingestionJobs` table
+ * Jobs survive restarts, are retried with exponential backoff and are
+ * executed by in-process workers with a bounded concurrency.
+ */
+
+import os from "os";
+import { nanoid } from "nanoid";
+import * as db from "./db";
+import type { IngestionJob, InsertIngestionJob } from "../drizzle/schema";
+
+export type JobHandler = {
+  run(job: IngestionJob): Promise<void>;
+  /** Called once a job has failed its last attempt */
+  onFailed?(job: IngestionJob, error: Error): Promise<void>;
+};
+
+export type WorkerOptions = {
+  concurrency?: number;
+  pollIntervalMs?: number;
+};
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix,
+ * e.g. a corrupt upload; the job fails without further attempts
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+  }
+}
+
+const BACKOFF_BASE_MS = 5_000;
+const BACKOFF_MAX_MS = 10 * 60_000;
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const STALE_JOB_MS = 2 * 60_000;
+const RECOVERY_INTERVAL_MS = 60_000;
+
+const handlers = new Map<string, JobHandler>();
+
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+export async function enqueueJob(
+  job: Pick<InsertIngestionJob, "type" | "agentId" | "documentId" | "payload" | "maxAttempts" | "runAt">
+): Promise<IngestionJob> {
+  return db.createIngestionJob({ ...job, status: "queued" });
+}
+
+/**
+ * Delay before the next attempt: doubles per attempt, capped
+ */
+export function computeBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+/**
+ * Requeue jobs whose worker has not heartbeated recently
+ */
+export async function recoverStaleJobs(staleAfterMs: number = STALE_JOB_MS): Promise<number> {
+  const recovered = await db.requeueStaleIngestionJobs(new Date(Date.now() - staleAfterMs));
+  if (recovered > 0) {
+    console.log(`[Ingestion] Requeued ${recovered} stale job(s)`);
+  }
+  return recovered;
+}
+
+/**
+ * Execute a claimed job and record its outcome
+ */
+export async function runClaimedJob(job: IngestionJob, workerId: string): Promise<void> {
+  const handler = handlers.get(job.type);
+  const heartbeat = setInterval(() => {
+    db.touchIngestionJob(job.id, workerId).catch(error => {
+      console.warn("[Ingestion] Heartbeat failed:", error);
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (!handler) {
+      throw new Error(`No handler registered for job type "${job.type}"`);
+    }
+
+    await handler.run(job);
+    await db.updateIngestionJob(job.id, {
+      status: "completed",
+      lockedBy: null,
+      lockedAt: null,
+      lastError: null,
+      completedAt: new Date(),
+    });
+  } catch (caught) {
+    const error = caught instanceof Error ? caught : new Error(String(caught));
+    const exhausted =
+      !handler || error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+
+    if (exhausted) {
+      console.error(`[Ingestion] Job ${job.id} (${job.type}) failed:`, error);
+      await db.updateIngestionJob(job.id, {
+        status: "failed",
+        lockedBy: null,
+        lockedAt: null,
+        lastError: error.message,
+        completedAt: new Date(),
+      });
+      await handler?.onFailed?.(job, error);
+    } else {
+      const delayMs = computeBackoffMs(job.attempts);
+      console.warn(
+        `[Ingestion] Job ${job.id} (${job.type}) attempt ${job.attempts}/${job.maxAttempts} failed, retrying in ${delayMs}ms:`,
+        error.message
+      );
+      await db.updateIngestionJob(job.id, {
+        status: "queued",
+        lockedBy: null,
+        lockedAt: null,
+        lastError: error.message,
+        runAt: new Date(Date.now() + delayMs),
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Start polling the queue; returns a handle to stop the worker
+ */
+export function startIngestionWorker(options: WorkerOptions = {}) {
+  const concurrency = Math.max(options.concurrency ?? 2, 1);
+  const pollIntervalMs = options.pollIntervalMs ?? 2_000;
+  const workerId = `${os.hostname()}:${process.pid}:${nanoid(6)}`;
+
+  let active = 0;
+  let stopped = false;
+  let filling = false;
+  let pollTimer: NodeJS.Timeout | null = null;
+  const running = new Set<Promise<void>>();
+
+  const fill = async () => {
+    if (stopped || filling) return;
+    filling = true;
+    try {
+      while (!stopped && active < concurrency) {
+        const job = await db.claimNextIngestionJob(workerId);
+        if (!job) break;
+
+        active++;
+        const task = runClaimedJob(job, workerId)
+          .catch(error => console.error("[Ingestion] Worker error:", error))
+          .finally(() => {
+            active--;
+            running.delete(task);
+            void fill();
+          });
+        running.add(task);
+      }
+    } catch (error) {
+      console.error("[Ingestion] Failed to claim job:", error);
+    } finally {
+      filling = false;
+    }
+  };
+
+  const poll = () => {
+    if (stopped) return;
+    void fill().finally(() => {
+      if (!stopped) pollTimer = setTimeout(poll, pollIntervalMs);
+    });
+  };
+
+  const recoveryTimer = setInterval(() => {
+    recoverStaleJobs().catch(error => {
+      console.error("[Ingestion] Stale job recovery failed:", error);
+    });
+  }, RECOVERY_INTERVAL_MS);
+
+  console.log(`[Ingestion] Worker ${workerId} started (concurrency ${concurrency})`);
+  poll();
+
+  return {
+    workerId,
+    async stop() {
+      stopped = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      clearInterval(recoveryTimer);
+      await Promise.all(Array.from(running));
+    },
+  };
+}
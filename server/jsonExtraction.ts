@@ -0,0 +1,177 @@
+/**
+ * Text extraction for JSON and JSONL training documents
+ * Each record becomes a section headed by its title, so the markdown
+ * chunker keeps records apart. A field mapping picks the fields that make
+ * up a record's text and those stored as metadata on its chunks; the
+ * character range of every record is kept to find a chunk's record.
+ */
+
+import { PermanentJobError } from "./ingestionQueue";
+
+export type JsonFieldMapping = {
+  /** Dot path of the record array in a JSON document, e.g. "data.tickets" */
+  recordsPath?: string;
+  /** Fields making up a record's text; all scalar fields when empty */
+  textFields?: string[];
+  /** Field used as a record's heading */
+  titleField?: string;
+  /** Fields stored as metadata on a record's chunks */
+  metadataFields?: string[];
+};
+
+type FieldValue = string | number | boolean | Array<string | number | boolean>;
+
+/**
+ * Character range of a record within the extracted document content
+ */
+export type RecordSpan = {
+  record: number;
+  start: number;
+  end: number;
+  fields?: Record<string, FieldValue>;
+};
+
+const RECORD_SEPARATOR = "\n\n";
+
+/**
+ * Extract the records of a JSON document or JSONL file as text
+ * Fails permanently for malformed files and files without text.
+ */
+export function extractJsonRecords(
+  text: string,
+  format: "json" | "jsonl",
+  mapping: JsonFieldMapping = {}
+): { content: string; records: RecordSpan[] } {
+  const records = format === "jsonl" ? parseJsonLines(text) : findRecords(parseJson(text), mapping.recordsPath);
+  const spans: RecordSpan[] = [];
+  let content = "";
+
+  records.forEach((record, index) => {
+    const body = recordText(record, mapping);
+    if (!body) return;
+
+    const title = mapping.titleField ? formatValue(getPath(record, mapping.titleField)) : "";
+    const section = `# ${title.replace(/\s+/g, " ").trim() || `Record ${index + 1}`}\n\n${body}`;
+
+    if (content) content += RECORD_SEPARATOR;
+    const span: RecordSpan = { record: index + 1, start: content.length, end: content.length + section.length };
+    const fields = recordFields(record, mapping.metadataFields ?? []);
+    if (fields) span.fields = fields;
+    spans.push(span);
+    content += section;
+  });
+
+  if (!content) {
+    throw new PermanentJobError("JSON contains no records with text for the field mapping");
+  }
+  return { content, records: spans };
+}
+
+/**
+ * Record a character offset falls in
+ */
+export function findRecordAt(records: RecordSpan[], offset: number): RecordSpan | undefined {
+  let found: RecordSpan | undefined;
+  for (const span of records) {
+    if (span.start > offset) break;
+    found = span;
+  }
+  return found;
+}
+
+/**
+ * Record ranges stored on an extracted document
+ */
+export function getDocumentRecords(document: { metadata?: Record<string, unknown> | null }): RecordSpan[] | undefined {
+  const records = document.metadata?.records;
+  return Array.isArray(records) ? (records as RecordSpan[]) : undefined;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new PermanentJobError(`File is not valid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function parseJsonLines(text: string): unknown[] {
+  const records: unknown[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new PermanentJobError(`Invalid JSON on line ${index + 1}`);
+    }
+  });
+  return records;
+}
+
+function findRecords(json: unknown, recordsPath: string | undefined): unknown[] {
+  const records = recordsPath ? getPath(json, recordsPath) : json;
+  if (records === undefined) {
+    throw new PermanentJobError(`No value at records path "${recordsPath}"`);
+  }
+  return Array.isArray(records) ? records : [records];
+}
+
+function getPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".").filter(Boolean)) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (isScalar(value)) return String(value);
+  if (Array.isArray(value) && value.every(isScalar)) return value.join(", ");
+  return JSON.stringify(value);
+}
+
+/**
+ * Dot paths of every scalar (or scalar array) field of a record
+ */
+function scalarPaths(value: unknown, prefix = ""): string[] {
+  if (isScalar(value) || (Array.isArray(value) && value.every(isScalar))) {
+    return prefix ? [prefix] : [];
+  }
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return [];
+  return Object.entries(value).flatMap(([key, child]) => scalarPaths(child, prefix ? `${prefix}.${key}` : key));
+}
+
+function recordText(record: unknown, mapping: JsonFieldMapping): string {
+  if (isScalar(record)) return String(record).trim();
+
+  const fields = mapping.textFields?.length
+    ? mapping.textFields
+    : scalarPaths(record).filter(path => path !== mapping.titleField);
+
+  const values = fields
+    .map(field => ({ field, value: formatValue(getPath(record, field)).trim() }))
+    .filter(({ value }) => value);
+
+  // A single mapped field is the text as is; several are labelled
+  if (mapping.textFields?.length === 1) return values[0]?.value ?? "";
+  return values.map(({ field, value }) => `${field}: ${value}`).join("\n");
+}
+
+function recordFields(record: unknown, metadataFields: string[]): Record<string, FieldValue> | undefined {
+  const fields: Record<string, FieldValue> = {};
+  for (const field of metadataFields) {
+    const value = getPath(record, field);
+    if (isScalar(value) || (Array.isArray(value) && value.every(isScalar))) {
+      fields[field] = value;
+    } else if (value !== null && value !== undefined) {
+      fields[field] = JSON.stringify(value);
+    }
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
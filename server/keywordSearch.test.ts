@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getVectorEmbeddingsByAgentId: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { embedLocally } from "./embeddings";
+import { buildBm25Index, fuseRankings, scoreBm25, tokenize } from "./keywordSearch";
+import { retrieveChunks } from "./rag";
+
+describe("keywordSearch", () => {
+  it("keeps identifiers whole and splits them into parts", () => {
+    expect(tokenize("Error ERR_TIMEOUT on SKU-1042.")).toEqual([
+      "error",
+      "err_timeout",
+      "err",
+      "timeout",
+      "on",
+      "sku-1042",
+      "sku",
+      "1042",
+    ]);
+  });
+
+  it("ranks documents containing rare query terms first", () => {
+    const index = buildBm25Index([
+      { id: 1, text: "The widget ships in a box." },
+      { id: 2, text: "Widget SKU-1042 is out of stock." },
+      { id: 3, text: "Shipping takes five days." },
+    ]);
+
+    const scores = scoreBm25(index, "sku-1042 widget");
+
+    expect(scores.get(2)).toBeGreaterThan(scores.get(1)!);
+    expect(scores.has(3)).toBe(false);
+  });
+
+  it("fuses rankings by weight", () => {
+    const vectorOnly = fuseRankings([1, 2], [2, 1], 0);
+    const keywordOnly = fuseRankings([1, 2], [2, 1], 1);
+    const balanced = fuseRankings([1, 2, 3], [3], 0.5);
+
+    expect(vectorOnly.get(1)).toBeGreaterThan(vectorOnly.get(2)!);
+    expect(keywordOnly.get(2)).toBeGreaterThan(keywordOnly.get(1)!);
+    expect(balanced.get(3)).toBeGreaterThan(balanced.get(2)!);
+  });
+
+  describe("retrieveChunks", () => {
+    const texts = [
+      "Our widgets come in many colours and sizes for every need.",
+      "The blue widget variant is listed under SKU-7731 in the catalogue.",
+      "Widgets can be returned within thirty days of purchase.",
+    ];
+    const embeddings = texts.map((content, index) => ({
+      id: index + 1,
+      documentId: 1,
+      agentId: 1,
+      chunkIndex: index,
+      indexVersion: 0,
+      content,
+      embedding: embedLocally(content),
+      metadata: null,
+      createdAt: new Date(),
+    })) as VectorEmbedding[];
+
+    const config = {
+      agentId: 1,
+      enabled: 1,
+      topK: 1,
+      similarityThreshold: "0.00",
+      keywordWeight: "0.00",
+      embeddingModel: "local-hash",
+      indexedEmbeddingModel: "local-hash",
+      indexVersion: 0,
+    } as RagConfiguration;
+
+    beforeEach(() => {
+      // Exercise the exact full-scan path
+      ENV.vectorIndexEnabled = false;
+      vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue(embeddings);
+    });
+
+    it("finds exact identifiers when keywords are weighted in", async () => {
+      const [top] = await retrieveChunks(1, "widget sku-7731", { ...config, keywordWeight: "0.70" });
+
+      expect(top.embedding.id).toBe(2);
+      expect(top.keywordScore).toBeGreaterThan(0);
+    });
+
+    it("respects topK and the similarity threshold", async () => {
+      const limited = await retrieveChunks(1, "widget", { ...config, topK: 2, keywordWeight: "0.50" });
+      const filtered = await retrieveChunks(1, "widget", { ...config, similarityThreshold: "0.99" });
+
+      expect(limited).toHaveLength(2);
+      expect(filtered).toHaveLength(0);
+    });
+
+    it("keeps keyword matches below the similarity threshold", async () => {
+      const results = await retrieveChunks(1, "sku-7731", { ...config, topK: 3, similarityThreshold: "0.99", keywordWeight: "0.50" });
+
+      expect(results.map(item => item.embedding.id)).toEqual([2]);
+      expect(results[0].vectorScore).toBeLessThan(0.99);
+    });
+
+    it("merges the chunks found for each query variant", async () => {
+      const results = await retrieveChunks(1, "colours and sizes", { ...config, topK: 2 }, {
+        variants: ["returned within thirty days"],
+      });
+
+      expect(results.map(item => item.embedding.id).sort()).toEqual([1, 3]);
+    });
+
+    it("embeds the hypothetical answer in place of the query", async () => {
+      const [top] = await retrieveChunks(1, "how long do I have?", config, {
+        embeddingText: "Widgets can be returned within thirty days.",
+      });
+
+      expect(top.embedding.id).toBe(3);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * BM25 keyword index and rank fusion for hybrid retrieval
+ * Vector similarity misses exact identifiers such as SKUs or error codes;
+ * BM25 over the chunk text catches them, and reciprocal rank fusion
+ * merges both rankings without having to calibrate their scores.
+ */
+
+export type Bm25Options = {
+  /** Term frequency saturation */
+  k1?: number;
+  /** Document length normalisation */
+  b?: number;
+};
+
+export type Bm25Index = {
+  /** Number of documents containing each term */
+  documentFrequency: Map<string, number>;
+  /** Term counts per indexed document, by id */
+  termFrequencies: Map<number, Map<string, number>>;
+  lengths: Map<number, number>;
+  totalLength: number;
+};
+
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+/**
+ * Conventional RRF constant; dampens the weight of the very top ranks
+ */
+export const RRF_K = 60;
+
+/**
+ * Lowercased word tokens. Identifiers joined by `-`, `_`, `.` or `/`
+ * (e.g. "SKU-1042", "ERR_TIMEOUT") are kept whole and also split into
+ * their parts, so both "sku-1042" and "1042" match.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const matches = text.toLowerCase().match(/[a-z0-9\u00c0-\uffff]+(?:[-_./][a-z0-9\u00c0-\uffff]+)*/g) ?? [];
+
+  for (const match of matches) {
+    const parts = match.split(/[-_./]/);
+    if (parts.length > 1) tokens.push(match);
+    tokens.push(...parts);
+  }
+
+  return tokens;
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function createBm25Index(): Bm25Index {
+  return {
+    documentFrequency: new Map(),
+    termFrequencies: new Map(),
+    lengths: new Map(),
+    totalLength: 0,
+  };
+}
+
+/**
+ * Add a document to the index, replacing any previous version of it
+ */
+export function addToBm25Index(index: Bm25Index, id: number, text: string): void {
+  removeFromBm25Index(index, id);
+
+  const tokens = tokenize(text);
+  const counts = countTerms(tokens);
+
+  index.termFrequencies.set(id, counts);
+  index.lengths.set(id, tokens.length);
+  index.totalLength += tokens.length;
+
+  counts.forEach((_, term) => {
+    index.documentFrequency.set(term, (index.documentFrequency.get(term) ?? 0) + 1);
+  });
+}
+
+export function removeFromBm25Index(index: Bm25Index, id: number): void {
+  const counts = index.termFrequencies.get(id);
+  if (!counts) return;
+
+  counts.forEach((_, term) => {
+    const df = (index.documentFrequency.get(term) ?? 1) - 1;
+    if (df > 0) {
+      index.documentFrequency.set(term, df);
+    } else {
+      index.documentFrequency.delete(term);
+    }
+  });
+
+  index.totalLength -= index.lengths.get(id) ?? 0;
+  index.termFrequencies.delete(id);
+  index.lengths.delete(id);
+}
+
+/**
+ * Build a BM25 index over a set of documents
+ */
+export function buildBm25Index(documents: { id: number; text: string }[]): Bm25Index {
+  const index = createBm25Index();
+  for (const document of documents) {
+    addToBm25Index(index, document.id, document.text);
+  }
+  return index;
+}
+
+/**
+ * BM25 score of every indexed document matching at least one query term
+ */
+export function scoreBm25(index: Bm25Index, query: string, options: Bm25Options = {}): Map<number, number> {
+  const k1 = options.k1 ?? DEFAULT_K1;
+  const b = options.b ?? DEFAULT_B;
+  const scores = new Map<number, number>();
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  const size = index.termFrequencies.size;
+  const averageLength = size > 0 ? index.totalLength / size : 0;
+
+  for (const term of queryTerms) {
+    const df = index.documentFrequency.get(term);
+    if (!df) continue;
+
+    // BM25+ style IDF that never goes negative for very common terms
+    const idf = Math.log(1 + (size - df + 0.5) / (df + 0.5));
+
+    index.termFrequencies.forEach((counts, id) => {
+      const tf = counts.get(term);
+      if (!tf) return;
+
+      const length = index.lengths.get(id) ?? 0;
+      const norm = averageLength > 0 ? length / averageLength : 1;
+      const score = idf * ((tf * (k1 + 1)) / (tf + k1 * (1 - b + b * norm)));
+      scores.set(id, (scores.get(id) ?? 0) + score);
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Reciprocal rank fusion of a vector and a keyword ranking.
+ * `keywordWeight` (0-1) shifts weight from the vector ranking to the
+ * keyword ranking; ids missing from a ranking get nothing from it.
+ */
+export function fuseRankings(
+  vectorRanking: number[],
+  keywordRanking: number[],
+  keywordWeight: number,
+  k: number = RRF_K
+): Map<number, number> {
+  const weight = Math.min(Math.max(keywordWeight, 0), 1);
+  const fused = new Map<number, number>();
+
+  const add = (ranking: number[], rankWeight: number) => {
+    if (rankWeight === 0) return;
+    ranking.forEach((id, rank) => {
+      fused.set(id, (fused.get(id) ?? 0) + rankWeight / (k + rank + 1));
+    });
+  };
+
+  add(vectorRanking, 1 - weight);
+  add(keywordRanking, weight);
+
+  return fused;
+}
@@ -0,0 +1,403 @@
+/**
+ * LLM providers for chat replies
+ * Each provider is an HTTP API with its own base URL and key, configured
+ * through the environment: the built-in forge, OpenAI, Anthropic and a
+ * local Ollama or llama.cpp server (both speak the OpenAI-compatible API).
+ * Providers that are not configured are skipped when routing.
+ */
+
+import { readServerSentEvents } from "@shared/sse";
+import { ENV } from "./_core/env";
+import {
+  forgeEndpoint,
+  LLMRequestError,
+  postLLMRequest,
+  requestCompletion,
+  requestCompletionStream,
+  toStreamError,
+  type CompletionEndpoint,
+  type InvokeParams,
+  type InvokeResult,
+  type Message,
+  type StreamOptions,
+  type StreamErrorEvent,
+  type StreamResult,
+  type ToolCall,
+  type ToolChoice,
+} from "./_core/llm";
+
+export type LLMProvider = {
+  /** Identifier used in model registry entries and agents' fallback chains */
+  name: string;
+  label: string;
+  /** Serves models outside the chat model registry, e.g. local models */
+  anyModel: boolean;
+  isConfigured(): boolean;
+  complete(params: InvokeParams, signal?: AbortSignal): Promise<InvokeResult>;
+  stream(params: InvokeParams, options: StreamOptions): Promise<StreamResult>;
+};
+
+const joinUrl = (baseUrl: string, path: string) => `${baseUrl.replace(/\/$/, "")}${path}`;
+
+// ============ OPENAI-COMPATIBLE PROVIDERS ============
+
+/**
+ * Provider for an OpenAI-compatible `/v1/chat/completions` endpoint; the
+ * endpoint is resolved on each call so configuration changes apply
+ */
+export function createOpenAICompatibleProvider(options: {
+  name: string;
+  label: string;
+  anyModel?: boolean;
+  endpoint: () => CompletionEndpoint | null;
+}): LLMProvider {
+  const resolve = () => {
+    const endpoint = options.endpoint();
+    if (!endpoint) {
+      throw new LLMRequestError(`LLM provider ${options.name} is not configured`, { retryable: false });
+    }
+    return endpoint;
+  };
+
+  return {
+    name: options.name,
+    label: options.label,
+    anyModel: options.anyModel ?? false,
+    isConfigured: () => options.endpoint() !== null,
+    complete: (params, signal) => requestCompletion(resolve(), params, signal),
+    stream: (params, streamOptions) => requestCompletionStream(resolve(), params, streamOptions),
+  };
+}
+
+// ============ ANTHROPIC PROVIDER ============
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+type AnthropicContent =
+  | { type: "text"; text: string }
+  | { type: "image"; source: { type: "url"; url: string } }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+type AnthropicContentBlock = { type: string; text?: string; id?: string; name?: string; input?: unknown };
+
+type AnthropicResponse = {
+  id: string;
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: { input_tokens: number; output_tokens: number };
+};
+
+// Anthropic stop reasons as OpenAI finish reasons
+const FINISH_REASONS: Record<string, string> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  max_tokens: "length",
+  tool_use: "tool_calls",
+};
+
+function toAnthropicContent(content: Message["content"]): AnthropicContent[] {
+  return (Array.isArray(content) ? content : [content]).map(part => {
+    if (typeof part === "string") return { type: "text", text: part };
+    if (part.type === "text") return part;
+    if (part.type === "image_url") return { type: "image", source: { type: "url", url: part.image_url.url } };
+    throw new LLMRequestError("Anthropic provider does not support file content", { retryable: false });
+  });
+}
+
+const textOf = (content: Message["content"]) =>
+  (Array.isArray(content) ? content : [content])
+    .map(part => (typeof part === "string" ? part : part.type === "text" ? part.text : ""))
+    .join("");
+
+function parseToolInput(call: ToolCall): unknown {
+  try {
+    return JSON.parse(call.function.arguments || "{}");
+  } catch {
+    return {};
+  }
+}
+
+// Tool calls become `tool_use` blocks and tool results `tool_result` blocks in a user turn
+function toAnthropicMessage(message: Message): { role: "user" | "assistant"; content: AnthropicContent[] } {
+  if (message.role === "tool" || message.role === "function") {
+    return {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: message.tool_call_id ?? "", content: textOf(message.content) }],
+    };
+  }
+  if (message.role === "assistant") {
+    const text = textOf(message.content);
+    return {
+      role: "assistant",
+      content: [
+        ...(text ? [{ type: "text" as const, text }] : []),
+        ...(message.tool_calls ?? []).map(call => ({
+          type: "tool_use" as const,
+          id: call.id,
+          name: call.function.name,
+          input: parseToolInput(call),
+        })),
+      ],
+    };
+  }
+  return { role: "user", content: toAnthropicContent(message.content) };
+}
+
+function toAnthropicToolChoice(choice: ToolChoice): Record<string, unknown> {
+  if (choice === "auto" || choice === "none") return { type: choice };
+  if (choice === "required") return { type: "any" };
+  return { type: "tool", name: "name" in choice ? choice.name : choice.function.name };
+}
+
+/**
+ * Messages API request; system messages become the `system` prompt, and
+ * consecutive messages of one role are merged, as the API expects turns to
+ * alternate
+ */
+export function buildAnthropicRequest(params: InvokeParams): Record<string, unknown> {
+  const system = params.messages
+    .filter(message => message.role === "system")
+    .flatMap(message => toAnthropicContent(message.content))
+    .map(part => (part.type === "text" ? part.text : ""))
+    .filter(Boolean)
+    .join("\n\n");
+
+  const messages: Array<{ role: "user" | "assistant"; content: AnthropicContent[] }> = [];
+  for (const message of params.messages.filter(message => message.role !== "system").map(toAnthropicMessage)) {
+    const previous = messages[messages.length - 1];
+    if (previous?.role === message.role) {
+      previous.content.push(...message.content);
+    } else {
+      messages.push(message);
+    }
+  }
+
+  const request: Record<string, unknown> = {
+    model: params.model,
+    messages,
+    max_tokens: params.maxTokens ?? params.max_tokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+  };
+  if (system) request.system = system;
+  if (params.tools && params.tools.length > 0) {
+    request.tools = params.tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? { type: "object", properties: {} },
+    }));
+  }
+  const toolChoice = params.toolChoice ?? params.tool_choice;
+  if (toolChoice) request.tool_choice = toAnthropicToolChoice(toolChoice);
+  if (params.temperature !== undefined) request.temperature = params.temperature;
+  const topP = params.topP ?? params.top_p;
+  if (topP !== undefined) request.top_p = topP;
+  if (params.stop !== undefined && params.stop.length > 0) {
+    request.stop_sequences = Array.isArray(params.stop) ? params.stop : [params.stop];
+  }
+  return request;
+}
+
+function toInvokeResult(response: AnthropicResponse): InvokeResult {
+  const text = response.content
+    .filter(block => block.type === "text")
+    .map(block => block.text ?? "")
+    .join("");
+  const toolCalls: ToolCall[] = response.content
+    .filter(block => block.type === "tool_use")
+    .map(block => ({
+      id: block.id ?? "",
+      type: "function",
+      function: { name: block.name ?? "", arguments: JSON.stringify(block.input ?? {}) },
+    }));
+  const { input_tokens, output_tokens } = response.usage;
+
+  return {
+    id: response.id,
+    created: Math.floor(Date.now() / 1000),
+    model: response.model,
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: text, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) },
+        finish_reason: response.stop_reason ? FINISH_REASONS[response.stop_reason] ?? response.stop_reason : null,
+      },
+    ],
+    usage: { prompt_tokens: input_tokens, completion_tokens: output_tokens, total_tokens: input_tokens + output_tokens },
+  };
+}
+
+type AnthropicStreamEvent = {
+  index?: number;
+  message?: { usage?: { input_tokens?: number } };
+  content_block?: AnthropicContentBlock;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: { output_tokens?: number };
+  error?: StreamErrorEvent;
+};
+
+/**
+ * Provider for Anthropic's Messages API
+ */
+export function createAnthropicProvider(options: {
+  name: string;
+  label: string;
+  config: () => { baseUrl: string; apiKey: string } | null;
+}): LLMProvider {
+  const post = (body: Record<string, unknown>, signal?: AbortSignal) => {
+    const config = options.config();
+    if (!config) {
+      throw new LLMRequestError(`LLM provider ${options.name} is not configured`, { retryable: false });
+    }
+    return postLLMRequest(
+      joinUrl(config.baseUrl, "/v1/messages"),
+      { "x-api-key": config.apiKey, "anthropic-version": ANTHROPIC_VERSION },
+      body,
+      {
+        signal,
+        timeoutMs: ENV.llmTimeoutMs,
+        idleTimeoutMs: body.stream ? ENV.llmStreamIdleTimeoutMs : undefined,
+      }
+    );
+  };
+
+  return {
+    name: options.name,
+    label: options.label,
+    anyModel: false,
+    isConfigured: () => options.config() !== null,
+
+    async complete(params, signal) {
+      const response = await post(buildAnthropicRequest(params), signal);
+      return toInvokeResult((await response.json()) as AnthropicResponse);
+    },
+
+    async stream(params, { onToken, signal }) {
+      const startTime = Date.now();
+      const result: StreamResult = { content: "", finishReason: null, timeToFirstTokenMs: null };
+      let inputTokens = 0;
+      let outputTokens = 0;
+      // Tool calls by content block index
+      const toolCalls = new Map<number, ToolCall>();
+
+      try {
+        const response = await post({ ...buildAnthropicRequest(params), stream: true }, signal);
+        if (!response.body) {
+          throw new Error("LLM stream failed: response has no body");
+        }
+
+        for await (const event of readServerSentEvents(response.body)) {
+          const data = JSON.parse(event.data) as AnthropicStreamEvent;
+          if (event.event === "error" || data.error) {
+            throw toStreamError(data.error ?? {});
+          }
+          if (event.event === "message_start") {
+            inputTokens = data.message?.usage?.input_tokens ?? 0;
+          } else if (event.event === "content_block_start" && data.content_block?.type === "tool_use") {
+            toolCalls.set(data.index ?? toolCalls.size, {
+              id: data.content_block.id ?? "",
+              type: "function",
+              function: { name: data.content_block.name ?? "", arguments: "" },
+            });
+          } else if (event.event === "content_block_delta" && data.delta?.type === "input_json_delta") {
+            const call = toolCalls.get(data.index ?? -1);
+            if (call) call.function.arguments += data.delta.partial_json ?? "";
+          } else if (event.event === "content_block_delta" && data.delta?.type === "text_delta" && data.delta.text) {
+            if (result.timeToFirstTokenMs === null) {
+              result.timeToFirstTokenMs = Date.now() - startTime;
+            }
+            result.content += data.delta.text;
+            onToken(data.delta.text);
+          } else if (event.event === "message_delta") {
+            outputTokens = data.usage?.output_tokens ?? outputTokens;
+            if (data.delta?.stop_reason) {
+              result.finishReason = FINISH_REASONS[data.delta.stop_reason] ?? data.delta.stop_reason;
+            }
+          } else if (event.event === "message_stop") {
+            break;
+          }
+        }
+        result.usage = { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens };
+        if (toolCalls.size > 0) result.toolCalls = Array.from(toolCalls.values());
+      } catch (error) {
+        if (!signal?.aborted) throw error;
+        result.finishReason = "aborted";
+      }
+
+      return result;
+    },
+  };
+}
+
+// ============ PROVIDER REGISTRY ============
+
+export const FORGE_PROVIDER = "forge";
+
+const providers = new Map<string, LLMProvider>([
+  [
+    FORGE_PROVIDER,
+    createOpenAICompatibleProvider({
+      name: FORGE_PROVIDER,
+      label: "Forge",
+      endpoint: () => (ENV.forgeApiKey ? forgeEndpoint() : null),
+    }),
+  ],
+  [
+    "openai",
+    createOpenAICompatibleProvider({
+      name: "openai",
+      label: "OpenAI",
+      endpoint: () =>
+        ENV.openaiApiKey
+          ? {
+              url: joinUrl(ENV.openaiApiUrl.trim() || "https://api.openai.com", "/v1/chat/completions"),
+              apiKey: ENV.openaiApiKey,
+              timeoutMs: ENV.llmTimeoutMs,
+            }
+          : null,
+    }),
+  ],
+  [
+    "anthropic",
+    createAnthropicProvider({
+      name: "anthropic",
+      label: "Anthropic",
+      config: () =>
+        ENV.anthropicApiKey
+          ? { baseUrl: ENV.anthropicApiUrl.trim() || "https://api.anthropic.com", apiKey: ENV.anthropicApiKey }
+          : null,
+    }),
+  ],
+  [
+    "local",
+    createOpenAICompatibleProvider({
+      name: "local",
+      label: "Local (Ollama / llama.cpp)",
+      anyModel: true,
+      endpoint: () =>
+        ENV.localLlmUrl
+          ? {
+              url: joinUrl(ENV.localLlmUrl.trim(), "/v1/chat/completions"),
+              apiKey: ENV.localLlmApiKey || undefined,
+              timeoutMs: ENV.llmTimeoutMs,
+            }
+          : null,
+    }),
+  ],
+]);
+
+/**
+ * Make a provider available under its name, e.g. a self-hosted gateway
+ */
+export function registerLLMProvider(provider: LLMProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getLLMProvider(name: string): LLMProvider | undefined {
+  return providers.get(name);
+}
+
+export function listLLMProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { LLMRequestError, type InvokeResult, type StreamResult } from "./_core/llm";
+import { buildAnthropicRequest, registerLLMProvider, type LLMProvider } from "./llmProviders";
+import {
+  buildRoute,
+  completeWithFallback,
+  getPackingModel,
+  streamWithFallback,
+  validateFallbackChain,
+  type RouteStep,
+} from "./llmRouting";
+
+const params = { messages: [{ role: "user" as const, content: "How long do refunds take?" }], temperature: 1.5, maxTokens: 100_000 };
+
+const reply = (content: string) =>
+  ({ choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }] }) as InvokeResult;
+
+const rateLimited = () =>
+  new LLMRequestError("LLM invoke failed: 429 Too Many Requests", { status: 429, retryable: true, retryAfterMs: 2_000 });
+
+function fakeProvider(name: string): LLMProvider & { complete: ReturnType<typeof vi.fn>; stream: ReturnType<typeof vi.fn> } {
+  return { name, label: name, anyModel: true, isConfigured: () => true, complete: vi.fn(), stream: vi.fn() };
+}
+
+const primary = fakeProvider("test-primary");
+const backup = fakeProvider("test-backup");
+registerLLMProvider(primary);
+registerLLMProvider(backup);
+
+const route: RouteStep[] = [
+  { provider: "test-primary", model: "claude-sonnet-4", providerModel: "claude-sonnet-4-0" },
+  { provider: "test-backup", model: "gpt-4o", providerModel: "gpt-4o" },
+];
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  ENV.forgeApiKey = "forge-key";
+  ENV.openaiApiKey = "";
+  ENV.anthropicApiKey = "";
+  ENV.localLlmUrl = "";
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("buildRoute", () => {
+  it("tries the model's configured providers, then the agent's fallback chain", () => {
+    ENV.openaiApiKey = "openai-key";
+    ENV.localLlmUrl = "http://localhost:11434";
+
+    expect(buildRoute({ model: "gpt-4", fallbackChain: [{ provider: "local", model: "llama3.1:8b" }, { provider: "anthropic", model: "claude-sonnet-4" }] })).toEqual([
+      { provider: "openai", model: "gpt-4o", providerModel: "gpt-4o" },
+      { provider: "forge", model: "gpt-4o", providerModel: "gpt-4o" },
+      { provider: "local", model: "llama3.1:8b", providerModel: "llama3.1:8b" },
+    ]);
+  });
+
+  it("falls back to the forge when no provider is configured", () => {
+    ENV.forgeApiKey = "";
+
+    expect(buildRoute({ model: "claude-sonnet-4", fallbackChain: null })).toEqual([
+      { provider: "forge", model: "claude-sonnet-4", providerModel: "claude-sonnet-4" },
+    ]);
+  });
+
+  it("packs prompts for the route's smallest context window", () => {
+    expect(getPackingModel(route)).toBe("gpt-4o");
+  });
+});
+
+describe("validateFallbackChain", () => {
+  it("accepts models the provider serves and any model on a local server", () => {
+    expect(validateFallbackChain([{ provider: "openai", model: "gpt-3.5-turbo" }, { provider: "local", model: "llama3.1:8b" }])).toEqual([
+      { provider: "openai", model: "gpt-4o-mini" },
+      { provider: "local", model: "llama3.1:8b" },
+    ]);
+  });
+
+  it("rejects unknown providers and models the provider does not serve", () => {
+    expect(() => validateFallbackChain([{ provider: "azure", model: "gpt-4o" }])).toThrow("Unknown LLM provider: azure");
+    expect(() => validateFallbackChain([{ provider: "anthropic", model: "gpt-4o" }])).toThrow("Anthropic does not serve gpt-4o");
+  });
+});
+
+describe("completeWithFallback", () => {
+  it("retries a rate limited provider after the delay it asks for", async () => {
+    vi.useFakeTimers();
+    primary.complete.mockRejectedValueOnce(rateLimited()).mockResolvedValueOnce(reply("Refunds take 30 days."));
+
+    const pending = completeWithFallback(route, params);
+    await vi.advanceTimersByTimeAsync(1_999);
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    const { result, report } = await pending;
+
+    expect(primary.complete).toHaveBeenCalledTimes(2);
+    expect(backup.complete).not.toHaveBeenCalled();
+    expect(result.choices[0].message.content).toBe("Refunds take 30 days.");
+    expect(report).toMatchObject({ provider: "test-primary", model: "claude-sonnet-4", failedAttempts: [{ status: 429 }] });
+  });
+
+  it("calls each provider by its own name for the model, within the model's limits", async () => {
+    primary.complete.mockResolvedValue(reply("Refunds take 30 days."));
+
+    await completeWithFallback(route, params);
+
+    expect(primary.complete.mock.calls[0][0]).toMatchObject({ model: "claude-sonnet-4-0", temperature: 1, maxTokens: 64_000 });
+  });
+
+  it("moves on to the next provider when retries run out", async () => {
+    vi.useFakeTimers();
+    primary.complete.mockRejectedValue(new LLMRequestError("LLM invoke failed: 503 Service Unavailable", { status: 503, retryable: true }));
+    backup.complete.mockResolvedValue(reply("Refunds take 30 days."));
+
+    const pending = completeWithFallback(route, params);
+    await vi.runAllTimersAsync();
+    const { report } = await pending;
+
+    expect(primary.complete).toHaveBeenCalledTimes(3);
+    expect(backup.complete.mock.calls[0][0]).toMatchObject({ model: "gpt-4o", temperature: 1.5, maxTokens: 16_384 });
+    expect(report.provider).toBe("test-backup");
+    expect(report.failedAttempts).toHaveLength(3);
+  });
+
+  it("does not retry errors a retry cannot fix", async () => {
+    primary.complete.mockRejectedValue(new LLMRequestError("LLM invoke failed: 401 Unauthorized", { status: 401, retryable: false }));
+    backup.complete.mockRejectedValue(new LLMRequestError("LLM invoke failed: 400 Bad Request", { status: 400, retryable: false }));
+
+    await expect(completeWithFallback(route, params)).rejects.toThrow("400 Bad Request");
+    expect(primary.complete).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("streamWithFallback", () => {
+  it("falls back when a provider fails before sending any text", async () => {
+    primary.stream.mockRejectedValue(new LLMRequestError("LLM request timed out after 120000ms", { retryable: false }));
+    backup.stream.mockImplementation(async (_params, { onToken }): Promise<StreamResult> => {
+      onToken("Refunds take 30 days.");
+      return { content: "Refunds take 30 days.", finishReason: "stop", timeToFirstTokenMs: 50 };
+    });
+
+    const tokens: string[] = [];
+    const { report } = await streamWithFallback(route, params, { onToken: text => tokens.push(text) });
+
+    expect(tokens).toEqual(["Refunds take 30 days."]);
+    expect(report.provider).toBe("test-backup");
+  });
+
+  it("does not start the reply over once text has been sent", async () => {
+    primary.stream.mockImplementation(async (_params, { onToken }) => {
+      onToken("Refunds ");
+      throw new LLMRequestError("LLM stream failed: overloaded", { retryable: true });
+    });
+
+    await expect(streamWithFallback(route, params, { onToken: () => undefined })).rejects.toThrow("overloaded");
+    expect(primary.stream).toHaveBeenCalledTimes(1);
+    expect(backup.stream).not.toHaveBeenCalled();
+  });
+});
+
+describe("buildAnthropicRequest", () => {
+  it("sends system messages as the system prompt", () => {
+    expect(
+      buildAnthropicRequest({
+        model: "claude-sonnet-4-0",
+        messages: [
+          { role: "system", content: "You are helpful." },
+          { role: "user", content: "How long do refunds take?" },
+        ],
+        stop: "END",
+      })
+    ).toEqual({
+      model: "claude-sonnet-4-0",
+      system: "You are helpful.",
+      messages: [{ role: "user", content: [{ type: "text", text: "How long do refunds take?" }] }],
+      max_tokens: 4096,
+      stop_sequences: ["END"],
+    });
+  });
+
+  it("sends tools, and tool calls and results as content blocks", () => {
+    const request = buildAnthropicRequest({
+      model: "claude-sonnet-4-0",
+      messages: [
+        { role: "user", content: "Where is order A1?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "toolu_1", type: "function", function: { name: "lookup_order", arguments: '{"orderId":"A1"}' } }],
+        },
+        { role: "tool", tool_call_id: "toolu_1", content: "Shipped" },
+      ],
+      tools: [{ type: "function", function: { name: "lookup_order", description: "Look up an order", parameters: { type: "object" } } }],
+      toolChoice: "required",
+    });
+
+    expect(request).toMatchObject({
+      messages: [
+        { role: "user", content: [{ type: "text", text: "Where is order A1?" }] },
+        { role: "assistant", content: [{ type: "tool_use", id: "toolu_1", name: "lookup_order", input: { orderId: "A1" } }] },
+        { role: "user", content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "Shipped" }] },
+      ],
+      tools: [{ name: "lookup_order", description: "Look up an order", input_schema: { type: "object" } }],
+      tool_choice: { type: "any" },
+    });
+  });
+});
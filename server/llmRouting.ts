@@ -0,0 +1,225 @@
+/**
+ * LLM routing with fallback
+ * An agent's route is its model on each configured provider serving it,
+ * followed by the agent's fallback chain. Each step is retried on rate
+ * limits, server errors and timeouts with exponential backoff; other errors
+ * and exhausted retries move on to the next step.
+ */
+
+import type { Agent, FallbackStep } from "../drizzle/schema";
+import {
+  LLMRequestError,
+  type InvokeParams,
+  type InvokeResult,
+  type StreamOptions,
+  type StreamResult,
+} from "./_core/llm";
+import { findChatModel, resolveChatModel } from "./chatModels";
+import { FORGE_PROVIDER, getLLMProvider } from "./llmProviders";
+import { getModelLimits } from "./promptPacking";
+
+export type RouteStep = {
+  provider: string;
+  /** Registry id of the model, or the provider's own name for unregistered models */
+  model: string;
+  /** Name of the model at the provider */
+  providerModel: string;
+};
+
+export type FailedAttempt = {
+  provider: string;
+  model: string;
+  error: string;
+  status?: number;
+};
+
+/**
+ * Which provider served a reply; stored under `llm` in the reply's
+ * `chatMessages.metadata`
+ */
+export type RouteReport = {
+  provider: string;
+  model: string;
+  failedAttempts: FailedAttempt[];
+};
+
+export const MAX_ATTEMPTS_PER_STEP = 3;
+export const MAX_FALLBACK_STEPS = 5;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8_000;
+
+function toStep(provider: string, model: string): RouteStep {
+  const registered = findChatModel(model);
+  return {
+    provider,
+    model: registered?.id ?? model,
+    providerModel: registered?.providers[provider] ?? model,
+  };
+}
+
+/**
+ * Steps to try for an agent's replies, skipping providers that are not
+ * configured
+ */
+export function buildRoute(agent: Pick<Agent, "model" | "fallbackChain">): RouteStep[] {
+  const model = resolveChatModel(agent.model);
+  const steps = [
+    ...Object.keys(model.providers).map(provider => toStep(provider, model.id)),
+    ...(agent.fallbackChain ?? []).map(step => toStep(step.provider, step.model)),
+  ];
+
+  const seen = new Set<string>();
+  const route = steps.filter(step => {
+    const key = `${step.provider}/${step.providerModel}`;
+    if (seen.has(key) || !getLLMProvider(step.provider)?.isConfigured()) return false;
+    seen.add(key);
+    return true;
+  });
+
+  // Nothing configured: the forge call reports the missing key
+  return route.length > 0 ? route : [toStep(FORGE_PROVIDER, model.id)];
+}
+
+/**
+ * Check an agent's fallback chain against the providers and the models
+ * they serve
+ */
+export function validateFallbackChain(chain: FallbackStep[]): FallbackStep[] {
+  if (chain.length > MAX_FALLBACK_STEPS) {
+    throw new Error(`A fallback chain can have at most ${MAX_FALLBACK_STEPS} steps`);
+  }
+
+  return chain.map(({ provider: name, model: modelName }) => {
+    const provider = getLLMProvider(name);
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+    const model = findChatModel(modelName);
+    if (provider.anyModel) {
+      return { provider: name, model: model?.id ?? modelName.trim() };
+    }
+    if (!model || !(name in model.providers)) {
+      throw new Error(`${provider.label} does not serve ${modelName}`);
+    }
+    return { provider: name, model: model.id };
+  });
+}
+
+/**
+ * The route's model with the smallest context window, so a prompt packed
+ * for it fits every step
+ */
+export function getPackingModel(route: RouteStep[]): string {
+  return route
+    .map(step => step.model)
+    .reduce((smallest, model) =>
+      getModelLimits(model).contextWindow < getModelLimits(smallest).contextWindow ? model : smallest
+    );
+}
+
+// Parameters for a step, kept within its model's limits
+function stepParams(step: RouteStep, params: InvokeParams): InvokeParams {
+  const limits = getModelLimits(step.model);
+  const maxTemperature = findChatModel(step.model)?.maxTemperature;
+  return {
+    ...params,
+    model: step.providerModel,
+    maxTokens: params.maxTokens !== undefined ? Math.min(params.maxTokens, limits.maxOutputTokens) : undefined,
+    temperature:
+      params.temperature !== undefined && maxTemperature !== undefined
+        ? Math.min(params.temperature, maxTemperature)
+        : params.temperature,
+  };
+}
+
+function backoffDelay(attempt: number, error: unknown): number {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  // Jitter spreads out retries of requests that failed together
+  const delay = exponential / 2 + Math.random() * (exponential / 2);
+  const retryAfter = error instanceof LLMRequestError ? error.retryAfterMs : undefined;
+  return retryAfter !== undefined ? Math.min(Math.max(retryAfter, delay), MAX_BACKOFF_MS) : delay;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new Error("Aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function runRoute<T>(
+  route: RouteStep[],
+  call: (step: RouteStep) => Promise<T>,
+  options: { signal?: AbortSignal; canFallBack?: () => boolean }
+): Promise<{ result: T; report: RouteReport }> {
+  const failedAttempts: FailedAttempt[] = [];
+  let lastError: unknown;
+
+  for (const step of route) {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS_PER_STEP; attempt++) {
+      try {
+        const result = await call(step);
+        return { result, report: { provider: step.provider, model: step.model, failedAttempts } };
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        lastError = error;
+        failedAttempts.push({
+          provider: step.provider,
+          model: step.model,
+          error: error instanceof Error ? error.message : String(error),
+          status: error instanceof LLMRequestError ? error.status : undefined,
+        });
+        console.warn(`[LLM] ${step.provider}/${step.providerModel} failed (attempt ${attempt}):`, error);
+
+        // Part of a reply was already sent on
+        if (options.canFallBack && !options.canFallBack()) throw error;
+        if (!(error instanceof LLMRequestError && error.retryable) || attempt === MAX_ATTEMPTS_PER_STEP) break;
+        await sleep(backoffDelay(attempt, error), options.signal);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Chat completion from the first step of the route that succeeds
+ */
+export function completeWithFallback(
+  route: RouteStep[],
+  params: InvokeParams,
+  signal?: AbortSignal
+): Promise<{ result: InvokeResult; report: RouteReport }> {
+  return runRoute(route, step => getLLMProvider(step.provider)!.complete(stepParams(step, params), signal), { signal });
+}
+
+/**
+ * Streamed chat completion from the first step of the route that succeeds;
+ * once text has been passed on, a failure is not retried
+ */
+export function streamWithFallback(
+  route: RouteStep[],
+  params: InvokeParams,
+  { onToken, signal }: StreamOptions
+): Promise<{ result: StreamResult; report: RouteReport }> {
+  let streamed = false;
+  return runRoute(
+    route,
+    step =>
+      getLLMProvider(step.provider)!.stream(stepParams(step, params), {
+        onToken: text => {
+          streamed = true;
+          onToken(text);
+        },
+        signal,
+      }),
+    { signal, canFallBack: () => !streamed }
+  );
+}
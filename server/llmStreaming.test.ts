@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { invokeLLM, streamLLM } from "./_core/llm";
+
+// Body sent in the given pieces, which need not end on event boundaries
+function sseResponse(pieces: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+        controller.close();
+      },
+    }),
+    { headers: { "content-type": "text/event-stream" } }
+  );
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`;
+
+// Body that sends the given pieces, then stalls until the request is aborted
+function stalledResponse(pieces: string[]) {
+  const encoder = new TextEncoder();
+  return vi.fn(async (_url: string, init: RequestInit) =>
+    new Response(
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+          init.signal?.addEventListener("abort", () => controller.error(new DOMException("Aborted", "AbortError")));
+        },
+      })
+    )
+  );
+}
+
+const params = { messages: [{ role: "user" as const, content: "Hi" }], model: "gpt-4o", temperature: 0.2, maxTokens: 100 };
+
+const { llmTimeoutMs, llmStreamIdleTimeoutMs } = ENV;
+
+beforeEach(() => {
+  ENV.forgeApiKey = "test-key";
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  Object.assign(ENV, { llmTimeoutMs, llmStreamIdleTimeoutMs });
+});
+
+describe("streamLLM", () => {
+  it("passes the reply's text on as it arrives and returns the usage", async () => {
+    const fetch = vi.fn(async () =>
+      sseResponse([
+        ": keep-alive\n\n",
+        delta("Refunds ") + delta("take").slice(0, 20),
+        delta("take").slice(20) + `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: " 30 days." }, finish_reason: "stop" }] })}\r\n\r\n`,
+        `data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 } })}\n\n`,
+        "data: [DONE]\n\n",
+      ])
+    );
+    vi.stubGlobal("fetch", fetch);
+
+    const tokens: string[] = [];
+    const result = await streamLLM(params, { onToken: text => tokens.push(text) });
+
+    expect(tokens).toEqual(["Refunds ", "take", " 30 days."]);
+    expect(result).toMatchObject({
+      content: "Refunds take 30 days.",
+      finishReason: "stop",
+      usage: { total_tokens: 17 },
+    });
+    expect(result.timeToFirstTokenMs).toBeGreaterThanOrEqual(0);
+
+    const body = JSON.parse((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body as string);
+    expect(body).toMatchObject({
+      model: "gpt-4o",
+      temperature: 0.2,
+      max_tokens: 100,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    expect(body).not.toHaveProperty("top_p");
+  });
+
+  it("assembles tool calls from their streamed pieces", async () => {
+    const toolDelta = (piece: Record<string, unknown>) =>
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: { tool_calls: [piece] } }] })}\n\n`;
+    vi.stubGlobal("fetch", vi.fn(async () =>
+      sseResponse([
+        toolDelta({ index: 0, id: "call_1", function: { name: "lookup_order", arguments: "" } }),
+        toolDelta({ index: 0, function: { arguments: '{"orderId":' } }),
+        toolDelta({ index: 1, id: "call_2", function: { name: "get_current_time", arguments: "{}" } }),
+        toolDelta({ index: 0, function: { arguments: '"A1"}' } }),
+        `data: ${JSON.stringify({ choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] })}\n\n`,
+      ])
+    ));
+
+    const result = await streamLLM(params, { onToken: () => undefined });
+
+    expect(result.finishReason).toBe("tool_calls");
+    expect(result.toolCalls).toEqual([
+      { id: "call_1", type: "function", function: { name: "lookup_order", arguments: '{"orderId":"A1"}' } },
+      { id: "call_2", type: "function", function: { name: "get_current_time", arguments: "{}" } },
+    ]);
+  });
+
+  it("fails on an error event in the stream", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => sseResponse([delta("Refunds"), 'data: {"error":{"message":"overloaded"}}\n\n'])));
+
+    await expect(streamLLM(params, { onToken: () => undefined })).rejects.toThrow("LLM stream failed: overloaded");
+  });
+
+  it("retries stream errors only when their status would be retried", async () => {
+    const failWith = (error: Record<string, unknown>) => {
+      vi.stubGlobal("fetch", vi.fn(async () => sseResponse([`data: ${JSON.stringify({ error })}\n\n`])));
+      return streamLLM(params, { onToken: () => undefined });
+    };
+
+    await expect(failWith({ message: "Slow down", code: "rate_limit_exceeded" })).rejects.toMatchObject({ status: 429, retryable: true });
+    await expect(failWith({ message: "Oops", type: "server_error" })).rejects.toMatchObject({ status: 500, retryable: true });
+    await expect(failWith({ message: "Too long", type: "invalid_request_error", code: "context_length_exceeded" })).rejects.toMatchObject({ status: 400, retryable: false });
+    await expect(failWith({ message: "Bad key", code: 401 })).rejects.toMatchObject({ status: 401, retryable: false });
+  });
+
+  it("returns the text received so far when aborted", async () => {
+    const abort = new AbortController();
+    vi.stubGlobal("fetch", stalledResponse([delta("Refunds take")]));
+
+    const result = await streamLLM(params, { onToken: () => abort.abort(), signal: abort.signal });
+
+    expect(result).toMatchObject({ content: "Refunds take", finishReason: "aborted", timeToFirstTokenMs: expect.any(Number) });
+  });
+
+  it("fails when the stream stalls between pieces", async () => {
+    ENV.llmStreamIdleTimeoutMs = 20;
+    vi.stubGlobal("fetch", stalledResponse([delta("Refunds take")]));
+
+    await expect(streamLLM(params, { onToken: () => undefined })).rejects.toMatchObject({
+      message: "LLM stream stalled for 20ms",
+      retryable: true,
+    });
+  });
+});
+
+describe("invokeLLM", () => {
+  it("times out while the response body is still arriving", async () => {
+    ENV.llmTimeoutMs = 20;
+    vi.stubGlobal("fetch", stalledResponse(['{"choices":']));
+
+    await expect(invokeLLM(params)).rejects.toMatchObject({
+      message: "LLM request timed out after 20ms",
+      retryable: true,
+    });
+  });
+});
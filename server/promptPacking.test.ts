@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { ContextSource } from "./citations";
+import { countTokens, getModelLimits, MAX_HISTORY_MESSAGES, packPrompt } from "./promptPacking";
+import { buildAugmentedPrompt } from "./rag";
+
+const source = (label: number, content: string): ContextSource => ({
+  label,
+  documentId: 1,
+  documentName: "handbook.md",
+  chunkIndex: label - 1,
+  score: 1 / label,
+  content,
+});
+
+const buildUserMessage = (context: string | null) =>
+  context !== null ? buildAugmentedPrompt("What is the refund window?", context) : "What is the refund window?";
+
+describe("countTokens", () => {
+  it("uses the model's characters per token and counts wide characters singly", () => {
+    expect(countTokens("a".repeat(40), "gemini-2.5-flash")).toBe(10);
+    expect(countTokens("a".repeat(35), "claude-sonnet")).toBe(10);
+    expect(countTokens("退款政策", "gemini-2.5-flash")).toBe(4);
+  });
+
+  it("falls back to a conservative window for unknown models", () => {
+    expect(getModelLimits("some-local-model").contextWindow).toBe(32_768);
+  });
+});
+
+describe("packPrompt", () => {
+  it("sends everything when it fits", () => {
+    const packed = packPrompt({
+      model: "gemini-2.5-flash",
+      systemPrompt: "You are a support agent.",
+      history: [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+      ],
+      sources: [source(1, "Refunds within 30 days."), source(2, "Shipping takes 5 days.")],
+      buildUserMessage,
+    });
+
+    expect(packed.messages.map(message => message.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(packed.messages[3].content).toContain("[2] handbook.md (chunk 1)");
+    expect(packed.replyTokens).toBe(32_768);
+    expect(packed.report).toMatchObject({ droppedChunks: [], truncatedChunks: [], droppedHistory: 0, overBudget: false });
+  });
+
+  it("cuts the lowest-ranked chunks first and keeps labels contiguous", () => {
+    // Unknown model: 32,768 window, 8,192 reply tokens
+    const packed = packPrompt({
+      model: "tiny",
+      history: [],
+      sources: [
+        source(1, "a".repeat(40_000)),
+        source(2, "b".repeat(40_000)),
+        source(3, "c".repeat(40_000)),
+        source(4, "d".repeat(40_000)),
+      ],
+      buildUserMessage,
+    });
+
+    expect(packed.replyTokens).toBe(8_192);
+    expect(packed.sources.map(item => item.label)).toEqual([1, 2, 3]);
+    expect(packed.report.truncatedChunks).toEqual([3]);
+    expect(packed.report.droppedChunks).toEqual([4]);
+    expect(packed.sources[2].content.endsWith("…")).toBe(true);
+    expect(packed.report.tokens.total).toBeLessThanOrEqual(32_768 - 8_192);
+  });
+
+  it("drops the oldest history and summarises it", () => {
+    const history = Array.from({ length: 40 }, (_, i) => ({
+      role: (i % 2 === 0 ? "user" : "assistant") as "user" | "assistant",
+      content: `Message ${i} ${"x".repeat(4_000)}`,
+    }));
+
+    const packed = packPrompt({ model: "tiny", history, sources: [], buildUserMessage, replyTokens: 1_000 });
+
+    expect(packed.report.droppedHistory).toBeGreaterThan(0);
+    expect(packed.report.summarisedHistory).toBe(true);
+    expect(packed.messages[0].role).toBe("system");
+    expect(packed.messages[0].content).toContain(`Message ${packed.report.droppedHistory - 1}`);
+    expect(packed.messages[1].content).toContain(`Message ${packed.report.droppedHistory} `);
+    expect(packed.report.tokens.total).toBeLessThanOrEqual(32_768 - 1_000);
+  });
+
+  it("keeps history under a ceiling on large-window models", () => {
+    const short = Array.from({ length: 100 }, (_, i) => ({
+      role: (i % 2 === 0 ? "user" : "assistant") as "user" | "assistant",
+      content: `Message ${i}`,
+    }));
+    const long = short.map(turn => ({ ...turn, content: `${turn.content} ${"x".repeat(4_000)}` }));
+
+    const byCount = packPrompt({ model: "gemini-2.5-flash", history: short, sources: [], buildUserMessage });
+    expect(byCount.report.historyMessages).toBe(MAX_HISTORY_MESSAGES);
+    expect(byCount.report.droppedHistory).toBe(100 - MAX_HISTORY_MESSAGES);
+    expect(byCount.report.summarisedHistory).toBe(true);
+
+    const byTokens = packPrompt({ model: "gemini-2.5-flash", history: long, sources: [], buildUserMessage });
+    expect(byTokens.report.historyMessages).toBeLessThan(MAX_HISTORY_MESSAGES);
+    expect(byTokens.report.tokens.history).toBeLessThanOrEqual(16_000);
+    expect(byTokens.messages[byTokens.messages.length - 2].content).toContain("Message 99 ");
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Token-budget prompt packing
+ * Fits the system prompt, conversation history, retrieved context and the
+ * reply into the model's context window. The system prompt and the
+ * current message always go in; retrieved chunks are kept in rank order
+ * and the lowest-ranked ones are truncated or dropped first, then the
+ * oldest history is dropped and replaced with a short summary. History is
+ * also kept under a fixed ceiling, so long sessions on large-window models
+ * do not resend the whole conversation.
+ */
+
+import { findChatModel } from "./chatModels";
+import type { ContextSource } from "./citations";
+import { formatContextSources } from "./citations";
+
+export type ModelLimits = {
+  contextWindow: number;
+  maxOutputTokens: number;
+  /** Average characters per token for the model's tokenizer */
+  charsPerToken: number;
+};
+
+// Models outside the chat model registry, matched by longest prefix of the model name
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  "gemini-": { contextWindow: 1_048_576, maxOutputTokens: 65_536, charsPerToken: 4 },
+  "gpt-4o": { contextWindow: 128_000, maxOutputTokens: 16_384, charsPerToken: 4 },
+  "gpt-4.1": { contextWindow: 1_047_576, maxOutputTokens: 32_768, charsPerToken: 4 },
+  "claude-": { contextWindow: 200_000, maxOutputTokens: 64_000, charsPerToken: 3.5 },
+};
+
+// Unknown models get a conservative window
+const FALLBACK_LIMITS: ModelLimits = { contextWindow: 32_768, maxOutputTokens: 8_192, charsPerToken: 4 };
+
+export const DEFAULT_REPLY_TOKENS = 32_768;
+
+// Role markers and separators added per chat message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Share of the flexible budget retrieved context may take when history needs the rest
+const CONTEXT_SHARE = 0.6;
+// A chunk is cut to fit only if at least this much of it would remain
+const MIN_TRUNCATED_CHUNK_TOKENS = 64;
+const MAX_SUMMARY_TOKENS = 300;
+const MIN_SUMMARY_TOKENS = 32;
+const SUMMARY_LINE_CHARS = 160;
+// Most recent messages / tokens of history sent, whatever the model's window
+export const MAX_HISTORY_MESSAGES = 40;
+const MAX_HISTORY_TOKENS = 16_000;
+
+// Han, kana and hangul characters are roughly one token each
+const WIDE_CHARACTERS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af]/g;
+
+export function getModelLimits(model: string): ModelLimits {
+  const registered = findChatModel(model);
+  if (registered) {
+    const { contextWindow, maxOutputTokens, charsPerToken } = registered;
+    return { contextWindow, maxOutputTokens, charsPerToken };
+  }
+
+  const prefix = Object.keys(MODEL_LIMITS)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_LIMITS[prefix] : FALLBACK_LIMITS;
+}
+
+/**
+ * Estimate the tokens of a text for a model
+ */
+export function countTokens(text: string, model: string): number {
+  if (!text) return 0;
+  const wide = text.match(WIDE_CHARACTERS)?.length ?? 0;
+  return Math.ceil((text.length - wide) / getModelLimits(model).charsPerToken) + wide;
+}
+
+export type ChatTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type PackedMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+/**
+ * What was kept, cut and dropped; stored under `packing` in the reply's
+ * `chatMessages.metadata`
+ */
+export type PackingReport = {
+  model: string;
+  contextWindow: number;
+  replyTokens: number;
+  /** Estimated tokens per part of the prompt */
+  tokens: {
+    system: number;
+    history: number;
+    summary: number;
+    context: number;
+    message: number;
+    total: number;
+  };
+  /** Labels of retrieved chunks left out / cut short */
+  droppedChunks: number[];
+  truncatedChunks: number[];
+  historyMessages: number;
+  droppedHistory: number;
+  summarisedHistory: boolean;
+  /** The system prompt and message alone exceed the budget */
+  overBudget: boolean;
+};
+
+export type PackedPrompt = {
+  messages: PackedMessage[];
+  /** Retrieved chunks that made it into the prompt, possibly cut short */
+  sources: ContextSource[];
+  /** Tokens to request for the reply */
+  replyTokens: number;
+  report: PackingReport;
+};
+
+export type PromptParts = {
+  model: string;
+  systemPrompt?: string | null;
+  /** Earlier turns, oldest first, excluding the current message */
+  history: ChatTurn[];
+  /** Retrieved chunks in rank order */
+  sources: ContextSource[];
+  /** The user message with the given context, or without context when null */
+  buildUserMessage: (context: string | null) => string;
+  replyTokens?: number;
+};
+
+function messageTokens(content: string, model: string): number {
+  return countTokens(content, model) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Keep the start of a text within a token budget
+ */
+function truncateToTokens(text: string, tokens: number, model: string): string {
+  let end = Math.floor(tokens * getModelLimits(model).charsPerToken);
+  while (end > 0 && countTokens(text.slice(0, end), model) > tokens) {
+    end = Math.floor(end * 0.9);
+  }
+  return `${text.slice(0, end).trimEnd()}…`;
+}
+
+/**
+ * One line per dropped message, newest kept when the summary runs out of room
+ */
+function summariseHistory(dropped: ChatTurn[], budget: number, model: string): string | null {
+  const header = "Summary of the earlier conversation (older messages were left out):";
+  const lines: string[] = [];
+  let used = messageTokens(header, model);
+
+  for (let i = dropped.length - 1; i >= 0; i--) {
+    const turn = dropped[i];
+    const text = turn.content.replace(/\s+/g, " ").trim();
+    const line = `- ${turn.role === "user" ? "User" : "Assistant"}: ${
+      text.length > SUMMARY_LINE_CHARS ? `${text.slice(0, SUMMARY_LINE_CHARS)}…` : text
+    }`;
+    const cost = countTokens(line, model) + 1;
+    if (used + cost > budget) break;
+    lines.unshift(line);
+    used += cost;
+  }
+
+  return lines.length > 0 ? `${header}\n${lines.join("\n")}` : null;
+}
+
+/**
+ * Pack a chat prompt into the model's context window
+ */
+export function packPrompt(parts: PromptParts): PackedPrompt {
+  const { model } = parts;
+  const limits = getModelLimits(model);
+  const replyTokens = Math.min(parts.replyTokens ?? DEFAULT_REPLY_TOKENS, limits.maxOutputTokens);
+  const inputBudget = limits.contextWindow - replyTokens;
+
+  // Always sent
+  const systemTokens = parts.systemPrompt ? messageTokens(parts.systemPrompt, model) : 0;
+  const baseMessage = parts.buildUserMessage(null);
+  const baseMessageTokens = messageTokens(baseMessage, model);
+  const flexible = Math.max(inputBudget - systemTokens - baseMessageTokens, 0);
+
+  const historyNeeded = Math.min(
+    parts.history.reduce((sum, turn) => sum + messageTokens(turn.content, model), 0),
+    MAX_HISTORY_TOKENS
+  );
+  // Context template around the chunks, on top of the bare message
+  const contextOverhead = parts.sources.length > 0
+    ? countTokens(parts.buildUserMessage(""), model) - countTokens(baseMessage, model)
+    : 0;
+
+  // Retrieved context, best-ranked first
+  const contextBudget = Math.max(Math.floor(flexible * CONTEXT_SHARE), flexible - historyNeeded);
+  const sources: ContextSource[] = [];
+  const droppedChunks: number[] = [];
+  const truncatedChunks: number[] = [];
+  let contextTokens = contextOverhead;
+
+  // Only a tail of the ranking is cut, so kept chunks keep labels 1..n
+  for (const source of parts.sources) {
+    if (droppedChunks.length > 0 || truncatedChunks.length > 0) {
+      droppedChunks.push(source.label);
+      continue;
+    }
+
+    const cost = countTokens(formatContextSources([source]), model) + 1;
+    const remaining = contextBudget - contextTokens;
+    if (cost <= remaining) {
+      sources.push(source);
+      contextTokens += cost;
+    } else if (remaining >= MIN_TRUNCATED_CHUNK_TOKENS) {
+      const labelTokens = cost - countTokens(source.content, model);
+      const truncated = { ...source, content: truncateToTokens(source.content, remaining - labelTokens, model) };
+      sources.push(truncated);
+      truncatedChunks.push(source.label);
+      contextTokens += countTokens(formatContextSources([truncated]), model) + 1;
+    } else {
+      droppedChunks.push(source.label);
+    }
+  }
+  if (sources.length === 0) contextTokens = 0;
+
+  // History, newest first, in what the context left over up to the ceiling
+  const remainingBudget = flexible - contextTokens;
+  const historyBudget = Math.min(remainingBudget, MAX_HISTORY_TOKENS);
+  const kept: ChatTurn[] = [];
+  let historyTokens = 0;
+  let index = parts.history.length - 1;
+  for (; index >= 0; index--) {
+    const cost = messageTokens(parts.history[index].content, model);
+    if (kept.length >= MAX_HISTORY_MESSAGES || historyTokens + cost > historyBudget) break;
+    kept.unshift(parts.history[index]);
+    historyTokens += cost;
+  }
+  const dropped = parts.history.slice(0, index + 1);
+
+  let summary: string | null = null;
+  const summaryBudget = Math.min(MAX_SUMMARY_TOKENS, remainingBudget - historyTokens);
+  if (dropped.length > 0 && summaryBudget >= MIN_SUMMARY_TOKENS) {
+    summary = summariseHistory(dropped, summaryBudget, model);
+  }
+  const summaryTokens = summary ? messageTokens(summary, model) : 0;
+
+  const userMessage = parts.buildUserMessage(sources.length > 0 ? formatContextSources(sources) : null);
+
+  const messages: PackedMessage[] = [];
+  if (parts.systemPrompt) messages.push({ role: "system", content: parts.systemPrompt });
+  if (summary) messages.push({ role: "system", content: summary });
+  messages.push(...kept);
+  messages.push({ role: "user", content: userMessage });
+
+  return {
+    messages,
+    sources,
+    replyTokens,
+    report: {
+      model,
+      contextWindow: limits.contextWindow,
+      replyTokens,
+      tokens: {
+        system: systemTokens,
+        history: historyTokens,
+        summary: summaryTokens,
+        context: contextTokens,
+        message: baseMessageTokens,
+        total: systemTokens + historyTokens + summaryTokens + contextTokens + baseMessageTokens,
+      },
+      droppedChunks,
+      truncatedChunks,
+      historyMessages: kept.length,
+      droppedHistory: dropped.length,
+      summarisedHistory: summary !== null,
+      overBudget: systemTokens + baseMessageTokens > inputBudget,
+    },
+  };
+}
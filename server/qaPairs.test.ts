@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { QaPair, RagConfiguration } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getOrCreateRagConfig: vi.fn(),
+  getQaPairsByAgentId: vi.fn(),
+  updateQaPair: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+import * as db from "./db";
+import { embedLocally } from "./embeddings";
+import { buildCuratedAnswerPrompt, findQaMatch } from "./qaPairs";
+
+const config = {
+  agentId: 1,
+  enabled: 1,
+  embeddingModel: "local-hash",
+  indexedEmbeddingModel: "local-hash",
+  indexVersion: 0,
+  qaThreshold: "0.80",
+  qaAnswerMode: "direct",
+} as RagConfiguration;
+
+function makePair(id: number, question: string, answer: string, embeddingModel = "local-hash"): QaPair {
+  return {
+    id,
+    agentId: 1,
+    userId: 1,
+    question,
+    answer,
+    embedding: embedLocally(question),
+    embeddingModel,
+    sourceMessageId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe("qaPairs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue(config);
+    vi.mocked(db.getQaPairsByAgentId).mockResolvedValue([
+      makePair(1, "What is your refund policy?", "Refunds are accepted within 30 days."),
+      makePair(2, "Do you ship internationally?", "We ship to 40 countries."),
+    ]);
+  });
+
+  it("matches the closest question above the threshold", async () => {
+    const match = await findQaMatch(1, "what is your refund policy");
+
+    expect(match?.pair.id).toBe(1);
+    expect(match?.score).toBeGreaterThan(0.8);
+    expect(match?.mode).toBe("direct");
+  });
+
+  it("ignores messages that are not close enough to a question", async () => {
+    expect(await findQaMatch(1, "How do I reset my password?")).toBeNull();
+  });
+
+  it("does not match when RAG is disabled", async () => {
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue({ ...config, enabled: 0 });
+
+    expect(await findQaMatch(1, "What is your refund policy?")).toBeNull();
+  });
+
+  it("re-embeds questions embedded with another model", async () => {
+    vi.mocked(db.getQaPairsByAgentId).mockResolvedValue([
+      { ...makePair(3, "What is your refund policy?", "30 days.", "text-embedding-3-small"), embedding: [1, 0] },
+    ]);
+
+    const match = await findQaMatch(1, "What is your refund policy?");
+
+    expect(match?.pair.id).toBe(3);
+    expect(db.updateQaPair).toHaveBeenCalledWith(3, expect.objectContaining({ embeddingModel: "local-hash" }));
+  });
+
+  it("puts the curated answer ahead of the prompt", () => {
+    const pair = makePair(1, "What is your refund policy?", "Refunds are accepted within 30 days.");
+    const prompt = buildCuratedAnswerPrompt("Context...\nWhat is your refund policy?", {
+      pair,
+      score: 0.95,
+      mode: "context",
+    });
+
+    expect(prompt.indexOf("Answer: Refunds are accepted within 30 days.")).toBeLessThan(prompt.indexOf("Context..."));
+  });
+});
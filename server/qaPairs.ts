@@ -0,0 +1,148 @@
+/**
+ * Curated Q&A pairs
+ * Each pair's question is embedded with the agent's active embedding
+ * model. A message whose embedding is close enough to a question is
+ * answered with the curated answer, either directly or as the
+ * highest-priority context for the model.
+ */
+
+import * as db from "./db";
+import type { QaPair, RagConfiguration } from "../drizzle/schema";
+import { getEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import { cosineSimilarity, getActiveIndexSettings } from "./rag";
+
+export const DEFAULT_QA_THRESHOLD = 0.9;
+
+/**
+ * A Q&A pair matched to a message
+ */
+export type QaMatch = {
+  pair: QaPair;
+  /** Cosine similarity between the message and the pair's question */
+  score: number;
+  /** Whether the answer is sent as is or given to the model as context */
+  mode: RagConfiguration["qaAnswerMode"];
+};
+
+async function getAgentEmbeddingProvider(agentId: number): Promise<EmbeddingProvider> {
+  const config = await db.getOrCreateRagConfig(agentId);
+  return getEmbeddingProvider(getActiveIndexSettings(config).embeddingModel);
+}
+
+/**
+ * Create a pair with its question embedded
+ */
+export async function createQaPair(pair: {
+  agentId: number;
+  userId: number;
+  question: string;
+  answer: string;
+  sourceMessageId?: number | null;
+}): Promise<QaPair> {
+  const provider = await getAgentEmbeddingProvider(pair.agentId);
+  const [embedding] = await provider.embed([pair.question]);
+
+  return db.createQaPair({
+    ...pair,
+    sourceMessageId: pair.sourceMessageId ?? null,
+    embedding,
+    embeddingModel: provider.model,
+  });
+}
+
+/**
+ * Update a pair's question or answer; a changed question is embedded again
+ */
+export async function updateQaPair(
+  pair: QaPair,
+  updates: { question?: string; answer?: string }
+): Promise<QaPair | undefined> {
+  const data: Partial<QaPair> = {};
+  if (updates.answer !== undefined) data.answer = updates.answer;
+
+  if (updates.question !== undefined && updates.question !== pair.question) {
+    const provider = await getAgentEmbeddingProvider(pair.agentId);
+    data.question = updates.question;
+    [data.embedding] = await provider.embed([updates.question]);
+    data.embeddingModel = provider.model;
+  }
+
+  if (Object.keys(data).length === 0) return pair;
+  return db.updateQaPair(pair.id, data);
+}
+
+/**
+ * Embed questions that are missing an embedding or were embedded with
+ * another model, e.g. before the agent's embedding model changed
+ */
+async function ensureQuestionEmbeddings(pairs: QaPair[], provider: EmbeddingProvider): Promise<QaPair[]> {
+  const stale = pairs.filter(pair => pair.embeddingModel !== provider.model || !Array.isArray(pair.embedding));
+  if (stale.length === 0) return pairs;
+
+  const embeddings = await provider.embed(stale.map(pair => pair.question));
+  const refreshed = new Map<number, QaPair>();
+  for (let i = 0; i < stale.length; i++) {
+    const pair = { ...stale[i], embedding: embeddings[i], embeddingModel: provider.model };
+    await db.updateQaPair(pair.id, { embedding: pair.embedding, embeddingModel: pair.embeddingModel });
+    refreshed.set(pair.id, pair);
+  }
+
+  return pairs.map(pair => refreshed.get(pair.id) ?? pair);
+}
+
+/**
+ * Find the pair whose question best matches a message, if it clears the
+ * agent's Q&A threshold; the message is embedded unless its embedding is given
+ */
+export async function findQaMatch(
+  agentId: number,
+  message: string,
+  messageEmbedding?: number[]
+): Promise<QaMatch | null> {
+  try {
+    const config = await db.getOrCreateRagConfig(agentId);
+    if (config.enabled !== 1) {
+      return null;
+    }
+
+    const stored = await db.getQaPairsByAgentId(agentId);
+    if (stored.length === 0) {
+      return null;
+    }
+
+    const provider = getEmbeddingProvider(getActiveIndexSettings(config).embeddingModel);
+    const pairs = await ensureQuestionEmbeddings(stored, provider);
+    const vector = messageEmbedding ?? (await provider.embed([message]))[0];
+
+    let best: { pair: QaPair; score: number } | null = null;
+    for (const pair of pairs) {
+      const score = cosineSimilarity(vector, pair.embedding ?? []);
+      if (!best || score > best.score) {
+        best = { pair, score };
+      }
+    }
+
+    const threshold = parseFloat(config.qaThreshold || String(DEFAULT_QA_THRESHOLD));
+    if (!best || best.score < threshold) {
+      return null;
+    }
+
+    return { ...best, mode: config.qaAnswerMode };
+  } catch (error) {
+    console.error("[RAG] Error matching Q&A pairs:", error);
+    return null;
+  }
+}
+
+/**
+ * Put a matched curated answer ahead of everything else in the prompt
+ */
+export function buildCuratedAnswerPrompt(prompt: string, match: QaMatch): string {
+  return `A curated answer has been approved for this question. It takes priority over any other context: base your reply on it and do not contradict it.
+---
+Question: ${match.pair.question}
+Answer: ${match.pair.answer}
+---
+
+${prompt}`;
+}
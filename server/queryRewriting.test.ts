@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration } from "../drizzle/schema";
+
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+import { invokeLLM, type InvokeResult } from "./_core/llm";
+import { expandQuery, prepareRetrievalQuery } from "./queryRewriting";
+
+const reply = (content: string) => ({
+  choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+}) as InvokeResult;
+
+const config = {
+  agentId: 1,
+  enabled: 1,
+  queryRewriting: 1,
+  multiQueryCount: 0,
+  hydeEnabled: 0,
+} as RagConfiguration;
+
+const history = [
+  { role: "user" as const, content: "Which plans do you offer?" },
+  { role: "assistant" as const, content: "We offer Starter and Business." },
+];
+
+describe("prepareRetrievalQuery", () => {
+  beforeEach(() => {
+    vi.mocked(invokeLLM).mockReset();
+  });
+
+  it("rewrites a follow-up into a standalone query", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(reply("How much does the Business plan cost?"));
+
+    const prepared = await prepareRetrievalQuery(config, history, "what about the second one?");
+
+    expect(prepared).toEqual({ query: "How much does the Business plan cost?", options: {}, llmCalls: 1 });
+    const prompt = vi.mocked(invokeLLM).mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain("Assistant: We offer Starter and Business.");
+  });
+
+  it("leaves the first message of a conversation alone", async () => {
+    const prepared = await prepareRetrievalQuery(config, [], "Which plans do you offer?");
+
+    expect(prepared.query).toBe("Which plans do you offer?");
+    expect(invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the message when the rewrite fails", async () => {
+    vi.mocked(invokeLLM).mockRejectedValue(new Error("unavailable"));
+
+    const prepared = await prepareRetrievalQuery(config, history, "what about the second one?");
+
+    expect(prepared.query).toBe("what about the second one?");
+    expect(prepared.llmCalls).toBe(1);
+  });
+
+  it("adds query variants and a hypothetical answer", async () => {
+    vi.mocked(invokeLLM).mockImplementation(async ({ outputSchema }) =>
+      outputSchema
+        ? reply(JSON.stringify({ queries: ["Business plan pricing"] }))
+        : reply("The Business plan costs $49 per month.")
+    );
+
+    const prepared = await prepareRetrievalQuery(
+      { ...config, queryRewriting: 0, multiQueryCount: 2, hydeEnabled: 1 },
+      history,
+      "How much is Business?"
+    );
+
+    expect(prepared).toEqual({
+      query: "How much is Business?",
+      options: {
+        variants: ["Business plan pricing"],
+        embeddingText: "The Business plan costs $49 per month.",
+      },
+      llmCalls: 2,
+    });
+  });
+});
+
+describe("expandQuery", () => {
+  it("drops duplicates of the query and caps the count", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(reply(JSON.stringify({
+      queries: ["refund policy", "Refund Policy", "money back", "return window", "  "],
+    })));
+
+    expect(await expandQuery("Refund policy", 2)).toEqual(["money back", "return window"]);
+  });
+});
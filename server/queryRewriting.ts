@@ -0,0 +1,172 @@
+/**
+ * Query preparation for retrieval
+ * Rewrites a follow-up message into a standalone query using the recent
+ * conversation, and can add alternative phrasings (multi-query) and a
+ * hypothetical answer to embed in place of the query (HyDE). Each step is
+ * one LLM call; a failed step falls back to the query as it was.
+ */
+
+import type { RagConfiguration } from "../drizzle/schema";
+import { invokeLLM, type InvokeResult } from "./_core/llm";
+import type { RetrievalOptions } from "./rag";
+
+export const MAX_QUERY_VARIANTS = 5;
+
+// Most recent messages the rewrite step sees
+const CONDENSE_HISTORY_MESSAGES = 6;
+
+export type ConversationTurn = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+/**
+ * The query retrieval runs with for a message
+ */
+export type PreparedQuery = {
+  /** Standalone query; the message itself when not rewritten */
+  query: string;
+  options: RetrievalOptions;
+  /** LLM calls made while preparing the query */
+  llmCalls: number;
+};
+
+function responseText(result: InvokeResult): string {
+  const content = result.choices[0]?.message?.content;
+  return typeof content === "string" ? content.trim() : "";
+}
+
+/**
+ * Rewrite the latest message into a query that makes sense without the
+ * conversation, e.g. "what about the second one?" into the question it
+ * refers to
+ */
+export async function condenseQuery(history: ConversationTurn[], message: string): Promise<string> {
+  const transcript = history
+    .slice(-CONDENSE_HISTORY_MESSAGES)
+    .map(turn => `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content}`)
+    .join("\n");
+
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: "Rewrite the user's latest message as a standalone search query for a knowledge base. Resolve pronouns and references using the conversation. Keep the user's language and wording where possible. Reply with the query only.",
+      },
+      {
+        role: "user",
+        content: `Conversation:\n${transcript}\n\nLatest message: ${message}`,
+      },
+    ],
+  });
+
+  return responseText(response) || message;
+}
+
+/**
+ * Alternative phrasings of a query that may match other wording in the
+ * documents
+ */
+export async function expandQuery(query: string, count: number): Promise<string[]> {
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: `Write ${count} different phrasings of the user's search query, using synonyms and related terms a document might use. Keep each one a single query.`,
+      },
+      { role: "user", content: query },
+    ],
+    outputSchema: {
+      name: "query_variants",
+      schema: {
+        type: "object",
+        properties: {
+          queries: { type: "array", items: { type: "string" } },
+        },
+        required: ["queries"],
+        additionalProperties: false,
+      },
+      strict: true,
+    },
+  });
+
+  const parsed = JSON.parse(responseText(response) || "{}") as { queries?: unknown };
+  if (!Array.isArray(parsed.queries)) return [];
+
+  const seen = new Set([query.toLowerCase()]);
+  return parsed.queries
+    .filter((variant): variant is string => typeof variant === "string")
+    .map(variant => variant.trim())
+    .filter(variant => {
+      const key = variant.toLowerCase();
+      if (!variant || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, count);
+}
+
+/**
+ * A short passage that would answer the query; its embedding tends to sit
+ * closer to the answering chunks than the question's does
+ */
+export async function generateHypotheticalAnswer(query: string): Promise<string> {
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: "Write a short passage, as it might appear in a help article or documentation, that answers the question. Do not mention that it is hypothetical.",
+      },
+      { role: "user", content: query },
+    ],
+  });
+
+  return responseText(response);
+}
+
+/**
+ * Prepare the retrieval query for a chat message with the agent's query
+ * settings; `history` excludes the message itself
+ */
+export async function prepareRetrievalQuery(
+  config: RagConfiguration,
+  history: ConversationTurn[],
+  message: string
+): Promise<PreparedQuery> {
+  let query = message;
+  let llmCalls = 0;
+
+  // Only follow-ups need rewriting
+  if (config.queryRewriting === 1 && history.length > 0) {
+    llmCalls++;
+    try {
+      query = await condenseQuery(history, message);
+    } catch (error) {
+      console.warn("[RAG] Query rewriting failed, using the message:", error);
+    }
+  }
+
+  const variantCount = Math.min(Math.max(config.multiQueryCount, 0), MAX_QUERY_VARIANTS);
+  const [variants, hypothetical] = await Promise.all([
+    variantCount > 0
+      ? expandQuery(query, variantCount).catch(error => {
+          console.warn("[RAG] Query expansion failed:", error);
+          return [];
+        })
+      : Promise.resolve([]),
+    config.hydeEnabled === 1
+      ? generateHypotheticalAnswer(query).catch(error => {
+          console.warn("[RAG] Hypothetical answer failed:", error);
+          return "";
+        })
+      : Promise.resolve(""),
+  ]);
+  if (variantCount > 0) llmCalls++;
+  if (config.hydeEnabled === 1) llmCalls++;
+
+  const options: RetrievalOptions = {};
+  if (variants.length > 0) options.variants = variants;
+  if (hypothetical) options.embeddingText = hypothetical;
+
+  return { query, options, llmCalls };
+}
@@ -3,12 +3,55 @@
  * Handles document retrieval and context injection for chatbot responses
  */
 
+import { createHash } from "crypto";
+import { matchesTagFilter, type TagFilter } from "@shared/tags";
 import * as db from "./db";
+import { ENV } from "./_core/env";
+import type { RagConfiguration, TrainingDocument, VectorEmbedding } from "../drizzle/schema";
+import {
+  chunkDocument,
+  chunkFixed,
+  resolveChunkingStrategy,
+  type ChunkingStrategy,
+} from "./chunking";
+import { formatContextSources, type ContextSource } from "./citations";
+import { findPageAt, getDocumentPages } from "./documentExtraction";
+import { findRecordAt, getDocumentRecords } from "./jsonExtraction";
+import { DEFAULT_EMBEDDING_MODEL, getEmbeddingProvider } from "./embeddings";
+import { buildBm25Index, fuseRankings, RRF_K, scoreBm25, type Bm25Index } from "./keywordSearch";
+import { DEFAULT_RERANK_CANDIDATES, getReranker } from "./reranking";
+import { getAgentVectorIndex, searchAgentVectors } from "./vectorIndexStore";
+
+/**
+ * Settings an index version is built with
+ */
+export type IndexSettings = {
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkingStrategy: ChunkingStrategy;
+  embeddingModel: string;
+  indexVersion: number;
+};
+
+/**
+ * Settings of the index currently served to retrieval.
+ * While a re-index is running, `embeddingModel` on the config may already
+ * point at the new model, so the active model is tracked separately.
+ */
+export function getActiveIndexSettings(config: RagConfiguration): IndexSettings {
+  return {
+    chunkSize: config.chunkSize || 512,
+    chunkOverlap: config.chunkOverlap || 50,
+    chunkingStrategy: config.chunkingStrategy,
+    embeddingModel: config.indexedEmbeddingModel || config.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+    indexVersion: config.indexVersion,
+  };
+}
 
 /**
  * Simple cosine similarity calculation between two vectors
  */
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) return 0;
   
   let dotProduct = 0;
@@ -21,50 +64,387 @@ function cosineSimilarity(a: number[], b: number[]): number {
     normB += b[i] * b[i];
   }
   
+  if (normA === 0 || normB === 0) return 0;
+  
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
 /**
- * Simple text embedding using character frequencies
- * 
- * ⚠️ WARNING: THIS IS A DEVELOPMENT PLACEHOLDER ONLY ⚠️
- * 
- * This implementation is NOT suitable for production use. It creates embeddings
- * based on character frequencies which will not produce meaningful semantic
- * similarity results.
- * 
- * For production, replace this with OpenAI's embedding API:
- * - Use `text-embedding-ada-002` or `text-embedding-3-small`
- * - Call OpenAI API: `POST https://api.openai.com/v1/embeddings`
- * - Store the returned 1536-dimensional vector
- * 
- * @deprecated Replace with proper embedding API before production deployment
+ * A chunk returned by retrieval with the scores that ranked it
+ */
+export type RetrievedChunk = {
+  embedding: VectorEmbedding;
+  /** Cosine similarity to the query */
+  vectorScore: number;
+  /** BM25 score; 0 when the chunk shares no terms with the query */
+  keywordScore: number;
+  /** Reciprocal rank fusion of both rankings */
+  score: number;
+  /** Relevance from the agent's reranker, 0-1, when reranking is on */
+  rerankScore?: number;
+};
+
+// Candidates fetched per query, at least; topK × 10 for larger topK
+const CANDIDATE_POOL_MIN = 50;
+// Extra nearest neighbours fetched when a tag filter may discard some
+const FILTERED_POOL_FACTOR = 4;
+
+// BM25 indexes for the full-scan fallback, rebuilt when the agent's chunks change
+const keywordIndexCache = new Map<number, { signature: string; index: Bm25Index }>();
+
+function getKeywordIndex(agentId: number, indexVersion: number, embeddings: VectorEmbedding[]): Bm25Index {
+  const maxId = embeddings.reduce((max, embedding) => Math.max(max, embedding.id), 0);
+  const signature = `${indexVersion}:${embeddings.length}:${maxId}`;
+  
+  const cached = keywordIndexCache.get(agentId);
+  if (cached && cached.signature === signature) {
+    return cached.index;
+  }
+  
+  const index = buildBm25Index(embeddings.map(embedding => ({ id: embedding.id, text: embedding.content })));
+  keywordIndexCache.set(agentId, { signature, index });
+  return index;
+}
+
+type CandidatePool = {
+  embeddings: VectorEmbedding[];
+  keywordScores: Map<number, number>;
+};
+
+/**
+ * Chunks worth scoring for a query: the nearest neighbours from the
+ * agent's ANN index plus the best keyword matches. Falls back to loading
+ * every chunk when the index is disabled or cannot be used, or when too few
+ * of the neighbours match the tag filter. Chunks whose tags do not match the
+ * filter are left out.
+ */
+async function gatherCandidates(
+  agentId: number,
+  indexVersion: number,
+  query: string,
+  embedQuery: () => Promise<number[]>,
+  poolSize: number,
+  useKeywords: boolean,
+  filter?: TagFilter
+): Promise<CandidatePool> {
+  const allowed = (embeddings: VectorEmbedding[]) =>
+    filter ? embeddings.filter(embedding => matchesTagFilter(embedding.tags, filter)) : embeddings;
+  
+  if (ENV.vectorIndexEnabled) {
+    try {
+      const index = await getAgentVectorIndex(agentId, indexVersion);
+      if (index.keywords.termFrequencies.size === 0) {
+        return { embeddings: [], keywordScores: new Map() };
+      }
+      
+      // The index holds no tags, so over-fetch and filter the loaded rows
+      const fetchSize = filter ? poolSize * FILTERED_POOL_FACTOR : poolSize;
+      const keywordScores = useKeywords ? scoreBm25(index.keywords, query) : new Map<number, number>();
+      const hits = searchAgentVectors(index, await embedQuery(), fetchSize);
+      const ids = new Set(hits.map(hit => hit.id));
+      Array.from(keywordScores.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, fetchSize)
+        .forEach(([id]) => ids.add(id));
+      
+      const embeddings = allowed(await db.getVectorEmbeddingsByIds(Array.from(ids)));
+      // A narrow filter can discard most neighbours while matching chunks lie
+      // further out; those are found by the exact scan below
+      if (!filter || embeddings.length >= poolSize || hits.length < fetchSize) {
+        return { embeddings, keywordScores };
+      }
+    } catch (error) {
+      console.warn("[RAG] Vector index unavailable, scanning all chunks:", error);
+    }
+  }
+  
+  // Exact search over every chunk in the active index
+  const embeddings = await db.getVectorEmbeddingsByAgentId(agentId, indexVersion);
+  const keywordScores = useKeywords && embeddings.length > 0
+    ? scoreBm25(getKeywordIndex(agentId, indexVersion, embeddings), query)
+    : new Map<number, number>();
+  return { embeddings: allowed(embeddings), keywordScores };
+}
+
+/**
+ * A candidate chunk considered for a query, whether or not it was used
+ */
+export type ScoredCandidate = RetrievedChunk & {
+  /** Whether `vectorScore` reaches the agent's `similarityThreshold` */
+  passedThreshold: boolean;
+  /** 1-based position among the `topK` chunks retrieved; null when not retrieved */
+  rank: number | null;
+};
+
+export type CandidateOptions = {
+  /** Embedded for the vector search instead of the query; keywords still come from the query */
+  embeddingText?: string;
+  /** Embedding of `embeddingText` or the query made beforehand, with the active embedding model */
+  queryEmbedding?: number[];
+  /** Only chunks whose tags match are considered */
+  filter?: TagFilter;
+};
+
+/**
+ * Embed a chat message with the agent's active embedding model, to share
+ * between Q&A matching and retrieval; undefined when embedding fails
+ */
+export async function embedMessage(config: RagConfiguration, message: string): Promise<number[] | undefined> {
+  try {
+    const provider = getEmbeddingProvider(getActiveIndexSettings(config).embeddingModel);
+    const [vector] = await provider.embed([message]);
+    return vector;
+  } catch (error) {
+    console.error("[RAG] Error embedding message:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Score every candidate chunk for a query
+ * Candidates reaching `similarityThreshold` are ranked by vector
+ * similarity, and candidates sharing terms with the query by BM25 whatever
+ * their similarity; both rankings are fused with the agent's
+ * `keywordWeight` and the best `topK` get a rank. Candidates in neither
+ * ranking keep their scores but a fused score of 0.
  */
-function createSimpleEmbedding(text: string): number[] {
-  console.warn("[RAG] WARNING: Using placeholder embedding function. Replace with OpenAI API for production!");
+export async function scoreCandidates(
+  agentId: number,
+  query: string,
+  config: RagConfiguration,
+  options: CandidateOptions = {}
+): Promise<ScoredCandidate[]> {
+  const settings = getActiveIndexSettings(config);
+  const topK = config.topK || 3;
+  const keywordWeight = parseFloat(config.keywordWeight || "0");
+  
+  // Embed the query with the same model used for the documents
+  let queryEmbedding = options.queryEmbedding;
+  const embedQuery = async () => {
+    if (!queryEmbedding) {
+      const provider = getEmbeddingProvider(settings.embeddingModel);
+      [queryEmbedding] = await provider.embed([options.embeddingText ?? query]);
+    }
+    return queryEmbedding;
+  };
+  
+  const { embeddings, keywordScores } = await gatherCandidates(
+    agentId,
+    settings.indexVersion,
+    query,
+    embedQuery,
+    Math.max(topK * 10, CANDIDATE_POOL_MIN),
+    keywordWeight > 0,
+    options.filter
+  );
   
-  const embedding = new Array(128).fill(0);
-  const normalized = text.toLowerCase();
+  if (embeddings.length === 0) {
+    return [];
+  }
+  
+  // Calculate exact similarity scores for the candidates
+  const vector = await embedQuery();
+  const threshold = parseFloat(config.similarityThreshold || "0.7");
+  const candidates = embeddings.map(embedding => {
+    const vectorScore = Array.isArray(embedding.embedding) ? cosineSimilarity(vector, embedding.embedding) : 0;
+    return {
+      embedding,
+      vectorScore,
+      keywordScore: keywordScores.get(embedding.id) ?? 0,
+      passedThreshold: vectorScore >= threshold,
+    };
+  });
+  // Keyword matches are ranked whatever their similarity, so exact terms
+  // such as product codes are found when their embedding is not close
+  const vectorRanking = candidates
+    .filter(item => item.passedThreshold)
+    .sort((a, b) => b.vectorScore - a.vectorScore)
+    .map(item => item.embedding.id);
+  const keywordRanking = keywordWeight > 0
+    ? candidates
+      .filter(item => item.keywordScore > 0)
+      .sort((a, b) => b.keywordScore - a.keywordScore)
+      .map(item => item.embedding.id)
+    : [];
+  const fused = fuseRankings(vectorRanking, keywordRanking, keywordWeight);
+  
+  const isRanked = (item: (typeof candidates)[number]) => item.passedThreshold || fused.has(item.embedding.id);
+  const ranked = candidates
+    .filter(isRanked)
+    .map(item => ({ ...item, score: fused.get(item.embedding.id) ?? 0 }))
+    .sort((a, b) => b.score - a.score || b.vectorScore - a.vectorScore)
+    .map((item, index) => ({ ...item, rank: index < topK ? index + 1 : null }));
+  const rejected = candidates
+    .filter(item => !isRanked(item))
+    .sort((a, b) => b.vectorScore - a.vectorScore)
+    .map(item => ({ ...item, score: 0, rank: null }));
   
-  // Create a simple embedding based on character frequencies
-  for (let i = 0; i < normalized.length; i++) {
-    const charCode = normalized.charCodeAt(i);
-    const index = charCode % 128;
-    embedding[index] += 1;
+  return [...ranked, ...rejected];
+}
+
+/**
+ * How a query is searched beyond its own text
+ */
+export type RetrievalOptions = {
+  /** Alternative phrasings, each retrieved on its own and fused with the query */
+  variants?: string[];
+  /** Text embedded in place of the query for vector search, e.g. a hypothetical answer (HyDE) */
+  embeddingText?: string;
+  /** Embedding of `embeddingText` or the query made beforehand; not used for the variants */
+  queryEmbedding?: number[];
+  /** Only chunks whose tags match are retrieved, e.g. the session's customer segment */
+  filter?: TagFilter;
+};
+
+/**
+ * Chunks the first retrieval stage keeps: `topK`, or the agent's
+ * `rerankCandidates` when a reranker picks the final `topK` from them
+ */
+export function getFirstStageCount(config: RagConfiguration): number {
+  const topK = config.topK || 3;
+  return getReranker(config.reranker)
+    ? Math.max(config.rerankCandidates || DEFAULT_RERANK_CANDIDATES, topK)
+    : topK;
+}
+
+/**
+ * Reorder retrieved chunks with the agent's reranker; without a reranker,
+ * or when it fails, the retrieval order is kept
+ */
+export async function rerankChunks<T extends RetrievedChunk>(
+  query: string,
+  chunks: T[],
+  config: RagConfiguration
+): Promise<T[]> {
+  const reranker = getReranker(config.reranker);
+  if (!reranker || chunks.length === 0) {
+    return chunks;
   }
   
-  // Normalize
-  const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-  return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
+  try {
+    const scores = await reranker.rerank(query, chunks.map(item => item.embedding.content));
+    // Stable sort: ties keep their retrieval order
+    return chunks
+      .map((item, index) => ({ ...item, rerankScore: scores[index] ?? 0 }))
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  } catch (error) {
+    console.warn("[RAG] Reranking failed, keeping retrieval order:", error);
+    return chunks;
+  }
+}
+
+/**
+ * Rank an agent's chunks against a query
+ * Returns the best `topK` chunks reaching `similarityThreshold`; see
+ * `scoreCandidates` for how they are ranked. With variants, the passing
+ * chunks of every phrasing are merged by reciprocal rank fusion. With a
+ * reranker, `rerankCandidates` chunks are fetched and reranked.
+ */
+export async function retrieveChunks(
+  agentId: number,
+  query: string,
+  config: RagConfiguration,
+  options: RetrievalOptions = {}
+): Promise<RetrievedChunk[]> {
+  const firstStage = await retrieveFirstStage(agentId, query, config, options);
+  const reranked = await rerankChunks(query, firstStage, config);
+  return reranked.slice(0, config.topK || 3);
+}
+
+async function retrieveFirstStage(
+  agentId: number,
+  query: string,
+  config: RagConfiguration,
+  options: RetrievalOptions
+): Promise<RetrievedChunk[]> {
+  const stageConfig = { ...config, topK: getFirstStageCount(config) };
+  const variants = options.variants ?? [];
+  const candidates = await scoreCandidates(agentId, query, stageConfig, {
+    embeddingText: options.embeddingText,
+    queryEmbedding: options.queryEmbedding,
+    filter: options.filter,
+  });
+  if (variants.length === 0) {
+    return candidates
+      .filter(item => item.rank !== null)
+      .map(({ embedding, vectorScore, keywordScore, score }) => ({ embedding, vectorScore, keywordScore, score }));
+  }
+  
+  const rankings = [candidates];
+  for (const variant of variants) {
+    rankings.push(await scoreCandidates(agentId, variant, stageConfig, { filter: options.filter }));
+  }
+  return fuseVariantRankings(rankings).slice(0, stageConfig.topK);
+}
+
+/**
+ * Merge the candidates of a query and its variants by reciprocal rank
+ * fusion of each phrasing's ranked candidates, best first
+ */
+export function fuseVariantRankings(rankings: ScoredCandidate[][]): RetrievedChunk[] {
+  const fused = new Map<number, RetrievedChunk>();
+  for (const ranking of rankings) {
+    // Ranked candidates come first, in rank order
+    ranking
+      .filter(item => item.passedThreshold || item.keywordScore > 0)
+      .forEach((item, rank) => {
+        const score = 1 / (RRF_K + rank + 1);
+        const existing = fused.get(item.embedding.id);
+        fused.set(item.embedding.id, {
+          embedding: item.embedding,
+          vectorScore: Math.max(existing?.vectorScore ?? 0, item.vectorScore),
+          keywordScore: Math.max(existing?.keywordScore ?? 0, item.keywordScore),
+          score: (existing?.score ?? 0) + score,
+        });
+      });
+  }
+  
+  return Array.from(fused.values())
+    .sort((a, b) => b.score - a.score || b.vectorScore - a.vectorScore);
+}
+
+/**
+ * Context retrieved for a query, with the sources it was built from
+ */
+export type RetrievedContext = {
+  /** Numbered, labelled chunks ready for the prompt */
+  context: string;
+  sources: ContextSource[];
+};
+
+async function getDocumentNames(agentId: number): Promise<Map<number, string>> {
+  const documents = await db.getTrainingDocumentsByAgentId(agentId);
+  return new Map(documents.map(document => [document.id, document.fileName]));
+}
+
+/**
+ * Label retrieved chunks with the documents they came from
+ */
+export function buildRetrievedContext(results: RetrievedChunk[], documentNames: Map<number, string>): RetrievedContext {
+  const sources: ContextSource[] = results.map((item, index) => ({
+    label: index + 1,
+    documentId: item.embedding.documentId,
+    documentName: documentNames.get(item.embedding.documentId) ?? `Document ${item.embedding.documentId}`,
+    chunkIndex: item.embedding.chunkIndex,
+    page: typeof item.embedding.metadata?.page === "number" ? item.embedding.metadata.page : undefined,
+    score: item.score,
+    rerankScore: item.rerankScore,
+    content: item.embedding.content,
+  }));
+  
+  return { context: formatContextSources(sources), sources };
 }
 
 /**
  * Retrieve relevant context from training documents using RAG
+ * Chunks are labelled with their document name and chunk index so the
+ * model can cite them.
  */
 export async function retrieveRelevantContext(
   agentId: number,
-  query: string
-): Promise<string | null> {
+  query: string,
+  options: RetrievalOptions = {}
+): Promise<RetrievedContext | null> {
   try {
     // Get RAG configuration
     const config = await db.getOrCreateRagConfig(agentId);
@@ -74,43 +454,14 @@ export async function retrieveRelevantContext(
       return null;
     }
     
-    // Get all embeddings for this agent
-    const embeddings = await db.getVectorEmbeddingsByAgentId(agentId);
+    const results = await retrieveChunks(agentId, query, config, options);
     
-    if (embeddings.length === 0) {
+    if (results.length === 0) {
       return null;
     }
     
-    // Create embedding for the query
-    // In production, use OpenAI's embedding API
-    const queryEmbedding = createSimpleEmbedding(query);
-    
-    // Calculate similarity scores
-    const scoredEmbeddings = embeddings
-      .map(embedding => {
-        if (!embedding.embedding || !Array.isArray(embedding.embedding)) {
-          return { embedding, score: 0 };
-        }
-        
-        const score = cosineSimilarity(queryEmbedding, embedding.embedding);
-        return { embedding, score };
-      })
-      .filter(item => {
-        const threshold = parseFloat(config.similarityThreshold || "0.7");
-        return item.score >= threshold;
-      })
-      .sort((a, b) => b.score - a.score)
-      .slice(0, config.topK || 3);
-    
-    if (scoredEmbeddings.length === 0) {
-      return null;
-    }
-    
-    // Build context from top results
-    const contextChunks = scoredEmbeddings.map(item => item.embedding.content);
-    const context = contextChunks.join("\n\n");
-    
-    return context;
+    const documentNames = await getDocumentNames(agentId);
+    return buildRetrievedContext(results, documentNames);
   } catch (error) {
     console.error("[RAG] Error retrieving context:", error);
     return null;
@@ -121,89 +472,235 @@ export async function retrieveRelevantContext(
  * Chunk text into smaller pieces for embedding
  */
 export function chunkText(text: string, chunkSize: number = 512, overlap: number = 50): string[] {
-  const chunks: string[] = [];
-  let start = 0;
+  return chunkFixed(text, chunkSize, overlap).map(chunk => chunk.text);
+}
+
+/**
+ * Fields of a training document needed to chunk and embed it
+ */
+export type ChunkableDocument = Pick<
+  TrainingDocument,
+  "id" | "agentId" | "fileName" | "fileType" | "content" | "metadata" | "tags"
+>;
+
+/**
+ * SHA-256 of a document's text, used to detect changed content
+ */
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Compare JSON values ignoring key order; MySQL reorders the keys of
+ * stored JSON objects
+ */
+export function sameJson(a: unknown, b: unknown): boolean {
+  const normalize = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(normalize);
+    if (value && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0)).map(([k, v]) => [k, normalize(v)])
+      );
+    }
+    return value;
+  };
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+type PreparedChunk = {
+  text: string;
+  metadata: Record<string, unknown>;
+};
+
+/**
+ * Split a document into chunks with the metadata they are stored with:
+ * strategy details (heading path, CSV rows) and, for extracted PDFs, the
+ * page(s) they came from or, for JSON documents, their record and its
+ * mapped metadata fields
+ */
+function prepareChunks(document: ChunkableDocument, settings: IndexSettings, embeddingModel: string): PreparedChunk[] {
+  const strategy = resolveChunkingStrategy(settings.chunkingStrategy, document);
+  const chunks = chunkDocument(document.content, strategy, settings);
+  const pages = getDocumentPages(document);
+  const records = getDocumentRecords(document);
   
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    const chunk = text.slice(start, end);
-    chunks.push(chunk);
+  return chunks.map(chunk => {
+    const metadata: Record<string, unknown> = {
+      ...chunk.metadata,
+      chunkSize: chunk.text.length,
+      chunkingStrategy: strategy,
+      embeddingModel,
+    };
     
-    // Move start position with overlap
-    const nextStart = end - overlap;
+    if (pages?.length) {
+      const page = findPageAt(pages, chunk.start);
+      const pageEnd = findPageAt(pages, Math.max(chunk.end - 1, chunk.start));
+      metadata.page = page;
+      if (pageEnd !== page) metadata.pageEnd = pageEnd;
+    }
     
-    // Avoid infinite loop if overlap is too large or we've reached the end
-    if (nextStart <= start || end >= text.length) {
-      break;
+    const record = records?.length ? findRecordAt(records, chunk.start) : undefined;
+    if (record) {
+      metadata.record = record.record;
+      if (record.fields) metadata.fields = record.fields;
     }
     
-    start = nextStart;
+    return { text: chunk.text, metadata };
+  });
+}
+
+/**
+ * Chunk a document and store its embeddings in the given index version
+ * Returns the number of chunks created
+ */
+export async function embedDocumentChunks(
+  document: ChunkableDocument,
+  settings: IndexSettings
+): Promise<number> {
+  // Create embeddings for all chunks (the provider batches requests)
+  const provider = getEmbeddingProvider(settings.embeddingModel);
+  const chunks = prepareChunks(document, settings, provider.model);
+  const embeddings = await provider.embed(chunks.map(chunk => chunk.text));
+  
+  for (let i = 0; i < chunks.length; i++) {
+    await db.createVectorEmbedding({
+      documentId: document.id,
+      agentId: document.agentId,
+      chunkIndex: i,
+      indexVersion: settings.indexVersion,
+      content: chunks[i].text,
+      embedding: embeddings[i],
+      metadata: chunks[i].metadata,
+      tags: document.tags ?? null,
+    });
   }
   
-  return chunks;
+  return chunks.length;
+}
+
+export type ChunkRefreshResult = {
+  chunkCount: number;
+  /** Chunks whose text was new and had to be embedded */
+  embedded: number;
+  /** Chunks kept as stored or re-stored with their previous embedding */
+  reused: number;
+  /** Stored chunks whose text no longer occurs in the document */
+  removed: number;
+};
+
+/**
+ * Bring a document's stored chunks in line with its changed content
+ * Chunks that are unchanged stay as they are; chunks whose text existed
+ * before reuse its embedding, so only new text is sent to the provider.
+ */
+export async function refreshDocumentChunks(
+  document: ChunkableDocument,
+  settings: IndexSettings
+): Promise<ChunkRefreshResult> {
+  const provider = getEmbeddingProvider(settings.embeddingModel);
+  const chunks = prepareChunks(document, settings, provider.model);
+  const existing = await db.getVectorEmbeddingsByDocumentId(document.id, settings.indexVersion);
+  
+  const existingByIndex = new Map(existing.map(row => [row.chunkIndex, row]));
+  const embeddingByText = new Map<string, number[]>();
+  for (const row of existing) {
+    if (Array.isArray(row.embedding)) embeddingByText.set(row.content, row.embedding);
+  }
+  
+  const kept = new Set<number>();
+  const pending: { index: number; chunk: PreparedChunk }[] = [];
+  chunks.forEach((chunk, index) => {
+    const row = existingByIndex.get(index);
+    if (row && row.content === chunk.text && sameJson(row.metadata, chunk.metadata)) {
+      kept.add(row.id);
+    } else {
+      pending.push({ index, chunk });
+    }
+  });
+  
+  const toEmbed = Array.from(new Set(
+    pending.map(item => item.chunk.text).filter(text => !embeddingByText.has(text))
+  ));
+  const fresh = toEmbed.length > 0 ? await provider.embed(toEmbed) : [];
+  toEmbed.forEach((text, i) => embeddingByText.set(text, fresh[i]));
+  
+  const stale = existing.filter(row => !kept.has(row.id)).map(row => row.id);
+  await db.deleteVectorEmbeddingsByIds(document.agentId, settings.indexVersion, stale);
+  
+  for (const { index, chunk } of pending) {
+    await db.createVectorEmbedding({
+      documentId: document.id,
+      agentId: document.agentId,
+      chunkIndex: index,
+      indexVersion: settings.indexVersion,
+      content: chunk.text,
+      embedding: embeddingByText.get(chunk.text),
+      metadata: chunk.metadata,
+      tags: document.tags ?? null,
+    });
+  }
+  
+  // Kept chunks follow tag changes too
+  if (existing.some(row => kept.has(row.id) && !sameJson(row.tags ?? null, document.tags ?? null))) {
+    await db.updateVectorEmbeddingTagsByDocumentId(document.id, document.tags ?? null);
+  }
+  
+  const newTexts = new Set(toEmbed);
+  const currentTexts = new Set(chunks.map(chunk => chunk.text));
+  const embedded = pending.filter(item => newTexts.has(item.chunk.text)).length;
+  return {
+    chunkCount: chunks.length,
+    embedded,
+    reused: chunks.length - embedded,
+    removed: existing.filter(row => !currentTexts.has(row.content)).length,
+  };
 }
 
 /**
  * Process a document for RAG training
- * Creates chunks and generates embeddings
+ * Creates chunks and generates embeddings in the active index.
+ * Safe to retry: chunks left over from a failed attempt are replaced.
+ * Marking the document `failed` is left to the ingestion queue, which
+ * knows whether another attempt will follow.
  */
-export async function processDocumentForRAG(
-  documentId: number,
-  agentId: number,
-  content: string
-): Promise<void> {
+export async function processDocumentForRAG(document: ChunkableDocument): Promise<void> {
   try {
     // Get RAG configuration
-    const config = await db.getOrCreateRagConfig(agentId);
+    const config = await db.getOrCreateRagConfig(document.agentId);
+    const settings = getActiveIndexSettings(config);
     
     // Update document status
-    await db.updateTrainingDocument(documentId, { status: "processing" });
+    await db.updateTrainingDocument(document.id, { status: "processing" });
+    await db.deleteVectorEmbeddingsByDocumentId(document.id, settings.indexVersion);
     
-    // Chunk the content
-    const chunks = chunkText(content, config.chunkSize || 512, config.chunkOverlap || 50);
-    
-    // Create embeddings for each chunk
-    // In production, this would use OpenAI's embedding API in batches
-    for (let i = 0; i < chunks.length; i++) {
-      const chunk = chunks[i];
-      const embedding = createSimpleEmbedding(chunk);
-      
-      await db.createVectorEmbedding({
-        documentId,
-        agentId,
-        chunkIndex: i,
-        content: chunk,
-        embedding,
-        metadata: {
-          chunkSize: chunk.length,
-        },
-      });
-    }
+    const chunkCount = await embedDocumentChunks(document, settings);
     
     // Update document status
-    await db.updateTrainingDocument(documentId, {
+    await db.updateTrainingDocument(document.id, {
       status: "completed",
-      chunkCount: chunks.length,
+      chunkCount,
+      contentHash: hashContent(document.content),
+      errorMessage: null,
     });
   } catch (error) {
     console.error("[RAG] Error processing document:", error);
-    await db.updateTrainingDocument(documentId, { status: "failed" });
     throw error;
   }
 }
 
 /**
  * Build augmented prompt with retrieved context
+ * The model is asked to cite the numbered sources it uses.
  */
 export function buildAugmentedPrompt(
   originalPrompt: string,
   context: string
 ): string {
-  return `Context information from training documents:
+  return `Context information from training documents, one numbered source per block:
 ---
 ${context}
 ---
 
-Using the context above, please respond to the following:
+Using the context above, please respond to the following. Cite the sources you use with their numbers in square brackets, e.g. [1] or [1, 2], right after the statements they support. Do not cite sources you did not use.
 ${originalPrompt}`;
 }
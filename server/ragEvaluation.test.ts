@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration, RagEvalQuestion, RagEvalRun, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getOrCreateRagConfig: vi.fn(),
+  getVectorEmbeddingsByAgentId: vi.fn(),
+  getRagEvalRunById: vi.fn(),
+  getRagEvalQuestionsBySetId: vi.fn(),
+  updateRagEvalRun: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { embedLocally } from "./embeddings";
+import { runEvaluation, scoreRetrieval } from "./ragEvaluation";
+
+describe("scoreRetrieval", () => {
+  it("scores a relevant first hit as perfect", () => {
+    const metrics = scoreRetrieval([{ documentId: 1, chunkIndex: 0 }], [{ documentId: 1 }], 3);
+
+    expect(metrics).toEqual({ recall: 1, reciprocalRank: 1, ndcg: 1 });
+  });
+
+  it("uses the rank of the first relevant chunk for the reciprocal rank", () => {
+    const metrics = scoreRetrieval(
+      [{ documentId: 2, chunkIndex: 0 }, { documentId: 1, chunkIndex: 4 }],
+      [{ documentId: 1 }],
+      3
+    );
+
+    expect(metrics.recall).toBe(1);
+    expect(metrics.reciprocalRank).toBe(0.5);
+    expect(metrics.ndcg).toBeCloseTo(1 / Math.log2(3));
+  });
+
+  it("counts several chunks of one expected document once", () => {
+    const metrics = scoreRetrieval(
+      [{ documentId: 1, chunkIndex: 0 }, { documentId: 1, chunkIndex: 1 }],
+      [{ documentId: 1 }, { documentId: 2 }],
+      2
+    );
+
+    expect(metrics.recall).toBe(0.5);
+    expect(metrics.ndcg).toBeCloseTo(1 / (1 + 1 / Math.log2(3)));
+  });
+
+  it("matches chunk-level expectations exactly and ignores chunks past k", () => {
+    const metrics = scoreRetrieval(
+      [{ documentId: 1, chunkIndex: 0 }, { documentId: 1, chunkIndex: 2 }],
+      [{ documentId: 1, chunkIndex: 2 }],
+      1
+    );
+
+    expect(metrics).toEqual({ recall: 0, reciprocalRank: 0, ndcg: 0 });
+  });
+});
+
+describe("runEvaluation", () => {
+  const texts = [
+    "Refunds are issued within thirty days of purchase.",
+    "Our office is closed on public holidays.",
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ENV.vectorIndexEnabled = false;
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue({
+      agentId: 1,
+      enabled: 1,
+      topK: 3,
+      chunkSize: 500,
+      chunkOverlap: 50,
+      chunkingStrategy: "sentence",
+      similarityThreshold: "0.20",
+      keywordWeight: "0.00",
+      embeddingModel: "local-hash",
+      indexedEmbeddingModel: "local-hash",
+      indexVersion: 0,
+    } as RagConfiguration);
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue(texts.map((content, index) => ({
+      id: index + 1,
+      documentId: index + 10,
+      agentId: 1,
+      chunkIndex: 0,
+      indexVersion: 0,
+      content,
+      embedding: embedLocally(content),
+      metadata: null,
+      createdAt: new Date(),
+    })) as VectorEmbedding[]);
+    vi.mocked(db.getRagEvalRunById).mockResolvedValue({
+      id: 5,
+      setId: 2,
+      agentId: 1,
+      status: "pending",
+      k: 1,
+    } as RagEvalRun);
+    vi.mocked(db.getRagEvalQuestionsBySetId).mockResolvedValue([
+      { id: 1, setId: 2, question: "When are refunds issued?", expected: [{ documentId: 10 }] },
+      { id: 2, setId: 2, question: "When are refunds issued?", expected: [{ documentId: 11 }] },
+    ] as RagEvalQuestion[]);
+  });
+
+  it("stores per-question results and averaged metrics", async () => {
+    await runEvaluation(5);
+
+    const update = vi.mocked(db.updateRagEvalRun).mock.calls.at(-1)![1];
+    expect(update).toMatchObject({
+      status: "completed",
+      questionCount: 2,
+      recallAtK: "0.5000",
+      mrr: "0.5000",
+      ndcg: "0.5000",
+    });
+    expect(update.results).toHaveLength(2);
+    expect(update.results![0]).toMatchObject({ questionId: 1, recall: 1, retrieved: [{ documentId: 10 }] });
+  });
+
+  it("marks the run failed when retrieval throws", async () => {
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockRejectedValue(new Error("boom"));
+
+    await expect(runEvaluation(5)).rejects.toThrow("boom");
+    expect(db.updateRagEvalRun).toHaveBeenLastCalledWith(5, expect.objectContaining({ status: "failed", error: "boom" }));
+  });
+
+  it("skips runs that already finished", async () => {
+    vi.mocked(db.getRagEvalRunById).mockResolvedValue({ id: 5, status: "completed" } as RagEvalRun);
+
+    await runEvaluation(5);
+
+    expect(db.updateRagEvalRun).not.toHaveBeenCalled();
+  });
+});
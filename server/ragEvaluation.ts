@@ -0,0 +1,191 @@
+/**
+ * Retrieval quality evaluation
+ * Runs the questions of a golden set through retrieval against an agent's
+ * current index and scores what comes back with recall@k, MRR and nDCG@k,
+ * so RAG settings can be compared run by run.
+ */
+
+import * as db from "./db";
+import type { RagConfiguration, RagEvalExpectation, RagEvalRun } from "../drizzle/schema";
+import { enqueueJob } from "./ingestionQueue";
+import { getActiveIndexSettings, retrieveChunks } from "./rag";
+
+export const EVALUATE_JOB_TYPE = "evaluate_rag";
+
+export type RetrievedRef = {
+  documentId: number;
+  chunkIndex: number;
+};
+
+export type RetrievalMetrics = {
+  /** Share of expected documents/chunks found in the top k */
+  recall: number;
+  /** 1 / rank of the first relevant chunk; 0 when none is retrieved */
+  reciprocalRank: number;
+  /** Binary-relevance nDCG over the top k */
+  ndcg: number;
+};
+
+function satisfies(chunk: RetrievedRef, expectation: RagEvalExpectation): boolean {
+  return chunk.documentId === expectation.documentId &&
+    (expectation.chunkIndex === undefined || expectation.chunkIndex === chunk.chunkIndex);
+}
+
+/**
+ * Score a ranked retrieval result against the expected documents/chunks
+ * A retrieved chunk is relevant when it satisfies an expectation no
+ * earlier chunk satisfied, so several chunks of one expected document
+ * count once.
+ */
+export function scoreRetrieval(
+  retrieved: RetrievedRef[],
+  expected: RagEvalExpectation[],
+  k: number
+): RetrievalMetrics {
+  if (expected.length === 0) {
+    return { recall: 0, reciprocalRank: 0, ndcg: 0 };
+  }
+
+  const found = new Set<number>();
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  retrieved.slice(0, k).forEach((chunk, index) => {
+    const matches = expected
+      .map((expectation, i) => (satisfies(chunk, expectation) ? i : -1))
+      .filter(i => i >= 0 && !found.has(i));
+    if (matches.length === 0) return;
+
+    matches.forEach(i => found.add(i));
+    if (reciprocalRank === 0) reciprocalRank = 1 / (index + 1);
+    dcg += 1 / Math.log2(index + 2);
+  });
+
+  let idcg = 0;
+  for (let i = 0; i < Math.min(expected.length, k); i++) {
+    idcg += 1 / Math.log2(i + 2);
+  }
+
+  return {
+    recall: found.size / expected.length,
+    reciprocalRank,
+    ndcg: idcg > 0 ? dcg / idcg : 0,
+  };
+}
+
+/**
+ * RAG settings recorded with a run
+ */
+function describeConfig(config: RagConfiguration): Record<string, unknown> {
+  const settings = getActiveIndexSettings(config);
+  return {
+    chunkSize: settings.chunkSize,
+    chunkOverlap: settings.chunkOverlap,
+    chunkingStrategy: settings.chunkingStrategy,
+    embeddingModel: settings.embeddingModel,
+    indexVersion: settings.indexVersion,
+    topK: config.topK || 3,
+    similarityThreshold: config.similarityThreshold,
+    keywordWeight: config.keywordWeight,
+    reranker: config.reranker ?? null,
+    rerankCandidates: config.reranker ? config.rerankCandidates : null,
+  };
+}
+
+/**
+ * Queue an evaluation of a question set; k defaults to the agent's topK
+ */
+export async function startEvaluationRun(setId: number, k?: number): Promise<RagEvalRun> {
+  const set = await db.getRagEvalSetById(setId);
+  if (!set) {
+    throw new Error("Eval set not found");
+  }
+
+  const questions = await db.getRagEvalQuestionsBySetId(setId);
+  if (questions.length === 0) {
+    throw new Error("Add questions to the eval set before running it");
+  }
+
+  const config = await db.getOrCreateRagConfig(set.agentId);
+  const run = await db.createRagEvalRun({
+    setId,
+    agentId: set.agentId,
+    status: "pending",
+    k: k ?? (config.topK || 3),
+    config: describeConfig(config),
+    questionCount: questions.length,
+  });
+
+  await enqueueJob({
+    type: EVALUATE_JOB_TYPE,
+    agentId: set.agentId,
+    payload: { runId: run.id },
+    // The run tracks its own failure
+    maxAttempts: 1,
+  });
+
+  return run;
+}
+
+/**
+ * Retrieve the top k chunks for every question of the run's set and
+ * store per-question and average metrics
+ */
+export async function runEvaluation(runId: number): Promise<void> {
+  const run = await db.getRagEvalRunById(runId);
+  if (!run || (run.status !== "pending" && run.status !== "running")) return;
+
+  // Measure the index as it is when the run starts
+  const config = await db.getOrCreateRagConfig(run.agentId);
+  await db.updateRagEvalRun(runId, {
+    status: "running",
+    startedAt: new Date(),
+    config: describeConfig(config),
+  });
+
+  try {
+    const questions = await db.getRagEvalQuestionsBySetId(run.setId);
+    const results: Record<string, unknown>[] = [];
+    const totals = { recall: 0, reciprocalRank: 0, ndcg: 0 };
+
+    for (const question of questions) {
+      const chunks = await retrieveChunks(run.agentId, question.question, { ...config, topK: run.k });
+      const retrieved = chunks.map(item => ({
+        documentId: item.embedding.documentId,
+        chunkIndex: item.embedding.chunkIndex,
+        score: item.score,
+        rerankScore: item.rerankScore,
+      }));
+      const metrics = scoreRetrieval(retrieved, question.expected, run.k);
+
+      totals.recall += metrics.recall;
+      totals.reciprocalRank += metrics.reciprocalRank;
+      totals.ndcg += metrics.ndcg;
+      results.push({
+        questionId: question.id,
+        question: question.question,
+        expected: question.expected,
+        retrieved,
+        ...metrics,
+      });
+    }
+
+    const count = Math.max(questions.length, 1);
+    await db.updateRagEvalRun(runId, {
+      status: "completed",
+      questionCount: questions.length,
+      recallAtK: (totals.recall / count).toFixed(4),
+      mrr: (totals.reciprocalRank / count).toFixed(4),
+      ndcg: (totals.ndcg / count).toFixed(4),
+      results,
+      completedAt: new Date(),
+    });
+  } catch (error) {
+    await db.updateRagEvalRun(runId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+    throw error;
+  }
+}
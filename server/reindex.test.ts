@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration, RagIndexJob, TrainingDocument } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getRagIndexJobById: vi.fn(),
+  updateRagIndexJob: vi.fn(),
+  getTrainingDocumentsByAgentId: vi.fn(),
+  updateTrainingDocument: vi.fn(),
+  createVectorEmbedding: vi.fn(),
+  updateRagConfig: vi.fn(),
+  deleteStaleVectorEmbeddings: vi.fn(),
+  deleteVectorEmbeddingsByIndexVersion: vi.fn(),
+  deleteVectorEmbeddingsByDocumentId: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+import * as db from "./db";
+import { needsReindex, runReindexJob } from "./reindex";
+
+const baseConfig = {
+  id: 1,
+  agentId: 1,
+  enabled: 1,
+  chunkSize: 512,
+  chunkOverlap: 50,
+  chunkingStrategy: "fixed",
+  topK: 3,
+  similarityThreshold: "0.7",
+  embeddingModel: "text-embedding-ada-002",
+  indexVersion: 0,
+  indexedEmbeddingModel: "text-embedding-ada-002",
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as RagConfiguration;
+
+function makeJob(status: RagIndexJob["status"]): RagIndexJob {
+  return {
+    id: 7,
+    agentId: 1,
+    status,
+    targetVersion: 2,
+    embeddingModel: "local-hash",
+    chunkSize: 64,
+    chunkOverlap: 0,
+    chunkingStrategy: "fixed",
+    totalDocuments: 0,
+    processedDocuments: 0,
+    failedDocuments: 0,
+    error: null,
+    startedAt: null,
+    completedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+const documents = [
+  { id: 11, agentId: 1, content: "First document about refunds." },
+  { id: 12, agentId: 1, content: "Second document about shipping." },
+] as TrainingDocument[];
+
+describe("reindex", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("needsReindex", () => {
+    it("detects chunking and embedding model changes", () => {
+      expect(needsReindex(baseConfig, { ...baseConfig, chunkSize: 1024 })).toBe(true);
+      expect(needsReindex(baseConfig, { ...baseConfig, chunkOverlap: 0 })).toBe(true);
+      expect(needsReindex(baseConfig, { ...baseConfig, chunkingStrategy: "markdown" })).toBe(true);
+      expect(needsReindex(baseConfig, { ...baseConfig, embeddingModel: "local-hash" })).toBe(true);
+    });
+
+    it("ignores retrieval-only changes", () => {
+      expect(needsReindex(baseConfig, { ...baseConfig, topK: 5, similarityThreshold: "0.5" })).toBe(false);
+    });
+  });
+
+  describe("runReindexJob", () => {
+    it("embeds every document into the new version before swapping it in", async () => {
+      vi.mocked(db.getRagIndexJobById)
+        .mockResolvedValueOnce(makeJob("pending"))
+        .mockResolvedValue(makeJob("running"));
+      vi.mocked(db.getTrainingDocumentsByAgentId)
+        .mockResolvedValueOnce(documents)
+        .mockResolvedValue(documents);
+
+      await runReindexJob(7);
+
+      const created = vi.mocked(db.createVectorEmbedding).mock.calls.map(([row]) => row);
+      expect(created.length).toBeGreaterThan(0);
+      expect(created.every(row => row.indexVersion === 2)).toBe(true);
+
+      expect(db.updateTrainingDocument).toHaveBeenCalledWith(11, { status: "processing" });
+      expect(db.updateTrainingDocument).toHaveBeenCalledWith(
+        12,
+        expect.objectContaining({ status: "completed" })
+      );
+      expect(db.updateRagConfig).toHaveBeenCalledWith(1, {
+        indexVersion: 2,
+        indexedEmbeddingModel: "local-hash",
+      });
+      expect(db.deleteStaleVectorEmbeddings).toHaveBeenCalledWith(1, 2);
+      expect(db.updateRagIndexJob).toHaveBeenLastCalledWith(
+        7,
+        expect.objectContaining({ status: "completed" })
+      );
+    });
+
+    it("embeds documents edited while the job runs again before the swap", async () => {
+      const edited = [{ ...documents[0], content: "Refunds now take 14 days." }, documents[1]] as TrainingDocument[];
+      vi.mocked(db.getRagIndexJobById)
+        .mockResolvedValueOnce(makeJob("pending"))
+        .mockResolvedValue(makeJob("running"));
+      vi.mocked(db.getTrainingDocumentsByAgentId)
+        .mockResolvedValueOnce(documents)
+        .mockResolvedValue(edited);
+
+      await runReindexJob(7);
+
+      expect(db.deleteVectorEmbeddingsByDocumentId).toHaveBeenCalledTimes(1);
+      expect(db.deleteVectorEmbeddingsByDocumentId).toHaveBeenCalledWith(11, 2);
+      const created = vi.mocked(db.createVectorEmbedding).mock.calls.map(([row]) => row);
+      const redone = created.findIndex(row => row.content.includes("14 days"));
+      expect(redone).toBeGreaterThan(-1);
+      expect(created[redone].indexVersion).toBe(2);
+      expect(vi.mocked(db.deleteVectorEmbeddingsByDocumentId).mock.invocationCallOrder[0])
+        .toBeLessThan(vi.mocked(db.createVectorEmbedding).mock.invocationCallOrder[redone]);
+      expect(vi.mocked(db.createVectorEmbedding).mock.invocationCallOrder[redone])
+        .toBeLessThan(vi.mocked(db.updateRagConfig).mock.invocationCallOrder[0]);
+      expect(db.updateRagIndexJob).toHaveBeenCalledWith(7, { processedDocuments: 2, failedDocuments: 0 });
+    });
+
+    it("keeps the old index when the job is cancelled", async () => {
+      vi.mocked(db.getRagIndexJobById)
+        .mockResolvedValueOnce(makeJob("pending"))
+        .mockResolvedValue(makeJob("cancelled"));
+      vi.mocked(db.getTrainingDocumentsByAgentId).mockResolvedValue(documents);
+
+      await runReindexJob(7);
+
+      expect(db.createVectorEmbedding).not.toHaveBeenCalled();
+      expect(db.updateRagConfig).not.toHaveBeenCalled();
+      expect(db.deleteVectorEmbeddingsByIndexVersion).toHaveBeenCalledWith(1, 2);
+    });
+
+    it("skips jobs that are no longer pending", async () => {
+      vi.mocked(db.getRagIndexJobById).mockResolvedValue(makeJob("completed"));
+
+      await runReindexJob(7);
+
+      expect(db.updateRagIndexJob).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Re-index jobs for RAG
+ * Rebuilds an agent's embeddings after its chunking or embedding settings
+ * change. The new index is written under a fresh `indexVersion` while
+ * retrieval keeps reading the previous one, and is swapped in only once
+ * every document has been processed. Documents edited after the job
+ * embedded them are embedded again before the swap, since their edits
+ * only reach the previous version.
+ */
+
+import * as db from "./db";
+import type { InsertRagConfiguration, RagConfiguration, RagIndexJob, TrainingDocument } from "../drizzle/schema";
+import { ensureDocumentText } from "./documentExtraction";
+import { DEFAULT_EMBEDDING_MODEL } from "./embeddings";
+import { enqueueJob } from "./ingestionQueue";
+import { embedDocumentChunks, getActiveIndexSettings, sameJson, type IndexSettings } from "./rag";
+
+export const REINDEX_JOB_TYPE = "reindex";
+
+/**
+ * Whether a config change invalidates the existing embeddings
+ */
+export function needsReindex(before: RagConfiguration, after: RagConfiguration): boolean {
+  return (
+    before.chunkSize !== after.chunkSize ||
+    before.chunkOverlap !== after.chunkOverlap ||
+    before.chunkingStrategy !== after.chunkingStrategy ||
+    before.embeddingModel !== after.embeddingModel
+  );
+}
+
+/**
+ * Apply a RAG config update and start a re-index job when needed
+ */
+export async function updateRagConfigAndReindex(
+  agentId: number,
+  data: Partial<InsertRagConfiguration>
+): Promise<RagConfiguration | undefined> {
+  const before = await db.getOrCreateRagConfig(agentId);
+
+  // Pin the model of the index being served before the config moves on
+  const update = before.indexedEmbeddingModel
+    ? data
+    : { ...data, indexedEmbeddingModel: getActiveIndexSettings(before).embeddingModel };
+
+  const after = await db.updateRagConfig(agentId, update);
+  if (after && needsReindex(before, after)) {
+    await startReindexJob(agentId);
+  }
+
+  return after;
+}
+
+/**
+ * Queue a re-index for an agent, superseding any job already in flight
+ */
+export async function startReindexJob(agentId: number): Promise<RagIndexJob> {
+  const config = await db.getOrCreateRagConfig(agentId);
+  const latest = await db.getLatestRagIndexJob(agentId);
+
+  await db.cancelActiveRagIndexJobs(agentId);
+
+  const job = await db.createRagIndexJob({
+    agentId,
+    status: "pending",
+    targetVersion: Math.max(config.indexVersion, latest?.targetVersion ?? 0) + 1,
+    embeddingModel: config.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+    chunkSize: config.chunkSize || 512,
+    chunkOverlap: config.chunkOverlap || 50,
+    chunkingStrategy: config.chunkingStrategy,
+  });
+
+  await enqueueJob({
+    type: REINDEX_JOB_TYPE,
+    agentId,
+    payload: { indexJobId: job.id },
+    // The job tracks its own failure; a crashed worker is recovered by the queue
+    maxAttempts: 1,
+  });
+
+  return job;
+}
+
+// What a document was embedded from
+type IndexedDocument = Pick<TrainingDocument, "content" | "tags">;
+
+// New documents, and documents whose text or tags changed since they were embedded
+function needsIndexing(document: TrainingDocument, indexed: IndexedDocument | undefined): boolean {
+  return !indexed || document.content !== indexed.content || !sameJson(document.tags ?? null, indexed.tags ?? null);
+}
+
+async function isJobCancelled(jobId: number): Promise<boolean> {
+  const job = await db.getRagIndexJobById(jobId);
+  return !job || job.status === "cancelled";
+}
+
+/**
+ * Re-chunk and re-embed every training document of the job's agent
+ */
+export async function runReindexJob(jobId: number): Promise<void> {
+  const job = await db.getRagIndexJobById(jobId);
+  if (!job || (job.status !== "pending" && job.status !== "running")) return;
+
+  // A running job was interrupted by a crash; start its version over
+  if (job.status === "running") {
+    await db.deleteVectorEmbeddingsByIndexVersion(job.agentId, job.targetVersion);
+  }
+
+  const settings: IndexSettings = {
+    chunkSize: job.chunkSize,
+    chunkOverlap: job.chunkOverlap,
+    chunkingStrategy: job.chunkingStrategy,
+    embeddingModel: job.embeddingModel,
+    indexVersion: job.targetVersion,
+  };
+
+  await db.updateRagIndexJob(jobId, { status: "running", startedAt: new Date() });
+
+  try {
+    const indexed = new Map<number, IndexedDocument>();
+    const failed = new Set<number>();
+
+    // Keep going until every document is embedded as it currently is, so
+    // uploads and edits that land while the job runs reach the new index too
+    while (true) {
+      const documents = (await db.getTrainingDocumentsByAgentId(job.agentId))
+        .filter(document => needsIndexing(document, indexed.get(document.id)));
+      if (documents.length === 0) break;
+
+      const added = documents.filter(document => !indexed.has(document.id)).length;
+      await db.updateRagIndexJob(jobId, { totalDocuments: indexed.size + added });
+
+      for (const document of documents) {
+        if (await isJobCancelled(jobId)) {
+          await db.deleteVectorEmbeddingsByIndexVersion(job.agentId, job.targetVersion);
+          return;
+        }
+
+        // Edited since it was embedded: replace its chunks in the new version
+        if (indexed.has(document.id)) {
+          await db.deleteVectorEmbeddingsByDocumentId(document.id, job.targetVersion);
+        }
+        indexed.set(document.id, document);
+        await db.updateTrainingDocument(document.id, { status: "processing" });
+
+        try {
+          const extracted = await ensureDocumentText(document);
+          indexed.set(document.id, extracted);
+          const chunkCount = await embedDocumentChunks(extracted, settings);
+          failed.delete(document.id);
+          await db.updateTrainingDocument(document.id, {
+            status: "completed",
+            chunkCount,
+            errorMessage: null,
+          });
+        } catch (error) {
+          console.error(`[RAG] Re-index failed for document ${document.id}:`, error);
+          failed.add(document.id);
+          await db.updateTrainingDocument(document.id, {
+            status: "failed",
+            errorMessage: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        await db.updateRagIndexJob(jobId, {
+          processedDocuments: indexed.size,
+          failedDocuments: failed.size,
+        });
+      }
+    }
+
+    if (await isJobCancelled(jobId)) {
+      await db.deleteVectorEmbeddingsByIndexVersion(job.agentId, job.targetVersion);
+      return;
+    }
+
+    // Swap the new index in, then drop the old one
+    await db.updateRagConfig(job.agentId, {
+      indexVersion: job.targetVersion,
+      indexedEmbeddingModel: job.embeddingModel,
+    });
+    await db.deleteStaleVectorEmbeddings(job.agentId, job.targetVersion);
+    await db.updateRagIndexJob(jobId, { status: "completed", completedAt: new Date() });
+  } catch (error) {
+    await db.deleteVectorEmbeddingsByIndexVersion(job.agentId, job.targetVersion);
+    await db.updateRagIndexJob(jobId, {
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: new Date(),
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getVectorEmbeddingsByAgentId: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { invokeLLM, type InvokeResult } from "./_core/llm";
+import { embedLocally } from "./embeddings";
+import { retrieveChunks } from "./rag";
+import { createLlmReranker, createLocalReranker, getReranker, registerReranker } from "./reranking";
+
+const reply = (content: string) => ({
+  choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+}) as InvokeResult;
+
+describe("rerankers", () => {
+  it("scores local relevance by query term coverage", async () => {
+    const scores = await createLocalReranker().rerank("reset my password", [
+      "To reset your password, open settings.",
+      "Passwords must be 12 characters.",
+    ]);
+
+    expect(scores).toEqual([2 / 3, 0]);
+  });
+
+  it("normalises LLM scores and zeroes skipped passages", async () => {
+    vi.mocked(invokeLLM).mockResolvedValue(reply(JSON.stringify({
+      scores: [{ index: 1, score: 8 }, { index: 0, score: 14 }, { index: 7, score: 5 }],
+    })));
+
+    const scores = await createLlmReranker().rerank("query", ["a", "b", "c"]);
+
+    expect(scores).toEqual([1, 0.8, 0]);
+  });
+
+  it("treats unknown names as reranking off", () => {
+    expect(getReranker(null)).toBeNull();
+    expect(getReranker("cross-encoder")).toBeNull();
+  });
+});
+
+describe("retrieveChunks with a reranker", () => {
+  const texts = [
+    "Reset links expire after one hour.",
+    "Billing runs on the first of the month.",
+    "Open settings and choose reset password to get a reset link.",
+  ];
+
+  const config = {
+    agentId: 1,
+    enabled: 1,
+    topK: 1,
+    similarityThreshold: "0.00",
+    keywordWeight: "0.00",
+    embeddingModel: "local-hash",
+    indexedEmbeddingModel: "local-hash",
+    indexVersion: 0,
+    reranker: null,
+    rerankCandidates: 3,
+  } as RagConfiguration;
+
+  beforeEach(() => {
+    ENV.vectorIndexEnabled = false;
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue(texts.map((content, index) => ({
+      id: index + 1,
+      documentId: 1,
+      agentId: 1,
+      chunkIndex: index,
+      indexVersion: 0,
+      content,
+      embedding: embedLocally(content),
+      metadata: null,
+      createdAt: new Date(),
+    })) as VectorEmbedding[]);
+  });
+
+  it("keeps the topK chunks the reranker scores highest", async () => {
+    registerReranker("billing-first", () => ({
+      name: "billing-first",
+      rerank: async (query, documents) => documents.map(document => (document.startsWith("Billing") ? 1 : 0.5)),
+    }));
+
+    const plain = await retrieveChunks(1, "how do I reset my password in settings", config);
+    const results = await retrieveChunks(1, "how do I reset my password in settings", { ...config, reranker: "billing-first" });
+
+    expect(plain[0].embedding.id).toBe(3);
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ embedding: { id: 2 }, rerankScore: 1 });
+  });
+
+  it("keeps the retrieval order when the reranker fails", async () => {
+    registerReranker("failing", () => ({
+      name: "failing",
+      rerank: async () => {
+        throw new Error("unavailable");
+      },
+    }));
+
+    const plain = await retrieveChunks(1, "reset link", config);
+    const results = await retrieveChunks(1, "reset link", { ...config, reranker: "failing" });
+
+    expect(results.map(item => item.embedding.id)).toEqual(plain.map(item => item.embedding.id));
+    expect(results[0].rerankScore).toBeUndefined();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Rerankers for retrieved chunks
+ * A reranker reads the query together with each candidate chunk and
+ * scores its relevance; retrieval over-fetches candidates by similarity
+ * and keeps the ones the reranker scores highest.
+ */
+
+import { invokeLLM } from "./_core/llm";
+import { tokenize } from "./keywordSearch";
+
+export type Reranker = {
+  /** Identifier stored in `ragConfigurations.reranker` */
+  name: string;
+  /** Relevance of each document to the query, 0-1, in input order */
+  rerank(query: string, documents: string[]): Promise<number[]>;
+};
+
+export const LLM_RERANKER = "llm";
+export const LOCAL_RERANKER = "local-overlap";
+
+export const DEFAULT_RERANK_CANDIDATES = 20;
+
+// Characters of each chunk shown to the LLM reranker
+const LLM_RERANK_CHUNK_CHARS = 1500;
+
+// ============ LLM RERANKER ============
+
+type RelevanceScores = {
+  scores: Array<{ index: number; score: number }>;
+};
+
+/**
+ * Relevance judged by the chat model in one call for all candidates,
+ * on a 0-10 scale returned as JSON
+ */
+export function createLlmReranker(): Reranker {
+  return {
+    name: LLM_RERANKER,
+    async rerank(query, documents) {
+      const passages = documents
+        .map((document, index) => `[${index}] ${document.slice(0, LLM_RERANK_CHUNK_CHARS)}`)
+        .join("\n\n");
+
+      const response = await invokeLLM({
+        messages: [
+          {
+            role: "system",
+            content: "Rate how well each passage answers the query, from 0 (unrelated) to 10 (fully answers it). Rate every passage by its index.",
+          },
+          { role: "user", content: `Query: ${query}\n\nPassages:\n${passages}` },
+        ],
+        outputSchema: {
+          name: "relevance_scores",
+          schema: {
+            type: "object",
+            properties: {
+              scores: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    index: { type: "integer" },
+                    score: { type: "number" },
+                  },
+                  required: ["index", "score"],
+                  additionalProperties: false,
+                },
+              },
+            },
+            required: ["scores"],
+            additionalProperties: false,
+          },
+          strict: true,
+        },
+      });
+
+      const content = response.choices[0]?.message?.content;
+      const parsed = JSON.parse(typeof content === "string" ? content : "{}") as Partial<RelevanceScores>;
+      if (!Array.isArray(parsed.scores)) {
+        throw new Error("Reranker returned no scores");
+      }
+
+      // Passages the model skipped score 0
+      const scores = new Array<number>(documents.length).fill(0);
+      for (const item of parsed.scores) {
+        if (Number.isInteger(item.index) && item.index >= 0 && item.index < documents.length) {
+          scores[item.index] = Math.min(Math.max(item.score / 10, 0), 1);
+        }
+      }
+      return scores;
+    },
+  };
+}
+
+// ============ LOCAL RERANKER ============
+
+/**
+ * Offline reranker for development and tests: the share of the query's
+ * distinct terms that appear in the chunk
+ */
+export function createLocalReranker(): Reranker {
+  return {
+    name: LOCAL_RERANKER,
+    async rerank(query, documents) {
+      const terms = Array.from(new Set(tokenize(query)));
+      if (terms.length === 0) return documents.map(() => 0);
+
+      return documents.map(document => {
+        const tokens = new Set(tokenize(document));
+        return terms.filter(term => tokens.has(term)).length / terms.length;
+      });
+    },
+  };
+}
+
+// ============ RERANKER SELECTION ============
+
+const rerankers = new Map<string, () => Reranker>([
+  [LLM_RERANKER, createLlmReranker],
+  [LOCAL_RERANKER, createLocalReranker],
+]);
+
+/**
+ * Make a reranker available under a name, e.g. a hosted cross-encoder
+ */
+export function registerReranker(name: string, create: () => Reranker): void {
+  rerankers.set(name, create);
+}
+
+export function listRerankers(): string[] {
+  return Array.from(rerankers.keys());
+}
+
+/**
+ * The reranker for a `ragConfigurations.reranker` value; null when
+ * reranking is off or the name is unknown
+ */
+export function getReranker(name?: string | null): Reranker | null {
+  if (!name) return null;
+  const create = rerankers.get(name);
+  return create ? create() : null;
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Agent, RagConfiguration, TrainingDocument, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getOrCreateRagConfig: vi.fn(),
+  getVectorEmbeddingsByAgentId: vi.fn(),
+  getTrainingDocumentsByAgentId: vi.fn(),
+  getQaPairsByAgentId: vi.fn(),
+  updateQaPair: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+vi.mock("./queryRewriting", () => ({ prepareRetrievalQuery: vi.fn() }));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { embedLocally } from "./embeddings";
+import { prepareRetrievalQuery } from "./queryRewriting";
+import { inspectRetrieval } from "./retrievalInspection";
+
+const texts = [
+  "Refunds are issued within thirty days of purchase.",
+  "Refund requests need the original order number.",
+  "Our office is closed on public holidays.",
+];
+
+const config = {
+  agentId: 1,
+  enabled: 1,
+  topK: 1,
+  similarityThreshold: "0.20",
+  keywordWeight: "0.00",
+  embeddingModel: "local-hash",
+  indexedEmbeddingModel: "local-hash",
+  indexVersion: 0,
+  qaThreshold: "0.90",
+  qaAnswerMode: "direct",
+} as RagConfiguration;
+
+const agent = {
+  id: 1,
+  model: "gemini-2.5-flash",
+  fallbackChain: null,
+  temperature: null,
+  maxTokens: null,
+  systemPrompt: "You are a support agent.",
+} as Agent;
+
+const { vectorIndexEnabled } = ENV;
+
+describe("inspectRetrieval", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // Exercise the exact full-scan path
+    ENV.vectorIndexEnabled = false;
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue(config);
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue(texts.map((content, index) => ({
+      id: index + 1,
+      documentId: 7,
+      agentId: 1,
+      chunkIndex: index,
+      indexVersion: 0,
+      content,
+      embedding: embedLocally(content),
+      metadata: null,
+      createdAt: new Date(),
+    })) as VectorEmbedding[]);
+    vi.mocked(db.getTrainingDocumentsByAgentId).mockResolvedValue([
+      { id: 7, fileName: "policies.md" } as TrainingDocument,
+    ]);
+    vi.mocked(db.getQaPairsByAgentId).mockResolvedValue([]);
+    vi.mocked(prepareRetrievalQuery).mockImplementation(async (_config, _history, query) => ({ query, options: {}, llmCalls: 0 }));
+  });
+
+  afterEach(() => {
+    ENV.vectorIndexEnabled = vectorIndexEnabled;
+  });
+
+  it("reports every candidate with its threshold outcome and rank", async () => {
+    const result = await inspectRetrieval(agent, "How do refunds work?");
+
+    expect(result.candidates).toHaveLength(3);
+    const [first, ...rest] = result.candidates;
+    expect(first).toMatchObject({ rank: 1, passedThreshold: true, documentName: "policies.md" });
+    expect(rest.every(candidate => candidate.rank === null)).toBe(true);
+
+    const holidays = result.candidates.find(candidate => candidate.chunkIndex === 2)!;
+    expect(holidays.passedThreshold).toBe(false);
+    expect(holidays.score).toBe(0);
+  });
+
+  it("returns the augmented prompt built from the retrieved chunks", async () => {
+    const result = await inspectRetrieval(agent, "How do refunds work?");
+
+    expect(result.prompt).toContain(`[1] policies.md (chunk ${result.candidates[0].chunkIndex})`);
+    expect(result.prompt).toContain("How do refunds work?");
+  });
+
+  it("searches the query variants and hypothetical answer a chat message would", async () => {
+    vi.mocked(prepareRetrievalQuery).mockResolvedValue({
+      query: "How do refunds work?",
+      options: {
+        variants: ["When is a store closed?"],
+        embeddingText: "Refunds are issued within thirty days of purchase.",
+      },
+      llmCalls: 2,
+    });
+
+    const result = await inspectRetrieval(agent, "How do refunds work?");
+
+    expect(prepareRetrievalQuery).toHaveBeenCalledWith(config, [], "How do refunds work?");
+    expect(result.retrievalQuery).toEqual({
+      query: "How do refunds work?",
+      variants: ["When is a store closed?"],
+      hypotheticalAnswer: "Refunds are issued within thirty days of purchase.",
+    });
+    // Found through the variant alone, so fused with the query's best chunk
+    const holidays = result.candidates.find(candidate => candidate.chunkIndex === 2)!;
+    expect(holidays.passedThreshold).toBe(true);
+    expect(holidays.score).toBeGreaterThan(0);
+    expect(result.candidates.filter(candidate => candidate.rank !== null)).toHaveLength(1);
+    expect(result.candidates[0]).toMatchObject({ chunkIndex: 0, rank: 1, vectorScore: 1 });
+  });
+
+  it("sends the plain query when RAG is disabled", async () => {
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue({ ...config, enabled: 0 });
+
+    const result = await inspectRetrieval(agent, "How do refunds work?");
+
+    expect(result.enabled).toBe(false);
+    expect(result.retrievalQuery).toBeNull();
+    expect(prepareRetrievalQuery).not.toHaveBeenCalled();
+    expect(result.prompt).toBe("How do refunds work?");
+  });
+
+  it("cuts retrieved chunks to the model's token budget like a chat message", async () => {
+    const long = `Refunds are issued within thirty days. ${"Keep the receipt. ".repeat(40_000)}`;
+    vi.mocked(db.getOrCreateRagConfig).mockResolvedValue({ ...config, similarityThreshold: "0.00" });
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue([{
+      id: 1,
+      documentId: 7,
+      agentId: 1,
+      chunkIndex: 0,
+      indexVersion: 0,
+      content: long,
+      embedding: embedLocally(long),
+      metadata: null,
+      createdAt: new Date(),
+    }] as VectorEmbedding[]);
+
+    const result = await inspectRetrieval({ ...agent, model: "gpt-4o" }, "How do refunds work?");
+
+    expect(result.candidates[0].rank).toBe(1);
+    expect(result.prompt).toContain("[1] policies.md (chunk 0)");
+    expect(result.prompt!.length).toBeLessThan(long.length);
+    expect(result.prompt).toContain("…");
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Retrieval inspection for debugging agent answers
+ * Reports every candidate chunk retrieval considered for a query with its
+ * scores and threshold outcome, the query variants and hypothetical answer
+ * searched with it, and the prompt a chat message would send.
+ */
+
+import * as db from "./db";
+import type { TagFilter } from "@shared/tags";
+import type { Agent, RagConfiguration } from "../drizzle/schema";
+import { getGenerationSettings } from "./chatModels";
+import { buildRoute, getPackingModel } from "./llmRouting";
+import { packPrompt } from "./promptPacking";
+import { buildCuratedAnswerPrompt, findQaMatch, type QaMatch } from "./qaPairs";
+import { prepareRetrievalQuery } from "./queryRewriting";
+import {
+  buildAugmentedPrompt,
+  buildRetrievedContext,
+  fuseVariantRankings,
+  getActiveIndexSettings,
+  getFirstStageCount,
+  rerankChunks,
+  scoreCandidates,
+  type ScoredCandidate,
+} from "./rag";
+
+export type InspectedChunk = {
+  embeddingId: number;
+  documentId: number;
+  documentName: string;
+  chunkIndex: number;
+  content: string;
+  metadata: Record<string, unknown> | null;
+  vectorScore: number;
+  keywordScore: number;
+  score: number;
+  /** Relevance from the agent's reranker; null when not reranked */
+  rerankScore: number | null;
+  passedThreshold: boolean;
+  /** 1-based position in the retrieved context; null when not retrieved */
+  rank: number | null;
+};
+
+export type RetrievalInspection = {
+  enabled: boolean;
+  settings: {
+    topK: number;
+    similarityThreshold: number;
+    keywordWeight: number;
+    reranker: string | null;
+    rerankCandidates: number;
+    embeddingModel: string;
+    indexVersion: number;
+    tagFilter: TagFilter | null;
+  };
+  candidates: InspectedChunk[];
+  /** What was searched besides the query; null when RAG is disabled */
+  retrievalQuery: {
+    query: string;
+    /** Alternative phrasings from multi-query expansion */
+    variants: string[];
+    /** Embedded in place of the query when HyDE is on */
+    hypotheticalAnswer: string | null;
+  } | null;
+  qaMatch: {
+    id: number;
+    question: string;
+    answer: string;
+    score: number;
+    mode: QaMatch["mode"];
+  } | null;
+  /**
+   * The user message sent to the model, with the context packed into its
+   * token budget; null when a Q&A pair answers directly
+   */
+  prompt: string | null;
+};
+
+/**
+ * Candidates of a query and its variants, ranked by the same fusion as
+ * chat retrieval; each chunk keeps its best scores across the phrasings
+ */
+function mergeVariantCandidates(rankings: ScoredCandidate[][], firstStageCount: number): ScoredCandidate[] {
+  const merged = new Map<number, ScoredCandidate>();
+  for (const item of rankings.flat()) {
+    const existing = merged.get(item.embedding.id);
+    merged.set(item.embedding.id, {
+      ...item,
+      vectorScore: Math.max(existing?.vectorScore ?? 0, item.vectorScore),
+      keywordScore: Math.max(existing?.keywordScore ?? 0, item.keywordScore),
+      passedThreshold: (existing?.passedThreshold ?? false) || item.passedThreshold,
+    });
+  }
+
+  const fused = fuseVariantRankings(rankings);
+  const fusedIds = new Set(fused.map(item => item.embedding.id));
+  return [
+    ...fused.map((item, index) => ({
+      ...merged.get(item.embedding.id)!,
+      score: item.score,
+      rank: index < firstStageCount ? index + 1 : null,
+    })),
+    ...Array.from(merged.values())
+      .filter(item => !fusedIds.has(item.embedding.id))
+      .sort((a, b) => b.vectorScore - a.vectorScore)
+      .map(item => ({ ...item, score: 0, rank: null })),
+  ];
+}
+
+/**
+ * Rerank the first-stage chunks; only the reranker's best `topK` keep a rank
+ */
+async function applyReranking(
+  query: string,
+  scored: ScoredCandidate[],
+  config: RagConfiguration
+): Promise<ScoredCandidate[]> {
+  const firstStage = scored.filter(item => item.rank !== null);
+  if (firstStage.length === 0) return scored;
+
+  const topK = config.topK || 3;
+  const reranked = (await rerankChunks(query, firstStage, config))
+    .map((item, index) => ({ ...item, rank: index < topK ? index + 1 : null }));
+  return [...reranked, ...scored.filter(item => item.rank === null)];
+}
+
+/**
+ * Run retrieval for a query the way a chat message would, keeping every
+ * candidate instead of only the chunks that made it into the context.
+ * Chunks excluded by the tag filter are not candidates.
+ */
+export async function inspectRetrieval(
+  agent: Pick<Agent, "id" | "model" | "fallbackChain" | "temperature" | "maxTokens" | "systemPrompt">,
+  query: string,
+  filter: TagFilter | null = null
+): Promise<RetrievalInspection> {
+  const agentId = agent.id;
+  const config = await db.getOrCreateRagConfig(agentId);
+  const settings = getActiveIndexSettings(config);
+  const enabled = config.enabled === 1;
+
+  // Expanded like a chat message that starts a conversation
+  const prepared = enabled ? await prepareRetrievalQuery(config, [], query) : null;
+  const variants = prepared?.options.variants ?? [];
+  const stageConfig = { ...config, topK: getFirstStageCount(config) };
+
+  const [rankings, documents, qaMatch] = await Promise.all([
+    Promise.all([prepared?.query ?? query, ...variants].map((text, index) =>
+      scoreCandidates(agentId, text, stageConfig, {
+        embeddingText: index === 0 ? prepared?.options.embeddingText : undefined,
+        filter: filter ?? undefined,
+      })
+    )),
+    db.getTrainingDocumentsByAgentId(agentId),
+    findQaMatch(agentId, query),
+  ]);
+  const scored = variants.length > 0 ? mergeVariantCandidates(rankings, stageConfig.topK) : rankings[0];
+  const candidates = await applyReranking(prepared?.query ?? query, scored, config);
+  const documentNames = new Map(documents.map(document => [document.id, document.fileName]));
+
+  // Same prompt as a chat message, packed from the ranked candidates
+  let prompt: string | null = null;
+  if (qaMatch?.mode !== "direct") {
+    const retrieved = candidates.filter(item => item.rank !== null);
+    const packed = packPrompt({
+      model: getPackingModel(buildRoute(agent)),
+      systemPrompt: agent.systemPrompt,
+      history: [],
+      sources: enabled ? buildRetrievedContext(retrieved, documentNames).sources : [],
+      buildUserMessage: context => {
+        const userMessage = context !== null ? buildAugmentedPrompt(query, context) : query;
+        return qaMatch ? buildCuratedAnswerPrompt(userMessage, qaMatch) : userMessage;
+      },
+      replyTokens: getGenerationSettings(agent).maxTokens,
+    });
+    prompt = packed.messages[packed.messages.length - 1].content;
+  }
+
+  return {
+    enabled,
+    settings: {
+      topK: config.topK || 3,
+      similarityThreshold: parseFloat(config.similarityThreshold || "0.7"),
+      keywordWeight: parseFloat(config.keywordWeight || "0"),
+      reranker: config.reranker ?? null,
+      rerankCandidates: config.rerankCandidates,
+      embeddingModel: settings.embeddingModel,
+      indexVersion: settings.indexVersion,
+      tagFilter: filter,
+    },
+    candidates: candidates.map(item => ({
+      embeddingId: item.embedding.id,
+      documentId: item.embedding.documentId,
+      documentName: documentNames.get(item.embedding.documentId) ?? `Document ${item.embedding.documentId}`,
+      chunkIndex: item.embedding.chunkIndex,
+      content: item.embedding.content,
+      metadata: item.embedding.metadata,
+      vectorScore: item.vectorScore,
+      keywordScore: item.keywordScore,
+      score: item.score,
+      rerankScore: item.rerankScore ?? null,
+      passedThreshold: item.passedThreshold,
+      rank: item.rank,
+    })),
+    retrievalQuery: prepared
+      ? {
+          query: prepared.query,
+          variants,
+          hypotheticalAnswer: prepared.options.embeddingText ?? null,
+        }
+      : null,
+    qaMatch: qaMatch
+      ? {
+          id: qaMatch.pair.id,
+          question: qaMatch.pair.question,
+          answer: qaMatch.pair.answer,
+          score: qaMatch.score,
+          mode: qaMatch.mode,
+        }
+      : null,
+    prompt,
+  };
+}
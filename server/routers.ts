@@ -1,16 +1,72 @@
 import { COOKIE_NAME } from "@shared/const";
+import { toTags } from "@shared/tags";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
 import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
-import { invokeLLM } from "./_core/llm";
 import { storagePut } from "./storage";
 import { notifyOwner } from "./_core/notification";
 import { nanoid } from "nanoid";
 import * as db from "./db";
-import { retrieveRelevantContext, buildAugmentedPrompt, processDocumentForRAG } from "./rag";
+import { createQaPair, updateQaPair } from "./qaPairs";
+import { BINARY_FORMATS, getDocumentFormat } from "./documentExtraction";
+import { enqueueDocumentProcessing } from "./ingestionJobs";
+import {
+  importBundle,
+  importZipArchive,
+  MAX_ARCHIVE_BYTES,
+  MAX_UPLOAD_BYTES,
+  saveUploadedDocument,
+  storeOriginalFile,
+} from "./documentImport";
+import { replyToChatMessage } from "./chatReplies";
+import { CHAT_MODELS, DEFAULT_CHAT_MODEL, validateGenerationSettings } from "./chatModels";
+import { listLLMProviders } from "./llmProviders";
+import { getBuiltinTool, listBuiltinTools, validateAgentTool } from "./agentTools";
+import { MAX_FALLBACK_STEPS, validateFallbackChain } from "./llmRouting";
+import { claimSession, closeSession, getOwnedChatSession, releaseSession, sendOperatorMessage } from "./handoff";
+import { createTrainingSource, enqueueSourceSync } from "./sourceSync";
+import { assertCrawlableUrl } from "./webCrawler";
+import { startReindexJob, updateRagConfigAndReindex } from "./reindex";
+import { inspectRetrieval } from "./retrievalInspection";
+import { startEvaluationRun } from "./ragEvaluation";
+import { MAX_QUERY_VARIANTS } from "./queryRewriting";
+import { listRerankers } from "./reranking";
+import {
+  createKnowledgeSnapshot,
+  diffLines,
+  recordDocumentVersion,
+  removeTrainingDocument,
+  restoreDocumentVersion,
+  rollbackToSnapshot,
+} from "./documentVersions";
 
 // ============ AGENT ROUTER ============
+const agentToolInput = {
+  name: z.string().min(1).max(64),
+  description: z.string().max(1000).optional(),
+  type: z.enum(["webhook", "builtin"]),
+  builtin: z.string().optional(),
+  parameters: z.record(z.string(), z.unknown()).nullable().optional(),
+  url: z.string().url().optional(),
+  headers: z.record(z.string(), z.string()).nullable().optional(),
+  timeoutMs: z.number().int().nullable().optional(),
+  enabled: z.boolean().optional(),
+};
+
+const fallbackChainInput = z
+  .array(z.object({ provider: z.string().min(1), model: z.string().min(1).max(128) }))
+  .max(MAX_FALLBACK_STEPS);
+
+// Handoff keywords: null uses the default list, an empty list turns them off
+const handoffKeywordsInput = z.array(z.string().trim().min(1).max(100)).max(50).nullable();
+
+// A signal score from 0 to 1, as a decimal string; null turns signal score handoffs off
+const handoffThresholdInput = z
+  .string()
+  .refine(value => value.trim() !== "" && Number(value) >= 0 && Number(value) <= 1, "The handoff threshold must be between 0 and 1")
+  .nullable();
+
 const agentRouter = router({
   list: protectedProcedure.query(async ({ ctx }) => {
     return db.getAgentsByUserId(ctx.user.id);
@@ -27,23 +83,27 @@ const agentRouter = router({
       name: z.string().min(1).max(255),
       description: z.string().optional(),
       systemPrompt: z.string().optional(),
-      model: z.string().default("gpt-4"),
+      model: z.string().default(DEFAULT_CHAT_MODEL),
       conversationStarters: z.array(z.string()).optional(),
       constraints: z.array(z.string()).optional(),
       temperature: z.string().optional(),
       maxTokens: z.number().optional(),
+      fallbackChain: fallbackChainInput.optional(),
     }))
     .mutation(async ({ ctx, input }) => {
+      const model = validateGenerationSettings(input);
+      const fallbackChain = input.fallbackChain ? validateFallbackChain(input.fallbackChain) : undefined;
       const agent = await db.createAgent({
         userId: ctx.user.id,
         name: input.name,
         description: input.description,
         systemPrompt: input.systemPrompt,
-        model: input.model,
+        model,
         conversationStarters: input.conversationStarters || [],
         constraints: input.constraints || [],
         temperature: input.temperature || "0.7",
         maxTokens: input.maxTokens || 2048,
+        fallbackChain,
         status: "active",
         lastTrainedAt: new Date(),
       });
@@ -62,12 +122,52 @@ const agentRouter = router({
       constraints: z.array(z.string()).optional(),
       temperature: z.string().optional(),
       maxTokens: z.number().optional(),
+      fallbackChain: fallbackChainInput.optional(),
+      handoffKeywords: handoffKeywordsInput.optional(),
+      handoffSignalThreshold: handoffThresholdInput.optional(),
     }))
     .mutation(async ({ ctx, input }) => {
       const { id, ...data } = input;
+      if (data.fallbackChain !== undefined) {
+        data.fallbackChain = validateFallbackChain(data.fallbackChain);
+      }
+      if (data.model !== undefined || data.temperature !== undefined || data.maxTokens !== undefined) {
+        const agent = await db.getAgentById(id, ctx.user.id);
+        if (!agent) {
+          throw new Error("Agent not found");
+        }
+        // Checked together, since the model's limits bound the other two
+        const model = validateGenerationSettings({
+          model: data.model ?? agent.model,
+          temperature: data.temperature ?? agent.temperature,
+          maxTokens: data.maxTokens ?? agent.maxTokens,
+        });
+        if (data.model !== undefined) data.model = model;
+      }
       return db.updateAgent(id, ctx.user.id, data);
     }),
 
+  // Models agents can use, with the limits of their settings and the providers serving them
+  listModels: protectedProcedure.query(() => {
+    return {
+      defaultModel: DEFAULT_CHAT_MODEL,
+      models: CHAT_MODELS.map(({ id, label, aliases, maxTemperature, maxOutputTokens, providers }) => ({
+        id,
+        label,
+        aliases,
+        maxTemperature,
+        maxOutputTokens,
+        providers: Object.keys(providers),
+      })),
+      providers: listLLMProviders().map(provider => ({
+        name: provider.name,
+        label: provider.label,
+        configured: provider.isConfigured(),
+        anyModel: provider.anyModel,
+      })),
+    };
+  }),
+
   delete: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ ctx, input }) => {
@@ -75,6 +175,89 @@ const agentRouter = router({
       return { success: true };
     }),
 
+  // Tools the agent's model can call while replying
+  listTools: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const tools = await db.getAgentToolsByAgentId(input.agentId);
+      return tools.filter(tool => tool.userId === ctx.user.id);
+    }),
+
+  listBuiltinTools: protectedProcedure.query(() => {
+    return listBuiltinTools().map(({ name, label, description, parameters }) => ({ name, label, description, parameters }));
+  }),
+
+  createTool: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      ...agentToolInput,
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const { enabled, ...values } = input;
+      const tool = {
+        ...values,
+        // Built-in tools come with a description the model understands
+        description: input.description?.trim() || getBuiltinTool(input.builtin ?? "")?.description || "",
+        builtin: input.type === "builtin" ? input.builtin ?? null : null,
+        parameters: input.type === "webhook" ? input.parameters ?? null : null,
+        url: input.type === "webhook" ? input.url ?? null : null,
+        headers: input.type === "webhook" ? input.headers ?? null : null,
+        timeoutMs: input.type === "webhook" ? input.timeoutMs ?? null : null,
+      };
+      if (!tool.description) {
+        throw new Error("Describe what the tool does, so the model knows when to call it");
+      }
+      await validateAgentTool(tool, await db.getAgentToolsByAgentId(agent.id));
+
+      return db.createAgentTool({ ...tool, userId: ctx.user.id, enabled: enabled === false ? 0 : 1 });
+    }),
+
+  updateTool: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      ...agentToolInput,
+      type: agentToolInput.type.optional(),
+      name: agentToolInput.name.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const existing = await db.getAgentToolById(input.id);
+      if (!existing || existing.userId !== ctx.user.id) {
+        throw new Error("Tool not found");
+      }
+
+      const { id, enabled, ...updates } = input;
+      const merged = { ...existing, ...updates, description: updates.description?.trim() || existing.description };
+      // Fields of the other type are cleared, e.g. when a webhook becomes a built-in tool
+      const tool = merged.type === "webhook"
+        ? { ...merged, builtin: null }
+        : { ...merged, parameters: null, url: null, headers: null, timeoutMs: null };
+      const others = (await db.getAgentToolsByAgentId(existing.agentId)).filter(other => other.id !== id);
+      await validateAgentTool(tool, others);
+
+      return db.updateAgentTool(id, {
+        ...updates,
+        description: tool.description,
+        builtin: tool.builtin,
+        parameters: tool.parameters,
+        url: tool.url,
+        headers: tool.headers,
+        timeoutMs: tool.timeoutMs,
+        ...(enabled !== undefined ? { enabled: enabled ? 1 : 0 } : {}),
+      });
+    }),
+
+  deleteTool: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await db.deleteAgentTool(input.id, ctx.user.id);
+      return { success: true };
+    }),
+
   train: protectedProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ ctx, input }) => {
@@ -82,19 +265,45 @@ const agentRouter = router({
     }),
 });
 
+// Document tags or a tag filter: "key:value,value key:value" or { key: value | values }
+const tagsInputSchema = z.union([
+  z.string().max(2000),
+  z.record(z.string(), z.union([z.string(), z.array(z.string())])),
+]);
+
+// Which JSON fields make up a record's text and its chunks' metadata
+const jsonMappingSchema = z.object({
+  recordsPath: z.string().max(255).optional(),
+  textFields: z.array(z.string().min(1).max(255)).max(50).optional(),
+  titleField: z.string().max(255).optional(),
+  metadataFields: z.array(z.string().min(1).max(255)).max(50).optional(),
+});
+
+// A playground message; also accepted by the chat stream route
+export const sendMessageInput = z.object({
+  agentId: z.number(),
+  sessionId: z.number().optional(),
+  message: z.string(),
+  // Only used when a new session is created
+  tagFilter: tagsInputSchema.optional(),
+});
+
 // ============ CHAT ROUTER ============
 const chatRouter = router({
-  // Create a new chat session
+  // Create a new chat session; its tag filter limits retrieval to matching documents
   createSession: protectedProcedure
     .input(z.object({
       agentId: z.number(),
       title: z.string().optional(),
+      tagFilter: tagsInputSchema.optional(),
     }))
     .mutation(async ({ ctx, input }) => {
+      const tagFilter = toTags(input.tagFilter);
       return db.createChatSession({
         agentId: input.agentId,
         userId: ctx.user.id,
         title: input.title,
+        metadata: tagFilter ? { tagFilter } : undefined,
       });
     }),
 
@@ -133,134 +342,68 @@ const chatRouter = router({
 
   // Send a message and get AI response (for playground)
   sendMessage: protectedProcedure
-    .input(z.object({
-      agentId: z.number(),
-      sessionId: z.number().optional(),
-      message: z.string(),
-    }))
+    .input(sendMessageInput)
     .mutation(async ({ ctx, input }) => {
-      // Get or create session
-      let sessionId = input.sessionId;
-      if (!sessionId) {
-        const session = await db.createChatSession({
-          agentId: input.agentId,
-          userId: ctx.user.id,
-          title: input.message.slice(0, 50),
-        });
-        sessionId = session.id;
-      }
-
-      // Get agent configuration
-      const agent = await db.getAgentById(input.agentId, ctx.user.id);
-      if (!agent) {
-        throw new Error("Agent not found");
-      }
-
-      // Save user message
-      await db.createChatMessage({
-        sessionId,
-        role: "user",
-        content: input.message,
-      });
-
-      // Get conversation history
-      const history = await db.getMessagesBySessionId(sessionId);
-      
-      // Try to retrieve relevant context from RAG
-      const ragContext = await retrieveRelevantContext(input.agentId, input.message);
-      
-      // Build messages for LLM
-      const messages: Array<{ role: "system" | "user" | "assistant"; content: string }> = [];
-      
-      // Add system prompt
-      if (agent.systemPrompt) {
-        messages.push({ role: "system", content: agent.systemPrompt });
-      }
-
-      // Add conversation history (last 10 messages) - excluding the current message
-      const recentHistory = history.slice(0, -1).slice(-10);
-      for (const msg of recentHistory) {
-        if (msg.role === "user" || msg.role === "assistant") {
-          messages.push({ role: msg.role as "user" | "assistant", content: msg.content });
-        }
-      }
-      
-      // Add the current user message (augmented with RAG context if available)
-      const userMessage = ragContext 
-        ? buildAugmentedPrompt(input.message, ragContext)
-        : input.message;
-      
-      messages.push({ role: "user", content: userMessage });
+      return replyToChatMessage(ctx.user.id, input);
+    }),
 
-      // Call LLM
-      const startTime = Date.now();
-      const response = await invokeLLM({
-        messages,
-      });
-      const latencyMs = Date.now() - startTime;
+  // Get a session with its handoff status
+  getSession: protectedProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      return getOwnedChatSession(input.sessionId, ctx.user.id);
+    }),
 
-      const rawContent = response.choices[0]?.message?.content;
-      const assistantContent = typeof rawContent === 'string' ? rawContent : "I apologize, but I couldn't generate a response.";
-      
-      // Calculate a simple signal score based on response characteristics
-      const signalScore = calculateSignalScore(assistantContent, input.message);
-
-      // Save assistant message
-      const assistantMessage = await db.createChatMessage({
-        sessionId,
-        role: "assistant",
-        content: assistantContent,
-        signalScore: signalScore.toString(),
-        aiRequests: 1,
-        tokensUsed: response.usage?.total_tokens,
-        latencyMs,
-      });
+  // Sessions of the user's agents waiting for or taken over by an operator
+  listHandoffs: protectedProcedure.query(async ({ ctx }) => {
+    return db.getHandoffSessionsByUserId(ctx.user.id);
+  }),
 
-      // Increment credits
-      await db.incrementCreditsUsed(ctx.user.id);
+  // Take a session over from its agent
+  claimSession: protectedProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return claimSession(await getOwnedChatSession(input.sessionId, ctx.user.id), ctx.user.id);
+    }),
 
-      // Check for signal score alert
-      await db.checkSignalScoreAlert(ctx.user.id, input.agentId, signalScore);
+  // Hand a session back to its agent
+  releaseSession: protectedProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return releaseSession(await getOwnedChatSession(input.sessionId, ctx.user.id));
+    }),
 
-      // Log analytics event
-      await db.createAnalyticsEvent({
-        agentId: input.agentId,
-        eventType: "chat_message",
-        eventData: {
-          sessionId,
-          signalScore,
-          tokensUsed: response.usage?.total_tokens,
-          latencyMs,
-        },
-      });
+  closeSession: protectedProcedure
+    .input(z.object({ sessionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return closeSession(await getOwnedChatSession(input.sessionId, ctx.user.id));
+    }),
 
-      return {
-        sessionId,
-        message: assistantMessage,
-      };
+  // Reply as an operator in a session the user has claimed
+  sendOperatorMessage: protectedProcedure
+    .input(z.object({ sessionId: z.number(), content: z.string().trim().min(1).max(10_000) }))
+    .mutation(async ({ ctx, input }) => {
+      const session = await getOwnedChatSession(input.sessionId, ctx.user.id);
+      return sendOperatorMessage(session, ctx.user.id, input.content);
     }),
 });
 
-// Helper function to calculate signal score
-function calculateSignalScore(response: string, query: string): number {
-  let score = 0.5; // Base score
-
-  // Length factor (longer, more detailed responses score higher)
-  if (response.length > 100) score += 0.1;
-  if (response.length > 500) score += 0.1;
-
-  // Relevance factor (check if response contains query keywords)
-  const queryWords = query.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-  const responseWords = response.toLowerCase();
-  const matchedWords = queryWords.filter(w => responseWords.includes(w));
-  score += (matchedWords.length / Math.max(queryWords.length, 1)) * 0.2;
-
-  // Structure factor (responses with formatting score higher)
-  if (response.includes('\n')) score += 0.05;
-  if (response.match(/\d+\./)) score += 0.05; // Numbered lists
+// Helper to load an eval set, checking it belongs to the user
+async function getOwnedEvalSet(setId: number, userId: number) {
+  const set = await db.getRagEvalSetById(setId);
+  if (!set || set.userId !== userId) {
+    throw new Error("Eval set not found");
+  }
+  return set;
+}
 
-  // Cap score between 0 and 1
-  return Math.min(Math.max(score, 0), 1);
+// Helper to load a document version, checking it belongs to the user
+async function getOwnedDocumentVersion(versionId: number, userId: number) {
+  const version = await db.getDocumentVersionById(versionId);
+  if (!version || version.userId !== userId) {
+    throw new Error("Document version not found");
+  }
+  return version;
 }
 
 // ============ ANALYTICS ROUTER ============
@@ -466,6 +609,12 @@ const exportRouter = router({
 });
 
 // ============ RAG ROUTER ============
+// A document, or one chunk of it, expected to be retrieved for an eval question
+const evalExpectationSchema = z.object({
+  documentId: z.number(),
+  chunkIndex: z.number().int().min(0).optional(),
+});
+
 const ragRouter = router({
   // Get RAG configuration for an agent
   getConfig: protectedProcedure
@@ -481,13 +630,55 @@ const ragRouter = router({
       enabled: z.number().optional(),
       chunkSize: z.number().optional(),
       chunkOverlap: z.number().optional(),
+      chunkingStrategy: z.enum(["fixed", "sentence", "markdown", "csv", "auto"]).optional(),
       topK: z.number().optional(),
       similarityThreshold: z.string().optional(),
+      keywordWeight: z.string().optional(),
+      queryRewriting: z.number().optional(),
+      multiQueryCount: z.number().int().min(0).max(MAX_QUERY_VARIANTS).optional(),
+      hydeEnabled: z.number().optional(),
+      reranker: z.string().nullable().optional(),
+      rerankCandidates: z.number().int().min(1).max(100).optional(),
+      qaThreshold: z.string().optional(),
+      qaAnswerMode: z.enum(["direct", "context"]).optional(),
       embeddingModel: z.string().optional(),
     }))
     .mutation(async ({ ctx, input }) => {
       const { agentId, ...data } = input;
-      return db.updateRagConfig(agentId, data);
+      if (data.reranker && !listRerankers().includes(data.reranker)) {
+        throw new Error(`Unknown reranker: ${data.reranker}`);
+      }
+      // Chunking or embedding model changes trigger a background re-index
+      return updateRagConfigAndReindex(agentId, data);
+    }),
+
+  // Rebuild all embeddings for an agent with its current settings
+  reindex: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+      return startReindexJob(input.agentId);
+    }),
+
+  // Get the active index version and the latest re-index job
+  getIndexStatus: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const config = await db.getOrCreateRagConfig(input.agentId);
+      const job = await db.getLatestRagIndexJob(input.agentId);
+      return {
+        indexVersion: config.indexVersion,
+        indexedEmbeddingModel: config.indexedEmbeddingModel,
+        job: job ?? null,
+      };
     }),
 
   // List training documents for an agent
@@ -505,67 +696,668 @@ const ragRouter = router({
       fileType: z.string(),
       fileSize: z.number().optional(),
       content: z.string(),
+      // PDF and Word files are sent as base64; text formats as plain text
+      encoding: z.enum(["text", "base64"]).default("text"),
+      tags: tagsInputSchema.optional(),
+      // For JSON and JSONL files
+      jsonMapping: jsonMappingSchema.optional(),
     }))
     .mutation(async ({ ctx, input }) => {
+      const tags = toTags(input.tags);
+      const format = getDocumentFormat(input);
+      
       // Validate file type and content on server side for security
-      const allowedTypes = ['text/plain', 'text/markdown', 'application/pdf', 'text/csv'];
-      const allowedExtensions = /\.(txt|md|pdf|csv)$/i;
+      const allowedTypes = ['text/plain', 'text/markdown', 'text/csv'];
+      const allowedExtensions = /\.(txt|md|csv)$/i;
       
-      if (!allowedTypes.includes(input.fileType) && !input.fileName.match(allowedExtensions)) {
-        throw new Error("Invalid file type. Only .txt, .md, .pdf, and .csv files are allowed.");
+      if (!format && !allowedTypes.includes(input.fileType) && !input.fileName.match(allowedExtensions)) {
+        throw new Error("Invalid file type. Only .txt, .md, .csv, .pdf, .docx, .html, .json and .jsonl files are allowed.");
+      }
+      
+      // Originals are stored and extracted by the ingestion worker
+      if (format) {
+        const binary = BINARY_FORMATS.includes(format);
+        if (binary && input.encoding !== "base64") {
+          throw new Error(`${format.toUpperCase()} files must be uploaded as base64-encoded binary`);
+        }
+        
+        const data = Buffer.from(input.content, binary ? "base64" : "utf8");
+        if (data.length > MAX_UPLOAD_BYTES) {
+          throw new Error("File content exceeds 10MB limit");
+        }
+        
+        const upload = await storeOriginalFile(input.agentId, input.fileName, format, data, input.jsonMapping);
+        return saveUploadedDocument(input.agentId, ctx.user.id, { ...upload, tags });
+      }
+      
+      if (input.encoding !== "text") {
+        throw new Error("Only PDF and Word files can be uploaded as binary");
       }
       
       // Validate content size (10MB limit)
       const contentSizeBytes = Buffer.byteLength(input.content, 'utf8');
-      if (contentSizeBytes > 10 * 1024 * 1024) {
+      if (contentSizeBytes > MAX_UPLOAD_BYTES) {
         throw new Error("File content exceeds 10MB limit");
       }
       
-      const document = await db.createTrainingDocument({
-        agentId: input.agentId,
-        userId: ctx.user.id,
+      return saveUploadedDocument(input.agentId, ctx.user.id, {
         fileName: input.fileName,
         fileType: input.fileType,
         fileSize: input.fileSize,
         content: input.content,
+        tags,
+      });
+    }),
+
+  // Import every supported file of a ZIP archive; returns a report per file
+  importArchive: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      fileName: z.string().min(1).max(255),
+      // Base64-encoded archive
+      content: z.string(),
+      tags: tagsInputSchema.optional(),
+      // For the archive's JSON and JSONL files
+      jsonMapping: jsonMappingSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const data = Buffer.from(input.content, "base64");
+      return importZipArchive(input.agentId, ctx.user.id, input.fileName, data, {
+        tags: toTags(input.tags),
+        jsonMapping: input.jsonMapping,
+      });
+    }),
+
+  // Import the files of a local folder, sent with their relative paths
+  importFolder: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      folderName: z.string().min(1).max(255),
+      files: z.array(z.object({
+        path: z.string().min(1).max(1024),
+        // Base64-encoded file content
+        content: z.string(),
+      })).min(1).max(1000),
+      tags: tagsInputSchema.optional(),
+      // For the folder's JSON and JSONL files
+      jsonMapping: jsonMappingSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      // Paths are checked file by file during the import
+      const files = input.files.map(file => {
+        const data = Buffer.from(file.content, "base64");
+        return { path: file.path, read: () => data };
+      });
+      const totalBytes = files.reduce((sum, file) => sum + file.read().length, 0);
+      if (totalBytes > MAX_ARCHIVE_BYTES) {
+        throw new Error(`Folder exceeds ${MAX_ARCHIVE_BYTES / 1024 / 1024}MB limit`);
+      }
+      return importBundle(input.agentId, ctx.user.id, input.folderName, files, {
+        tags: toTags(input.tags),
+        jsonMapping: input.jsonMapping,
+      });
+    }),
+
+  // Crawl a website or sitemap.xml; each same-origin page becomes a training document
+  addWebsiteSource: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      url: z.string().url(),
+      maxDepth: z.number().int().min(0).max(5).default(2),
+      maxPages: z.number().int().min(1).max(500).default(50),
+      refreshIntervalHours: z.number().int().min(1).max(24 * 30).nullable().default(null),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const url = await assertCrawlableUrl(input.url);
+      return createTrainingSource({
+        agentId: input.agentId,
+        userId: ctx.user.id,
+        type: "website",
+        url: url.href,
+        options: { maxDepth: input.maxDepth, maxPages: input.maxPages },
+        refreshIntervalHours: input.refreshIntervalHours,
+      });
+    }),
+
+  // Download a remote file (PDF, Word, HTML, JSON, CSV, Markdown or text) as a training document
+  addFileSource: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      url: z.string().url(),
+      refreshIntervalHours: z.number().int().min(1).max(24 * 30).nullable().default(null),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const url = await assertCrawlableUrl(input.url);
+      return createTrainingSource({
+        agentId: input.agentId,
+        userId: ctx.user.id,
+        type: "file",
+        url: url.href,
+        refreshIntervalHours: input.refreshIntervalHours,
+      });
+    }),
+
+  // Website and file sources of an agent with their last sync outcome
+  listSources: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const sources = await db.getTrainingSourcesByAgentId(input.agentId);
+      return sources.filter(source => source.userId === ctx.user.id);
+    }),
+
+  // Change how often a source is re-synced; null syncs only on demand
+  updateSource: protectedProcedure
+    .input(z.object({
+      sourceId: z.number(),
+      refreshIntervalHours: z.number().int().min(1).max(24 * 30).nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const source = await db.getTrainingSourceById(input.sourceId);
+      if (!source || source.userId !== ctx.user.id) {
+        throw new Error("Source not found");
+      }
+
+      const from = source.lastSyncedAt ?? new Date();
+      await db.updateTrainingSource(source.id, {
+        refreshIntervalHours: input.refreshIntervalHours,
+        nextSyncAt: input.refreshIntervalHours
+          ? new Date(from.getTime() + input.refreshIntervalHours * 60 * 60 * 1000)
+          : null,
+      });
+      return { success: true };
+    }),
+
+  // Re-sync a source now
+  syncSource: protectedProcedure
+    .input(z.object({ sourceId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const source = await db.getTrainingSourceById(input.sourceId);
+      if (!source || source.userId !== ctx.user.id) {
+        throw new Error("Source not found");
+      }
+      if (!(await enqueueSourceSync(source))) {
+        throw new Error("A sync of this source is already running");
+      }
+      return { success: true };
+    }),
+
+  // Delete a source together with its documents and their embeddings
+  deleteSource: protectedProcedure
+    .input(z.object({ sourceId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const source = await db.getTrainingSourceById(input.sourceId);
+      if (!source || source.userId !== ctx.user.id) {
+        throw new Error("Source not found");
+      }
+
+      for (const document of await db.getTrainingDocumentsBySourceId(source.id)) {
+        await removeTrainingDocument(document);
+      }
+      await db.deleteTrainingSource(source.id, ctx.user.id);
+      return { success: true };
+    }),
+
+  // Add a pasted text snippet as a training document
+  addTextSnippet: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      title: z.string().min(1).max(255),
+      content: z.string().min(1).max(100_000),
+      tags: tagsInputSchema.optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const document = await db.createTrainingDocument({
+        agentId: input.agentId,
+        userId: ctx.user.id,
+        fileName: input.title,
+        fileType: "text/plain",
+        fileSize: Buffer.byteLength(input.content, "utf8"),
+        content: input.content,
+        metadata: { snippet: true },
+        tags: toTags(input.tags),
         status: "pending",
         chunkCount: 0,
       });
 
-      // Process document immediately (in production, this would be queued)
-      try {
-        await processDocumentForRAG(document.id, input.agentId, input.content);
-      } catch (error) {
-        console.error("Error processing document:", error);
-      }
+      await enqueueDocumentProcessing(document.id, input.agentId);
 
       return document;
     }),
 
-  // Delete a training document
+  // Edit a text snippet; it is chunked and embedded again
+  updateTextSnippet: protectedProcedure
+    .input(z.object({
+      documentId: z.number(),
+      title: z.string().min(1).max(255),
+      content: z.string().min(1).max(100_000),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const document = await db.getTrainingDocumentById(input.documentId);
+      if (!document || document.userId !== ctx.user.id || !document.metadata?.snippet) {
+        throw new Error("Snippet not found");
+      }
+
+      // Snippets edited before versioning keep their previous text as a version
+      await recordDocumentVersion(document.id);
+      await db.updateTrainingDocument(document.id, {
+        fileName: input.title,
+        fileSize: Buffer.byteLength(input.content, "utf8"),
+        content: input.content,
+      });
+      await enqueueDocumentProcessing(document.id, document.agentId);
+
+      return { success: true };
+    }),
+
+  // Curated Q&A pairs of an agent
+  listQaPairs: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const pairs = await db.getQaPairsByAgentId(input.agentId);
+      return pairs
+        .filter(pair => pair.userId === ctx.user.id)
+        .map(({ embedding, ...pair }) => pair);
+    }),
+
+  // Add a curated answer, optionally from a reply reviewed in chat logs
+  createQaPair: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      question: z.string().min(1).max(2000),
+      answer: z.string().min(1).max(10_000),
+      sourceMessageId: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const { embedding, ...pair } = await createQaPair({ ...input, userId: ctx.user.id });
+      return pair;
+    }),
+
+  updateQaPair: protectedProcedure
+    .input(z.object({
+      id: z.number(),
+      question: z.string().min(1).max(2000).optional(),
+      answer: z.string().min(1).max(10_000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const pair = await db.getQaPairById(input.id);
+      if (!pair || pair.userId !== ctx.user.id) {
+        throw new Error("Q&A pair not found");
+      }
+
+      await updateQaPair(pair, { question: input.question, answer: input.answer });
+      return { success: true };
+    }),
+
+  deleteQaPair: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await db.deleteQaPair(input.id, ctx.user.id);
+      return { success: true };
+    }),
+
+  // Replace a document's access tags; its chunks are updated in place
+  updateDocumentTags: protectedProcedure
+    .input(z.object({
+      documentId: z.number(),
+      tags: tagsInputSchema.nullable(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const document = await db.getTrainingDocumentById(input.documentId);
+      if (!document || document.userId !== ctx.user.id) {
+        throw new Error("Document not found");
+      }
+
+      const tags = toTags(input.tags);
+      await db.updateTrainingDocument(document.id, { tags });
+      await db.updateVectorEmbeddingTagsByDocumentId(document.id, tags);
+
+      return { success: true, tags };
+    }),
+
+  // Delete a training document; its versions are kept for rollback
   deleteDocument: protectedProcedure
     .input(z.object({ 
       documentId: z.number(),
     }))
     .mutation(async ({ ctx, input }) => {
-      // Delete embeddings first
-      await db.deleteVectorEmbeddingsByDocumentId(input.documentId);
-      // Delete document
-      await db.deleteTrainingDocument(input.documentId, ctx.user.id);
+      const document = await db.getTrainingDocumentById(input.documentId);
+      if (document && document.userId === ctx.user.id) {
+        await removeTrainingDocument(document);
+      }
+      return { success: true };
+    }),
+
+  // Versions of a document, newest first
+  listDocumentVersions: protectedProcedure
+    .input(z.object({ documentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const versions = await db.getDocumentVersionsByDocumentId(input.documentId);
+      return versions.filter(version => version.userId === ctx.user.id);
+    }),
+
+  // Line diff between two versions of a document
+  diffDocumentVersions: protectedProcedure
+    .input(z.object({
+      fromVersionId: z.number(),
+      toVersionId: z.number(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const from = await getOwnedDocumentVersion(input.fromVersionId, ctx.user.id);
+      const to = await getOwnedDocumentVersion(input.toVersionId, ctx.user.id);
+      if (from.documentId !== to.documentId) {
+        throw new Error("Versions belong to different documents");
+      }
+
+      const lines = diffLines(from.content, to.content);
+      return {
+        fromVersion: from.version,
+        toVersion: to.version,
+        added: lines.filter(line => line.type === "added").length,
+        removed: lines.filter(line => line.type === "removed").length,
+        lines,
+      };
+    }),
+
+  // Bring a document back to a version, recreating it if it was deleted
+  restoreDocumentVersion: protectedProcedure
+    .input(z.object({ versionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const version = await getOwnedDocumentVersion(input.versionId, ctx.user.id);
+      const result = await restoreDocumentVersion(version);
+      if (result.needsProcessing) {
+        await enqueueDocumentProcessing(result.documentId, version.agentId);
+      }
+      return result;
+    }),
+
+  // Named snapshots of an agent's knowledge base
+  listSnapshots: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const snapshots = await db.getKnowledgeSnapshotsByAgentId(input.agentId);
+      return snapshots.filter(snapshot => snapshot.userId === ctx.user.id);
+    }),
+
+  createSnapshot: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      name: z.string().min(1).max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+      return createKnowledgeSnapshot(input.agentId, ctx.user.id, input.name);
+    }),
+
+  deleteSnapshot: protectedProcedure
+    .input(z.object({ snapshotId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await db.deleteKnowledgeSnapshot(input.snapshotId, ctx.user.id);
       return { success: true };
     }),
 
+  // Roll the agent's documents and embeddings back to a snapshot; a backup
+  // snapshot is taken first so the rollback can be undone
+  rollbackToSnapshot: protectedProcedure
+    .input(z.object({ snapshotId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const snapshot = await db.getKnowledgeSnapshotById(input.snapshotId);
+      if (!snapshot || snapshot.userId !== ctx.user.id) {
+        throw new Error("Snapshot not found");
+      }
+
+      const result = await rollbackToSnapshot(snapshot, ctx.user.id);
+      for (const restored of result.restored) {
+        if (restored.needsProcessing) {
+          await enqueueDocumentProcessing(restored.documentId, snapshot.agentId);
+        }
+      }
+      return {
+        backupSnapshotId: result.backup.id,
+        restored: result.restored.length,
+        reembedding: result.restored.filter(restored => restored.needsProcessing).length,
+        removed: result.removed.length,
+        unchanged: result.unchanged,
+      };
+    }),
+
   // Process document (chunking and embedding generation)
   processDocument: protectedProcedure
     .input(z.object({ 
       documentId: z.number(),
       agentId: z.number(),
-      content: z.string(),
     }))
     .mutation(async ({ ctx, input }) => {
-      await processDocumentForRAG(input.documentId, input.agentId, input.content);
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+      const document = await db.getTrainingDocumentById(input.documentId);
+      if (!document || document.agentId !== input.agentId) {
+        throw new Error("Document not found");
+      }
+
+      await enqueueDocumentProcessing(document.id, document.agentId);
+      return { success: true };
+    }),
+
+  // Inspect retrieval for a test query: every candidate chunk with its
+  // scores and threshold outcome, and the prompt the model would receive
+  search: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      query: z.string().min(1).max(2000),
+      tagFilter: tagsInputSchema.optional(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+      return inspectRetrieval(agent, input.query, toTags(input.tagFilter));
+    }),
+
+  // Golden question sets for evaluating retrieval
+  listEvalSets: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const sets = await db.getRagEvalSetsByAgentId(input.agentId);
+      return sets.filter(set => set.userId === ctx.user.id);
+    }),
+
+  createEvalSet: protectedProcedure
+    .input(z.object({
+      agentId: z.number(),
+      name: z.string().min(1).max(255),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+      return db.createRagEvalSet({ agentId: input.agentId, userId: ctx.user.id, name: input.name });
+    }),
+
+  deleteEvalSet: protectedProcedure
+    .input(z.object({ setId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      await db.deleteRagEvalSet(input.setId, ctx.user.id);
       return { success: true };
     }),
+
+  // Questions of a set with the documents/chunks expected for each
+  listEvalQuestions: protectedProcedure
+    .input(z.object({ setId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnedEvalSet(input.setId, ctx.user.id);
+      return db.getRagEvalQuestionsBySetId(input.setId);
+    }),
+
+  addEvalQuestion: protectedProcedure
+    .input(z.object({
+      setId: z.number(),
+      question: z.string().min(1).max(2000),
+      expected: z.array(evalExpectationSchema).min(1),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedEvalSet(input.setId, ctx.user.id);
+      return db.createRagEvalQuestion(input);
+    }),
+
+  updateEvalQuestion: protectedProcedure
+    .input(z.object({
+      questionId: z.number(),
+      question: z.string().min(1).max(2000).optional(),
+      expected: z.array(evalExpectationSchema).min(1).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const question = await db.getRagEvalQuestionById(input.questionId);
+      if (!question) {
+        throw new Error("Question not found");
+      }
+      await getOwnedEvalSet(question.setId, ctx.user.id);
+
+      const { questionId, ...data } = input;
+      if (data.question !== undefined || data.expected !== undefined) {
+        await db.updateRagEvalQuestion(questionId, data);
+      }
+      return { success: true };
+    }),
+
+  deleteEvalQuestion: protectedProcedure
+    .input(z.object({ questionId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      const question = await db.getRagEvalQuestionById(input.questionId);
+      if (!question) {
+        return { success: true };
+      }
+      await getOwnedEvalSet(question.setId, ctx.user.id);
+      await db.deleteRagEvalQuestion(question.id);
+      return { success: true };
+    }),
+
+  // Measure recall@k, MRR and nDCG of a set against the current index in the background
+  evaluate: protectedProcedure
+    .input(z.object({
+      setId: z.number(),
+      k: z.number().int().min(1).max(50).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnedEvalSet(input.setId, ctx.user.id);
+      return startEvaluationRun(input.setId, input.k);
+    }),
+
+  // Run history of a set, newest first
+  listEvalRuns: protectedProcedure
+    .input(z.object({ setId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnedEvalSet(input.setId, ctx.user.id);
+      return db.getRagEvalRunsBySetId(input.setId);
+    }),
+
+  // A run with its per-question results
+  getEvalRun: protectedProcedure
+    .input(z.object({ runId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const run = await db.getRagEvalRunById(input.runId);
+      if (!run) {
+        return null;
+      }
+      await getOwnedEvalSet(run.setId, ctx.user.id);
+      return run;
+    }),
+
+  // Get a chunk of the active index, e.g. to open a citation
+  getChunk: protectedProcedure
+    .input(z.object({
+      documentId: z.number(),
+      chunkIndex: z.number(),
+    }))
+    .query(async ({ ctx, input }) => {
+      const document = await db.getTrainingDocumentById(input.documentId);
+      if (!document || document.userId !== ctx.user.id) {
+        return null;
+      }
+
+      const config = await db.getOrCreateRagConfig(document.agentId);
+      const chunk = await db.getVectorEmbeddingByChunk(input.documentId, input.chunkIndex, config.indexVersion);
+      if (!chunk) {
+        return null;
+      }
+
+      return {
+        documentId: document.id,
+        documentName: document.fileName,
+        chunkIndex: chunk.chunkIndex,
+        content: chunk.content,
+        metadata: chunk.metadata,
+      };
+    }),
+
+  // Processing status of an agent's documents and their queue jobs
+  getIngestionStatus: protectedProcedure
+    .input(z.object({ agentId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      const agent = await db.getAgentById(input.agentId, ctx.user.id);
+      if (!agent) {
+        throw new Error("Agent not found");
+      }
+
+      const documents = await db.getTrainingDocumentsByAgentId(input.agentId);
+      const jobs = await db.getIngestionJobsByAgentId(input.agentId);
+
+      return documents.map(document => {
+        // Jobs are newest first, so this is the latest job for the document
+        const job = jobs.find(j => j.documentId === document.id);
+        return {
+          documentId: document.id,
+          status: document.status,
+          chunkCount: document.chunkCount,
+          errorMessage: document.errorMessage,
+          job: job
+            ? {
+                status: job.status,
+                attempts: job.attempts,
+                maxAttempts: job.maxAttempts,
+                runAt: job.runAt,
+                lastError: job.lastError,
+              }
+            : null,
+        };
+      });
+    }),
 });
 
 // ============ UI FLOW ROUTER ============
@@ -0,0 +1,249 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { DocumentVersion, RagConfiguration, TrainingDocument, TrainingSource, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getOrCreateRagConfig: vi.fn(),
+  getTrainingSourceById: vi.fn(),
+  getTrainingSourcesByAgentId: vi.fn(),
+  createTrainingSource: vi.fn(),
+  claimTrainingSourceForSync: vi.fn(),
+  createIngestionJob: vi.fn(),
+  updateTrainingSource: vi.fn(),
+  getTrainingDocumentBySourceUrl: vi.fn(),
+  getTrainingDocumentById: vi.fn(),
+  getTrainingDocumentsBySourceId: vi.fn(),
+  createTrainingDocument: vi.fn(),
+  updateTrainingDocument: vi.fn(),
+  deleteTrainingDocument: vi.fn(),
+  getVectorEmbeddingsByDocumentId: vi.fn(),
+  createVectorEmbedding: vi.fn(),
+  deleteVectorEmbeddingsByDocumentId: vi.fn(),
+  deleteVectorEmbeddingsByIds: vi.fn(),
+  getDocumentVersionsByDocumentId: vi.fn(),
+  createDocumentVersion: vi.fn(),
+  createAlert: vi.fn(),
+  trainAgent: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { refreshDocumentChunks, type IndexSettings } from "./rag";
+import { adoptWebsiteCrawl, runSourceSync } from "./sourceSync";
+
+const settings: IndexSettings = {
+  chunkSize: 60,
+  chunkOverlap: 0,
+  chunkingStrategy: "sentence",
+  embeddingModel: "local-hash",
+  indexVersion: 0,
+};
+
+const config = {
+  agentId: 1,
+  chunkSize: 60,
+  chunkOverlap: 0,
+  chunkingStrategy: "sentence",
+  embeddingModel: "local-hash",
+  indexedEmbeddingModel: "local-hash",
+  indexVersion: 0,
+} as RagConfiguration;
+
+const paragraphs = [
+  "Opening hours are nine to five on weekdays.",
+  "Returns are accepted within thirty days of purchase.",
+  "Support can be reached by email at any time.",
+];
+
+// In-memory tables behind the mocked db module
+let documents: TrainingDocument[];
+let embeddings: VectorEmbedding[];
+let versions: DocumentVersion[];
+let nextId: number;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  documents = [];
+  embeddings = [];
+  versions = [];
+  nextId = 1;
+
+  vi.mocked(db.getOrCreateRagConfig).mockResolvedValue(config);
+  // Rows are returned as copies, as the database would
+  vi.mocked(db.getTrainingDocumentById).mockImplementation(async id => {
+    const document = documents.find(d => d.id === id);
+    return document && { ...document };
+  });
+  vi.mocked(db.getTrainingDocumentBySourceUrl).mockImplementation(async (_agentId, url) => {
+    const document = documents.find(d => d.sourceUrl === url);
+    return document && { ...document };
+  });
+  vi.mocked(db.getTrainingDocumentsBySourceId).mockImplementation(async id => documents.filter(d => d.sourceId === id));
+  vi.mocked(db.createTrainingDocument).mockImplementation(async values => {
+    const document = { ...values, id: nextId++, contentHash: null } as TrainingDocument;
+    documents.push(document);
+    return document;
+  });
+  vi.mocked(db.updateTrainingDocument).mockImplementation(async (id, updates) => {
+    Object.assign(documents.find(d => d.id === id)!, updates);
+  });
+  vi.mocked(db.getVectorEmbeddingsByDocumentId).mockImplementation(async id =>
+    embeddings.filter(e => e.documentId === id)
+  );
+  vi.mocked(db.createVectorEmbedding).mockImplementation(async values => {
+    const embedding = { ...values, id: nextId++ } as VectorEmbedding;
+    embeddings.push(embedding);
+    return embedding;
+  });
+  vi.mocked(db.deleteVectorEmbeddingsByDocumentId).mockImplementation(async id => {
+    embeddings = embeddings.filter(e => e.documentId !== id);
+  });
+  vi.mocked(db.deleteVectorEmbeddingsByIds).mockImplementation(async (_agentId, _version, ids) => {
+    embeddings = embeddings.filter(e => !ids.includes(e.id));
+  });
+  vi.mocked(db.getDocumentVersionsByDocumentId).mockImplementation(async id =>
+    versions.filter(v => v.documentId === id).reverse()
+  );
+  vi.mocked(db.createDocumentVersion).mockImplementation(async values => {
+    const version = { ...values, id: nextId++ } as DocumentVersion;
+    versions.push(version);
+    return version;
+  });
+});
+
+describe("refreshDocumentChunks", () => {
+  it("embeds only chunks whose text changed", async () => {
+    const document = {
+      id: 1,
+      agentId: 1,
+      fileName: "faq.txt",
+      fileType: "text/plain",
+      content: paragraphs.join("\n\n"),
+      metadata: null,
+    };
+    const first = await refreshDocumentChunks(document, settings);
+    expect(first).toEqual({ chunkCount: 3, embedded: 3, reused: 0, removed: 0 });
+
+    const edited = [paragraphs[0], "Returns are accepted within sixty days of purchase.", paragraphs[2]];
+    const second = await refreshDocumentChunks({ ...document, content: edited.join("\n\n") }, settings);
+
+    expect(second).toEqual({ chunkCount: 3, embedded: 1, reused: 2, removed: 1 });
+    expect(embeddings.map(e => e.content).sort()).toEqual([...edited].sort());
+  });
+});
+
+describe("runSourceSync", () => {
+  let server: http.Server;
+  let origin: string;
+  let body: string;
+  let source: TrainingSource;
+
+  beforeAll(async () => {
+    ENV.crawlerAllowPrivateHosts = true;
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { "Content-Type": "text/plain" }).end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    ENV.crawlerAllowPrivateHosts = false;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    body = paragraphs.join("\n\n");
+    source = {
+      id: 5,
+      agentId: 1,
+      userId: 2,
+      type: "file",
+      url: `${origin}/handbook.txt`,
+      options: null,
+      refreshIntervalHours: 24,
+      status: "syncing",
+      lastSyncedAt: null,
+      nextSyncAt: null,
+      lastError: null,
+      lastSyncSummary: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    vi.mocked(db.getTrainingSourceById).mockImplementation(async () => source);
+    vi.mocked(db.updateTrainingSource).mockImplementation(async (_id, updates) => {
+      source = { ...source, ...updates };
+    });
+  });
+
+  it("adds the file on the first sync without an alert", async () => {
+    const summary = await runSourceSync(source.id);
+
+    expect(summary).toMatchObject({ added: 1, chunksEmbedded: 3 });
+    expect(documents[0]).toMatchObject({ sourceId: 5, fileName: "handbook.txt", status: "completed" });
+    expect(source.status).toBe("idle");
+    expect(source.nextSyncAt!.getTime() - source.lastSyncedAt!.getTime()).toBe(24 * 60 * 60 * 1000);
+    expect(db.createAlert).not.toHaveBeenCalled();
+    expect(db.trainAgent).toHaveBeenCalledWith(1, 2);
+  });
+
+  it("re-embeds changed chunks and raises a retraining alert", async () => {
+    await runSourceSync(source.id);
+    body = [paragraphs[0], paragraphs[1], "Support can be reached by phone on weekdays."].join("\n\n");
+
+    const summary = await runSourceSync(source.id);
+
+    expect(summary).toMatchObject({ updated: 1, chunksEmbedded: 1, chunksReused: 2 });
+    expect(db.createAlert).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 2,
+      agentId: 1,
+      alertType: "retraining",
+      metadata: expect.objectContaining({ sourceId: 5, updated: 1, changedUrls: [source.url] }),
+    }));
+    expect(db.trainAgent).toHaveBeenCalledTimes(2);
+    expect(versions.map(v => [v.version, v.change, v.chunkCount])).toEqual([[1, "created", 3], [2, "updated", 3]]);
+  });
+
+  it("leaves unchanged content alone", async () => {
+    await runSourceSync(source.id);
+    const created = embeddings.length;
+
+    const summary = await runSourceSync(source.id);
+
+    expect(summary).toMatchObject({ unchanged: 1, updated: 0, chunksEmbedded: 0 });
+    expect(db.createVectorEmbedding).toHaveBeenCalledTimes(created);
+    expect(db.createAlert).not.toHaveBeenCalled();
+  });
+});
+
+describe("adoptWebsiteCrawl", () => {
+  const crawl = { agentId: 1, userId: 2, url: "https://example.com/", maxDepth: 1, maxPages: 10 };
+
+  it("turns a queued crawl into a website source", async () => {
+    vi.mocked(db.getTrainingSourcesByAgentId).mockResolvedValue([]);
+    vi.mocked(db.createTrainingSource).mockImplementation(async values => ({ ...values, id: 9 }) as TrainingSource);
+
+    await adoptWebsiteCrawl(crawl);
+
+    expect(db.createTrainingSource).toHaveBeenCalledWith(expect.objectContaining({
+      type: "website",
+      url: crawl.url,
+      options: { maxDepth: 1, maxPages: 10 },
+    }));
+    expect(db.createIngestionJob).toHaveBeenCalledWith(expect.objectContaining({ type: "sync_source", payload: { sourceId: 9 } }));
+  });
+
+  it("syncs the website's existing source instead", async () => {
+    vi.mocked(db.getTrainingSourcesByAgentId).mockResolvedValue([
+      { id: 4, agentId: 1, type: "website", url: crawl.url } as TrainingSource,
+    ]);
+    vi.mocked(db.claimTrainingSourceForSync).mockResolvedValue(true);
+
+    await adoptWebsiteCrawl(crawl);
+
+    expect(db.createTrainingSource).not.toHaveBeenCalled();
+    expect(db.createIngestionJob).toHaveBeenCalledWith(expect.objectContaining({ type: "sync_source", payload: { sourceId: 4 } }));
+  });
+});
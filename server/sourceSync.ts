@@ -0,0 +1,415 @@
+/**
+ * Sync of fetchable training sources (websites and remote files)
+ * A sync re-fetches a source, compares each document's content hash with
+ * the stored one and re-embeds only the chunks of documents that changed.
+ * Sources with a refresh interval are synced again once it has elapsed.
+ */
+
+import * as db from "./db";
+import type { InsertTrainingDocument, TrainingDocument, TrainingSource } from "../drizzle/schema";
+import { DOCUMENT_FORMATS, extractDocumentText, getDocumentFormat, hasPdfSignature } from "./documentExtraction";
+import { recordDocumentVersion, removeTrainingDocument } from "./documentVersions";
+import { enqueueJob, PermanentJobError } from "./ingestionQueue";
+import {
+  getActiveIndexSettings,
+  hashContent,
+  processDocumentForRAG,
+  refreshDocumentChunks,
+  type IndexSettings,
+} from "./rag";
+import {
+  crawlWebsite,
+  DEFAULT_CRAWL_DEPTH,
+  DEFAULT_CRAWL_PAGES,
+  fetchRemoteFile,
+} from "./webCrawler";
+
+export const SYNC_SOURCE_JOB_TYPE = "sync_source";
+/** Website crawls queued before websites were kept as sources */
+export const CRAWL_WEBSITE_JOB_TYPE = "crawl_website";
+
+const SCHEDULER_INTERVAL_MS = 60_000;
+const HOUR_MS = 60 * 60_000;
+// Changed URLs listed in alert metadata, at most
+const MAX_CHANGED_URLS = 20;
+
+export type SyncSummary = {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  /** Chunks sent to the embedding provider */
+  chunksEmbedded: number;
+  /** Chunks that kept their stored embedding */
+  chunksReused: number;
+  changedUrls: string[];
+};
+
+/**
+ * Content of one document fetched from a source
+ */
+type FetchedDocument = Pick<InsertTrainingDocument, "fileName" | "fileType" | "metadata"> & {
+  sourceUrl: string;
+  content: string;
+};
+
+function emptySummary(): SyncSummary {
+  return { added: 0, updated: 0, removed: 0, unchanged: 0, chunksEmbedded: 0, chunksReused: 0, changedUrls: [] };
+}
+
+function nextSyncAt(source: Pick<TrainingSource, "refreshIntervalHours">, from: Date = new Date()): Date | null {
+  return source.refreshIntervalHours ? new Date(from.getTime() + source.refreshIntervalHours * HOUR_MS) : null;
+}
+
+/**
+ * Create a source and queue its first sync
+ */
+export async function createTrainingSource(source: {
+  agentId: number;
+  userId: number;
+  type: TrainingSource["type"];
+  url: string;
+  options?: Record<string, unknown>;
+  refreshIntervalHours?: number | null;
+}): Promise<TrainingSource> {
+  const created = await db.createTrainingSource({
+    ...source,
+    refreshIntervalHours: source.refreshIntervalHours ?? null,
+    status: "syncing",
+  });
+  await enqueueJob({
+    type: SYNC_SOURCE_JOB_TYPE,
+    agentId: created.agentId,
+    payload: { sourceId: created.id },
+  });
+  return created;
+}
+
+/**
+ * Queue a sync unless one is already running; returns whether it was queued
+ */
+export async function enqueueSourceSync(source: Pick<TrainingSource, "id" | "agentId">): Promise<boolean> {
+  if (!(await db.claimTrainingSourceForSync(source.id))) {
+    return false;
+  }
+  await enqueueJob({
+    type: SYNC_SOURCE_JOB_TYPE,
+    agentId: source.agentId,
+    payload: { sourceId: source.id },
+  });
+  return true;
+}
+
+/**
+ * Carry a crawl queued before websites were kept as sources over to the
+ * sync path: the website becomes a source, or its existing source is synced
+ */
+export async function adoptWebsiteCrawl(crawl: {
+  agentId: number;
+  userId: number;
+  url: string;
+  maxDepth?: number;
+  maxPages?: number;
+}): Promise<void> {
+  const sources = await db.getTrainingSourcesByAgentId(crawl.agentId);
+  const existing = sources.find(source => source.type === "website" && source.url === crawl.url);
+  if (existing) {
+    await enqueueSourceSync(existing);
+    return;
+  }
+  await createTrainingSource({
+    agentId: crawl.agentId,
+    userId: crawl.userId,
+    type: "website",
+    url: crawl.url,
+    options: { maxDepth: crawl.maxDepth ?? DEFAULT_CRAWL_DEPTH, maxPages: crawl.maxPages ?? DEFAULT_CRAWL_PAGES },
+  });
+}
+
+/**
+ * Queue syncs for every scheduled source that is due
+ */
+export async function enqueueDueSourceSyncs(now: Date = new Date()): Promise<number> {
+  let queued = 0;
+  for (const source of await db.getDueTrainingSources(now)) {
+    if (await enqueueSourceSync(source)) queued++;
+  }
+  return queued;
+}
+
+/**
+ * Check for due sources periodically; returns a handle to stop
+ */
+export function startSourceSyncScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS) {
+  const tick = () => {
+    enqueueDueSourceSyncs()
+      .then(queued => {
+        if (queued > 0) console.log(`[Sources] Queued ${queued} scheduled sync(s)`);
+      })
+      .catch(error => console.error("[Sources] Scheduling syncs failed:", error));
+  };
+
+  tick();
+  const timer = setInterval(tick, intervalMs);
+  return {
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
+
+/**
+ * Convert a downloaded file to text by its type
+ */
+async function readRemoteFile(url: string): Promise<FetchedDocument> {
+  const file = await fetchRemoteFile(url);
+  const pathname = decodeURIComponent(new URL(file.url).pathname);
+  const fileName = (pathname.split("/").filter(Boolean).pop() || new URL(file.url).hostname).slice(0, 255);
+  const type = file.contentType.split(";")[0].trim();
+
+  const format =
+    getDocumentFormat({ fileName: pathname, fileType: type === "application/xhtml+xml" ? "text/html" : type }) ??
+    (hasPdfSignature(file.data) ? "pdf" : undefined);
+  if (format) {
+    const { content, metadata } = await extractDocumentText(format, file.data);
+    return {
+      sourceUrl: url,
+      fileName,
+      fileType: DOCUMENT_FORMATS[format].fileType,
+      content,
+      metadata: format === "html" ? metadata : { ...metadata, extractedAt: new Date().toISOString() },
+    };
+  }
+
+  const text = Buffer.from(file.data).toString("utf8");
+  if (type === "text/csv" || /\.csv$/i.test(pathname)) {
+    return { sourceUrl: url, fileName, fileType: "text/csv", content: text, metadata: {} };
+  }
+  if (type === "text/markdown" || /\.(md|markdown)$/i.test(pathname)) {
+    return { sourceUrl: url, fileName, fileType: "text/markdown", content: text, metadata: {} };
+  }
+  if (type.startsWith("text/") || /\.txt$/i.test(pathname)) {
+    return { sourceUrl: url, fileName, fileType: "text/plain", content: text, metadata: {} };
+  }
+
+  throw new PermanentJobError(`Unsupported file type "${type || "unknown"}". Supported: PDF, Word, HTML, JSON, JSONL, CSV, Markdown and plain text.`);
+}
+
+/**
+ * Store a fetched document, embedding it when new and re-embedding only
+ * changed chunks when its content hash differs from the stored one
+ */
+async function upsertSourceDocument(
+  source: TrainingSource,
+  fetched: FetchedDocument,
+  settings: IndexSettings,
+  summary: SyncSummary
+): Promise<TrainingDocument> {
+  const contentHash = hashContent(fetched.content);
+  const existing = await db.getTrainingDocumentBySourceUrl(source.agentId, fetched.sourceUrl);
+
+  if (existing) {
+    const storedHash = existing.contentHash ?? hashContent(existing.content);
+    if (storedHash === contentHash && existing.status === "completed") {
+      if (existing.sourceId !== source.id) {
+        await db.updateTrainingDocument(existing.id, { sourceId: source.id });
+      }
+      summary.unchanged++;
+      return existing;
+    }
+
+    const document = {
+      ...existing,
+      ...fetched,
+      sourceId: source.id,
+      fileSize: Buffer.byteLength(fetched.content, "utf8"),
+      metadata: { ...existing.metadata, ...fetched.metadata },
+    };
+    // Pages synced before versioning keep their previous content as a version
+    await recordDocumentVersion(existing.id);
+    await db.updateTrainingDocument(existing.id, {
+      fileName: document.fileName,
+      fileType: document.fileType,
+      fileSize: document.fileSize,
+      sourceId: source.id,
+      content: document.content,
+      metadata: document.metadata,
+      status: "processing",
+    });
+
+    if (existing.status === "completed") {
+      // Only chunks whose text changed are embedded again
+      const result = await refreshDocumentChunks(document, settings);
+      await db.updateTrainingDocument(existing.id, {
+        status: "completed",
+        chunkCount: result.chunkCount,
+        contentHash,
+        errorMessage: null,
+      });
+      await recordDocumentVersion(existing.id);
+      summary.chunksEmbedded += result.embedded;
+      summary.chunksReused += result.reused;
+    } else {
+      const chunkCount = await processDocument(document);
+      summary.chunksEmbedded += chunkCount;
+    }
+
+    summary.updated++;
+    summary.changedUrls.push(fetched.sourceUrl);
+    return document;
+  }
+
+  const document = await db.createTrainingDocument({
+    ...fetched,
+    agentId: source.agentId,
+    userId: source.userId,
+    sourceId: source.id,
+    fileSize: Buffer.byteLength(fetched.content, "utf8"),
+    status: "pending",
+    chunkCount: 0,
+  });
+  summary.chunksEmbedded += await processDocument(document);
+  summary.added++;
+  summary.changedUrls.push(fetched.sourceUrl);
+  return document;
+}
+
+async function processDocument(document: TrainingDocument): Promise<number> {
+  try {
+    await processDocumentForRAG(document);
+  } catch (error) {
+    await db.updateTrainingDocument(document.id, {
+      status: "failed",
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+  await recordDocumentVersion(document.id);
+  return (await db.getTrainingDocumentById(document.id))?.chunkCount ?? 0;
+}
+
+async function removeSourceDocument(document: TrainingDocument, summary: SyncSummary): Promise<void> {
+  await removeTrainingDocument(document);
+  summary.removed++;
+  if (document.sourceUrl) summary.changedUrls.push(document.sourceUrl);
+}
+
+async function syncWebsite(source: TrainingSource, settings: IndexSettings, summary: SyncSummary): Promise<void> {
+  const maxPages = Number(source.options?.maxPages ?? DEFAULT_CRAWL_PAGES);
+  const seen = new Set<number>();
+
+  const crawl = await crawlWebsite(
+    source.url,
+    { maxDepth: Number(source.options?.maxDepth ?? DEFAULT_CRAWL_DEPTH), maxPages },
+    async page => {
+      const document = await upsertSourceDocument(source, {
+        sourceUrl: page.url,
+        fileName: (page.title || page.url).slice(0, 255),
+        // Pages are stored as text with markdown headings
+        fileType: "text/html",
+        content: page.text,
+        metadata: { title: page.title, crawl: { startUrl: source.url, depth: page.depth } },
+      }, settings, summary);
+      seen.add(document.id);
+    }
+  );
+
+  // A crawl cut short by the page limit says nothing about pages it did not
+  // reach, and a page that failed to load may well still exist
+  if (crawl.pagesCrawled >= maxPages || crawl.failedUrls.length > 0) return;
+
+  for (const document of await db.getTrainingDocumentsBySourceId(source.id)) {
+    if (!seen.has(document.id)) {
+      await removeSourceDocument(document, summary);
+    }
+  }
+}
+
+async function syncFile(source: TrainingSource, settings: IndexSettings, summary: SyncSummary): Promise<void> {
+  const fetched = await readRemoteFile(source.url);
+  await upsertSourceDocument(source, fetched, settings, summary);
+}
+
+/**
+ * One-line description of what a sync changed, for alerts
+ */
+export function describeSyncChanges(source: Pick<TrainingSource, "type" | "url">, summary: SyncSummary): string {
+  const label = source.type === "website" ? "Website" : "File";
+  const unit = source.type === "website" ? "page" : "document";
+  const parts = [
+    summary.added > 0 && `${summary.added} ${unit}(s) added`,
+    summary.updated > 0 && `${summary.updated} ${unit}(s) updated`,
+    summary.removed > 0 && `${summary.removed} ${unit}(s) removed`,
+  ].filter(Boolean);
+
+  return `${label} source ${source.url} changed: ${parts.join(", ")}. ` +
+    `${summary.chunksEmbedded} chunk(s) re-embedded, ${summary.chunksReused} unchanged chunk(s) kept.`;
+}
+
+/**
+ * Re-fetch a source and bring its documents and embeddings up to date
+ * Raises a `retraining` alert when content changed after the first sync
+ * and marks the agent as trained.
+ */
+export async function runSourceSync(sourceId: number): Promise<SyncSummary | null> {
+  const source = await db.getTrainingSourceById(sourceId);
+  // Deleted while queued; nothing to do
+  if (!source) return null;
+
+  const config = await db.getOrCreateRagConfig(source.agentId);
+  const settings = getActiveIndexSettings(config);
+  const summary = emptySummary();
+
+  if (source.type === "website") {
+    await syncWebsite(source, settings, summary);
+  } else {
+    await syncFile(source, settings, summary);
+  }
+
+  const syncedAt = new Date();
+  const changed = summary.added + summary.updated + summary.removed > 0;
+  await db.updateTrainingSource(source.id, {
+    status: "idle",
+    lastSyncedAt: syncedAt,
+    nextSyncAt: nextSyncAt(source, syncedAt),
+    lastError: null,
+    lastSyncSummary: { ...summary, changedUrls: summary.changedUrls.slice(0, MAX_CHANGED_URLS) },
+  });
+
+  if (changed && source.lastSyncedAt) {
+    await db.createAlert({
+      userId: source.userId,
+      agentId: source.agentId,
+      alertType: "retraining",
+      title: "Training Source Updated",
+      message: describeSyncChanges(source, summary),
+      isRead: 0,
+      metadata: {
+        sourceId: source.id,
+        added: summary.added,
+        updated: summary.updated,
+        removed: summary.removed,
+        chunksEmbedded: summary.chunksEmbedded,
+        changedUrls: summary.changedUrls.slice(0, MAX_CHANGED_URLS),
+      },
+    });
+  }
+
+  await db.trainAgent(source.agentId, source.userId);
+  return summary;
+}
+
+/**
+ * Record a sync that failed its last attempt; it is tried again at the
+ * next scheduled time
+ */
+export async function markSourceSyncFailed(sourceId: number, error: Error): Promise<void> {
+  const source = await db.getTrainingSourceById(sourceId);
+  if (!source) return;
+
+  await db.updateTrainingSource(source.id, {
+    status: "failed",
+    lastError: error.message,
+    nextSyncAt: nextSyncAt(source),
+  });
+}
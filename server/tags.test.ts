@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getVectorEmbeddingsByAgentId: vi.fn(),
+  getVectorEmbeddingsByIds: vi.fn(),
+  onVectorEmbeddingChange: vi.fn(),
+}));
+
+vi.mock("./vectorIndexStore", () => ({
+  getAgentVectorIndex: vi.fn(),
+  searchAgentVectors: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { embedLocally } from "./embeddings";
+import { retrieveChunks } from "./rag";
+import { getAgentVectorIndex, searchAgentVectors, type AgentVectorIndex } from "./vectorIndexStore";
+import { formatTagExpression, matchesTagFilter, parseTagExpression, toTags } from "@shared/tags";
+
+describe("tag expressions", () => {
+  it("parses, normalises and formats tags", () => {
+    const tags = parseTagExpression("Product:Pro tier:gold,platinum tier:gold");
+
+    expect(tags).toEqual({ product: ["pro"], tier: ["gold", "platinum"] });
+    expect(formatTagExpression(tags)).toBe("product:pro tier:gold,platinum");
+  });
+
+  it("rejects malformed clauses and treats empty input as no tags", () => {
+    expect(() => parseTagExpression("product")).toThrow("Expected key:value");
+    expect(() => parseTagExpression("product:")).toThrow("Invalid value for tag product");
+    expect(toTags("  ")).toBeNull();
+    expect(toTags({ language: "EN" })).toEqual({ language: ["en"] });
+  });
+
+  it("matches every filter key and shares untagged content", () => {
+    const filter = { product: ["pro"], language: ["en"] };
+
+    expect(matchesTagFilter({ product: ["pro", "team"], language: ["en"] }, filter)).toBe(true);
+    expect(matchesTagFilter({ product: ["free"] }, filter)).toBe(false);
+    expect(matchesTagFilter({ audience: ["internal"] }, filter)).toBe(true);
+    expect(matchesTagFilter(null, filter)).toBe(true);
+  });
+});
+
+describe("retrieveChunks with a tag filter", () => {
+  const chunks = [
+    { content: "Pro plans include priority support.", tags: { product: ["pro"] } },
+    { content: "Free plans include community support.", tags: { product: ["free"] } },
+    { content: "Support is available in English.", tags: null },
+  ];
+
+  const config = {
+    agentId: 1,
+    enabled: 1,
+    topK: 3,
+    similarityThreshold: "0.00",
+    keywordWeight: "0.00",
+    embeddingModel: "local-hash",
+    indexedEmbeddingModel: "local-hash",
+    indexVersion: 0,
+    reranker: null,
+  } as RagConfiguration;
+
+  const toEmbeddings = (items: { content: string; tags: Record<string, string[]> | null }[]) =>
+    items.map((chunk, index) => ({
+      id: index + 1,
+      documentId: index + 1,
+      agentId: 1,
+      chunkIndex: 0,
+      indexVersion: 0,
+      content: chunk.content,
+      embedding: embedLocally(chunk.content),
+      metadata: null,
+      tags: chunk.tags,
+      createdAt: new Date(),
+    })) as VectorEmbedding[];
+
+  beforeEach(() => {
+    ENV.vectorIndexEnabled = false;
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue(toEmbeddings(chunks));
+  });
+
+  afterEach(() => {
+    ENV.vectorIndexEnabled = false;
+  });
+
+  it("leaves out chunks of documents tagged for other segments", async () => {
+    const unfiltered = await retrieveChunks(1, "what support do plans include", config);
+    const filtered = await retrieveChunks(1, "what support do plans include", config, {
+      filter: { product: ["pro"] },
+    });
+
+    expect(unfiltered.map(item => item.embedding.id).sort()).toEqual([1, 2, 3]);
+    expect(filtered.map(item => item.embedding.id).sort()).toEqual([1, 3]);
+  });
+
+  it("finds a small segment's chunks beyond the nearest neighbours", async () => {
+    const embeddings = toEmbeddings([
+      ...Array.from({ length: 250 }, (_, i) => ({ content: `Free plan note ${i} about support.`, tags: { product: ["free"] } })),
+      { content: "Enterprise plans include a dedicated support manager.", tags: { product: ["enterprise"] } },
+    ]);
+    ENV.vectorIndexEnabled = true;
+    vi.mocked(getAgentVectorIndex).mockResolvedValue({
+      keywords: { termFrequencies: new Map([[1, new Map()]]) },
+    } as unknown as AgentVectorIndex);
+    // Every neighbour the index returns belongs to the large segment
+    vi.mocked(searchAgentVectors).mockImplementation((_index, _query, k) =>
+      embeddings.slice(0, Math.min(k, 250)).map(embedding => ({ id: embedding.id, score: 1 }))
+    );
+    vi.mocked(db.getVectorEmbeddingsByIds).mockImplementation(async ids => embeddings.filter(e => ids.includes(e.id)));
+    vi.mocked(db.getVectorEmbeddingsByAgentId).mockResolvedValue(embeddings);
+
+    const filtered = await retrieveChunks(1, "what support do plans include", config, {
+      filter: { product: ["enterprise"] },
+    });
+
+    expect(filtered.map(item => item.embedding.id)).toEqual([251]);
+  });
+});
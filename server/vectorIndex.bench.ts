@@ -0,0 +1,55 @@
+import { bench, describe } from "vitest";
+import { HnswIndex } from "./vectorIndex";
+
+/**
+ * Run with `pnpm bench`. Compares HNSW queries against the exact scan
+ * that retrieval falls back to, on random unit vectors.
+ */
+
+const SIZE = 5_000;
+const DIMENSIONS = 256;
+
+function randomVectors(count: number, dimensions: number, seed: number): Float32Array[] {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647 - 0.5;
+  };
+  return Array.from({ length: count }, () => Float32Array.from({ length: dimensions }, random));
+}
+
+const vectors = randomVectors(SIZE, DIMENSIONS, 1);
+const queries = randomVectors(100, DIMENSIONS, 2);
+
+const index = new HnswIndex(DIMENSIONS);
+vectors.forEach((vector, id) => index.add(id, vector));
+
+let next = 0;
+const nextQuery = () => queries[next++ % queries.length];
+
+describe(`top-10 search over ${SIZE} × ${DIMENSIONS}`, () => {
+  bench("hnsw (ef 64)", () => {
+    index.search(nextQuery(), 10, 64);
+  });
+
+  bench("hnsw (ef 128)", () => {
+    index.search(nextQuery(), 10, 128);
+  });
+
+  bench("exact scan", () => {
+    index.exactSearch(nextQuery(), 10);
+  });
+});
+
+describe("index maintenance", () => {
+  const extra = randomVectors(200, DIMENSIONS, 3);
+  let id = SIZE;
+
+  bench("insert one vector", () => {
+    index.add(id++, extra[id % extra.length]);
+  }, { iterations: 200 });
+
+  bench("serialize", () => {
+    index.serialize();
+  }, { iterations: 5 });
+});
@@ -0,0 +1,165 @@
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import { afterAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { RagConfiguration, VectorEmbedding } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  onVectorEmbeddingChange: vi.fn(),
+  getVectorEmbeddingStats: vi.fn(),
+  getVectorEmbeddingIds: vi.fn(),
+  getVectorEmbeddingsByIds: vi.fn(),
+  getVectorEmbeddingsByAgentId: vi.fn(),
+}));
+
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import { embedLocally } from "./embeddings";
+import { retrieveChunks } from "./rag";
+import { HnswIndex } from "./vectorIndex";
+import {
+  clearVectorIndexCache,
+  flushVectorIndexes,
+  getAgentVectorIndex,
+  searchAgentVectors,
+} from "./vectorIndexStore";
+
+function randomVectors(count: number, dimensions: number, seed: number): number[][] {
+  let state = seed;
+  const random = () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, random));
+}
+
+function recallAt(index: HnswIndex, queries: number[][], k: number): number {
+  let found = 0;
+  for (const query of queries) {
+    const approximate = new Set(index.search(query, k).map(hit => hit.id));
+    found += index.exactSearch(query, k).filter(hit => approximate.has(hit.id)).length;
+  }
+  return found / (queries.length * k);
+}
+
+describe("HnswIndex", () => {
+  const vectors = randomVectors(1200, 32, 7);
+  const queries = randomVectors(50, 32, 99);
+  const index = new HnswIndex(32);
+  vectors.forEach((vector, id) => index.add(id, vector));
+
+  it("finds nearly all exact nearest neighbours", () => {
+    expect(recallAt(index, queries, 10)).toBeGreaterThan(0.9);
+  });
+
+  it("scores hits by cosine similarity", () => {
+    const [hit] = index.search(vectors[5], 1);
+    expect(hit.id).toBe(5);
+    expect(hit.score).toBeCloseTo(1, 5);
+  });
+
+  it("stays connected after removals", () => {
+    const copy = HnswIndex.deserialize(index.serialize().graph, index.serialize().vectors);
+    const removed = Array.from({ length: 400 }, (_, i) => i * 3);
+    copy.removeMany(removed);
+
+    expect(copy.size).toBe(800);
+    const hits = queries.flatMap(query => copy.search(query, 10));
+    expect(hits.some(hit => removed.includes(hit.id))).toBe(false);
+    expect(recallAt(copy, queries, 10)).toBeGreaterThan(0.9);
+  });
+
+  it("round-trips through serialisation", () => {
+    const { graph, vectors: data } = index.serialize();
+    const restored = HnswIndex.deserialize(JSON.parse(JSON.stringify(graph)), data);
+
+    expect(restored.search(queries[0], 10)).toEqual(index.search(queries[0], 10));
+  });
+});
+
+describe("vectorIndexStore", () => {
+  const dir = path.join(os.tmpdir(), `vector-index-test-${process.pid}`);
+  let rows: VectorEmbedding[] = [];
+
+  const makeRow = (id: number, content: string, embedding: number[]) =>
+    ({ id, agentId: 1, indexVersion: 0, documentId: 1, chunkIndex: id, content, embedding }) as VectorEmbedding;
+
+  beforeEach(() => {
+    ENV.vectorIndexDir = dir;
+    clearVectorIndexCache();
+    rows = [
+      makeRow(1, "refund policy", [1, 0, 0]),
+      makeRow(2, "shipping times", [0, 1, 0]),
+    ];
+    vi.mocked(db.getVectorEmbeddingStats).mockImplementation(async () => ({
+      count: rows.length,
+      maxId: Math.max(0, ...rows.map(row => row.id)),
+    }));
+    vi.mocked(db.getVectorEmbeddingIds).mockImplementation(async () => rows.map(row => row.id));
+    vi.mocked(db.getVectorEmbeddingsByIds).mockImplementation(async ids =>
+      rows.filter(row => ids.includes(row.id))
+    );
+  });
+
+  afterAll(async () => {
+    clearVectorIndexCache();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("builds from the table and catches up with later changes", async () => {
+    const index = await getAgentVectorIndex(1, 0);
+    expect(searchAgentVectors(index, [0, 1, 0], 1)[0].id).toBe(2);
+
+    rows = [rows[1], makeRow(3, "warranty terms", [0, 0, 1])];
+    vi.mocked(db.getVectorEmbeddingsByIds).mockClear();
+    const synced = await getAgentVectorIndex(1, 0);
+
+    expect(vi.mocked(db.getVectorEmbeddingsByIds)).toHaveBeenCalledWith([3]);
+    expect(synced.vectors?.ids().sort()).toEqual([2, 3]);
+    expect(synced.keywords.termFrequencies.has(1)).toBe(false);
+  });
+
+  it("applies created and deleted rows to loaded indexes", async () => {
+    const listener = vi.mocked(db.onVectorEmbeddingChange).mock.calls[0][0];
+    const index = await getAgentVectorIndex(1, 0);
+
+    listener({ type: "created", embedding: makeRow(4, "gift cards", [1, 1, 0]) });
+    listener({ type: "deleted", agentId: 1, indexVersion: 0, ids: [1] });
+
+    expect(index.vectors?.ids().sort()).toEqual([2, 4]);
+  });
+
+  it("serves retrieval from the index without loading every chunk", async () => {
+    rows = ["refund policy for damaged items", "shipping times to Europe", "warranty terms and repairs"]
+      .map((content, i) => makeRow(i + 1, content, embedLocally(content)));
+    ENV.vectorIndexEnabled = true;
+
+    const results = await retrieveChunks(1, "what is the refund policy", {
+      agentId: 1,
+      topK: 2,
+      similarityThreshold: "0.00",
+      keywordWeight: "0.50",
+      embeddingModel: "local-hash",
+      indexedEmbeddingModel: "local-hash",
+      indexVersion: 0,
+    } as RagConfiguration);
+
+    expect(db.getVectorEmbeddingsByAgentId).not.toHaveBeenCalled();
+    expect(results).toHaveLength(2);
+    expect(results[0].embedding.id).toBe(1);
+    expect(results[0].vectorScore).toBeGreaterThan(results[1].vectorScore);
+    expect(results[0].keywordScore).toBeGreaterThan(0);
+  });
+
+  it("reloads a persisted index without rebuilding it", async () => {
+    await getAgentVectorIndex(1, 0);
+    await flushVectorIndexes();
+    clearVectorIndexCache();
+    vi.mocked(db.getVectorEmbeddingsByIds).mockClear();
+
+    const index = await getAgentVectorIndex(1, 0);
+
+    expect(db.getVectorEmbeddingsByIds).not.toHaveBeenCalled();
+    expect(searchAgentVectors(index, [1, 0, 0], 1)[0].id).toBe(1);
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * In-process approximate nearest-neighbour index (HNSW)
+ * Vectors are L2-normalised on insert, so similarity is a dot product and
+ * scores match the cosine similarity used by exact search.
+ * See Malkov & Yashunin, "Efficient and robust approximate nearest
+ * neighbor search using Hierarchical Navigable Small World graphs".
+ */
+
+export type HnswOptions = {
+  /** Links per node on upper layers; layer 0 keeps twice as many */
+  m?: number;
+  /** Candidate list size while inserting */
+  efConstruction?: number;
+  /** Default candidate list size while searching */
+  efSearch?: number;
+  /** Seed for level assignment, for reproducible graphs */
+  seed?: number;
+};
+
+export type VectorHit = {
+  id: number;
+  score: number;
+};
+
+/**
+ * Graph layout without the vectors, which are stored as a flat
+ * Float32Array in the same node order
+ */
+export type SerializedHnswGraph = {
+  dimensions: number;
+  options: Required<HnswOptions>;
+  entryPoint: number | null;
+  maxLevel: number;
+  rngState: number;
+  /** [id, level, neighbours per level] */
+  nodes: [number, number, number[][]][];
+};
+
+type HnswNode = {
+  id: number;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+};
+
+type Candidate = { id: number; distance: number };
+
+/**
+ * Binary heap ordered by distance; `max` puts the farthest on top
+ */
+class CandidateHeap {
+  private items: Candidate[] = [];
+
+  constructor(private readonly max: boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): Candidate[] {
+    return this.items.slice();
+  }
+
+  private before(a: Candidate, b: Candidate): boolean {
+    return this.max ? a.distance > b.distance : a.distance < b.distance;
+  }
+}
+
+/**
+ * Deterministic PRNG (mulberry32)
+ */
+function nextRandom(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const normalized = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return normalized;
+  for (let i = 0; i < vector.length; i++) normalized[i] = vector[i] / norm;
+  return normalized;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+export class HnswIndex {
+  readonly dimensions: number;
+  private readonly options: Required<HnswOptions>;
+  private readonly levelMultiplier: number;
+  private readonly nodes = new Map<number, HnswNode>();
+  private entryPoint: number | null = null;
+  private maxLevel = -1;
+  private rngState: number;
+
+  constructor(dimensions: number, options: HnswOptions = {}) {
+    this.dimensions = dimensions;
+    this.options = {
+      m: options.m ?? 16,
+      efConstruction: options.efConstruction ?? 100,
+      efSearch: options.efSearch ?? 64,
+      seed: options.seed ?? 42,
+    };
+    this.levelMultiplier = 1 / Math.log(this.options.m);
+    this.rngState = this.options.seed;
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: number): boolean {
+    return this.nodes.has(id);
+  }
+
+  ids(): number[] {
+    return Array.from(this.nodes.keys());
+  }
+
+  /**
+   * Insert a vector, replacing any existing vector with the same id
+   */
+  add(id: number, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+    }
+    if (this.nodes.has(id)) this.removeMany([id]);
+
+    const node: HnswNode = {
+      id,
+      vector: normalizeVector(vector),
+      level: this.randomLevel(),
+      neighbors: [],
+    };
+    for (let l = 0; l <= node.level; l++) node.neighbors.push([]);
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = node.level;
+      return;
+    }
+
+    let current = this.entryPoint;
+    for (let level = this.maxLevel; level > node.level; level--) {
+      current = this.searchLayer(node.vector, [current], 1, level)[0].id;
+    }
+
+    for (let level = Math.min(node.level, this.maxLevel); level >= 0; level--) {
+      const candidates = this.searchLayer(node.vector, [current], this.options.efConstruction, level)
+        .filter(candidate => candidate.id !== id);
+      const selected = this.selectNeighbors(node.vector, candidates, this.maxLinks(level));
+      node.neighbors[level] = selected.map(candidate => candidate.id);
+
+      for (const neighborId of node.neighbors[level]) {
+        const neighbor = this.nodes.get(neighborId)!;
+        neighbor.neighbors[level].push(id);
+        if (neighbor.neighbors[level].length > this.maxLinks(level)) {
+          this.prune(neighbor, level);
+        }
+      }
+
+      if (candidates.length > 0) current = candidates[0].id;
+    }
+
+    if (node.level > this.maxLevel) {
+      this.maxLevel = node.level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Remove vectors and repair the links of the nodes that pointed at them
+   */
+  removeMany(ids: number[]): void {
+    const removed = new Map<number, HnswNode>();
+    for (const id of ids) {
+      const node = this.nodes.get(id);
+      if (node) {
+        removed.set(id, node);
+        this.nodes.delete(id);
+      }
+    }
+    if (removed.size === 0) return;
+
+    this.nodes.forEach(node => {
+      node.neighbors.forEach((links, level) => {
+        if (!links.some(link => removed.has(link))) return;
+
+        // Offer the removed nodes' own neighbours as replacement links
+        const pool = new Set<number>();
+        for (const link of links) {
+          const gone = removed.get(link);
+          if (!gone) {
+            pool.add(link);
+          } else if (gone.neighbors[level]) {
+            for (const next of gone.neighbors[level]) pool.add(next);
+          }
+        }
+        pool.delete(node.id);
+
+        const candidates = Array.from(pool)
+          .filter(candidate => this.nodes.has(candidate))
+          .map(candidate => ({
+            id: candidate,
+            distance: 1 - dot(node.vector, this.nodes.get(candidate)!.vector),
+          }))
+          .sort((a, b) => a.distance - b.distance);
+        node.neighbors[level] = this.selectNeighbors(node.vector, candidates, this.maxLinks(level))
+          .map(candidate => candidate.id);
+      });
+    });
+
+    if (this.entryPoint !== null && removed.has(this.entryPoint)) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      this.nodes.forEach(node => {
+        if (node.level > this.maxLevel) {
+          this.maxLevel = node.level;
+          this.entryPoint = node.id;
+        }
+      });
+    }
+  }
+
+  /**
+   * Approximate top-k by cosine similarity
+   */
+  search(query: ArrayLike<number>, k: number, ef: number = this.options.efSearch): VectorHit[] {
+    if (this.entryPoint === null || k <= 0) return [];
+    if (query.length !== this.dimensions) {
+      throw new Error(`Query has ${query.length} dimensions, index expects ${this.dimensions}`);
+    }
+
+    const vector = normalizeVector(query);
+    let current = this.entryPoint;
+    for (let level = this.maxLevel; level > 0; level--) {
+      current = this.searchLayer(vector, [current], 1, level)[0].id;
+    }
+
+    return this.searchLayer(vector, [current], Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.id, score: 1 - candidate.distance }));
+  }
+
+  /**
+   * Exact top-k by scanning every vector
+   */
+  exactSearch(query: ArrayLike<number>, k: number): VectorHit[] {
+    const vector = normalizeVector(query);
+    const hits: VectorHit[] = [];
+    this.nodes.forEach(node => {
+      hits.push({ id: node.id, score: dot(vector, node.vector) });
+    });
+    return hits.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  serialize(): { graph: SerializedHnswGraph; vectors: Float32Array } {
+    const nodes = Array.from(this.nodes.values());
+    const vectors = new Float32Array(nodes.length * this.dimensions);
+    nodes.forEach((node, index) => vectors.set(node.vector, index * this.dimensions));
+
+    return {
+      graph: {
+        dimensions: this.dimensions,
+        options: this.options,
+        entryPoint: this.entryPoint,
+        maxLevel: this.maxLevel,
+        rngState: this.rngState,
+        nodes: nodes.map(node => [node.id, node.level, node.neighbors]),
+      },
+      vectors,
+    };
+  }
+
+  static deserialize(graph: SerializedHnswGraph, vectors: Float32Array): HnswIndex {
+    if (vectors.length !== graph.nodes.length * graph.dimensions) {
+      throw new Error("Vector data does not match the index graph");
+    }
+
+    const index = new HnswIndex(graph.dimensions, graph.options);
+    graph.nodes.forEach(([id, level, neighbors], position) => {
+      const start = position * graph.dimensions;
+      index.nodes.set(id, {
+        id,
+        level,
+        neighbors,
+        vector: vectors.slice(start, start + graph.dimensions),
+      });
+    });
+    index.entryPoint = graph.entryPoint;
+    index.maxLevel = graph.maxLevel;
+    index.rngState = graph.rngState;
+    return index;
+  }
+
+  private maxLinks(level: number): number {
+    return level === 0 ? this.options.m * 2 : this.options.m;
+  }
+
+  private randomLevel(): number {
+    const [random, state] = nextRandom(this.rngState);
+    this.rngState = state;
+    return Math.floor(-Math.log(Math.max(random, 1e-12)) * this.levelMultiplier);
+  }
+
+  /**
+   * Best-first search of one layer; returns up to `ef` nodes, closest first
+   */
+  private searchLayer(query: Float32Array, entryIds: number[], ef: number, level: number): Candidate[] {
+    const visited = new Set<number>(entryIds);
+    const candidates = new CandidateHeap(false);
+    const results = new CandidateHeap(true);
+
+    for (const id of entryIds) {
+      const candidate = { id, distance: 1 - dot(query, this.nodes.get(id)!.vector) };
+      candidates.push(candidate);
+      results.push(candidate);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (closest.distance > results.peek()!.distance && results.size >= ef) break;
+
+      const links = this.nodes.get(closest.id)!.neighbors[level] ?? [];
+      for (const link of links) {
+        if (visited.has(link)) continue;
+        visited.add(link);
+
+        const neighbor = this.nodes.get(link);
+        if (!neighbor) continue;
+
+        const distance = 1 - dot(query, neighbor.vector);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          candidates.push({ id: link, distance });
+          results.push({ id: link, distance });
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates that are closer to
+   * the base than to any already selected neighbour, which keeps links
+   * spread across clusters; top up with the nearest remaining ones.
+   * `candidates` must be sorted closest first.
+   */
+  private selectNeighbors(base: Float32Array, candidates: Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= max) break;
+      const vector = this.nodes.get(candidate.id)!.vector;
+      const diverse = selected.every(
+        chosen => 1 - dot(vector, this.nodes.get(chosen.id)!.vector) > candidate.distance
+      );
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  private prune(node: HnswNode, level: number): void {
+    const candidates = node.neighbors[level]
+      .filter(id => this.nodes.has(id))
+      .map(id => ({ id, distance: 1 - dot(node.vector, this.nodes.get(id)!.vector) }))
+      .sort((a, b) => a.distance - b.distance);
+    node.neighbors[level] = this.selectNeighbors(node.vector, candidates, this.maxLinks(level))
+      .map(candidate => candidate.id);
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * Per-agent ANN and keyword indexes for retrieval
+ * Each agent's active index version is held in memory as an HNSW graph
+ * plus a BM25 index, persisted under `VECTOR_INDEX_DIR` and kept current
+ * from database changes. Before every search the index is checked against
+ * the table (row count and highest id) and caught up incrementally, so
+ * writes from other processes are picked up too.
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import type { VectorEmbedding } from "../drizzle/schema";
+import {
+  addToBm25Index,
+  createBm25Index,
+  removeFromBm25Index,
+  type Bm25Index,
+} from "./keywordSearch";
+import { HnswIndex, type SerializedHnswGraph, type VectorHit } from "./vectorIndex";
+
+export type AgentVectorIndex = {
+  agentId: number;
+  indexVersion: number;
+  /** Created with the first embedded chunk, once dimensions are known */
+  vectors: HnswIndex | null;
+  keywords: Bm25Index;
+};
+
+type PersistedIndex = {
+  format: 1;
+  agentId: number;
+  indexVersion: number;
+  graph: SerializedHnswGraph | null;
+  /** Term counts per chunk id */
+  keywords: [number, [string, number][]][];
+};
+
+/**
+ * Below this size an exact scan is as fast and always exact
+ */
+export const EXACT_SEARCH_MAX_SIZE = 1000;
+
+const SAVE_DELAY_MS = 5_000;
+
+const indexes = new Map<string, AgentVectorIndex>();
+const pending = new Map<string, Promise<AgentVectorIndex>>();
+const saveTimers = new Map<string, NodeJS.Timeout>();
+
+function indexKey(agentId: number, indexVersion: number): string {
+  return `${agentId}:${indexVersion}`;
+}
+
+function indexPaths(agentId: number, indexVersion: number) {
+  const base = path.resolve(ENV.vectorIndexDir, `agent-${agentId}-v${indexVersion}`);
+  return { meta: `${base}.json`, vectors: `${base}.vectors.bin` };
+}
+
+function addEmbedding(index: AgentVectorIndex, embedding: VectorEmbedding): void {
+  addToBm25Index(index.keywords, embedding.id, embedding.content);
+
+  const vector = embedding.embedding;
+  if (!Array.isArray(vector) || vector.length === 0) return;
+
+  if (!index.vectors) {
+    index.vectors = new HnswIndex(vector.length);
+  }
+  if (vector.length !== index.vectors.dimensions) {
+    console.warn(
+      `[VectorIndex] Skipping embedding ${embedding.id}: ${vector.length} dimensions, index has ${index.vectors.dimensions}`
+    );
+    return;
+  }
+  index.vectors.add(embedding.id, vector);
+}
+
+function removeEmbeddings(index: AgentVectorIndex, ids: number[]): void {
+  for (const id of ids) removeFromBm25Index(index.keywords, id);
+  index.vectors?.removeMany(ids);
+}
+
+function indexedIds(index: AgentVectorIndex): number[] {
+  return Array.from(index.keywords.termFrequencies.keys());
+}
+
+// ============ Persistence ============
+
+async function loadFromDisk(agentId: number, indexVersion: number): Promise<AgentVectorIndex | null> {
+  const paths = indexPaths(agentId, indexVersion);
+
+  try {
+    const persisted = JSON.parse(await fs.readFile(paths.meta, "utf8")) as PersistedIndex;
+    if (persisted.format !== 1) return null;
+
+    const keywords = createBm25Index();
+    for (const [id, terms] of persisted.keywords) {
+      const counts = new Map(terms);
+      let length = 0;
+      counts.forEach((count, term) => {
+        length += count;
+        keywords.documentFrequency.set(term, (keywords.documentFrequency.get(term) ?? 0) + 1);
+      });
+      keywords.termFrequencies.set(id, counts);
+      keywords.lengths.set(id, length);
+      keywords.totalLength += length;
+    }
+
+    let vectors: HnswIndex | null = null;
+    if (persisted.graph) {
+      const buffer = await fs.readFile(paths.vectors);
+      // Copy into an aligned buffer before viewing it as floats
+      const data = new Float32Array(new Uint8Array(buffer).buffer);
+      vectors = HnswIndex.deserialize(persisted.graph, data);
+    }
+
+    return { agentId, indexVersion, vectors, keywords };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.warn(`[VectorIndex] Discarding unreadable index for agent ${agentId}:`, error);
+    }
+    return null;
+  }
+}
+
+async function saveToDisk(index: AgentVectorIndex): Promise<void> {
+  const paths = indexPaths(index.agentId, index.indexVersion);
+  const serialized = index.vectors?.serialize();
+  const persisted: PersistedIndex = {
+    format: 1,
+    agentId: index.agentId,
+    indexVersion: index.indexVersion,
+    graph: serialized?.graph ?? null,
+    keywords: Array.from(index.keywords.termFrequencies.entries()).map(
+      ([id, counts]) => [id, Array.from(counts.entries())]
+    ),
+  };
+
+  await fs.mkdir(path.dirname(paths.meta), { recursive: true });
+
+  // Write to temporary files first so a crash never leaves a torn index
+  if (serialized) {
+    const vectors = Buffer.from(serialized.vectors.buffer, serialized.vectors.byteOffset, serialized.vectors.byteLength);
+    await fs.writeFile(`${paths.vectors}.tmp`, vectors);
+    await fs.rename(`${paths.vectors}.tmp`, paths.vectors);
+  }
+  await fs.writeFile(`${paths.meta}.tmp`, JSON.stringify(persisted));
+  await fs.rename(`${paths.meta}.tmp`, paths.meta);
+}
+
+function scheduleSave(index: AgentVectorIndex): void {
+  const key = indexKey(index.agentId, index.indexVersion);
+  if (saveTimers.has(key)) return;
+
+  const timer = setTimeout(() => {
+    saveTimers.delete(key);
+    // Skip indexes dropped while the save was pending
+    if (indexes.get(key) !== index) return;
+    saveToDisk(index).catch(error => {
+      console.warn(`[VectorIndex] Failed to persist index for agent ${index.agentId}:`, error);
+    });
+  }, SAVE_DELAY_MS);
+  timer.unref?.();
+  saveTimers.set(key, timer);
+}
+
+async function removeFromDisk(agentId: number, keep?: (indexVersion: number) => boolean): Promise<void> {
+  const prefix = `agent-${agentId}-v`;
+  let files: string[];
+  try {
+    files = await fs.readdir(path.resolve(ENV.vectorIndexDir));
+  } catch {
+    return;
+  }
+
+  await Promise.all(files
+    .filter(file => file.startsWith(prefix))
+    .filter(file => !keep?.(parseInt(file.slice(prefix.length))))
+    .map(file => fs.rm(path.resolve(ENV.vectorIndexDir, file), { force: true })));
+}
+
+// ============ Synchronisation ============
+
+/**
+ * Catch the index up with the table: add missing rows, drop deleted ones
+ */
+async function syncWithDatabase(index: AgentVectorIndex): Promise<void> {
+  const ids = indexedIds(index);
+  const maxId = ids.reduce((highest, id) => Math.max(highest, id), 0);
+  const stats = await db.getVectorEmbeddingStats(index.agentId, index.indexVersion);
+  if (stats.count === ids.length && stats.maxId === maxId) return;
+
+  const stored = new Set(await db.getVectorEmbeddingIds(index.agentId, index.indexVersion));
+  const known = new Set(ids);
+  const missing = Array.from(stored).filter(id => !known.has(id));
+  const removed = ids.filter(id => !stored.has(id));
+
+  if (removed.length > 0) removeEmbeddings(index, removed);
+  for (const embedding of await db.getVectorEmbeddingsByIds(missing)) {
+    addEmbedding(index, embedding);
+  }
+
+  if (missing.length > 0 || removed.length > 0) {
+    scheduleSave(index);
+  }
+}
+
+async function loadIndex(agentId: number, indexVersion: number): Promise<AgentVectorIndex> {
+  const key = indexKey(agentId, indexVersion);
+  const index = indexes.get(key)
+    ?? await loadFromDisk(agentId, indexVersion)
+    ?? { agentId, indexVersion, vectors: null, keywords: createBm25Index() };
+
+  await syncWithDatabase(index);
+  indexes.set(key, index);
+  return index;
+}
+
+/**
+ * Load (or build) an agent's index and bring it up to date
+ */
+export async function getAgentVectorIndex(agentId: number, indexVersion: number): Promise<AgentVectorIndex> {
+  const key = indexKey(agentId, indexVersion);
+
+  // Share one load/sync between concurrent queries
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const promise = loadIndex(agentId, indexVersion).finally(() => pending.delete(key));
+  pending.set(key, promise);
+  return promise;
+}
+
+/**
+ * Nearest chunks by cosine similarity; small indexes, and any failure of
+ * the graph search, fall back to an exact scan
+ */
+export function searchAgentVectors(index: AgentVectorIndex, query: number[], k: number): VectorHit[] {
+  const vectors = index.vectors;
+  if (!vectors || vectors.size === 0 || query.length !== vectors.dimensions) return [];
+
+  if (vectors.size <= EXACT_SEARCH_MAX_SIZE) {
+    return vectors.exactSearch(query, k);
+  }
+
+  try {
+    return vectors.search(query, k, Math.max(k * 2, 64));
+  } catch (error) {
+    console.warn(`[VectorIndex] ANN search failed for agent ${index.agentId}, using exact search:`, error);
+    return vectors.exactSearch(query, k);
+  }
+}
+
+/**
+ * Persist every index with unsaved changes now
+ */
+export async function flushVectorIndexes(): Promise<void> {
+  const keys = Array.from(saveTimers.keys());
+  saveTimers.forEach(timer => clearTimeout(timer));
+  saveTimers.clear();
+
+  await Promise.all(keys
+    .map(key => indexes.get(key))
+    .filter((index): index is AgentVectorIndex => Boolean(index))
+    .map(index => saveToDisk(index)));
+}
+
+/**
+ * Forget in-memory indexes without saving them
+ */
+export function clearVectorIndexCache(): void {
+  saveTimers.forEach(timer => clearTimeout(timer));
+  saveTimers.clear();
+  indexes.clear();
+  pending.clear();
+}
+
+db.onVectorEmbeddingChange(change => {
+  switch (change.type) {
+    case "created": {
+      const index = indexes.get(indexKey(change.embedding.agentId, change.embedding.indexVersion));
+      if (index) {
+        addEmbedding(index, change.embedding);
+        scheduleSave(index);
+      }
+      break;
+    }
+    case "deleted": {
+      const index = indexes.get(indexKey(change.agentId, change.indexVersion));
+      if (index) {
+        removeEmbeddings(index, change.ids);
+        scheduleSave(index);
+      }
+      break;
+    }
+    case "versionDeleted":
+      indexes.delete(indexKey(change.agentId, change.indexVersion));
+      void removeFromDisk(change.agentId, version => version !== change.indexVersion);
+      break;
+    case "staleDeleted":
+      indexes.forEach((index, key) => {
+        if (index.agentId === change.agentId && index.indexVersion !== change.keepIndexVersion) {
+          indexes.delete(key);
+        }
+      });
+      void removeFromDisk(change.agentId, version => version === change.keepIndexVersion);
+      break;
+  }
+});
@@ -0,0 +1,189 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  assertCrawlableUrl,
+  crawlWebsite,
+  fetchCheckedHost,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  type CrawledPage,
+} from "./webCrawler";
+
+const page = (title: string, body: string) =>
+  `<!doctype html><html><head><title>${title}</title></head><body>${body}</body></html>`;
+
+// `chunked` bodies are sent without a content-length
+const fixtures: Record<string, { type: string; body: string; status?: number; location?: string; chunked?: boolean }> = {
+  "/robots.txt": {
+    type: "text/plain",
+    body: "User-agent: *\nDisallow: /private\n\nUser-agent: OtherBot\nDisallow: /\n",
+  },
+  "/": {
+    type: "text/html",
+    body: page(
+      "Home",
+      `<nav><a href="/docs">Docs</a> <a href="/private/admin">Admin</a></nav>
+       <main><h1>Welcome</h1><p>Acme &amp; Co. builds widgets.</p></main>
+       <a href="https://elsewhere.example/">Elsewhere</a> <a href="/logo.png">Logo</a>`
+    ),
+  },
+  "/docs": {
+    type: "text/html",
+    body: page("Docs", `<h1>Docs</h1><p>Read the <a href="/docs/setup#install">setup guide</a>.</p>`),
+  },
+  "/docs/setup": {
+    type: "text/html",
+    body: page("Setup", `<h2>Install</h2><ul><li>Download</li><li>Run</li></ul><a href="/deep">Deeper</a>`),
+  },
+  "/deep": { type: "text/html", body: page("Deep", "<p>Three links away.</p>") },
+  "/private/admin": { type: "text/html", body: page("Admin", "<p>Secret.</p>") },
+  "/old": { type: "text/html", body: "", status: 301, location: "/docs" },
+  "/hidden": {
+    type: "text/html",
+    body: `<html><head><meta name="robots" content="noindex"></head><body><p>Hidden</p></body></html>`,
+  },
+  "/sitemap.xml": {
+    type: "application/xml",
+    body: `<?xml version="1.0"?><sitemapindex><sitemap><loc>/pages.xml</loc></sitemap></sitemapindex>`,
+  },
+  "/pages.xml": {
+    type: "application/xml",
+    body: `<?xml version="1.0"?><urlset>
+      <url><loc>/deep</loc></url>
+      <url><loc>/private/admin</loc></url>
+      <url><loc>/hidden</loc></url>
+      <url><loc>https://elsewhere.example/page</loc></url>
+    </urlset>`,
+  },
+  "/flaky": { type: "text/html", body: "", status: 503 },
+  "/huge": { type: "text/html", body: page("Huge", `<p>${"a".repeat(11 * 1024 * 1024)}</p>`), chunked: true },
+  "/moved.xml": {
+    type: "application/xml",
+    body: `<?xml version="1.0"?><urlset>
+      <url><loc>/deep</loc></url>
+      <url><loc>/flaky</loc></url>
+      <url><loc>/gone</loc></url>
+    </urlset>`,
+  },
+};
+
+let server: http.Server;
+let origin: string;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const fixture = fixtures[req.url ?? ""];
+    if (!fixture) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(fixture.status ?? 200, {
+      "Content-Type": fixture.type,
+      ...(fixture.location ? { Location: fixture.location } : {}),
+    });
+    if (fixture.chunked) res.write(fixture.body);
+    res.end(fixture.chunked ? undefined : fixture.body);
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+async function crawl(path: string, options: { maxDepth?: number; maxPages?: number } = {}) {
+  const pages: CrawledPage[] = [];
+  const summary = await crawlWebsite(`${origin}${path}`, { ...options, allowPrivateHosts: true }, async crawled => {
+    pages.push(crawled);
+  });
+  return { pages, summary };
+}
+
+describe("robots.txt", () => {
+  it("applies the most specific rule, preferring Allow on ties", () => {
+    const rules = parseRobotsTxt("User-agent: *\nDisallow: /docs\nAllow: /docs/public\nDisallow: /*.pdf$\n");
+
+    expect(isAllowedByRobots(rules, "/docs/internal")).toBe(false);
+    expect(isAllowedByRobots(rules, "/docs/public/faq")).toBe(true);
+    expect(isAllowedByRobots(rules, "/files/guide.pdf")).toBe(false);
+    expect(isAllowedByRobots(rules, "/files/guide.pdf?v=2")).toBe(true);
+    expect(isAllowedByRobots(rules, "/")).toBe(true);
+  });
+
+  it("uses groups naming the crawler over the wildcard group", () => {
+    const rules = parseRobotsTxt("User-agent: *\nDisallow: /\n\nUser-agent: CogbaseBot\nDisallow: /drafts\n");
+
+    expect(isAllowedByRobots(rules, "/docs")).toBe(true);
+    expect(isAllowedByRobots(rules, "/drafts/1")).toBe(false);
+  });
+});
+
+describe("crawlWebsite", () => {
+  it("crawls same-origin pages breadth-first within the depth limit", async () => {
+    const { pages, summary } = await crawl("/", { maxDepth: 2 });
+
+    expect(pages.map(p => [new URL(p.url).pathname, p.depth])).toEqual([
+      ["/", 0],
+      ["/docs", 1],
+      ["/docs/setup", 2],
+    ]);
+    // Disallowed by robots.txt
+    expect(summary.pagesSkipped).toBe(1);
+
+    expect(pages[0].title).toBe("Home");
+    expect(pages[0].text).toBe("# Welcome\n\nAcme & Co. builds widgets.");
+    expect(pages[2].text).toBe("## Install\n\n- Download\n- Run\n\nDeeper");
+  });
+
+  it("stops at the page limit", async () => {
+    const { pages } = await crawl("/", { maxDepth: 5, maxPages: 2 });
+
+    expect(pages).toHaveLength(2);
+  });
+
+  it("follows same-origin redirects", async () => {
+    const { pages } = await crawl("/old", { maxDepth: 0 });
+
+    expect(pages.map(p => new URL(p.url).pathname)).toEqual(["/docs"]);
+  });
+
+  it("skips pages over the size limit whatever their content-length", async () => {
+    const { pages, summary } = await crawl("/huge", { maxDepth: 0 });
+
+    expect(pages).toEqual([]);
+    expect(summary).toMatchObject({ pagesSkipped: 1, failedUrls: [] });
+  });
+
+  it("crawls the pages listed in a sitemap index without following links", async () => {
+    const { pages, summary } = await crawl("/sitemap.xml", { maxDepth: 3 });
+
+    expect(pages.map(p => new URL(p.url).pathname)).toEqual(["/deep"]);
+    // /private/admin is disallowed, /hidden is noindex
+    expect(summary.pagesSkipped).toBe(2);
+  });
+
+  it("reports pages that failed to load apart from pages that are gone", async () => {
+    const { pages, summary } = await crawl("/moved.xml");
+
+    expect(pages.map(p => new URL(p.url).pathname)).toEqual(["/deep"]);
+    expect(summary.failedUrls).toEqual([`${origin}/flaky`]);
+    expect(summary.pagesSkipped).toBe(1);
+  });
+
+  it("refuses a start page disallowed by robots.txt", async () => {
+    await expect(crawl("/private/admin")).rejects.toThrow("robots.txt does not allow");
+  });
+
+  it("rejects private hosts unless allowed", async () => {
+    await expect(assertCrawlableUrl(`${origin}/`, false)).rejects.toThrow("private network");
+    await expect(assertCrawlableUrl("ftp://example.com/", false)).rejects.toThrow("http and https");
+  });
+
+  it("checks the address a request connects to", async () => {
+    // Resolved while connecting, so a host cannot answer the check with another address
+    const url = new URL(origin.replace("127.0.0.1", "localhost"));
+
+    await expect(fetchCheckedHost(url, {}, false)).rejects.toThrow("private network");
+    await expect(fetchCheckedHost(url, {}, true)).resolves.toMatchObject({ status: 200 });
+  });
+});
@@ -0,0 +1,566 @@
+/**
+ * Website crawler for web training sources
+ * Starting from a page or a sitemap.xml, fetches same-origin HTML pages
+ * breadth-first within depth and page limits, honouring robots.txt and
+ * robots meta tags, and hands each page's text to the caller.
+ */
+
+import { lookup as lookupHost, type LookupAddress } from "dns";
+import dns from "dns/promises";
+import http from "http";
+import https from "https";
+import net, { type LookupFunction } from "net";
+import { Readable } from "stream";
+import { ENV } from "./_core/env";
+import { decodeEntities, extractHtml } from "./htmlExtraction";
+import { PermanentJobError } from "./ingestionQueue";
+
+export const CRAWLER_USER_AGENT = "CogbaseBot/1.0 (+https://cogbase.ai/bot)";
+// Product token matched against robots.txt user-agent lines
+const ROBOTS_AGENT = "cogbasebot";
+
+export const DEFAULT_CRAWL_DEPTH = 2;
+export const DEFAULT_CRAWL_PAGES = 50;
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const MAX_SITEMAPS = 20;
+// Links to these are never HTML pages, so they are not fetched
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|tar|rar|7z|exe|dmg|jpe?g|png|gif|webp|svg|ico|bmp|mp[34]|mov|avi|webm|wav|css|js|json|woff2?|ttf|eot)$/i;
+
+export type CrawlOptions = {
+  /** Link depth followed from the start page; sitemap entries are crawled without following links */
+  maxDepth?: number;
+  maxPages?: number;
+  timeoutMs?: number;
+  /** Allow loopback and private network hosts, e.g. for local testing */
+  allowPrivateHosts?: boolean;
+};
+
+export type CrawledPage = {
+  url: string;
+  title: string;
+  text: string;
+  depth: number;
+};
+
+export type CrawlSummary = {
+  pagesCrawled: number;
+  /** URLs not stored, e.g. disallowed by robots.txt or not HTML */
+  pagesSkipped: number;
+  /** URLs that could not be fetched or answered with a server error; they may still exist */
+  failedUrls: string[];
+};
+
+// ============ ROBOTS.TXT ============
+
+export type RobotsRules = {
+  allow: string[];
+  disallow: string[];
+  sitemaps: string[];
+};
+
+/**
+ * Rules of robots.txt that apply to this crawler: the groups naming it,
+ * else the `*` groups
+ */
+export function parseRobotsTxt(text: string, agent: string = ROBOTS_AGENT): RobotsRules {
+  type Group = { agents: string[]; allow: string[]; disallow: string[] };
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let inRules = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || inRules) {
+        current = { agents: [], allow: [], disallow: [] };
+        groups.push(current);
+        inRules = false;
+      }
+      current.agents.push(value.toLowerCase());
+    } else if (field === "allow" || field === "disallow") {
+      if (!current) continue;
+      inRules = true;
+      if (value) current[field].push(value);
+    } else if (field === "sitemap") {
+      sitemaps.push(value);
+    }
+  }
+
+  const named = groups.filter(group => group.agents.some(name => name !== "*" && agent.includes(name)));
+  const applicable = named.length > 0 ? named : groups.filter(group => group.agents.includes("*"));
+
+  return {
+    allow: applicable.flatMap(group => group.allow),
+    disallow: applicable.flatMap(group => group.disallow),
+    sitemaps,
+  };
+}
+
+function matchRobotsPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Whether a path (with query) may be crawled; the longest matching rule
+ * wins and `Allow` wins ties
+ */
+export function isAllowedByRobots(rules: RobotsRules, path: string): boolean {
+  let allowed = true;
+  let matchLength = -1;
+
+  for (const [patterns, verdict] of [[rules.disallow, false], [rules.allow, true]] as const) {
+    for (const pattern of patterns) {
+      if (!matchRobotsPattern(pattern, path)) continue;
+      if (pattern.length > matchLength || (pattern.length === matchLength && verdict)) {
+        allowed = verdict;
+        matchLength = pattern.length;
+      }
+    }
+  }
+
+  return allowed;
+}
+
+// ============ SITEMAPS ============
+
+/**
+ * Page and nested sitemap URLs listed in a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locs = (block: string) =>
+    Array.from(block.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/gi), match =>
+      decodeEntities(match[1].trim())
+    );
+
+  return {
+    pages: Array.from(xml.matchAll(/<url>([\s\S]*?)<\/url>/gi)).flatMap(match => locs(match[1])),
+    sitemaps: Array.from(xml.matchAll(/<sitemap>([\s\S]*?)<\/sitemap>/gi)).flatMap(match => locs(match[1])),
+  };
+}
+
+function isSitemapUrl(url: URL): boolean {
+  return /\.xml$/i.test(url.pathname);
+}
+
+// ============ FETCHING ============
+
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+
+  const normalized = address.toLowerCase();
+  const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    /^f[cd]/.test(normalized) ||
+    /^fe[89ab]/.test(normalized)
+  );
+}
+
+/**
+ * Reject URLs the server should not fetch: non-http(s) schemes and,
+ * unless allowed, hosts resolving to loopback or private networks
+ */
+export async function assertCrawlableUrl(url: string, allowPrivateHosts: boolean = ENV.crawlerAllowPrivateHosts): Promise<URL> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new PermanentJobError(`Invalid URL: ${url}`);
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new PermanentJobError("Only http and https URLs can be crawled");
+  }
+  if (parsed.username || parsed.password) {
+    throw new PermanentJobError("URLs with credentials cannot be crawled");
+  }
+
+  if (!allowPrivateHosts) {
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, "");
+    let addresses: string[];
+    try {
+      addresses = net.isIP(hostname)
+        ? [hostname]
+        : (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch {
+      // DNS failures may be transient, so leave them retryable
+      throw new Error(`Could not resolve host ${parsed.hostname}`);
+    }
+    if (addresses.some(isPrivateAddress)) {
+      throw new PermanentJobError(`Host ${parsed.hostname} is on a private network and cannot be crawled`);
+    }
+  }
+
+  return parsed;
+}
+
+// Resolves hosts as connections are made, refusing private addresses unless allowed
+function checkedLookup(allowPrivateHosts: boolean): LookupFunction {
+  return (hostname, options, callback) => {
+    lookupHost(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+      if (error) {
+        callback(error, "");
+      } else if (!allowPrivateHosts && addresses.some(entry => isPrivateAddress(entry.address))) {
+        callback(new PermanentJobError(`Host ${hostname} is on a private network and cannot be crawled`), "");
+      } else if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * Request a URL like `fetch`, without following redirects, connecting only
+ * to addresses `assertCrawlableUrl` would accept
+ * The host is checked as the connection is made, so it cannot resolve to a
+ * public address for the check and a private one for the request.
+ */
+export function fetchCheckedHost(
+  url: URL,
+  init: { method?: string; headers?: Record<string, string>; body?: string; signal?: AbortSignal } = {},
+  allowPrivateHosts: boolean = ENV.crawlerAllowPrivateHosts
+): Promise<Response> {
+  const transport = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = transport.request(
+      url,
+      { method: init.method ?? "GET", headers: init.headers, signal: init.signal, lookup: checkedLookup(allowPrivateHosts) },
+      response => {
+        const headers = new Headers();
+        for (let i = 0; i < response.rawHeaders.length; i += 2) {
+          headers.append(response.rawHeaders[i], response.rawHeaders[i + 1]);
+        }
+        const status = response.statusCode ?? 500;
+        const hasBody = init.method !== "HEAD" && ![204, 205, 304].includes(status);
+        if (!hasBody) response.resume();
+        resolve(new Response(hasBody ? (Readable.toWeb(response) as ReadableStream<Uint8Array>) : null, {
+          status,
+          statusText: response.statusMessage,
+          headers,
+        }));
+      }
+    );
+    request.on("error", reject);
+    request.end(init.body);
+  });
+}
+
+/**
+ * A response's body, reading at most `maxBytes`; null when the body is
+ * longer, whatever its content-length said, and the rest is not downloaded
+ */
+export async function readBodyWithLimit(response: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!response.body) return new Uint8Array(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+type FetchedPage = {
+  /** Final URL after same-origin redirects */
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+};
+
+type PageFetchOptions = Required<Pick<CrawlOptions, "timeoutMs" | "allowPrivateHosts">>;
+
+/**
+ * GET a URL, following redirects only within its origin
+ * Returns null when the URL redirects to another origin. Every hop's
+ * host is checked as it is connected to; pages over the size limit come
+ * back with an empty body.
+ */
+async function fetchSameOrigin(url: string, options: PageFetchOptions): Promise<FetchedPage | null> {
+  let current = url;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await fetchCheckedHost(new URL(current), {
+      headers: { "User-Agent": CRAWLER_USER_AGENT, Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.5" },
+      signal: AbortSignal.timeout(options.timeoutMs),
+    }, options.allowPrivateHosts);
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      const next = new URL(location, current);
+      next.hash = "";
+      if (next.origin !== new URL(url).origin) return null;
+      current = next.href;
+      continue;
+    }
+
+    const length = Number(response.headers.get("content-length") ?? 0);
+    if (length > MAX_PAGE_BYTES) {
+      await response.body?.cancel();
+      return { url: current, status: response.status, contentType: "", body: "" };
+    }
+
+    // The content-length may be missing or wrong, so the download is capped too
+    const body = await readBodyWithLimit(response, MAX_PAGE_BYTES);
+    return {
+      url: current,
+      status: response.status,
+      contentType: response.headers.get("content-type")?.toLowerCase() ?? "",
+      body: body ? new TextDecoder().decode(body) : "",
+    };
+  }
+
+  return null;
+}
+
+async function fetchRobotsRules(origin: string, options: PageFetchOptions): Promise<RobotsRules> {
+  const response = await fetchSameOrigin(`${origin}/robots.txt`, options);
+
+  // Unreachable robots.txt: try again later rather than assume permission
+  if (response && response.status >= 500) {
+    throw new Error(`robots.txt returned ${response.status}`);
+  }
+  if (!response || response.status >= 400) {
+    return { allow: [], disallow: [], sitemaps: [] };
+  }
+  return parseRobotsTxt(response.body);
+}
+
+/**
+ * Same-origin page URLs listed in a sitemap, following sitemap indexes
+ */
+async function collectSitemapPages(
+  sitemapUrl: string,
+  origin: string,
+  limit: number,
+  options: PageFetchOptions
+): Promise<string[]> {
+  const pages: string[] = [];
+  const queue = [sitemapUrl];
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAPS && pages.length < limit) {
+    const url = queue.shift()!;
+    if (seen.has(url)) continue;
+    seen.add(url);
+
+    const response = await fetchSameOrigin(url, options);
+    if (!response || response.status >= 400) {
+      if (url === sitemapUrl) {
+        throw new PermanentJobError(`Sitemap could not be fetched (${response?.status ?? "redirected off-site"})`);
+      }
+      continue;
+    }
+
+    const parsed = parseSitemap(response.body);
+    for (const page of parsed.pages) {
+      if (new URL(page, url).origin === origin) pages.push(new URL(page, url).href);
+    }
+    for (const nested of parsed.sitemaps) {
+      if (new URL(nested, url).origin === origin) queue.push(new URL(nested, url).href);
+    }
+  }
+
+  return pages.slice(0, limit);
+}
+
+export type RemoteFile = {
+  /** Final URL after redirects */
+  url: string;
+  contentType: string;
+  data: Uint8Array;
+};
+
+/**
+ * Download a file source, e.g. a published PDF or CSV
+ * Redirects to other hosts are followed, each hop checked like the
+ * original URL.
+ */
+export async function fetchRemoteFile(
+  url: string,
+  options: Pick<CrawlOptions, "timeoutMs" | "allowPrivateHosts"> = {}
+): Promise<RemoteFile> {
+  const allowPrivateHosts = options.allowPrivateHosts ?? ENV.crawlerAllowPrivateHosts;
+  let current = (await assertCrawlableUrl(url, allowPrivateHosts)).href;
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await fetchCheckedHost(new URL(current), {
+      headers: { "User-Agent": CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(options.timeoutMs ?? 30_000),
+    }, allowPrivateHosts);
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = (await assertCrawlableUrl(new URL(location, current).href, allowPrivateHosts)).href;
+      continue;
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      await response.body?.cancel();
+      throw new PermanentJobError(`File not found at ${url} (${response.status})`);
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Failed to fetch ${url} (${response.status} ${response.statusText})`);
+    }
+
+    const data = await readBodyWithLimit(response, MAX_PAGE_BYTES);
+    if (!data) {
+      throw new PermanentJobError("File exceeds 10MB limit");
+    }
+    return {
+      url: current,
+      contentType: response.headers.get("content-type")?.toLowerCase() ?? "",
+      data,
+    };
+  }
+
+  throw new PermanentJobError(`Too many redirects fetching ${url}`);
+}
+
+function isHtml(contentType: string): boolean {
+  return contentType.includes("text/html") || contentType.includes("application/xhtml+xml");
+}
+
+// ============ CRAWLING ============
+
+/**
+ * Crawl a website from a start page or sitemap.xml
+ * Only pages on the start URL's origin are fetched. `onPage` is called
+ * for every indexable page with text, in crawl order.
+ */
+export async function crawlWebsite(
+  startUrl: string,
+  options: CrawlOptions,
+  onPage: (page: CrawledPage) => Promise<void>
+): Promise<CrawlSummary> {
+  const maxDepth = options.maxDepth ?? DEFAULT_CRAWL_DEPTH;
+  const maxPages = options.maxPages ?? DEFAULT_CRAWL_PAGES;
+  const fetching: PageFetchOptions = {
+    timeoutMs: options.timeoutMs ?? 15_000,
+    allowPrivateHosts: options.allowPrivateHosts ?? ENV.crawlerAllowPrivateHosts,
+  };
+
+  const start = await assertCrawlableUrl(startUrl, fetching.allowPrivateHosts);
+  start.hash = "";
+  const origin = start.origin;
+  const robots = await fetchRobotsRules(origin, fetching);
+  const allowed = (url: URL) => isAllowedByRobots(robots, url.pathname + url.search);
+
+  const fromSitemap = isSitemapUrl(start);
+  const queue: { url: string; depth: number }[] = fromSitemap
+    ? (await collectSitemapPages(start.href, origin, maxPages * 2, fetching)).map(url => ({ url, depth: 0 }))
+    : [{ url: start.href, depth: 0 }];
+
+  if (!fromSitemap && !allowed(start)) {
+    throw new PermanentJobError(`robots.txt does not allow crawling ${start.href}`);
+  }
+
+  const seen = new Set(queue.map(entry => entry.url));
+  let pagesCrawled = 0;
+  let pagesSkipped = 0;
+  const failedUrls: string[] = [];
+
+  while (queue.length > 0 && pagesCrawled < maxPages) {
+    const { url, depth } = queue.shift()!;
+    if (!allowed(new URL(url))) {
+      pagesSkipped++;
+      continue;
+    }
+
+    let response: FetchedPage | null;
+    try {
+      response = await fetchSameOrigin(url, fetching);
+    } catch (error) {
+      // One unreachable page should not fail the whole crawl
+      console.warn(`[Crawler] Failed to fetch ${url}:`, error);
+      failedUrls.push(url);
+      continue;
+    }
+
+    if (response && (response.status >= 500 || response.status === 429)) {
+      failedUrls.push(url);
+      continue;
+    }
+    if (!response || response.status >= 400 || !isHtml(response.contentType)) {
+      pagesSkipped++;
+      continue;
+    }
+
+    // A same-origin redirect may land on a page already queued or disallowed
+    const finalUrl = new URL(response.url);
+    if (response.url !== url && (seen.has(response.url) || !allowed(finalUrl))) {
+      pagesSkipped++;
+      continue;
+    }
+    seen.add(response.url);
+
+    const page = extractHtml(response.body, response.url);
+
+    if (!fromSitemap && depth < maxDepth && !page.nofollow) {
+      for (const link of page.links) {
+        const linkUrl = new URL(link);
+        if (linkUrl.origin !== origin || seen.has(link) || NON_PAGE_EXTENSIONS.test(linkUrl.pathname)) continue;
+        seen.add(link);
+        queue.push({ url: link, depth: depth + 1 });
+      }
+    }
+
+    if (page.noindex || !page.text) {
+      pagesSkipped++;
+      continue;
+    }
+
+    await onPage({ url: response.url, title: page.title, text: page.text, depth });
+    pagesCrawled++;
+  }
+
+  return { pagesCrawled, pagesSkipped, failedUrls };
+}
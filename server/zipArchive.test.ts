@@ -0,0 +1,111 @@
+import { crc32, deflateRawSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ZIP_LIMITS, readZipArchive, sanitizeArchivePath } from "./zipArchive";
+
+type TestEntry = {
+  name: string;
+  data?: Buffer;
+  deflate?: boolean;
+  /** Uncompressed size written to the headers, when it should lie */
+  declaredSize?: number;
+};
+
+/**
+ * Build a ZIP archive with stored or deflated entries
+ */
+function buildZip(entries: TestEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const data = entry.data ?? Buffer.alloc(0);
+    const compressed = entry.deflate ? deflateRawSync(data) : data;
+    const name = Buffer.from(entry.name, "utf8");
+    const size = entry.declaredSize ?? data.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe("readZipArchive", () => {
+  it("reads stored and deflated files and leaves out directories", () => {
+    const zip = buildZip([
+      { name: "docs/" },
+      { name: "docs/faq.md", data: Buffer.from("# FAQ\nRefunds take 30 days."), deflate: true },
+      { name: "./notes.txt", data: Buffer.from("Shipping is free.") },
+    ]);
+
+    const entries = readZipArchive(zip);
+
+    expect(entries.map(entry => [entry.path, entry.error, entry.read().toString()])).toEqual([
+      ["docs/faq.md", null, "# FAQ\nRefunds take 30 days."],
+      ["notes.txt", null, "Shipping is free."],
+    ]);
+  });
+
+  it("rejects entries that escape the archive", () => {
+    expect(sanitizeArchivePath("a\\b/./c.txt")).toBe("a/b/c.txt");
+    expect(() => sanitizeArchivePath("/etc/passwd")).toThrow("Absolute path");
+    expect(() => sanitizeArchivePath("C:\\boot.ini")).toThrow("Absolute path");
+
+    // Only the unsafe entry fails; the rest of the archive is still read
+    const [evil, notes] = readZipArchive(buildZip([
+      { name: "docs/../../evil.sh", data: Buffer.from("x") },
+      { name: "notes.txt", data: Buffer.from("Shipping is free.") },
+    ]));
+    expect(evil).toMatchObject({ path: "docs/../../evil.sh", error: "Path traversal not allowed: docs/../../evil.sh" });
+    expect(() => evil.read()).toThrow("Path traversal");
+    expect(notes).toMatchObject({ path: "notes.txt", error: null });
+  });
+
+  it("guards against zip bombs", () => {
+    const zeros = Buffer.alloc(2 * 1024 * 1024);
+    const [bomb] = readZipArchive(buildZip([{ name: "zeros.txt", data: zeros, deflate: true }]));
+    expect(bomb.error).toBe("Suspicious compression ratio");
+    expect(() => bomb.read()).toThrow("Suspicious compression ratio");
+
+    // Inflation stops at the declared size instead of trusting the header
+    const [liar] = readZipArchive(
+      buildZip([{ name: "small.txt", data: Buffer.alloc(50_000, "a"), deflate: true, declaredSize: 100 }])
+    );
+    expect(() => liar.read()).toThrow("Corrupt ZIP entry");
+
+    const many = buildZip(Array.from({ length: 3 }, (_, i) => ({ name: `${i}.txt`, data: Buffer.from("x") })));
+    expect(() => readZipArchive(many, { ...DEFAULT_ZIP_LIMITS, maxEntries: 2 })).toThrow("at most 2");
+    expect(() => readZipArchive(many, { ...DEFAULT_ZIP_LIMITS, maxTotalBytes: 2 })).toThrow("expands to more than");
+  });
+
+  it("rejects data that is not a ZIP archive", () => {
+    expect(() => readZipArchive(Buffer.from("just some text, not an archive"))).toThrow("Not a ZIP archive");
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Minimal ZIP reader for uploaded archives
+ * Reads the central directory and inflates entries one at a time, with
+ * limits against zip bombs: entry count, per-entry and total sizes and the
+ * compression ratio are checked before inflating, and inflation stops at
+ * the declared size. Entry paths are sanitised against path traversal; an
+ * entry whose path escapes the archive cannot be read.
+ */
+
+import { crc32, inflateRawSync } from "zlib";
+
+export type ZipLimits = {
+  maxEntries: number;
+  /** Largest uncompressed file */
+  maxEntryBytes: number;
+  /** Largest total of all uncompressed files */
+  maxTotalBytes: number;
+  /** Largest uncompressed/compressed ratio for entries over 1MB */
+  maxCompressionRatio: number;
+};
+
+export const DEFAULT_ZIP_LIMITS: ZipLimits = {
+  maxEntries: 1000,
+  maxEntryBytes: 10 * 1024 * 1024,
+  maxTotalBytes: 200 * 1024 * 1024,
+  maxCompressionRatio: 100,
+};
+
+export type ZipEntry = {
+  /** Sanitised relative path, using `/`; the raw name when it cannot be sanitised */
+  path: string;
+  size: number;
+  /** Why the entry cannot be read, e.g. encrypted or too large; null when readable */
+  error: string | null;
+  read(): Buffer;
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const EOCD_MIN_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+
+/**
+ * Relative path of an archive entry with `/` separators; throws on
+ * absolute paths and `..` segments
+ */
+export function sanitizeArchivePath(name: string): string {
+  const path = name.replace(/\\/g, "/");
+  if (path.startsWith("/") || /^[a-zA-Z]:/.test(path)) {
+    throw new Error(`Absolute path not allowed: ${name}`);
+  }
+
+  const segments = path.split("/").filter(segment => segment !== "" && segment !== ".");
+  if (segments.some(segment => segment === "..")) {
+    throw new Error(`Path traversal not allowed: ${name}`);
+  }
+  if (segments.some(segment => segment.includes("\0"))) {
+    throw new Error(`Invalid path: ${name}`);
+  }
+  return segments.join("/");
+}
+
+// Sanitised path of an entry, or its raw name and why it is unsafe
+function checkEntryPath(name: string): { path: string; error: string | null } {
+  try {
+    return { path: sanitizeArchivePath(name), error: null };
+  } catch (error) {
+    return { path: name, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Files of a ZIP archive; directories are left out. Throws when the data
+ * is not a readable ZIP or the archive as a whole exceeds the limits.
+ */
+export function readZipArchive(data: Buffer, limits: ZipLimits = DEFAULT_ZIP_LIMITS): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(data);
+  const entryCount = data.readUInt16LE(eocd + 10);
+  const directorySize = data.readUInt32LE(eocd + 12);
+  const directoryOffset = data.readUInt32LE(eocd + 16);
+
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+  if (entryCount > limits.maxEntries) {
+    throw new Error(`Archive has ${entryCount} entries; at most ${limits.maxEntries} are allowed`);
+  }
+  if (directoryOffset + directorySize > eocd) {
+    throw new Error("Corrupt ZIP archive: central directory out of range");
+  }
+
+  const entries: ZipEntry[] = [];
+  let totalBytes = 0;
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > eocd || data.readUInt32LE(offset) !== CENTRAL_SIGNATURE) {
+      throw new Error("Corrupt ZIP archive: bad central directory entry");
+    }
+
+    const flags = data.readUInt16LE(offset + 8);
+    const method = data.readUInt16LE(offset + 10);
+    const crc = data.readUInt32LE(offset + 16);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const size = data.readUInt32LE(offset + 24);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const rawName = data.subarray(offset + 46, offset + 46 + nameLength).toString("utf8");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories carry no content
+    if (rawName.endsWith("/") || rawName.endsWith("\\")) continue;
+
+    totalBytes += size;
+    if (totalBytes > limits.maxTotalBytes) {
+      throw new Error(`Archive expands to more than ${limits.maxTotalBytes} bytes`);
+    }
+
+    const { path, error: pathError } = checkEntryPath(rawName);
+    let error: string | null = null;
+    if (pathError) {
+      error = pathError;
+    } else if (flags & FLAG_ENCRYPTED) {
+      error = "Encrypted entries are not supported";
+    } else if (method !== METHOD_STORED && method !== METHOD_DEFLATE) {
+      error = `Unsupported compression method ${method}`;
+    } else if (size > limits.maxEntryBytes) {
+      error = `File is larger than ${limits.maxEntryBytes} bytes`;
+    } else if (size > RATIO_CHECK_MIN_BYTES && size > compressedSize * limits.maxCompressionRatio) {
+      error = "Suspicious compression ratio";
+    }
+
+    entries.push({
+      path,
+      size,
+      error,
+      read: () => {
+        if (error) throw new Error(error);
+        return readEntry(data, localOffset, method, compressedSize, size, crc);
+      },
+    });
+  }
+
+  return entries;
+}
+
+function findEndOfCentralDirectory(data: Buffer): number {
+  const start = Math.max(0, data.length - EOCD_MIN_SIZE - MAX_COMMENT_SIZE);
+  for (let offset = data.length - EOCD_MIN_SIZE; offset >= start; offset--) {
+    if (data.readUInt32LE(offset) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error("Not a ZIP archive");
+}
+
+function readEntry(
+  data: Buffer,
+  localOffset: number,
+  method: number,
+  compressedSize: number,
+  size: number,
+  crc: number
+): Buffer {
+  if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== LOCAL_SIGNATURE) {
+    throw new Error("Corrupt ZIP entry: bad local header");
+  }
+  const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+  if (start + compressedSize > data.length) {
+    throw new Error("Corrupt ZIP entry: data out of range");
+  }
+  const compressed = data.subarray(start, start + compressedSize);
+
+  let content: Buffer;
+  if (method === METHOD_STORED) {
+    content = compressed;
+  } else {
+    try {
+      // Inflating past the declared size means the header lied
+      content = size === 0 ? Buffer.alloc(0) : inflateRawSync(compressed, { maxOutputLength: size });
+    } catch {
+      throw new Error("Corrupt ZIP entry: content does not match its declared size");
+    }
+  }
+
+  if (content.length !== size || crc32(content) !== crc) {
+    throw new Error("Corrupt ZIP entry: checksum mismatch");
+  }
+  return content;
+}
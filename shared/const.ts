@@ -3,3 +3,13 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+
+// Phrases that hand a chat session to an operator, for agents without their own list
+export const DEFAULT_HANDOFF_KEYWORDS = [
+  "talk to a human",
+  "speak to a human",
+  "real person",
+  "live agent",
+  "human agent",
+  "talk to someone",
+];
@@ -0,0 +1,62 @@
+/**
+ * Server-sent events
+ * Read from the LLM's streamed completions on the server and from the chat
+ * stream in the browser.
+ */
+
+export type ServerSentEvent = {
+  /** "message" for events without an event name */
+  event: string;
+  data: string;
+};
+
+/**
+ * Events of a `text/event-stream` body in the order they arrive
+ * Comments and `id`/`retry` fields are ignored. Stopping early cancels the
+ * body, which ends the underlying request.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = "";
+  let data: string[] = [];
+  let finished = false;
+
+  try {
+    while (!finished) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      // The last line may be incomplete until the body ends
+      buffer = done ? "" : lines.pop() ?? "";
+      if (done) lines.push("");
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith("\r") ? rawLine.slice(0, -1) : rawLine;
+        if (line === "") {
+          if (data.length > 0) {
+            yield { event: event || "message", data: data.join("\n") };
+          }
+          event = "";
+          data = [];
+          continue;
+        }
+        if (line.startsWith(":")) continue;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") event = fieldValue;
+        else if (field === "data") data.push(fieldValue);
+      }
+    }
+  } finally {
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
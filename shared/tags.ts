@@ -0,0 +1,84 @@
+/**
+ * Document access tags and retrieval filters
+ * Documents carry tags such as `product:pro` or `tier:gold,platinum`,
+ * which their chunks inherit. A filter in the same syntax limits retrieval
+ * to chunks matching every key of the filter; a chunk with no tag for a
+ * key is shared content and matches any value of it.
+ */
+
+import type { DocumentTags } from "../drizzle/schema";
+
+export type TagFilter = DocumentTags;
+
+const TAG_KEY = /^[a-z0-9_.-]{1,64}$/;
+const TAG_VALUE = /^[^\s,:]{1,128}$/;
+
+/**
+ * Lowercase and de-duplicate tags given as `{ key: value | values }`;
+ * throws on malformed keys or values
+ */
+export function normalizeTags(tags: Record<string, string | string[]>): DocumentTags {
+  const normalized: DocumentTags = {};
+
+  for (const [rawKey, rawValues] of Object.entries(tags)) {
+    const key = rawKey.trim().toLowerCase();
+    if (!TAG_KEY.test(key)) {
+      throw new Error(`Invalid tag name: ${rawKey}`);
+    }
+
+    const values = (Array.isArray(rawValues) ? rawValues : [rawValues]).map(value => value.trim().toLowerCase());
+    for (const value of values) {
+      if (!TAG_VALUE.test(value)) {
+        throw new Error(`Invalid value for tag ${key}: ${value || "(empty)"}`);
+      }
+    }
+
+    normalized[key] = Array.from(new Set([...(normalized[key] ?? []), ...values]));
+  }
+
+  return normalized;
+}
+
+/**
+ * Parse `key:value[,value] key:value` into tags
+ */
+export function parseTagExpression(expression: string): DocumentTags {
+  const tags: Record<string, string[]> = {};
+
+  for (const clause of expression.trim().split(/\s+/).filter(Boolean)) {
+    const separator = clause.indexOf(":");
+    if (separator <= 0) {
+      throw new Error(`Expected key:value, got "${clause}"`);
+    }
+    const key = clause.slice(0, separator);
+    tags[key] = [...(tags[key] ?? []), ...clause.slice(separator + 1).split(",")];
+  }
+
+  return normalizeTags(tags);
+}
+
+export function formatTagExpression(tags: DocumentTags | null | undefined): string {
+  return Object.entries(tags ?? {})
+    .map(([key, values]) => `${key}:${values.join(",")}`)
+    .join(" ");
+}
+
+/**
+ * Tags from an expression or an object, e.g. from API input or session
+ * metadata; null when there are none
+ */
+export function toTags(input: string | Record<string, string | string[]> | null | undefined): DocumentTags | null {
+  if (input === null || input === undefined) return null;
+  const tags = typeof input === "string" ? parseTagExpression(input) : normalizeTags(input);
+  return Object.keys(tags).length > 0 ? tags : null;
+}
+
+/**
+ * Whether content with the given tags may be used under a filter
+ */
+export function matchesTagFilter(tags: DocumentTags | null | undefined, filter: TagFilter): boolean {
+  return Object.entries(filter).every(([key, allowed]) => {
+    const values = tags?.[key];
+    return !values || values.length === 0 || values.some(value => allowed.includes(value));
+  });
+}
@@ -5,3 +5,36 @@
 
 export type * from "../drizzle/schema";
 export * from "./_core/errors";
+
+/**
+ * Training document chunk cited by an assistant reply
+ * Stored under `citations` in the reply's `chatMessages.metadata`.
+ */
+export type ChatCitation = {
+  /** Number the chunk was labelled with in the prompt, e.g. [1] */
+  label: number;
+  documentId: number;
+  documentName: string;
+  /** Position in the document when cited; may change when it is re-indexed */
+  chunkIndex: number;
+  /** PDF page the chunk was taken from */
+  page?: number;
+  /** Retrieval score of the chunk */
+  score: number;
+  /** Relevance from the agent's reranker, 0-1, when reranking is on */
+  rerankScore?: number;
+  /** The chunk's text as the model read it; missing on older citations */
+  content?: string;
+};
+
+/**
+ * Tool call made while generating a reply
+ * Stored as the `metadata` of the call's `tool` chat message, whose content
+ * is the result given back to the model.
+ */
+export type ToolCallStep = {
+  toolCall: { id: string; name: string; arguments: unknown };
+  status: "ok" | "error";
+  /** Round of tool calls the call was made in, from 1 */
+  round: number;
+};